@@ -1,6 +1,8 @@
+import { setTimeout as delay } from 'node:timers/promises';
 import {
   deleteView,
   getElementById,
+  getEvents,
   getFolders,
   getHealth,
   getModelDiagnostics,
@@ -51,6 +53,7 @@ import type {
   ScriptRunResponse,
   SearchRequest,
   SearchResponse,
+  ServerEvent,
   ShutdownResponse,
   StatsResponse,
   TestResponse,
@@ -69,6 +72,9 @@ interface ClientFieldsResult<TData = unknown, TError = unknown> {
   request?: Request;
 }
 
+/** Wait between GET /events reconnects while watching for model changes. */
+const MODEL_EVENTS_RETRY_MS = 5000;
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -142,17 +148,26 @@ function isApplyRequest(body: {
   return true;
 }
 
-function createTimeoutFetch(timeoutMs: number): typeof fetch {
+function withApiToken(input: Parameters<typeof fetch>[0], init: RequestInit | undefined, apiToken?: string) {
+  const request = new Request(input, init);
+  if (apiToken && !request.headers.has('authorization')) {
+    request.headers.set('Authorization', `Bearer ${apiToken}`);
+  }
+  return request;
+}
+
+function createTimeoutFetch(timeoutMs: number, apiToken?: string): typeof fetch {
   return async (input, init) => {
+    const request = withApiToken(input, init, apiToken);
     if (init?.signal) {
-      return fetch(input, init);
+      return fetch(request);
     }
 
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      return await fetch(input, { ...init, signal: controller.signal });
+      return await fetch(request, { signal: controller.signal });
     } finally {
       clearTimeout(timer);
     }
@@ -223,7 +238,7 @@ export class ArchiApiClient {
     this.apiClient = createClient(
       createConfig({
         baseUrl: config.apiBaseUrl,
-        fetch: createTimeoutFetch(config.requestTimeoutMs),
+        fetch: createTimeoutFetch(config.requestTimeoutMs, config.apiToken),
       }),
     );
   }
@@ -252,6 +267,13 @@ export class ArchiApiClient {
           : extractErrorMessage(result.error) ?? `Archi API request failed with status ${status}.`;
       const code = extractErrorCode(result.error);
 
+      if (status === 401) {
+        const hint = this.config.apiToken
+          ? 'The Archi API rejected ARCHI_API_TOKEN; check it matches the token the server was started with.'
+          : 'The Archi API requires a token; set ARCHI_API_TOKEN in the MCP server environment.';
+        throw new ArchiApiError(`${message}\nHint: ${hint}`, status, 'UNAUTHORIZED', serializeError(result.error));
+      }
+
       throw new ArchiApiError(message, status, code, serializeError(result.error));
     }
 
@@ -313,8 +335,8 @@ export class ArchiApiClient {
     return this.unwrap<StatsResponse>(getModelStats({ client: this.apiClient }));
   }
 
-  getFolders(): Promise<FolderListResponse> {
-    return this.unwrap<FolderListResponse>(getFolders({ client: this.apiClient }));
+  getFolders(query?: { includeChildren?: boolean }): Promise<FolderListResponse> {
+    return this.unwrap<FolderListResponse>(getFolders({ client: this.apiClient, query }));
   }
 
   postModelApply(body: {
@@ -366,6 +388,81 @@ export class ArchiApiClient {
     );
   }
 
+  /**
+   * Subscribe to GET /events for an operation's terminal event. Resolves once the stream is
+   * connected; `terminal` then settles `true` when `operation.complete` or `operation.error`
+   * arrives for `opId` (`false` if the stream ends first). Resolves `null` when the server
+   * has no event stream so callers can fall back to polling. Abort `signal` to unsubscribe.
+   */
+  async watchOperationEvents(
+    opId: string,
+    signal: AbortSignal,
+  ): Promise<{ terminal: Promise<boolean> } | null> {
+    let markConnected: (connected: boolean) => void = () => undefined;
+    const connected = new Promise<boolean>((resolve) => {
+      markConnected = resolve;
+    });
+
+    const terminal = (async () => {
+      try {
+        const { stream } = await getEvents({
+          client: this.apiClient,
+          query: { types: 'operation.complete,operation.error' },
+          signal,
+          // The request timeout would cut the stream; `signal` bounds the wait instead
+          fetch: (input, init) => fetch(withApiToken(input, init, this.config.apiToken)),
+          // The server opens every stream with a comment, so the first message means subscribed
+          onSseEvent: () => markConnected(true),
+          sseMaxRetryAttempts: 1,
+        });
+        for await (const event of stream as AsyncGenerator<ServerEvent>) {
+          if (isRecord(event) && isRecord(event.data) && event.data.opId === opId) {
+            return true;
+          }
+        }
+      } catch {
+        // Stream unavailable or aborted
+      }
+      return false;
+    })();
+    void terminal.then(() => markConnected(false));
+    const timer = setTimeout(() => markConnected(false), this.config.requestTimeoutMs);
+
+    try {
+      return (await connected) ? { terminal } : null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Subscribe to GET /events for `model.changed` and call `onChange` for each event until
+   * `signal` aborts. Reconnects after `MODEL_EVENTS_RETRY_MS` when the stream fails or ends,
+   * so Archi Server may start after this client.
+   */
+  async watchModelChanges(signal: AbortSignal, onChange: (event: ServerEvent) => void): Promise<void> {
+    while (!signal.aborted) {
+      try {
+        const { stream } = await getEvents({
+          client: this.apiClient,
+          query: { types: 'model.changed' },
+          signal,
+          fetch: (input, init) => fetch(withApiToken(input, init, this.config.apiToken)),
+          sseMaxRetryAttempts: 1,
+        });
+        for await (const event of stream as AsyncGenerator<ServerEvent>) {
+          if (isRecord(event) && event.type === 'model.changed') {
+            onChange(event);
+          }
+        }
+      } catch {
+        // Stream unavailable or aborted
+      }
+
+      await delay(MODEL_EVENTS_RETRY_MS, undefined, { signal, ref: false }).catch(() => undefined);
+    }
+  }
+
   postScriptsRun(body: ScriptRunRequest): Promise<ScriptRunResponse> {
     return this.unwrap<ScriptRunResponse>(postScriptsRun({ client: this.apiClient, body }));
   }
@@ -2,7 +2,7 @@
 
 import { client } from './client.gen.js';
 import type { Client, Options as Options2, TDataShape } from './client/index.js';
-import type { DeleteViewData, DeleteViewErrors, DeleteViewResponses, GetElementByIdData, GetElementByIdErrors, GetElementByIdResponses, GetFoldersData, GetFoldersErrors, GetFoldersResponses, GetHealthData, GetHealthResponses, GetModelDiagnosticsData, GetModelDiagnosticsErrors, GetModelDiagnosticsResponses, GetModelStatsData, GetModelStatsErrors, GetModelStatsResponses, GetOpsListData, GetOpsListErrors, GetOpsListResponses, GetOpsStatusData, GetOpsStatusErrors, GetOpsStatusResponses, GetTestData, GetTestResponses, GetViewByIdData, GetViewByIdErrors, GetViewByIdResponses, GetViewsData, GetViewsErrors, GetViewsResponses, GetViewValidateData, GetViewValidateErrors, GetViewValidateResponses, PostModelApplyData, PostModelApplyErrors, PostModelApplyResponses, PostModelPlanData, PostModelPlanErrors, PostModelPlanResponses, PostModelQueryData, PostModelQueryErrors, PostModelQueryResponses, PostModelSaveData, PostModelSaveErrors, PostModelSaveResponses, PostModelSearchData, PostModelSearchErrors, PostModelSearchResponses, PostScriptsRunData, PostScriptsRunErrors, PostScriptsRunResponses, PostShutdownData, PostShutdownResponses, PostViewDuplicateData, PostViewDuplicateErrors, PostViewDuplicateResponses, PostViewExportData, PostViewExportErrors, PostViewExportResponses, PostViewLayoutData, PostViewLayoutErrors, PostViewLayoutResponses, PostViewsData, PostViewsErrors, PostViewsResponses, PutViewRouterData, PutViewRouterErrors, PutViewRouterResponses } from './types.gen.js';
+import type { DeleteViewData, DeleteViewErrors, DeleteViewResponses, GetElementByIdData, GetElementByIdErrors, GetElementByIdResponses, GetEventsData, GetEventsErrors, GetEventsResponses, GetFoldersData, GetFoldersErrors, GetFoldersResponses, GetHealthData, GetHealthResponses, GetModelDiagnosticsData, GetModelDiagnosticsErrors, GetModelDiagnosticsResponses, GetModelStatsData, GetModelStatsErrors, GetModelStatsResponses, GetOpsListData, GetOpsListErrors, GetOpsListResponses, GetOpsStatusData, GetOpsStatusErrors, GetOpsStatusResponses, GetTestData, GetTestResponses, GetViewByIdData, GetViewByIdErrors, GetViewByIdResponses, GetViewsData, GetViewsErrors, GetViewsResponses, GetViewValidateData, GetViewValidateErrors, GetViewValidateResponses, PostModelApplyData, PostModelApplyErrors, PostModelApplyResponses, PostModelPlanData, PostModelPlanErrors, PostModelPlanResponses, PostModelQueryData, PostModelQueryErrors, PostModelQueryResponses, PostModelSaveData, PostModelSaveErrors, PostModelSaveResponses, PostModelSearchData, PostModelSearchErrors, PostModelSearchResponses, PostScriptsRunData, PostScriptsRunErrors, PostScriptsRunResponses, PostShutdownData, PostShutdownResponses, PostViewDuplicateData, PostViewDuplicateErrors, PostViewDuplicateResponses, PostViewExportData, PostViewExportErrors, PostViewExportResponses, PostViewLayoutData, PostViewLayoutErrors, PostViewLayoutResponses, PostViewsData, PostViewsErrors, PostViewsResponses, PutViewRouterData, PutViewRouterErrors, PutViewRouterResponses } from './types.gen.js';
 
 export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends boolean = boolean> = Options2<TData, ThrowOnError> & {
     /**
@@ -25,7 +25,11 @@ export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends
  * operation queue statistics, and model information.
  *
  */
-export const getHealth = <ThrowOnError extends boolean = false>(options?: Options<GetHealthData, ThrowOnError>) => (options?.client ?? client).get<GetHealthResponses, unknown, ThrowOnError>({ url: '/health', ...options });
+export const getHealth = <ThrowOnError extends boolean = false>(options?: Options<GetHealthData, ThrowOnError>) => (options?.client ?? client).get<GetHealthResponses, unknown, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/health',
+    ...options
+});
 
 /**
  * UI thread test
@@ -34,7 +38,11 @@ export const getHealth = <ThrowOnError extends boolean = false>(options?: Option
  * Returns thread information and model reference status.
  *
  */
-export const getTest = <ThrowOnError extends boolean = false>(options?: Options<GetTestData, ThrowOnError>) => (options?.client ?? client).get<GetTestResponses, unknown, ThrowOnError>({ url: '/test', ...options });
+export const getTest = <ThrowOnError extends boolean = false>(options?: Options<GetTestData, ThrowOnError>) => (options?.client ?? client).get<GetTestResponses, unknown, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/test',
+    ...options
+});
 
 /**
  * Trigger server shutdown
@@ -43,7 +51,11 @@ export const getTest = <ThrowOnError extends boolean = false>(options?: Options<
  * operations to complete (up to configured timeout) before stopping.
  *
  */
-export const postShutdown = <ThrowOnError extends boolean = false>(options?: Options<PostShutdownData, ThrowOnError>) => (options?.client ?? client).post<PostShutdownResponses, unknown, ThrowOnError>({ url: '/shutdown', ...options });
+export const postShutdown = <ThrowOnError extends boolean = false>(options?: Options<PostShutdownData, ThrowOnError>) => (options?.client ?? client).post<PostShutdownResponses, unknown, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/shutdown',
+    ...options
+});
 
 /**
  * Model diagnostics and orphan detection
@@ -56,7 +68,11 @@ export const postShutdown = <ThrowOnError extends boolean = false>(options?: Opt
  * relationships found via EMF-level traversal.
  *
  */
-export const getModelDiagnostics = <ThrowOnError extends boolean = false>(options?: Options<GetModelDiagnosticsData, ThrowOnError>) => (options?.client ?? client).get<GetModelDiagnosticsResponses, GetModelDiagnosticsErrors, ThrowOnError>({ url: '/model/diagnostics', ...options });
+export const getModelDiagnostics = <ThrowOnError extends boolean = false>(options?: Options<GetModelDiagnosticsData, ThrowOnError>) => (options?.client ?? client).get<GetModelDiagnosticsResponses, GetModelDiagnosticsErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/model/diagnostics',
+    ...options
+});
 
 /**
  * Query model snapshot
@@ -67,6 +83,7 @@ export const getModelDiagnostics = <ThrowOnError extends boolean = false>(option
  *
  */
 export const postModelQuery = <ThrowOnError extends boolean = false>(options?: Options<PostModelQueryData, ThrowOnError>) => (options?.client ?? client).post<PostModelQueryResponses, PostModelQueryErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/model/query',
     ...options,
     headers: {
@@ -83,6 +100,7 @@ export const postModelQuery = <ThrowOnError extends boolean = false>(options?: O
  *
  */
 export const postModelPlan = <ThrowOnError extends boolean = false>(options: Options<PostModelPlanData, ThrowOnError>) => (options.client ?? client).post<PostModelPlanResponses, PostModelPlanErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/model/plan',
     ...options,
     headers: {
@@ -99,6 +117,7 @@ export const postModelPlan = <ThrowOnError extends boolean = false>(options: Opt
  *
  */
 export const postModelSearch = <ThrowOnError extends boolean = false>(options?: Options<PostModelSearchData, ThrowOnError>) => (options?.client ?? client).post<PostModelSearchResponses, PostModelSearchErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/model/search',
     ...options,
     headers: {
@@ -117,7 +136,11 @@ export const postModelSearch = <ThrowOnError extends boolean = false>(options?:
  * - Views containing the element
  *
  */
-export const getElementById = <ThrowOnError extends boolean = false>(options: Options<GetElementByIdData, ThrowOnError>) => (options.client ?? client).get<GetElementByIdResponses, GetElementByIdErrors, ThrowOnError>({ url: '/model/element/{elementId}', ...options });
+export const getElementById = <ThrowOnError extends boolean = false>(options: Options<GetElementByIdData, ThrowOnError>) => (options.client ?? client).get<GetElementByIdResponses, GetElementByIdErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/model/element/{elementId}',
+    ...options
+});
 
 /**
  * Save model to disk
@@ -133,6 +156,7 @@ export const getElementById = <ThrowOnError extends boolean = false>(options: Op
  *
  */
 export const postModelSave = <ThrowOnError extends boolean = false>(options?: Options<PostModelSaveData, ThrowOnError>) => (options?.client ?? client).post<PostModelSaveResponses, PostModelSaveErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/model/save',
     ...options,
     headers: {
@@ -151,16 +175,26 @@ export const postModelSave = <ThrowOnError extends boolean = false>(options?: Op
  * traversing the live model. The snapshot is refreshed after mutations.
  *
  */
-export const getModelStats = <ThrowOnError extends boolean = false>(options?: Options<GetModelStatsData, ThrowOnError>) => (options?.client ?? client).get<GetModelStatsResponses, GetModelStatsErrors, ThrowOnError>({ url: '/model/stats', ...options });
+export const getModelStats = <ThrowOnError extends boolean = false>(options?: Options<GetModelStatsData, ThrowOnError>) => (options?.client ?? client).get<GetModelStatsResponses, GetModelStatsErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/model/stats',
+    ...options
+});
 
 /**
  * List all folders
  *
  * Returns the complete folder hierarchy of the model.
  * Includes folder type, element count, and subfolder count.
+ * Set includeChildren=true to also list the IDs of concepts and views
+ * stored directly in each folder.
  *
  */
-export const getFolders = <ThrowOnError extends boolean = false>(options?: Options<GetFoldersData, ThrowOnError>) => (options?.client ?? client).get<GetFoldersResponses, GetFoldersErrors, ThrowOnError>({ url: '/folders', ...options });
+export const getFolders = <ThrowOnError extends boolean = false>(options?: Options<GetFoldersData, ThrowOnError>) => (options?.client ?? client).get<GetFoldersResponses, GetFoldersErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/folders',
+    ...options
+});
 
 /**
  * Apply changes asynchronously
@@ -184,6 +218,7 @@ export const getFolders = <ThrowOnError extends boolean = false>(options?: Optio
  *
  */
 export const postModelApply = <ThrowOnError extends boolean = false>(options: Options<PostModelApplyData, ThrowOnError>) => (options.client ?? client).post<PostModelApplyResponses, PostModelApplyErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/model/apply',
     ...options,
     headers: {
@@ -198,7 +233,11 @@ export const postModelApply = <ThrowOnError extends boolean = false>(options: Op
  * Returns the current status of an async operation queued via `/model/apply`.
  *
  */
-export const getOpsStatus = <ThrowOnError extends boolean = false>(options: Options<GetOpsStatusData, ThrowOnError>) => (options.client ?? client).get<GetOpsStatusResponses, GetOpsStatusErrors, ThrowOnError>({ url: '/ops/status', ...options });
+export const getOpsStatus = <ThrowOnError extends boolean = false>(options: Options<GetOpsStatusData, ThrowOnError>) => (options.client ?? client).get<GetOpsStatusResponses, GetOpsStatusErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/ops/status',
+    ...options
+});
 
 /**
  * List recent operations
@@ -206,7 +245,31 @@ export const getOpsStatus = <ThrowOnError extends boolean = false>(options: Opti
  * Returns recent async operations queued via `/model/apply`, sorted by newest first.
  *
  */
-export const getOpsList = <ThrowOnError extends boolean = false>(options?: Options<GetOpsListData, ThrowOnError>) => (options?.client ?? client).get<GetOpsListResponses, GetOpsListErrors, ThrowOnError>({ url: '/ops/list', ...options });
+export const getOpsList = <ThrowOnError extends boolean = false>(options?: Options<GetOpsListData, ThrowOnError>) => (options?.client ?? client).get<GetOpsListResponses, GetOpsListErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/ops/list',
+    ...options
+});
+
+/**
+ * Stream operation and model events
+ *
+ * Server-sent event stream (`text/event-stream`) announcing async operation
+ * lifecycle changes and model mutations, so clients don't have to poll `/ops/status`.
+ *
+ * Event types:
+ * - `operation.queued`, `operation.processing`, `operation.complete`, `operation.error`
+ * - `model.changed` (`source: api` after an applied operation, `source: archi` for edits made in Archi)
+ *
+ * Each event has an `id:` line; reconnect with `Last-Event-ID` (or `since`) to replay
+ * buffered events that were missed. A `: keepalive` comment is sent periodically.
+ *
+ */
+export const getEvents = <ThrowOnError extends boolean = false>(options?: Options<GetEventsData, ThrowOnError>) => (options?.client ?? client).sse.get<GetEventsResponses, GetEventsErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/events',
+    ...options
+});
 
 /**
  * Execute JArchi script code
@@ -267,6 +330,7 @@ export const getOpsList = <ThrowOnError extends boolean = false>(options?: Optio
  *
  */
 export const postScriptsRun = <ThrowOnError extends boolean = false>(options: Options<PostScriptsRunData, ThrowOnError>) => (options.client ?? client).post<PostScriptsRunResponses, PostScriptsRunErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/scripts/run',
     ...options,
     headers: {
@@ -282,7 +346,11 @@ export const postScriptsRun = <ThrowOnError extends boolean = false>(options: Op
  * Includes ArchiMate views, sketch views, and canvas views.
  *
  */
-export const getViews = <ThrowOnError extends boolean = false>(options?: Options<GetViewsData, ThrowOnError>) => (options?.client ?? client).get<GetViewsResponses, GetViewsErrors, ThrowOnError>({ url: '/views', ...options });
+export const getViews = <ThrowOnError extends boolean = false>(options?: Options<GetViewsData, ThrowOnError>) => (options?.client ?? client).get<GetViewsResponses, GetViewsErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/views',
+    ...options
+});
 
 /**
  * Create new view
@@ -294,6 +362,7 @@ export const getViews = <ThrowOnError extends boolean = false>(options?: Options
  *
  */
 export const postViews = <ThrowOnError extends boolean = false>(options: Options<PostViewsData, ThrowOnError>) => (options.client ?? client).post<PostViewsResponses, PostViewsErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/views',
     ...options,
     headers: {
@@ -309,7 +378,11 @@ export const postViews = <ThrowOnError extends boolean = false>(options: Options
  * This operation removes the view and all its visual objects.
  *
  */
-export const deleteView = <ThrowOnError extends boolean = false>(options: Options<DeleteViewData, ThrowOnError>) => (options.client ?? client).delete<DeleteViewResponses, DeleteViewErrors, ThrowOnError>({ url: '/views/{viewId}', ...options });
+export const deleteView = <ThrowOnError extends boolean = false>(options: Options<DeleteViewData, ThrowOnError>) => (options.client ?? client).delete<DeleteViewResponses, DeleteViewErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/views/{viewId}',
+    ...options
+});
 
 /**
  * Get view details
@@ -318,7 +391,11 @@ export const deleteView = <ThrowOnError extends boolean = false>(options: Option
  * all visual elements and connections with their positions.
  *
  */
-export const getViewById = <ThrowOnError extends boolean = false>(options: Options<GetViewByIdData, ThrowOnError>) => (options.client ?? client).get<GetViewByIdResponses, GetViewByIdErrors, ThrowOnError>({ url: '/views/{viewId}', ...options });
+export const getViewById = <ThrowOnError extends boolean = false>(options: Options<GetViewByIdData, ThrowOnError>) => (options.client ?? client).get<GetViewByIdResponses, GetViewByIdErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/views/{viewId}',
+    ...options
+});
 
 /**
  * Export view to file
@@ -334,6 +411,7 @@ export const getViewById = <ThrowOnError extends boolean = false>(options: Optio
  *
  */
 export const postViewExport = <ThrowOnError extends boolean = false>(options: Options<PostViewExportData, ThrowOnError>) => (options.client ?? client).post<PostViewExportResponses, PostViewExportErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/views/{viewId}/export',
     ...options,
     headers: {
@@ -350,6 +428,7 @@ export const postViewExport = <ThrowOnError extends boolean = false>(options: Op
  *
  */
 export const postViewDuplicate = <ThrowOnError extends boolean = false>(options: Options<PostViewDuplicateData, ThrowOnError>) => (options.client ?? client).post<PostViewDuplicateResponses, PostViewDuplicateErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/views/{viewId}/duplicate',
     ...options,
     headers: {
@@ -367,6 +446,7 @@ export const postViewDuplicate = <ThrowOnError extends boolean = false>(options:
  *
  */
 export const putViewRouter = <ThrowOnError extends boolean = false>(options: Options<PutViewRouterData, ThrowOnError>) => (options.client ?? client).put<PutViewRouterResponses, PutViewRouterErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/views/{viewId}/router',
     ...options,
     headers: {
@@ -384,6 +464,7 @@ export const putViewRouter = <ThrowOnError extends boolean = false>(options: Opt
  *
  */
 export const postViewLayout = <ThrowOnError extends boolean = false>(options: Options<PostViewLayoutData, ThrowOnError>) => (options.client ?? client).post<PostViewLayoutResponses, PostViewLayoutErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
     url: '/views/{viewId}/layout',
     ...options,
     headers: {
@@ -404,4 +485,8 @@ export const postViewLayout = <ThrowOnError extends boolean = false>(options: Op
  * Use this endpoint after populating views to verify connection integrity.
  *
  */
-export const getViewValidate = <ThrowOnError extends boolean = false>(options: Options<GetViewValidateData, ThrowOnError>) => (options.client ?? client).get<GetViewValidateResponses, GetViewValidateErrors, ThrowOnError>({ url: '/views/{viewId}/validate', ...options });
+export const getViewValidate = <ThrowOnError extends boolean = false>(options: Options<GetViewValidateData, ThrowOnError>) => (options.client ?? client).get<GetViewValidateResponses, GetViewValidateErrors, ThrowOnError>({
+    security: [{ scheme: 'bearer', type: 'http' }, { name: 'X-API-Key', type: 'apiKey' }],
+    url: '/views/{viewId}/validate',
+    ...options
+});
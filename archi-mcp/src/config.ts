@@ -1,6 +1,20 @@
+import { parseArgs } from 'node:util';
+
+export type McpTransportMode = 'stdio' | 'http';
+
 export interface AppConfig {
   apiBaseUrl: string;
   requestTimeoutMs: number;
+  /** Token sent as `Authorization: Bearer` when the Archi server requires authentication. */
+  apiToken?: string;
+  transport: McpTransportMode;
+  /** Interface and port for the streamable HTTP transport (`transport: 'http'`). */
+  httpHost: string;
+  httpPort: number;
+  /** Bearer token MCP clients must send to the HTTP endpoint; unset accepts any client. */
+  httpAuthToken?: string;
+  /** Close HTTP sessions that have not made a request for this long. */
+  sessionIdleTimeoutMs: number;
 }
 
 function readNumberEnv(name: string, fallback: number, min: number, max?: number): number {
@@ -25,11 +39,64 @@ function readNumberEnv(name: string, fallback: number, min: number, max?: number
   return value;
 }
 
-export function loadConfig(): AppConfig {
+function parseTransport(raw: string): McpTransportMode {
+  const value = raw.trim().toLowerCase();
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Unsupported transport '${raw}'. Use 'stdio' or 'http'.`);
+  }
+  return value;
+}
+
+function parsePort(raw: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > 65535) {
+    throw new Error(`Invalid port '${raw}'. Use an integer from 0 to 65535.`);
+  }
+  return value;
+}
+
+function readStringFlag(flags: Record<string, string | boolean | undefined>, name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) {
+    throw new Error(`Missing value for --${name}.`);
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Resolve runtime config from environment variables, with `--transport`, `--host` and
+ * `--port` command-line flags taking precedence for the transport settings.
+ *
+ * Other arguments are ignored: MCP hosts may append their own flags or positionals.
+ */
+export function loadConfig(argv: string[] = process.argv.slice(2)): AppConfig {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+  const flags = {
+    transport: readStringFlag(values, 'transport'),
+    host: readStringFlag(values, 'host'),
+    port: readStringFlag(values, 'port'),
+  };
+
   const apiBaseUrl = process.env.ARCHI_API_BASE_URL?.trim() || 'http://127.0.0.1:8765';
+  const apiToken = process.env.ARCHI_API_TOKEN?.trim() || undefined;
 
   return {
     apiBaseUrl,
     requestTimeoutMs: readNumberEnv('ARCHI_API_TIMEOUT_MS', 30000, 1000, 120000),
+    apiToken,
+    transport: parseTransport(flags.transport ?? (process.env.ARCHI_MCP_TRANSPORT?.trim() || 'stdio')),
+    httpHost: flags.host?.trim() || process.env.ARCHI_MCP_HOST?.trim() || '127.0.0.1',
+    httpPort: flags.port !== undefined ? parsePort(flags.port) : readNumberEnv('ARCHI_MCP_PORT', 8766, 0, 65535),
+    httpAuthToken: process.env.ARCHI_MCP_AUTH_TOKEN?.trim() || undefined,
+    sessionIdleTimeoutMs: readNumberEnv('ARCHI_MCP_SESSION_IDLE_MS', 30 * 60 * 1000, 60000),
   };
 }
@@ -0,0 +1,236 @@
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { AppConfig } from './config.js';
+
+export const MCP_HTTP_PATH = '/mcp';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  /** Open GET event streams; a session listening for notifications is not idle. */
+  openStreams: number;
+}
+
+export interface HttpTransportHandle {
+  /** Endpoint clients connect to, e.g. `http://127.0.0.1:8766/mcp`. */
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'content-type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON.');
+  }
+}
+
+/**
+ * When bound to loopback, only accept loopback Host headers so a web page cannot reach the
+ * endpoint through DNS rebinding.
+ */
+function isAllowedHost(hostHeader: string | undefined, bindHost: string): boolean {
+  if (!LOOPBACK_HOSTS.has(bindHost)) {
+    return true;
+  }
+
+  if (!hostHeader) {
+    return false;
+  }
+
+  try {
+    const hostname = new URL(`http://${hostHeader}`).hostname.replace(/^\[|\]$/g, '');
+    return LOOPBACK_HOSTS.has(hostname);
+  } catch {
+    return false;
+  }
+}
+
+function hasValidToken(req: IncomingMessage, expected: string | undefined): boolean {
+  if (!expected) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  const presented = Buffer.from(match ? match[1].trim() : '');
+  const wanted = Buffer.from(expected);
+  return presented.length === wanted.length && timingSafeEqual(presented, wanted);
+}
+
+function formatUrl(host: string, port: number): string {
+  const hostname = host.includes(':') ? `[${host}]` : host;
+  return `http://${hostname}:${port}${MCP_HTTP_PATH}`;
+}
+
+/**
+ * Serve MCP over streamable HTTP on `config.httpHost:config.httpPort`.
+ *
+ * Each client session gets its own McpServer from `createMcpServer`, keyed by the
+ * `Mcp-Session-Id` header assigned at initialization. Sessions end on DELETE or after
+ * `config.sessionIdleTimeoutMs` without requests while no GET event stream is open.
+ */
+export async function startHttpTransport(
+  config: AppConfig,
+  createMcpServer: () => McpServer,
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => undefined);
+  };
+
+  const startSession = async (req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> => {
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, server, lastSeen: Date.now(), openStreams: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${MCP_HTTP_PATH}.`);
+      return;
+    }
+
+    if (!isAllowedHost(req.headers.host, config.httpHost)) {
+      sendJsonRpcError(res, 403, `Invalid Host header: ${req.headers.host ?? '(missing)'}`);
+      return;
+    }
+
+    if (!hasValidToken(req, config.httpAuthToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized: send Authorization: Bearer <ARCHI_MCP_AUTH_TOKEN>.', {
+        'WWW-Authenticate': 'Bearer realm="archi-mcp"',
+      });
+      return;
+    }
+
+    if (req.method !== 'POST' && req.method !== 'GET' && req.method !== 'DELETE') {
+      sendJsonRpcError(res, 405, `Method ${req.method} not allowed.`, { Allow: 'GET, POST, DELETE' });
+      return;
+    }
+
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found. Start a new session with an initialize request.');
+        return;
+      }
+
+      session.lastSeen = Date.now();
+      if (req.method === 'GET') {
+        session.openStreams += 1;
+        res.once('close', () => {
+          session.openStreams -= 1;
+          session.lastSeen = Date.now();
+        });
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'POST' && isInitializeRequest(body)) {
+      await startSession(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 400, 'Bad Request: missing Mcp-Session-Id header.');
+  };
+
+  const httpServer: Server = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      sendJsonRpcError(res, status, status === 500 ? `Internal server error: ${message}` : message);
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - config.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.openStreams === 0 && session.lastSeen < cutoff) {
+        void closeSession(sessionId);
+      }
+    }
+  }, Math.min(config.sessionIdleTimeoutMs, 60000));
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.httpPort, config.httpHost, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: formatUrl(config.httpHost, port),
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map((sessionId) => closeSession(sessionId)));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
@@ -1,8 +1,11 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { loadConfig } from './config.js';
+import { ArchiApiClient } from './archi-api.js';
+import { loadConfig, type AppConfig } from './config.js';
+import { startHttpTransport } from './http-transport.js';
 import { createArchiMcpServer } from './server.js';
+import { createModelChangeFeed } from './server/model-events.js';
 
 async function runStdio(server: McpServer): Promise<void> {
   const transport = new StdioServerTransport();
@@ -10,8 +13,31 @@ async function runStdio(server: McpServer): Promise<void> {
   console.error('archi-mcp-server running on stdio');
 }
 
+async function runHttp(config: AppConfig): Promise<void> {
+  const modelChanges = createModelChangeFeed(new ArchiApiClient(config));
+  const transport = await startHttpTransport(config, () => createArchiMcpServer(config, modelChanges));
+  console.error(`archi-mcp-server listening on ${transport.url} (streamable HTTP)`);
+  if (!config.httpAuthToken) {
+    console.error('archi-mcp-server: ARCHI_MCP_AUTH_TOKEN is not set; any client that can reach the port can use it');
+  }
+
+  const shutdown = () => {
+    transport.close().then(
+      () => process.exit(0),
+      () => process.exit(1),
+    );
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
 async function main(): Promise<void> {
   const config = loadConfig();
+  if (config.transport === 'http') {
+    await runHttp(config);
+    return;
+  }
+
   const server = createArchiMcpServer(config);
   await runStdio(server);
 }
@@ -1,14 +1,26 @@
+import * as z from 'zod/v4';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, GetPromptRequestSchema, McpError, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { rankCompletions, type ModelCompleters } from './server/completions.js';
 
 type PromptContext = Record<string, string | number | boolean | undefined>;
 
+type PromptArguments = Record<string, string | undefined>;
+
+/** Where completion/complete suggestions for a prompt argument come from. */
+type PromptArgumentCompletion =
+  | { values: string[] }
+  | { source: 'viewName' }
+  | { source: 'elementName'; elementType: string };
+
 type PromptInputRequirement = {
   key: string;
   required: boolean;
   description: string;
   askWhenMissing: string;
   recommendedDefault?: string;
+  completion?: PromptArgumentCompletion;
 };
 
 type WorkflowPromptOptions = {
@@ -216,576 +228,634 @@ function singleUserMessagePrompt(text: string): GetPromptResult {
   };
 }
 
-export function registerArchiModelingPrompts(server: McpServer): void {
-  server.registerPrompt(
+function resolveCompleter(
+  completion: PromptArgumentCompletion | undefined,
+  completers: ModelCompleters,
+): ((value: string | undefined) => string[] | Promise<string[]>) | undefined {
+  if (!completion) {
+    return undefined;
+  }
+
+  if ('values' in completion) {
+    return (value) => rankCompletions(completion.values, value ?? '');
+  }
+
+  if (completion.source === 'viewName') {
+    return (value) => completers.viewNames(value ?? '');
+  }
+
+  return (value) => completers.elementNames(value ?? '', completion.elementType);
+}
+
+/**
+ * Expose input requirements as optional string arguments. Required inputs stay optional at the
+ * protocol level because missing values open the clarification gate instead of failing the call.
+ */
+function buildPromptArgsSchema(inputRequirements: PromptInputRequirement[], completers: ModelCompleters) {
+  return Object.fromEntries(
+    inputRequirements.map((input) => {
+      const field = z.string().optional().describe(input.description);
+      const complete = resolveCompleter(input.completion, completers);
+      return [input.key, complete ? completable(field, complete) : field];
+    }),
+  );
+}
+
+function buildPromptContext(inputRequirements: PromptInputRequirement[], args: PromptArguments): PromptContext {
+  const context: PromptContext = {};
+  for (const input of inputRequirements) {
+    if (typeof args[input.key] === 'string') {
+      context[input.key] = args[input.key];
+    }
+  }
+
+  return context;
+}
+
+export function registerArchiModelingPrompts(server: McpServer, completers: ModelCompleters): void {
+  const renderers = new Map<string, (args: PromptArguments) => GetPromptResult>();
+
+  const registerWorkflowPrompt = (
+    name: string,
+    config: { title: string; description: string },
+    options: Omit<WorkflowPromptOptions, 'context'>,
+  ): void => {
+    const render = (args: PromptArguments) =>
+      singleUserMessagePrompt(
+        buildWorkflowPrompt({ ...options, context: buildPromptContext(options.inputRequirements, args) }),
+      );
+
+    renderers.set(name, render);
+    server.registerPrompt(
+      name,
+      { ...config, argsSchema: buildPromptArgsSchema(options.inputRequirements, completers) },
+      async (args) => render(args),
+    );
+  };
+
+  registerWorkflowPrompt(
     'archi_assess_current_state',
     {
       title: 'Assess Current State',
       description:
         'Baseline the current architecture state with diagnostics, structure stats, and focused model discovery.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Establish a factual current-state baseline before any architecture changes.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'scope',
-            required: true,
-            description: 'Scope boundary such as domain, product line, or program.',
-            askWhenMissing: 'What exact scope should I assess (domain, product line, or program)?',
-          },
-          {
-            key: 'focus',
-            required: false,
-            description: 'Primary architecture focus for assessment.',
-            askWhenMissing: 'Which layer should I prioritize: business, application, technology, or cross-layer?',
-            recommendedDefault: 'all',
-          },
-          {
-            key: 'detailLevel',
-            required: false,
-            description: 'Depth of analysis output.',
-            askWhenMissing: 'How deep should the analysis be: overview, coherence, or detail?',
-            recommendedDefault: 'coherence',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_get_health` to verify server and model availability.',
-          'Call `archi_query_model` with limits aligned to `detailLevel` to sample the current model.',
-          'Call `archi_get_model_stats` to capture element, relationship, and view distributions.',
-          'Call `archi_list_folders` and `archi_list_views` to understand organization and view landscape.',
-          'Call `archi_search_model` using `scope` and `focus` keywords to find relevant elements.',
-          'Call `archi_get_model_diagnostics` to surface orphans, ghost objects, and integrity issues.',
-          'If needed, call `archi_get_element` and `archi_get_view` for high-priority findings only.',
-          'Do not mutate model state during assessment unless explicitly requested afterward.',
-        ],
-        activityGuidance: [
-          'Separate observations by layer and call out cross-layer traceability gaps.',
-          'Highlight anti-patterns: layer violations, over-used associations, and overly dense views.',
-          'Capture a short list of candidate remediation actions but keep them out of execution scope.',
-        ],
-        expectedOutputFormat: [
-          'Assessment summary scoped to the requested boundary.',
-          'Top findings grouped by severity (critical, major, minor).',
-          'Evidence table: finding -> supporting tool call(s) -> impacted elements/views.',
-          'Recommended next modeling activities with explicit read/write boundary.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Establish a factual current-state baseline before any architecture changes.',
+      inputRequirements: [
+        {
+          key: 'scope',
+          required: true,
+          description: 'Scope boundary such as domain, product line, or program.',
+          askWhenMissing: 'What exact scope should I assess (domain, product line, or program)?',
+        },
+        {
+          key: 'focus',
+          required: false,
+          description: 'Primary architecture focus for assessment.',
+          askWhenMissing: 'Which layer should I prioritize: business, application, technology, or cross-layer?',
+          recommendedDefault: 'all',
+          completion: { values: ['business', 'application', 'technology', 'cross-layer', 'all'] },
+        },
+        {
+          key: 'detailLevel',
+          required: false,
+          description: 'Depth of analysis output.',
+          askWhenMissing: 'How deep should the analysis be: overview, coherence, or detail?',
+          recommendedDefault: 'coherence',
+          completion: { values: ['overview', 'coherence', 'detail'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_get_health` to verify server and model availability.',
+        'Call `archi_query_model` with limits aligned to `detailLevel` to sample the current model.',
+        'Call `archi_get_model_stats` to capture element, relationship, and view distributions.',
+        'Call `archi_list_folders` and `archi_list_views` to understand organization and view landscape.',
+        'Call `archi_search_model` using `scope` and `focus` keywords to find relevant elements.',
+        'Call `archi_get_model_diagnostics` to surface orphans, ghost objects, and integrity issues.',
+        'If needed, call `archi_get_element` and `archi_get_view` for high-priority findings only.',
+        'Do not mutate model state during assessment unless explicitly requested afterward.',
+      ],
+      activityGuidance: [
+        'Separate observations by layer and call out cross-layer traceability gaps.',
+        'Highlight anti-patterns: layer violations, over-used associations, and overly dense views.',
+        'Capture a short list of candidate remediation actions but keep them out of execution scope.',
+      ],
+      expectedOutputFormat: [
+        'Assessment summary scoped to the requested boundary.',
+        'Top findings grouped by severity (critical, major, minor).',
+        'Evidence table: finding -> supporting tool call(s) -> impacted elements/views.',
+        'Recommended next modeling activities with explicit read/write boundary.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_general_archimate_modeling',
     {
       title: 'General ArchiMate Modeling',
       description:
         'General-purpose workflow for ArchiMate modeling tasks across motivation, strategy, core, and migration layers.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Execute ArchiMate modeling requests safely and semantically correctly from clarification through validated updates.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'modelingObjective',
-            required: true,
-            description:
-              'Concrete outcome to deliver, for example create, refine, analyze, or align architecture artifacts.',
-            askWhenMissing: 'What exact modeling objective should I deliver?',
-          },
-          {
-            key: 'scope',
-            required: true,
-            description: 'Domain/system/program boundary for the modeling activity.',
-            askWhenMissing: 'What is the exact scope boundary for this modeling task?',
-          },
-          {
-            key: 'targetLayers',
-            required: false,
-            description: 'Primary ArchiMate layers involved in the task.',
-            askWhenMissing:
-              'Which layers should be in scope: motivation, strategy, business, application, technology, implementation, or cross-layer?',
-            recommendedDefault: 'business, application, technology',
-          },
-          {
-            key: 'abstractionLevel',
-            required: false,
-            description: 'Requested depth of detail for modeling output.',
-            askWhenMissing: 'What abstraction level should I use: overview, coherence, or detail?',
-            recommendedDefault: 'coherence',
-          },
-          {
-            key: 'targetViewName',
-            required: false,
-            description: 'Optional view to update or create for presenting results.',
-            askWhenMissing: 'Should I update an existing view or create a new target view name?',
-          },
-          {
-            key: 'applyChanges',
-            required: false,
-            description: 'Whether to execute model mutations after planning and review.',
-            askWhenMissing: 'Should I stop at a change plan or apply changes after confirmation?',
-            recommendedDefault: 'false',
+    {
+      goal: 'Execute ArchiMate modeling requests safely and semantically correctly from clarification through validated updates.',
+      inputRequirements: [
+        {
+          key: 'modelingObjective',
+          required: true,
+          description:
+            'Concrete outcome to deliver, for example create, refine, analyze, or align architecture artifacts.',
+          askWhenMissing: 'What exact modeling objective should I deliver?',
+        },
+        {
+          key: 'scope',
+          required: true,
+          description: 'Domain/system/program boundary for the modeling activity.',
+          askWhenMissing: 'What is the exact scope boundary for this modeling task?',
+        },
+        {
+          key: 'targetLayers',
+          required: false,
+          description: 'Primary ArchiMate layers involved in the task.',
+          askWhenMissing:
+            'Which layers should be in scope: motivation, strategy, business, application, technology, implementation, or cross-layer?',
+          recommendedDefault: 'business, application, technology',
+          completion: {
+            values: ['motivation', 'strategy', 'business', 'application', 'technology', 'implementation', 'cross-layer'],
           },
-        ],
-        requiredToolSequence: [
-          'Call `archi_get_health` to verify server/model availability before any analysis.',
-          'Call `archi_query_model` and `archi_get_model_stats` to baseline model structure and scale.',
-          'Call `archi_search_model` to find existing elements/relationships in the requested scope and prevent duplicates.',
-          'Call `archi_list_folders` and `archi_list_views`; if a target view is involved, call `archi_get_view_summary` or `archi_get_view` for concept/visual ID mapping.',
-          'Call `archi_plan_model_changes` as semantic preflight before any mutation proposal.',
-          'If `applyChanges=true` and user confirms, call `archi_apply_model_changes` in batches of 8 or fewer operations, run apply → wait → verify for each batch, and stop at first failure to switch to targeted recovery (use `archi_get_operation_status` only for diagnostics).',
-          'When view updates are required, use `archi_create_view`/`archi_populate_view`, then `archi_layout_view`, `archi_set_view_router`, and `archi_validate_view`.',
-          'Optionally call `archi_export_view` for deliverables and `archi_save_model` for persistence when explicitly requested.',
-        ],
-        activityGuidance: [
-          'Select element types deliberately: active structure (who), behavior (what happens), passive structure (what is acted on).',
-          'Model cross-layer dependencies through services and realization chains; avoid direct business-to-technology links.',
-          'Use specific relationship types with correct direction; label flow relationships with what moves.',
-          'Apply concept-first sequencing: create/update core elements and relationships before view-object styling/layout.',
-          'Reuse existing concepts when semantics match; avoid duplicates and generic associations unless meaning is truly unknown.',
-          'Maintain consistent abstraction in one task/view and keep views readable (about 20 elements, avoid exceeding 40).',
-        ],
-        expectedOutputFormat: [
-          'Clarified objective, scope, target layers, and explicit assumptions.',
-          'Proposed model delta grouped as create/reuse/update with relationship rationale.',
-          'Execution plan with tool calls, batching strategy, and validation checkpoints.',
-          'Post-execution status: operation IDs, validation results, unresolved risks, and next recommended modeling action.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+        },
+        {
+          key: 'abstractionLevel',
+          required: false,
+          description: 'Requested depth of detail for modeling output.',
+          askWhenMissing: 'What abstraction level should I use: overview, coherence, or detail?',
+          recommendedDefault: 'coherence',
+          completion: { values: ['overview', 'coherence', 'detail'] },
+        },
+        {
+          key: 'targetViewName',
+          required: false,
+          description: 'Optional view to update or create for presenting results.',
+          askWhenMissing: 'Should I update an existing view or create a new target view name?',
+          completion: { source: 'viewName' },
+        },
+        {
+          key: 'applyChanges',
+          required: false,
+          description: 'Whether to execute model mutations after planning and review.',
+          askWhenMissing: 'Should I stop at a change plan or apply changes after confirmation?',
+          recommendedDefault: 'false',
+          completion: { values: ['true', 'false'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_get_health` to verify server/model availability before any analysis.',
+        'Call `archi_query_model` and `archi_get_model_stats` to baseline model structure and scale.',
+        'Call `archi_search_model` to find existing elements/relationships in the requested scope and prevent duplicates.',
+        'Call `archi_list_folders` and `archi_list_views`; if a target view is involved, call `archi_get_view_summary` or `archi_get_view` for concept/visual ID mapping.',
+        'Call `archi_plan_model_changes` as semantic preflight before any mutation proposal.',
+        'If `applyChanges=true` and user confirms, call `archi_apply_model_changes` in batches of 8 or fewer operations, run apply → wait → verify for each batch, and stop at first failure to switch to targeted recovery (use `archi_get_operation_status` only for diagnostics).',
+        'When view updates are required, use `archi_create_view`/`archi_populate_view`, then `archi_layout_view`, `archi_set_view_router`, and `archi_validate_view`.',
+        'Optionally call `archi_export_view` for deliverables and `archi_save_model` for persistence when explicitly requested.',
+      ],
+      activityGuidance: [
+        'Select element types deliberately: active structure (who), behavior (what happens), passive structure (what is acted on).',
+        'Model cross-layer dependencies through services and realization chains; avoid direct business-to-technology links.',
+        'Use specific relationship types with correct direction; label flow relationships with what moves.',
+        'Apply concept-first sequencing: create/update core elements and relationships before view-object styling/layout.',
+        'Reuse existing concepts when semantics match; avoid duplicates and generic associations unless meaning is truly unknown.',
+        'Maintain consistent abstraction in one task/view and keep views readable (about 20 elements, avoid exceeding 40).',
+      ],
+      expectedOutputFormat: [
+        'Clarified objective, scope, target layers, and explicit assumptions.',
+        'Proposed model delta grouped as create/reuse/update with relationship rationale.',
+        'Execution plan with tool calls, batching strategy, and validation checkpoints.',
+        'Post-execution status: operation IDs, validation results, unresolved risks, and next recommended modeling action.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_design_capability_map',
     {
       title: 'Design Capability Map',
       description:
         'Design or refine a capability map linked to strategic goals, with optional maturity heatmap guidance.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Create a capability map that clearly traces strategic goals to executable architecture elements.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'businessDomain',
-            required: true,
-            description: 'Business domain to model capabilities for.',
-            askWhenMissing: 'Which business domain should the capability map cover?',
-          },
-          {
-            key: 'strategicGoal',
-            required: true,
-            description: 'Strategic goal this capability map should realize.',
-            askWhenMissing: 'What strategic goal should this capability map support?',
-          },
-          {
-            key: 'timeHorizon',
-            required: false,
-            description: 'Planning horizon, for example 12-18 months.',
-            askWhenMissing: 'What planning horizon should we use (for example 12-18 months)?',
-          },
-          {
-            key: 'includeHeatmap',
-            required: false,
-            description: 'Include maturity heatmap metadata guidance.',
-            askWhenMissing: 'Do you want maturity heatmap metadata included?',
-            recommendedDefault: 'true',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_search_model` to find existing `capability`, `goal`, `value-stream`, and related strategy elements.',
-          'Call `archi_query_model` to inspect existing decomposition depth and avoid duplicate concepts.',
-          'Call `archi_plan_model_changes` to preview capability additions, decompositions, and strategy links.',
-          'After confirmation, call `archi_apply_model_changes` to create/update capabilities and relationships.',
-          'Call `archi_wait_for_operation` to completion after apply (use `archi_get_operation_status` only when diagnosing delays).',
-          'Call `archi_create_view` (or reuse existing via `archi_list_views`) for a capability-focused view.',
-          'Call `archi_layout_view` to organize hierarchy and dependencies for readability.',
-          'Call `archi_validate_view` to confirm visual integrity before finalizing.',
-        ],
-        activityGuidance: [
-          'Use 2-3 levels of capability decomposition, avoiding operational task-level detail.',
-          'Keep capability names stable and technology-agnostic.',
-          'If `includeHeatmap=true`, suggest maturity properties such as `maturity` and `lifecycle-status`.',
-        ],
-        expectedOutputFormat: [
-          'Capability map design summary and strategic traceability narrative.',
-          'Proposed capability hierarchy with parent-child relationships.',
-          'Relationship mapping showing goal/capability/process/application trace paths.',
-          'Execution-ready change outline with operation polling and validation checkpoints.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Create a capability map that clearly traces strategic goals to executable architecture elements.',
+      inputRequirements: [
+        {
+          key: 'businessDomain',
+          required: true,
+          description: 'Business domain to model capabilities for.',
+          askWhenMissing: 'Which business domain should the capability map cover?',
+        },
+        {
+          key: 'strategicGoal',
+          required: true,
+          description: 'Strategic goal this capability map should realize.',
+          askWhenMissing: 'What strategic goal should this capability map support?',
+          completion: { source: 'elementName', elementType: 'goal' },
+        },
+        {
+          key: 'timeHorizon',
+          required: false,
+          description: 'Planning horizon, for example 12-18 months.',
+          askWhenMissing: 'What planning horizon should we use (for example 12-18 months)?',
+        },
+        {
+          key: 'includeHeatmap',
+          required: false,
+          description: 'Include maturity heatmap metadata guidance.',
+          askWhenMissing: 'Do you want maturity heatmap metadata included?',
+          recommendedDefault: 'true',
+          completion: { values: ['true', 'false'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_search_model` to find existing `capability`, `goal`, `value-stream`, and related strategy elements.',
+        'Call `archi_query_model` to inspect existing decomposition depth and avoid duplicate concepts.',
+        'Call `archi_plan_model_changes` to preview capability additions, decompositions, and strategy links.',
+        'After confirmation, call `archi_apply_model_changes` to create/update capabilities and relationships.',
+        'Call `archi_wait_for_operation` to completion after apply (use `archi_get_operation_status` only when diagnosing delays).',
+        'Call `archi_create_view` (or reuse existing via `archi_list_views`) for a capability-focused view.',
+        'Call `archi_layout_view` to organize hierarchy and dependencies for readability.',
+        'Call `archi_validate_view` to confirm visual integrity before finalizing.',
+      ],
+      activityGuidance: [
+        'Use 2-3 levels of capability decomposition, avoiding operational task-level detail.',
+        'Keep capability names stable and technology-agnostic.',
+        'If `includeHeatmap=true`, suggest maturity properties such as `maturity` and `lifecycle-status`.',
+      ],
+      expectedOutputFormat: [
+        'Capability map design summary and strategic traceability narrative.',
+        'Proposed capability hierarchy with parent-child relationships.',
+        'Relationship mapping showing goal/capability/process/application trace paths.',
+        'Execution-ready change outline with operation polling and validation checkpoints.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_model_business_application_alignment',
     {
       title: 'Model Business-Application Alignment',
       description:
         'Model service-mediated alignment between business processes and application services/components.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Build explicit, service-oriented traceability from business behavior to application support.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'businessProcessName',
-            required: true,
-            description: 'Business process to align with supporting application architecture.',
-            askWhenMissing: 'Which business process should be aligned to application support?',
-          },
-          {
-            key: 'includeDataMapping',
-            required: false,
-            description: 'Include business object to data object access and realization mappings.',
-            askWhenMissing: 'Should I include business object to data object mapping?',
-            recommendedDefault: 'true',
-          },
-          {
-            key: 'targetViewName',
-            required: false,
-            description: 'Optional target view name to create or update.',
-            askWhenMissing: 'Do you want to target a specific view name?',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_search_model` for the named business process plus candidate business/application services.',
-          'Call `archi_get_element` on key matches to inspect existing relationships and avoid duplicates.',
-          'Call `archi_plan_model_changes` to preview new serving and realization links.',
-          'After confirmation, call `archi_apply_model_changes` and wait for completion with `archi_wait_for_operation`.',
-          'Call `archi_list_views` and `archi_create_view` if the requested view does not yet exist.',
-          'Call `archi_layout_view` for readability and `archi_validate_view` to ensure connection integrity.',
-          'Optionally call `archi_save_model` after validation when persistence is requested.',
-        ],
-        activityGuidance: [
-          'Use pattern: Application Service -> serves -> Business Process; Application Component -> realizes -> Application Service.',
-          'Do not bypass service abstraction with direct component-to-process dependencies.',
-          'If `includeDataMapping=true`, include access/realization chains between business objects, data objects, and artifacts where relevant.',
-        ],
-        expectedOutputFormat: [
-          'Alignment narrative describing business intent and supporting application behavior.',
-          'Element and relationship delta list (created/reused/updated) with IDs or temp IDs.',
-          'View curation summary with validation status and any unresolved issues.',
-          'Short risk note for missing data/service dependencies.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Build explicit, service-oriented traceability from business behavior to application support.',
+      inputRequirements: [
+        {
+          key: 'businessProcessName',
+          required: true,
+          description: 'Business process to align with supporting application architecture.',
+          askWhenMissing: 'Which business process should be aligned to application support?',
+          completion: { source: 'elementName', elementType: 'business-process' },
+        },
+        {
+          key: 'includeDataMapping',
+          required: false,
+          description: 'Include business object to data object access and realization mappings.',
+          askWhenMissing: 'Should I include business object to data object mapping?',
+          recommendedDefault: 'true',
+          completion: { values: ['true', 'false'] },
+        },
+        {
+          key: 'targetViewName',
+          required: false,
+          description: 'Optional target view name to create or update.',
+          askWhenMissing: 'Do you want to target a specific view name?',
+          completion: { source: 'viewName' },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_search_model` for the named business process plus candidate business/application services.',
+        'Call `archi_get_element` on key matches to inspect existing relationships and avoid duplicates.',
+        'Call `archi_plan_model_changes` to preview new serving and realization links.',
+        'After confirmation, call `archi_apply_model_changes` and wait for completion with `archi_wait_for_operation`.',
+        'Call `archi_list_views` and `archi_create_view` if the requested view does not yet exist.',
+        'Call `archi_layout_view` for readability and `archi_validate_view` to ensure connection integrity.',
+        'Optionally call `archi_save_model` after validation when persistence is requested.',
+      ],
+      activityGuidance: [
+        'Use pattern: Application Service -> serves -> Business Process; Application Component -> realizes -> Application Service.',
+        'Do not bypass service abstraction with direct component-to-process dependencies.',
+        'If `includeDataMapping=true`, include access/realization chains between business objects, data objects, and artifacts where relevant.',
+      ],
+      expectedOutputFormat: [
+        'Alignment narrative describing business intent and supporting application behavior.',
+        'Element and relationship delta list (created/reused/updated) with IDs or temp IDs.',
+        'View curation summary with validation status and any unresolved issues.',
+        'Short risk note for missing data/service dependencies.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_model_application_integration',
     {
       title: 'Model Application Integration',
       description:
         'Design integration between source and target applications using simple, service-based, or full-detail patterns.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Model semantically correct application integration with the right level of architectural detail.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'sourceApp',
-            required: true,
-            description: 'Source application component name.',
-            askWhenMissing: 'Which application is the integration source?',
-          },
-          {
-            key: 'targetApp',
-            required: true,
-            description: 'Target application component name.',
-            askWhenMissing: 'Which application is the integration target?',
-          },
-          {
-            key: 'integrationPattern',
-            required: false,
-            description: 'Integration modeling pattern to apply.',
-            askWhenMissing: 'Which integration pattern should I use: simple_flow, service_based, or full_detail?',
-            recommendedDefault: 'service_based',
-          },
-          {
-            key: 'dataObjectName',
-            required: false,
-            description: 'Optional data object flowing across the integration boundary.',
-            askWhenMissing: 'Is there a specific data object that should be shown in the integration flow?',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_search_model` to locate source and target applications plus existing integration artifacts.',
-          'Call `archi_get_element` to inspect existing interfaces/services and relationship directions.',
-          'Call `archi_plan_model_changes` to preview pattern-specific integration changes.',
-          'After confirmation, call `archi_apply_model_changes`, then complete via `archi_wait_for_operation`.',
-          'Call `archi_list_views` and then `archi_create_view` or `archi_get_view` to place/update visuals.',
-          'Call `archi_layout_view` and `archi_validate_view` to ensure clean diagram structure.',
-          'If sharing externally, call `archi_export_view` after validation.',
-        ],
-        activityGuidance: [
-          'Pattern mapping: `simple_flow` = direct flow relationship; `service_based` = service mediation; `full_detail` = explicit interfaces + service + flow data labels.',
-          'Ensure flow and serving directions match provider/consumer semantics.',
-          'Use labeled flow for payload meaning rather than unlabeled generic links.',
-        ],
-        expectedOutputFormat: [
-          'Selected integration pattern rationale and tradeoff note.',
-          'Detailed relationship set with direction and purpose for each link.',
-          'View update summary including validation status and any manual follow-ups.',
-          'Compatibility and risk notes (coupling, data ownership, lifecycle impacts).',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Model semantically correct application integration with the right level of architectural detail.',
+      inputRequirements: [
+        {
+          key: 'sourceApp',
+          required: true,
+          description: 'Source application component name.',
+          askWhenMissing: 'Which application is the integration source?',
+          completion: { source: 'elementName', elementType: 'application-component' },
+        },
+        {
+          key: 'targetApp',
+          required: true,
+          description: 'Target application component name.',
+          askWhenMissing: 'Which application is the integration target?',
+          completion: { source: 'elementName', elementType: 'application-component' },
+        },
+        {
+          key: 'integrationPattern',
+          required: false,
+          description: 'Integration modeling pattern to apply.',
+          askWhenMissing: 'Which integration pattern should I use: simple_flow, service_based, or full_detail?',
+          recommendedDefault: 'service_based',
+          completion: { values: ['simple_flow', 'service_based', 'full_detail'] },
+        },
+        {
+          key: 'dataObjectName',
+          required: false,
+          description: 'Optional data object flowing across the integration boundary.',
+          askWhenMissing: 'Is there a specific data object that should be shown in the integration flow?',
+          completion: { source: 'elementName', elementType: 'data-object' },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_search_model` to locate source and target applications plus existing integration artifacts.',
+        'Call `archi_get_element` to inspect existing interfaces/services and relationship directions.',
+        'Call `archi_plan_model_changes` to preview pattern-specific integration changes.',
+        'After confirmation, call `archi_apply_model_changes`, then complete via `archi_wait_for_operation`.',
+        'Call `archi_list_views` and then `archi_create_view` or `archi_get_view` to place/update visuals.',
+        'Call `archi_layout_view` and `archi_validate_view` to ensure clean diagram structure.',
+        'If sharing externally, call `archi_export_view` after validation.',
+      ],
+      activityGuidance: [
+        'Pattern mapping: `simple_flow` = direct flow relationship; `service_based` = service mediation; `full_detail` = explicit interfaces + service + flow data labels.',
+        'Ensure flow and serving directions match provider/consumer semantics.',
+        'Use labeled flow for payload meaning rather than unlabeled generic links.',
+      ],
+      expectedOutputFormat: [
+        'Selected integration pattern rationale and tradeoff note.',
+        'Detailed relationship set with direction and purpose for each link.',
+        'View update summary including validation status and any manual follow-ups.',
+        'Compatibility and risk notes (coupling, data ownership, lifecycle impacts).',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_map_technology_deployment',
     {
       title: 'Map Technology Deployment',
       description:
         'Map application components to artifacts, runtime platforms, nodes, and optional network context.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Model accurate deployment traceability from application component to technology runtime and infrastructure.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'applicationComponentName',
-            required: true,
-            description: 'Application component to map onto the technology layer.',
-            askWhenMissing: 'Which application component should be mapped to technology deployment?',
-          },
-          {
-            key: 'environment',
-            required: false,
-            description: 'Environment scope for deployment mapping.',
-            askWhenMissing: 'Which environment should be modeled: dev, test, prod, or all?',
-            recommendedDefault: 'prod',
-          },
-          {
-            key: 'includeNetwork',
-            required: false,
-            description: 'Include communication network/path elements where relevant.',
-            askWhenMissing: 'Should network/path elements be included in the deployment mapping?',
-            recommendedDefault: 'true',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_search_model` for application component, artifacts, nodes, system software, and technology services.',
-          'Call `archi_get_element` on deployment candidates to verify existing runtime mappings.',
-          'Call `archi_plan_model_changes` to preview artifact-to-node/system-software assignments and service links.',
-          'After confirmation, call `archi_apply_model_changes` and complete with `archi_wait_for_operation`.',
-          'Call `archi_list_views` and use `archi_create_view` for a deployment-focused view if needed.',
-          'Call `archi_layout_view` (use LR or TB as needed) and then `archi_validate_view`.',
-          'Optionally call `archi_export_view` for sharing deployment baselines.',
-        ],
-        activityGuidance: [
-          'Use canonical mapping: Artifact realizes application/data concepts; Node/System Software provides technology services consumed by applications.',
-          'Never model business processes directly on nodes.',
-          'If `includeNetwork=true`, include communication network/path only when it clarifies runtime behavior.',
-        ],
-        expectedOutputFormat: [
-          'Deployment mapping summary by environment.',
-          'Traceability chain: application component -> artifact -> runtime/service -> node/device.',
-          'Identified deployment gaps, ambiguities, or unsupported assumptions.',
-          'Validated deployment view status with export details if generated.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Model accurate deployment traceability from application component to technology runtime and infrastructure.',
+      inputRequirements: [
+        {
+          key: 'applicationComponentName',
+          required: true,
+          description: 'Application component to map onto the technology layer.',
+          askWhenMissing: 'Which application component should be mapped to technology deployment?',
+          completion: { source: 'elementName', elementType: 'application-component' },
+        },
+        {
+          key: 'environment',
+          required: false,
+          description: 'Environment scope for deployment mapping.',
+          askWhenMissing: 'Which environment should be modeled: dev, test, prod, or all?',
+          recommendedDefault: 'prod',
+          completion: { values: ['dev', 'test', 'prod', 'all'] },
+        },
+        {
+          key: 'includeNetwork',
+          required: false,
+          description: 'Include communication network/path elements where relevant.',
+          askWhenMissing: 'Should network/path elements be included in the deployment mapping?',
+          recommendedDefault: 'true',
+          completion: { values: ['true', 'false'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_search_model` for application component, artifacts, nodes, system software, and technology services.',
+        'Call `archi_get_element` on deployment candidates to verify existing runtime mappings.',
+        'Call `archi_plan_model_changes` to preview artifact-to-node/system-software assignments and service links.',
+        'After confirmation, call `archi_apply_model_changes` and complete with `archi_wait_for_operation`.',
+        'Call `archi_list_views` and use `archi_create_view` for a deployment-focused view if needed.',
+        'Call `archi_layout_view` (use LR or TB as needed) and then `archi_validate_view`.',
+        'Optionally call `archi_export_view` for sharing deployment baselines.',
+      ],
+      activityGuidance: [
+        'Use canonical mapping: Artifact realizes application/data concepts; Node/System Software provides technology services consumed by applications.',
+        'Never model business processes directly on nodes.',
+        'If `includeNetwork=true`, include communication network/path only when it clarifies runtime behavior.',
+      ],
+      expectedOutputFormat: [
+        'Deployment mapping summary by environment.',
+        'Traceability chain: application component -> artifact -> runtime/service -> node/device.',
+        'Identified deployment gaps, ambiguities, or unsupported assumptions.',
+        'Validated deployment view status with export details if generated.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_plan_gap_analysis_roadmap',
     {
       title: 'Plan Gap Analysis Roadmap',
       description:
         'Define baseline-to-target architecture transitions using plateaus, gaps, and implementation work packages.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Create a migration-safe roadmap from baseline to target architecture with explicit transition logic.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'baselinePlateauName',
-            required: true,
-            description: 'Name of the baseline plateau.',
-            askWhenMissing: 'What is the baseline plateau name?',
-          },
-          {
-            key: 'targetPlateauName',
-            required: true,
-            description: 'Name of the target plateau.',
-            askWhenMissing: 'What is the target plateau name?',
-          },
-          {
-            key: 'roadmapHorizon',
-            required: true,
-            description: 'Roadmap horizon such as Q1-Q4 FY2026.',
-            askWhenMissing: 'What roadmap horizon should the transition plan use?',
-          },
-          {
-            key: 'includeWorkPackages',
-            required: false,
-            description: 'Include work packages and deliverables in roadmap design.',
-            askWhenMissing: 'Should work packages and deliverables be included?',
-            recommendedDefault: 'true',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_search_model` for existing plateaus, gaps, work packages, and deliverables.',
-          'Call `archi_query_model` to understand current implementation/migration landscape.',
-          'Call `archi_plan_model_changes` to preview plateau, gap, and transition relationship changes.',
-          'After confirmation, call `archi_apply_model_changes` and complete using `archi_wait_for_operation`.',
-          'Call `archi_list_views` and `archi_create_view` for migration roadmap visualization as needed.',
-          'Call `archi_layout_view` and `archi_validate_view` before sharing or exporting.',
-          'Call `archi_export_view` when an artifact is needed for planning forums.',
-        ],
-        activityGuidance: [
-          'Use triggering relationships to represent migration sequence between plateaus/work packages.',
-          'Use gap elements to explicitly represent baseline-target deltas and affected architecture elements.',
-          'If `includeWorkPackages=true`, map deliverables and ownership metadata for execution traceability.',
-        ],
-        expectedOutputFormat: [
-          'Migration roadmap narrative with baseline, transition states, and target outcome.',
-          'Gap inventory with impacted elements and dependency notes.',
-          'Work package and deliverable mapping with proposed sequence.',
-          'Validation and residual-risk summary for migration readiness.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Create a migration-safe roadmap from baseline to target architecture with explicit transition logic.',
+      inputRequirements: [
+        {
+          key: 'baselinePlateauName',
+          required: true,
+          description: 'Name of the baseline plateau.',
+          askWhenMissing: 'What is the baseline plateau name?',
+          completion: { source: 'elementName', elementType: 'plateau' },
+        },
+        {
+          key: 'targetPlateauName',
+          required: true,
+          description: 'Name of the target plateau.',
+          askWhenMissing: 'What is the target plateau name?',
+          completion: { source: 'elementName', elementType: 'plateau' },
+        },
+        {
+          key: 'roadmapHorizon',
+          required: true,
+          description: 'Roadmap horizon such as Q1-Q4 FY2026.',
+          askWhenMissing: 'What roadmap horizon should the transition plan use?',
+        },
+        {
+          key: 'includeWorkPackages',
+          required: false,
+          description: 'Include work packages and deliverables in roadmap design.',
+          askWhenMissing: 'Should work packages and deliverables be included?',
+          recommendedDefault: 'true',
+          completion: { values: ['true', 'false'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_search_model` for existing plateaus, gaps, work packages, and deliverables.',
+        'Call `archi_query_model` to understand current implementation/migration landscape.',
+        'Call `archi_plan_model_changes` to preview plateau, gap, and transition relationship changes.',
+        'After confirmation, call `archi_apply_model_changes` and complete using `archi_wait_for_operation`.',
+        'Call `archi_list_views` and `archi_create_view` for migration roadmap visualization as needed.',
+        'Call `archi_layout_view` and `archi_validate_view` before sharing or exporting.',
+        'Call `archi_export_view` when an artifact is needed for planning forums.',
+      ],
+      activityGuidance: [
+        'Use triggering relationships to represent migration sequence between plateaus/work packages.',
+        'Use gap elements to explicitly represent baseline-target deltas and affected architecture elements.',
+        'If `includeWorkPackages=true`, map deliverables and ownership metadata for execution traceability.',
+      ],
+      expectedOutputFormat: [
+        'Migration roadmap narrative with baseline, transition states, and target outcome.',
+        'Gap inventory with impacted elements and dependency notes.',
+        'Work package and deliverable mapping with proposed sequence.',
+        'Validation and residual-risk summary for migration readiness.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_run_model_quality_audit',
     {
       title: 'Run Model Quality Audit',
       description:
         'Run a read-only quality audit across naming, relationships, layering, and view hygiene.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Assess model quality and provide prioritized, evidence-backed remediation guidance.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'auditFocus',
-            required: false,
-            description: 'Primary audit dimension.',
-            askWhenMissing: 'Should the audit focus on naming, relationships, layering, views, or all?',
-            recommendedDefault: 'all',
-          },
-          {
-            key: 'maxFindings',
-            required: false,
-            description: 'Maximum findings to report.',
-            askWhenMissing: 'How many findings should be returned (5-50)?',
-            recommendedDefault: '20',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_get_model_diagnostics` for structural integrity signals.',
-          'Call `archi_get_model_stats` and `archi_query_model` to establish baseline quality indicators.',
-          'Call `archi_search_model` with focus-specific filters (naming patterns, relationship types, layer combinations).',
-          'Call `archi_list_views` and `archi_validate_view` on priority views to detect connection violations.',
-          'Call `archi_get_element` for high-impact findings to verify relationship context.',
-          'Produce audit report and stop; do not run mutation tools unless explicitly requested after audit acceptance.',
-        ],
-        activityGuidance: [
-          'Prioritize anti-patterns: layer violations, reversed serving/realization links, orphan elements, and overloaded views.',
-          'Differentiate fact-based findings from inferred risks.',
-          'No mutation unless explicitly requested after audit.',
-        ],
-        expectedOutputFormat: [
-          'Findings list ordered by severity, capped at `maxFindings`.',
-          'Per finding: issue, impacted elements/views, evidence tool calls, and remediation recommendation.',
-          'Residual risk summary and suggested follow-up modeling activities.',
-          'Explicit confirmation that no model mutations were executed.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Assess model quality and provide prioritized, evidence-backed remediation guidance.',
+      inputRequirements: [
+        {
+          key: 'auditFocus',
+          required: false,
+          description: 'Primary audit dimension.',
+          askWhenMissing: 'Should the audit focus on naming, relationships, layering, views, or all?',
+          recommendedDefault: 'all',
+          completion: { values: ['naming', 'relationships', 'layering', 'views', 'all'] },
+        },
+        {
+          key: 'maxFindings',
+          required: false,
+          description: 'Maximum findings to report.',
+          askWhenMissing: 'How many findings should be returned (5-50)?',
+          recommendedDefault: '20',
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_get_model_diagnostics` for structural integrity signals.',
+        'Call `archi_get_model_stats` and `archi_query_model` to establish baseline quality indicators.',
+        'Call `archi_search_model` with focus-specific filters (naming patterns, relationship types, layer combinations).',
+        'Call `archi_list_views` and `archi_validate_view` on priority views to detect connection violations.',
+        'Call `archi_get_element` for high-impact findings to verify relationship context.',
+        'Produce audit report and stop; do not run mutation tools unless explicitly requested after audit acceptance.',
+      ],
+      activityGuidance: [
+        'Prioritize anti-patterns: layer violations, reversed serving/realization links, orphan elements, and overloaded views.',
+        'Differentiate fact-based findings from inferred risks.',
+        'No mutation unless explicitly requested after audit.',
+      ],
+      expectedOutputFormat: [
+        'Findings list ordered by severity, capped at `maxFindings`.',
+        'Per finding: issue, impacted elements/views, evidence tool calls, and remediation recommendation.',
+        'Residual risk summary and suggested follow-up modeling activities.',
+        'Explicit confirmation that no model mutations were executed.',
+      ],
     },
   );
 
-  server.registerPrompt(
+  registerWorkflowPrompt(
     'archi_curate_and_export_view',
     {
       title: 'Curate and Export View',
       description:
         'Locate a view, validate it, apply router/layout settings, and export an image artifact.',
     },
-    async () => {
-      const text = buildWorkflowPrompt({
-        goal: 'Produce a validated, readable architecture view image for communication and review.',
-        context: {},
-        inputRequirements: [
-          {
-            key: 'viewIdOrName',
-            required: true,
-            description: 'View identifier or exact view name to curate.',
-            askWhenMissing: 'Which view ID or exact view name should be curated and exported?',
-          },
-          {
-            key: 'layoutDirection',
-            required: false,
-            description: 'Layout direction for auto-layout.',
-            askWhenMissing: 'What layout direction should be used: TB, BT, LR, or RL?',
-            recommendedDefault: 'LR',
-          },
-          {
-            key: 'routerType',
-            required: false,
-            description: 'Connection router style to apply before export.',
-            askWhenMissing: 'Which router style should be applied: bendpoint or manhattan?',
-            recommendedDefault: 'manhattan',
-          },
-          {
-            key: 'exportFormat',
-            required: false,
-            description: 'Export image format.',
-            askWhenMissing: 'Which export format should be used: PNG or JPG?',
-            recommendedDefault: 'PNG',
-          },
-        ],
-        requiredToolSequence: [
-          'Call `archi_list_views` to resolve `viewIdOrName` to a concrete `viewId`.',
-          'Call `archi_get_view` to inspect current visual density and connection structure.',
-          'Call `archi_validate_view` before curation to identify existing violations.',
-          'Call `archi_set_view_router` with `routerType`.',
-          'Call `archi_layout_view` with `rankdir` set to `layoutDirection`.',
-          'Call `archi_validate_view` again and resolve critical issues if present.',
-          'Call `archi_export_view` with `exportFormat` and report resulting file path and metadata.',
-        ],
-        activityGuidance: [
-          'Preserve semantic clarity over purely aesthetic movement.',
-          'If validation fails after layout, report violations and stop before export unless explicitly told to continue.',
-          'Use consistent router/layout choices across related views for visual coherence.',
-        ],
-        expectedOutputFormat: [
-          'Resolved view identification details (name and ID).',
-          'Pre/post validation summary with any remaining issues.',
-          'Applied curation settings (router, layout direction, scale/margins if used).',
-          'Export result including output path and format.',
-        ],
-      });
-
-      return singleUserMessagePrompt(text);
+    {
+      goal: 'Produce a validated, readable architecture view image for communication and review.',
+      inputRequirements: [
+        {
+          key: 'viewIdOrName',
+          required: true,
+          description: 'View identifier or exact view name to curate.',
+          askWhenMissing: 'Which view ID or exact view name should be curated and exported?',
+          completion: { source: 'viewName' },
+        },
+        {
+          key: 'layoutDirection',
+          required: false,
+          description: 'Layout direction for auto-layout.',
+          askWhenMissing: 'What layout direction should be used: TB, BT, LR, or RL?',
+          recommendedDefault: 'LR',
+          completion: { values: ['TB', 'BT', 'LR', 'RL'] },
+        },
+        {
+          key: 'routerType',
+          required: false,
+          description: 'Connection router style to apply before export.',
+          askWhenMissing: 'Which router style should be applied: bendpoint or manhattan?',
+          recommendedDefault: 'manhattan',
+          completion: { values: ['bendpoint', 'manhattan'] },
+        },
+        {
+          key: 'exportFormat',
+          required: false,
+          description: 'Export image format.',
+          askWhenMissing: 'Which export format should be used: PNG or JPG?',
+          recommendedDefault: 'PNG',
+          completion: { values: ['PNG', 'JPG'] },
+        },
+      ],
+      requiredToolSequence: [
+        'Call `archi_list_views` to resolve `viewIdOrName` to a concrete `viewId`.',
+        'Call `archi_get_view` to inspect current visual density and connection structure.',
+        'Call `archi_validate_view` before curation to identify existing violations.',
+        'Call `archi_set_view_router` with `routerType`.',
+        'Call `archi_layout_view` with `rankdir` set to `layoutDirection`.',
+        'Call `archi_validate_view` again and resolve critical issues if present.',
+        'Call `archi_export_view` with `exportFormat` and report resulting file path and metadata.',
+      ],
+      activityGuidance: [
+        'Preserve semantic clarity over purely aesthetic movement.',
+        'If validation fails after layout, report violations and stop before export unless explicitly told to continue.',
+        'Use consistent router/layout choices across related views for visual coherence.',
+      ],
+      expectedOutputFormat: [
+        'Resolved view identification details (name and ID).',
+        'Pre/post validation summary with any remaining issues.',
+        'Applied curation settings (router, layout direction, scale/margins if used).',
+        'Export result including output path and format.',
+      ],
     },
   );
+
+  // MCP allows prompts/get without arguments, but the SDK rejects that once a prompt declares
+  // arguments. Serve prompts/get here so argument-free calls keep opening the clarification gate.
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const render = renderers.get(request.params.name);
+    if (!render) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${request.params.name} not found`);
+    }
+
+    return render(request.params.arguments ?? {});
+  });
 }
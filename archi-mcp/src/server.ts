@@ -2,12 +2,19 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { ArchiApiClient } from './archi-api.js';
 import type { AppConfig } from './config.js';
 import { registerArchiModelingPrompts } from './prompts.js';
-import { registerResources } from './server/resources.js';
+import { createModelCompleters } from './server/completions.js';
+import { createModelChangeFeed, type ModelChangeFeed } from './server/model-events.js';
+import { registerModelResources, registerResources } from './server/resources.js';
 import { registerReadTools } from './server/register-read-tools.js';
 import { registerMutationTools } from './server/register-mutation-tools.js';
 
-export function createArchiMcpServer(config: AppConfig): McpServer {
+/**
+ * Build an MCP server for one client connection. Pass a shared `modelChanges` feed when
+ * serving several sessions so they reuse one Archi Server event subscription.
+ */
+export function createArchiMcpServer(config: AppConfig, modelChanges?: ModelChangeFeed): McpServer {
   const api = new ArchiApiClient(config);
+  const completers = createModelCompleters(api);
 
   const server = new McpServer(
     {
@@ -25,11 +32,12 @@ export function createArchiMcpServer(config: AppConfig): McpServer {
   );
 
   registerResources(server, config);
+  registerModelResources(server, api, completers, modelChanges ?? createModelChangeFeed(api));
 
   registerReadTools(server, api);
   registerMutationTools(server, api);
 
-  registerArchiModelingPrompts(server);
+  registerArchiModelingPrompts(server, completers);
 
   return server;
 }
@@ -0,0 +1,113 @@
+import { ArchiApiClient } from '../archi-api.js';
+import { getNonEmptyString, prepareSearchRequest, uniqueStrings } from './model-helpers.js';
+
+/** completion/complete returns at most 100 values. */
+const COMPLETION_LIMIT = 100;
+
+/** Clients request completions per keystroke; reuse view and folder listings for this long. */
+const LISTING_CACHE_TTL_MS = 5000;
+
+/**
+ * Live-model suggestions for completion/complete. Every completer resolves to an empty list
+ * when Archi is unreachable so argument entry keeps working offline.
+ */
+export interface ModelCompleters {
+  viewNames(value: string): Promise<string[]>;
+  /** Element names matching `value`, optionally restricted to one element type. */
+  elementNames(value: string, elementType?: string): Promise<string[]>;
+  folderPaths(value: string): Promise<string[]>;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Keep candidates containing `value` (case-insensitive), prefix matches first, capped at the
+ * completion limit.
+ */
+export function rankCompletions(candidates: string[], value: string): string[] {
+  const needle = value.trim().toLowerCase();
+  const prefixMatches: string[] = [];
+  const otherMatches: string[] = [];
+
+  for (const candidate of uniqueStrings(candidates)) {
+    const normalized = candidate.toLowerCase();
+    if (normalized.startsWith(needle)) {
+      prefixMatches.push(candidate);
+    } else if (normalized.includes(needle)) {
+      otherMatches.push(candidate);
+    }
+  }
+
+  return [...prefixMatches, ...otherMatches].slice(0, COMPLETION_LIMIT);
+}
+
+function cached<T>(load: () => Promise<T>): () => Promise<T> {
+  let entry: { value: Promise<T>; expiresAt: number } | undefined;
+
+  return () => {
+    const now = Date.now();
+    if (!entry || entry.expiresAt <= now) {
+      const value = load();
+      entry = { value, expiresAt: now + LISTING_CACHE_TTL_MS };
+      value.catch(() => {
+        if (entry?.value === value) {
+          entry = undefined;
+        }
+      });
+    }
+
+    return entry.value;
+  };
+}
+
+async function orEmpty(complete: () => Promise<string[]>): Promise<string[]> {
+  try {
+    return await complete();
+  } catch {
+    return [];
+  }
+}
+
+export function createModelCompleters(api: ArchiApiClient): ModelCompleters {
+  const listViews = cached(async () => (await api.getViews()).views ?? []);
+  const listFolders = cached(async () => (await api.getFolders()).folders ?? []);
+
+  return {
+    viewNames: (value) =>
+      orEmpty(async () => {
+        const views = await listViews();
+        return rankCompletions(
+          views.flatMap((view) => getNonEmptyString(view.name) ?? []),
+          value,
+        );
+      }),
+
+    elementNames: (value, elementType) =>
+      orEmpty(async () => {
+        const needle = value.trim();
+        const { request } = prepareSearchRequest({
+          type: elementType,
+          namePattern: needle ? escapeRegExp(needle) : undefined,
+          caseSensitive: false,
+          includeRelationships: false,
+          limit: COMPLETION_LIMIT,
+        });
+        const { results } = await api.postModelSearch(request);
+        return rankCompletions(
+          (results ?? []).flatMap((result) => getNonEmptyString(result.name) ?? []),
+          value,
+        );
+      }),
+
+    folderPaths: (value) =>
+      orEmpty(async () => {
+        const folders = await listFolders();
+        return rankCompletions(
+          folders.flatMap((folder) => getNonEmptyString(folder.path) ?? []),
+          value,
+        );
+      }),
+  };
+}
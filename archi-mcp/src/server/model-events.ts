@@ -0,0 +1,37 @@
+import { ArchiApiClient } from '../archi-api.js';
+
+/**
+ * Archi Server `model.changed` events shared by every MCP session. One GET /events
+ * subscription stays open while at least one listener is registered, so edits from tools,
+ * archicli and the Archi UI all reach every connected client.
+ */
+export interface ModelChangeFeed {
+  /** Call `listener` for every model change until the returned function is called. */
+  subscribe(listener: () => void): () => void;
+}
+
+export function createModelChangeFeed(api: ArchiApiClient): ModelChangeFeed {
+  const listeners = new Set<() => void>();
+  let controller: AbortController | undefined;
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      if (!controller) {
+        controller = new AbortController();
+        void api.watchModelChanges(controller.signal, () => {
+          for (const notify of [...listeners]) {
+            notify();
+          }
+        });
+      }
+
+      return () => {
+        if (listeners.delete(listener) && listeners.size === 0) {
+          controller?.abort();
+          controller = undefined;
+        }
+      };
+    },
+  };
+}
@@ -1,14 +1,21 @@
 import * as z from 'zod/v4';
 import { ArchiApiClient, ArchiApiError } from '../archi-api.js';
-import { PopulateViewSchema, WaitForOperationSchema } from './schemas.js';
-import { PopulateViewDataSchema, WaitForOperationDataSchema } from './output-schemas.js';
+import { GenerateViewFromQuerySchema, PopulateViewSchema, WaitForOperationSchema } from './schemas.js';
+import {
+  GenerateViewFromQueryDataSchema,
+  PopulateViewDataSchema,
+  WaitForOperationDataSchema,
+} from './output-schemas.js';
 import {
   asLooseObject,
   getNonEmptyString,
+  isRelationshipTypeAllowed,
+  normalizeArchiTypeForCompare,
+  prepareSearchRequest,
   resolveOperationIdentifier,
   uniqueStrings,
 } from './model-helpers.js';
-import { collectRelationshipsBetweenElements } from './view-helpers.js';
+import { buildViewSummary, collectRelationshipsBetweenElements } from './view-helpers.js';
 
 export const RELIABLE_BATCH_SIZE = 8;
 const CHUNK_POLL_INTERVAL_MS = 500;
@@ -379,6 +386,17 @@ function sleep(ms: number): Promise<void> {
   });
 }
 
+// Wait up to `ms` for `signal` to settle, without leaving the timer behind.
+function sleepUntil(signal: Promise<unknown>, ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    void signal.finally(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
 export async function waitForOperationCompletion(
   api: ArchiApiClient,
   args: z.infer<typeof WaitForOperationSchema>,
@@ -390,69 +408,249 @@ export async function waitForOperationCompletion(
   const startedAt = Date.now();
   let polls = 0;
 
-  while (true) {
-    const latest = await api.getOpsStatus({ opId: operationId });
-    polls += 1;
-
-    const status = getNonEmptyString(latest.status) ?? 'unknown';
-    statusHistory.push(status);
-
-    const latestRecord = latest as Record<string, unknown>;
-    const elapsedMs = Date.now() - startedAt;
-    const resolvedOperationId = getNonEmptyString(latestRecord.operationId) ?? operationId;
-    const errorDetails = asLooseObject(latest.errorDetails);
-
-    if (status === 'complete' || status === 'error') {
-      return {
-        operationId: resolvedOperationId,
-        status,
-        terminal: true,
-        timedOut: false,
-        polls,
-        elapsedMs,
-        statusHistory,
-        result: Array.isArray(latest.result) ? latest.result : undefined,
-        digest: asLooseObject((latest as Record<string, unknown>).digest),
-        tempIdMap: (latest as Record<string, unknown>).tempIdMap as Record<string, string> | undefined,
-        tempIdMappings: Array.isArray((latest as Record<string, unknown>).tempIdMappings)
-          ? ((latest as Record<string, unknown>).tempIdMappings as Array<Record<string, unknown>>)
-          : undefined,
-        timeline: Array.isArray((latest as Record<string, unknown>).timeline)
-          ? ((latest as Record<string, unknown>).timeline as Array<Record<string, unknown>>)
-          : undefined,
-        error: getNonEmptyString(latest.error),
-        errorDetails,
-        requestId: getNonEmptyString(latestRecord.requestId),
-      };
+  // Subscribe before the first status read so a completion in between is not missed;
+  // while the event stream is available, wait on it instead of the poll interval.
+  const eventController = new AbortController();
+  let eventPending = false;
+
+  try {
+    const terminalEvent = (await api.watchOperationEvents(operationId, eventController.signal))?.terminal;
+    if (terminalEvent) {
+      eventPending = true;
+      void terminalEvent.finally(() => {
+        eventPending = false;
+      });
     }
 
-    if (elapsedMs >= timeoutMs) {
-      return {
-        operationId: resolvedOperationId,
-        status,
-        terminal: false,
-        timedOut: true,
-        polls,
-        elapsedMs,
-        statusHistory,
-        result: Array.isArray(latest.result) ? latest.result : undefined,
-        digest: asLooseObject((latest as Record<string, unknown>).digest),
-        tempIdMap: (latest as Record<string, unknown>).tempIdMap as Record<string, string> | undefined,
-        tempIdMappings: Array.isArray((latest as Record<string, unknown>).tempIdMappings)
-          ? ((latest as Record<string, unknown>).tempIdMappings as Array<Record<string, unknown>>)
-          : undefined,
-        timeline: Array.isArray((latest as Record<string, unknown>).timeline)
-          ? ((latest as Record<string, unknown>).timeline as Array<Record<string, unknown>>)
-          : undefined,
-        error: getNonEmptyString(latest.error),
-        errorDetails,
-        requestId: getNonEmptyString(latestRecord.requestId),
-      };
+    while (true) {
+      const latest = await api.getOpsStatus({ opId: operationId });
+      polls += 1;
+
+      const status = getNonEmptyString(latest.status) ?? 'unknown';
+      statusHistory.push(status);
+
+      const latestRecord = latest as Record<string, unknown>;
+      const elapsedMs = Date.now() - startedAt;
+      const resolvedOperationId = getNonEmptyString(latestRecord.operationId) ?? operationId;
+      const errorDetails = asLooseObject(latest.errorDetails);
+
+      if (status === 'complete' || status === 'error') {
+        return {
+          operationId: resolvedOperationId,
+          status,
+          terminal: true,
+          timedOut: false,
+          polls,
+          elapsedMs,
+          statusHistory,
+          result: Array.isArray(latest.result) ? latest.result : undefined,
+          digest: asLooseObject((latest as Record<string, unknown>).digest),
+          tempIdMap: (latest as Record<string, unknown>).tempIdMap as Record<string, string> | undefined,
+          tempIdMappings: Array.isArray((latest as Record<string, unknown>).tempIdMappings)
+            ? ((latest as Record<string, unknown>).tempIdMappings as Array<Record<string, unknown>>)
+            : undefined,
+          timeline: Array.isArray((latest as Record<string, unknown>).timeline)
+            ? ((latest as Record<string, unknown>).timeline as Array<Record<string, unknown>>)
+            : undefined,
+          error: getNonEmptyString(latest.error),
+          errorDetails,
+          requestId: getNonEmptyString(latestRecord.requestId),
+        };
+      }
+
+      if (elapsedMs >= timeoutMs) {
+        return {
+          operationId: resolvedOperationId,
+          status,
+          terminal: false,
+          timedOut: true,
+          polls,
+          elapsedMs,
+          statusHistory,
+          result: Array.isArray(latest.result) ? latest.result : undefined,
+          digest: asLooseObject((latest as Record<string, unknown>).digest),
+          tempIdMap: (latest as Record<string, unknown>).tempIdMap as Record<string, string> | undefined,
+          tempIdMappings: Array.isArray((latest as Record<string, unknown>).tempIdMappings)
+            ? ((latest as Record<string, unknown>).tempIdMappings as Array<Record<string, unknown>>)
+            : undefined,
+          timeline: Array.isArray((latest as Record<string, unknown>).timeline)
+            ? ((latest as Record<string, unknown>).timeline as Array<Record<string, unknown>>)
+            : undefined,
+          error: getNonEmptyString(latest.error),
+          errorDetails,
+          requestId: getNonEmptyString(latestRecord.requestId),
+        };
+      }
+
+      const remainingMs = timeoutMs - elapsedMs;
+      if (terminalEvent && eventPending) {
+        await sleepUntil(terminalEvent, remainingMs);
+      } else {
+        await sleep(Math.min(pollIntervalMs, remainingMs));
+      }
+    }
+  } finally {
+    eventController.abort();
+  }
+}
+
+const GENERATE_VIEW_SEARCH_LIMIT = 1000;
+
+async function searchElementsForView(
+  api: ArchiApiClient,
+  args: z.infer<typeof GenerateViewFromQuerySchema>,
+): Promise<string[]> {
+  const [firstProperty, ...extraProperties] = args.properties ?? [];
+  const types = args.types && args.types.length > 0 ? uniqueStrings(args.types) : [undefined];
+  const matchedIds: string[] = [];
+
+  for (const type of types) {
+    const { request } = prepareSearchRequest({
+      type,
+      namePattern: args.namePattern,
+      caseSensitive: args.caseSensitive,
+      propertyKey: firstProperty?.key,
+      propertyValue: firstProperty?.value,
+      includeRelationships: false,
+      limit: GENERATE_VIEW_SEARCH_LIMIT,
+    });
+    const response = await api.postModelSearch({ ...request, includeProperties: extraProperties.length > 0 });
+
+    for (const result of response.results ?? []) {
+      const id = getNonEmptyString(result.id);
+      // Relationships carry source/target IDs; only elements go on the view as nodes.
+      if (!id || result.sourceId || result.targetId) {
+        continue;
+      }
+
+      const properties = result.properties ?? {};
+      const matchesExtraProperties = extraProperties.every(({ key, value }) =>
+        value === undefined ? key in properties : properties[key] === value,
+      );
+      if (matchesExtraProperties) {
+        matchedIds.push(id);
+      }
+    }
+  }
+
+  return uniqueStrings(matchedIds);
+}
+
+export async function generateViewFromQuery(
+  api: ArchiApiClient,
+  args: z.infer<typeof GenerateViewFromQuerySchema>,
+): Promise<z.infer<typeof GenerateViewFromQueryDataSchema>> {
+  const maxElements = args.maxElements ?? 50;
+  const neighborhoodDepth = args.neighborhoodDepth ?? 0;
+  const allowedTypes =
+    args.relationshipTypes && args.relationshipTypes.length > 0
+      ? new Set(args.relationshipTypes.map((value) => normalizeArchiTypeForCompare(value)))
+      : undefined;
+
+  const matchedIds = await searchElementsForView(api, args);
+  if (matchedIds.length === 0) {
+    throw new ArchiApiError(
+      'No elements matched the query; no view was created. Broaden types, namePattern or properties.',
+      undefined,
+      'NO_MATCHES',
+    );
+  }
+
+  const selected = new Set(matchedIds.slice(0, maxElements));
+  let truncated = matchedIds.length > maxElements;
+  let frontier = Array.from(selected);
+
+  // Breadth-first expansion so nearer neighbors win when maxElements is reached.
+  for (let depth = 0; depth < neighborhoodDepth && frontier.length > 0 && !truncated; depth += 1) {
+    const details = await Promise.all(frontier.map((elementId) => api.getElementById(elementId)));
+    const next: string[] = [];
+
+    for (const detail of details) {
+      const relationships = [...(detail.relationships?.outgoing ?? []), ...(detail.relationships?.incoming ?? [])];
+      for (const relationship of relationships) {
+        const otherEndId = getNonEmptyString(relationship.otherEndId);
+        if (!otherEndId || selected.has(otherEndId) || !isRelationshipTypeAllowed(relationship.type, allowedTypes)) {
+          continue;
+        }
+
+        // Skip relationships attached to other relationships; those ends are not elements.
+        const otherEndType = getNonEmptyString(relationship.otherEndType);
+        if (otherEndType && normalizeArchiTypeForCompare(otherEndType).endsWith('-relationship')) {
+          continue;
+        }
+
+        if (selected.size >= maxElements) {
+          truncated = true;
+          break;
+        }
+
+        selected.add(otherEndId);
+        next.push(otherEndId);
+      }
     }
 
-    const remainingMs = timeoutMs - elapsedMs;
-    await sleep(Math.min(pollIntervalMs, remainingMs));
+    frontier = next;
   }
+
+  const elementIds = Array.from(selected);
+  const created = await api.postViews({
+    name: args.viewName,
+    viewpoint: args.viewpoint,
+    folder: args.folder,
+    documentation: args.documentation,
+    allowDuplicate: args.allowDuplicate,
+  });
+  const viewId = getNonEmptyString(created.viewId);
+  if (!viewId) {
+    throw new ArchiApiError('View creation did not return a viewId.', undefined, 'VIEW_CREATE_FAILED');
+  }
+
+  const populated = await populateViewWithRelationships(api, {
+    viewId,
+    elementIds,
+    autoConnect: true,
+    relationshipTypes: args.relationshipTypes,
+  });
+
+  const operationId = getNonEmptyString(populated.operationId);
+  if (operationId) {
+    const completion = await waitForOperationCompletion(api, { operationId, timeoutMs: args.timeoutMs });
+    if (completion.timedOut) {
+      throw new ArchiApiError(
+        `View ${viewId} was created but populating it did not finish within the timeout. ` +
+          `Check archi_wait_for_operation with operationId ${operationId}.`,
+        undefined,
+        'OPERATION_TIMEOUT',
+        { viewId, operationId },
+      );
+    }
+
+    if (completion.status === 'error') {
+      throw new ArchiApiError(
+        `View ${viewId} was created but populating it failed: ${completion.error ?? 'unknown error'}`,
+        undefined,
+        'POPULATE_FAILED',
+        { viewId, operationId, errorDetails: completion.errorDetails },
+      );
+    }
+  }
+
+  const { algorithm, ...layoutOptions } = args.layout ?? {};
+  const layout = await api.postViewLayout(viewId, { algorithm: algorithm ?? 'dagre', ...layoutOptions });
+  const view = await api.getViewById(viewId);
+
+  return {
+    viewId,
+    viewName: getNonEmptyString(created.viewName) ?? args.viewName,
+    matchedElementCount: matchedIds.length,
+    neighborElementCount: elementIds.length - Math.min(matchedIds.length, maxElements),
+    elementIds,
+    truncated,
+    operationId: operationId ?? null,
+    connectionOpsQueued: populated.connectionOpsQueued,
+    layout: asLooseObject(layout),
+    summary: buildViewSummary(view, true),
+  };
 }
 
 interface ChunkSummary {
@@ -240,6 +240,21 @@ export const PopulateViewDataSchema = z
   })
   .strict();
 
+export const GenerateViewFromQueryDataSchema = z
+  .object({
+    viewId: z.string(),
+    viewName: z.string().optional(),
+    matchedElementCount: z.number().int(),
+    neighborElementCount: z.number().int(),
+    elementIds: z.array(z.string()),
+    truncated: z.boolean(),
+    operationId: z.string().nullable().optional(),
+    connectionOpsQueued: z.number().int(),
+    layout: LooseObjectSchema.optional(),
+    summary: ViewSummaryDataSchema,
+  })
+  .strict();
+
 export const ValidateViewDataSchema = z
   .object({
     valid: z.boolean().optional(),
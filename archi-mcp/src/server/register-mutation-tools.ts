@@ -5,6 +5,7 @@ import {
   CreateViewSchema,
   DuplicateViewSchema,
   ExportViewSchema,
+  GenerateViewFromQuerySchema,
   LayoutSchema,
   PopulateViewSchema,
   RouterSchema,
@@ -19,6 +20,7 @@ import {
   DeleteViewDataSchema,
   DuplicateViewDataSchema,
   ExportViewDataSchema,
+  GenerateViewFromQueryDataSchema,
   LayoutDataSchema,
   PopulateViewDataSchema,
   SaveDataSchema,
@@ -35,10 +37,15 @@ import {
 import {
   RELIABLE_BATCH_SIZE,
   executeChunkedApply,
+  generateViewFromQuery,
   normalizeApplyChanges,
   populateViewWithRelationships,
 } from './operations.js';
-import { APPLY_MODEL_CHANGES_DESCRIPTION, RUN_SCRIPT_DESCRIPTION } from './tool-descriptions.js';
+import {
+  APPLY_MODEL_CHANGES_DESCRIPTION,
+  GENERATE_VIEW_FROM_QUERY_DESCRIPTION,
+  RUN_SCRIPT_DESCRIPTION,
+} from './tool-descriptions.js';
 
 export function registerMutationTools(server: McpServer, api: ArchiApiClient): void {
   registerTool(
@@ -106,6 +113,19 @@ export function registerMutationTools(server: McpServer, api: ArchiApiClient): v
     async (args) => populateViewWithRelationships(api, args),
   );
 
+  registerTool(
+    server,
+    'archi_generate_view_from_query',
+    {
+      title: 'Generate View From Query',
+      description: GENERATE_VIEW_FROM_QUERY_DESCRIPTION,
+      inputSchema: GenerateViewFromQuerySchema,
+      outputDataSchema: GenerateViewFromQueryDataSchema,
+      annotations: MutationAnnotations,
+    },
+    async (args) => generateViewFromQuery(api, args),
+  );
+
   registerTool(
     server,
     'archi_run_script',
@@ -189,7 +189,7 @@ export function registerReadTools(server: McpServer, api: ArchiApiClient): void
     {
       title: 'Wait For Operation Completion',
       description:
-        'Polls operation status until complete/error or timeout, returning final status plus polling metadata.',
+        'Waits for an operation to reach complete/error or timeout, returning final status plus polling metadata. Listens on the server event stream when available and polls status otherwise.',
       inputSchema: WaitForOperationSchema,
       outputDataSchema: WaitForOperationDataSchema,
     },
@@ -1,6 +1,53 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ArchiApiClient, ArchiApiError } from '../archi-api.js';
 import type { AppConfig } from '../config.js';
+import type { ModelCompleters } from './completions.js';
+import type { ModelChangeFeed } from './model-events.js';
+import { getNonEmptyString } from './model-helpers.js';
 import { stringify } from './tool-runtime.js';
+import { buildViewSummary } from './view-helpers.js';
+
+/** resources/list returns at most this many element resources (a model sample, like archi_query_model). */
+const ELEMENT_LIST_LIMIT = 200;
+
+const MODEL_RESOURCE_PATTERN = /^archi:\/\/(element|view|folder)\//;
+
+function jsonContents(uri: URL, payload: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: 'application/json',
+        text: stringify(payload),
+      },
+    ],
+  };
+}
+
+function readVariable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : (value ?? ''));
+}
+
+type ListedResource = { uri: string; name: string; description?: string; mimeType: string };
+
+/**
+ * Run a template list callback without failing resources/list when Archi is unreachable:
+ * the static resources stay listed and template resources are simply omitted.
+ */
+async function listOrEmpty(list: () => Promise<ListedResource[]>): Promise<{ resources: ListedResource[] }> {
+  try {
+    return { resources: await list() };
+  } catch {
+    return { resources: [] };
+  }
+}
+
+function folderUri(path: string): string {
+  return `archi://folder/${encodeURI(path)}`;
+}
 
 export function registerResources(server: McpServer, config: AppConfig): void {
   server.registerResource(
@@ -15,6 +62,7 @@ export function registerResources(server: McpServer, config: AppConfig): void {
       const payload = {
         apiBaseUrl: config.apiBaseUrl,
         requestTimeoutMs: config.requestTimeoutMs,
+        apiTokenConfigured: Boolean(config.apiToken),
       };
 
       return {
@@ -53,6 +101,10 @@ export function registerResources(server: McpServer, config: AppConfig): void {
         'ID safety:',
         '- `archi_get_view` returns visual IDs and concept IDs.',
         '- Mutation and element relationship tools require concept IDs.',
+        '',
+        'Resources:',
+        '- Attach `archi://element/{id}`, `archi://view/{id}/summary` or `archi://folder/{path}` instead of calling read tools.',
+        '- Subscribe to them to receive `resources/updated` after mutations.',
       ].join('\n');
 
       return {
@@ -67,3 +119,170 @@ export function registerResources(server: McpServer, config: AppConfig): void {
     },
   );
 }
+
+/**
+ * Register URI templates for model content (elements, views, view summaries and folders)
+ * with resources/list, completion/complete for folder paths and resources/subscribe handling.
+ * Each `modelChanges` event sends resources/updated for every subscribed model resource and
+ * resources/list_changed while the session is open.
+ */
+export function registerModelResources(
+  server: McpServer,
+  api: ArchiApiClient,
+  completers: ModelCompleters,
+  modelChanges: ModelChangeFeed,
+): void {
+  server.registerResource(
+    'archi_element',
+    new ResourceTemplate('archi://element/{id}', {
+      list: () =>
+        listOrEmpty(async () => {
+          const query = await api.postModelQuery({ limit: ELEMENT_LIST_LIMIT });
+          return (query.elements ?? []).flatMap((element) => {
+            const id = getNonEmptyString(element.id);
+            return id
+              ? [
+                  {
+                    uri: `archi://element/${id}`,
+                    name: getNonEmptyString(element.name) ?? id,
+                    description: element.type,
+                    mimeType: 'application/json',
+                  },
+                ]
+              : [];
+          });
+        }),
+    }),
+    {
+      title: 'Archi Element',
+      description: `Element or relationship details with its relationships and views. Lists the first ${ELEMENT_LIST_LIMIT} elements; use archi_search_model to find others.`,
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => jsonContents(uri, await api.getElementById(readVariable(variables, 'id'))),
+  );
+
+  const listViews = (suffix: string, describe: (viewType?: string) => string | undefined) => () =>
+    listOrEmpty(async () => {
+      const { views } = await api.getViews();
+      return (views ?? []).flatMap((view) => {
+        const id = getNonEmptyString(view.id);
+        return id
+          ? [
+              {
+                uri: `archi://view/${id}${suffix}`,
+                name: getNonEmptyString(view.name) ?? id,
+                description: describe(view.type),
+                mimeType: 'application/json',
+              },
+            ]
+          : [];
+      });
+    });
+
+  server.registerResource(
+    'archi_view',
+    new ResourceTemplate('archi://view/{id}', { list: listViews('', (type) => type) }),
+    {
+      title: 'Archi View',
+      description: 'Full view details including visual elements, connections and geometry.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => jsonContents(uri, await api.getViewById(readVariable(variables, 'id'))),
+  );
+
+  server.registerResource(
+    'archi_view_summary',
+    new ResourceTemplate('archi://view/{id}/summary', { list: listViews('/summary', () => 'View summary') }),
+    {
+      title: 'Archi View Summary',
+      description: 'Compact view contents with visual-to-concept ID mappings (same as archi_get_view_summary).',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const view = await api.getViewById(readVariable(variables, 'id'));
+      return jsonContents(uri, buildViewSummary(view, true));
+    },
+  );
+
+  server.registerResource(
+    'archi_folder',
+    new ResourceTemplate('archi://folder/{+path}', {
+      complete: { path: (value) => completers.folderPaths(value) },
+      list: () =>
+        listOrEmpty(async () => {
+          const { folders } = await api.getFolders();
+          return (folders ?? []).flatMap((folder) => {
+            const path = getNonEmptyString(folder.path);
+            return path
+              ? [
+                  {
+                    uri: folderUri(path),
+                    name: path,
+                    description: `${folder.elementCount ?? 0} items, ${folder.subfolderCount ?? 0} subfolders`,
+                    mimeType: 'application/json',
+                  },
+                ]
+              : [];
+          });
+        }),
+    }),
+    {
+      title: 'Archi Folder',
+      description: 'A model folder by path (e.g. "Business/Processes") with its subfolders and member IDs.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const path = readVariable(variables, 'path');
+      const { folders } = await api.getFolders({ includeChildren: true });
+      const folder = (folders ?? []).find((candidate) => candidate.path === path);
+      if (!folder) {
+        throw new ArchiApiError(`Folder not found: ${path}`, 404, 'NotFound');
+      }
+
+      const subfolders = (folders ?? [])
+        .filter((candidate) => candidate.parentId !== undefined && candidate.parentId === folder.id)
+        .map(({ id, name, path: subfolderPath }) => ({
+          id,
+          name,
+          path: subfolderPath,
+          uri: subfolderPath ? folderUri(subfolderPath) : undefined,
+        }));
+      return jsonContents(uri, { ...folder, subfolders });
+    },
+  );
+
+  const subscriptions = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const notifyModelChanged = async (): Promise<void> => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    // model.changed does not say what changed, so every subscribed model resource is stale
+    const updated = [...subscriptions].filter((uri) => MODEL_RESOURCE_PATTERN.test(uri));
+    try {
+      await Promise.all(updated.map((uri) => server.server.sendResourceUpdated({ uri })));
+      server.sendResourceListChanged();
+    } catch {
+      // Notifications are best-effort; the session may be closing
+    }
+  };
+
+  let unsubscribe: (() => void) | undefined;
+  server.server.oninitialized = () => {
+    unsubscribe ??= modelChanges.subscribe(() => void notifyModelChanged());
+  };
+  server.server.onclose = () => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+  };
+}
@@ -234,7 +234,7 @@ export const WaitForOperationSchema = z
       .min(200)
       .max(10000)
       .optional()
-      .describe('Delay between status polls in milliseconds (default: 1000).'),
+      .describe('Delay between status polls in milliseconds when the server has no event stream (default: 1000).'),
   })
   .strict()
   .superRefine((value, ctx) => {
@@ -410,6 +410,80 @@ export const PopulateViewSchema = z
   })
   .strict();
 
+export const GenerateViewFromQuerySchema = z
+  .object({
+    viewName: z.string().min(1).max(500).describe('Name for the new view.'),
+    types: z
+      .array(z.string().min(1).max(200))
+      .min(1)
+      .max(20)
+      .optional()
+      .describe('Element types to match (e.g. "application-component"). Any element type when omitted.'),
+    namePattern: z.string().max(500).optional().describe('Regex pattern applied to element names.'),
+    caseSensitive: z
+      .boolean()
+      .optional()
+      .describe('When false (default when namePattern is set), namePattern matches case-insensitively.'),
+    properties: z
+      .array(
+        z
+          .object({
+            key: z.string().min(1).max(200).describe('Property key.'),
+            value: z.string().max(500).optional().describe('Property value; omit to match any value.'),
+          })
+          .strict(),
+      )
+      .min(1)
+      .max(10)
+      .optional()
+      .describe('Property filters; an element must match all of them.'),
+    neighborhoodDepth: z
+      .number()
+      .int()
+      .min(0)
+      .max(3)
+      .optional()
+      .describe('Also include elements up to this many relationships away from the matches (default 0).'),
+    relationshipTypes: z
+      .array(z.string().min(1).max(200))
+      .min(1)
+      .max(50)
+      .optional()
+      .describe('Relationship types followed for the neighborhood and connected on the view. All types when omitted.'),
+    maxElements: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .optional()
+      .describe('Maximum number of elements placed on the view, matches first (default 50).'),
+    viewpoint: z.string().max(200).optional().describe('Optional ArchiMate viewpoint ID or label.'),
+    folder: z.string().max(500).optional().describe('Optional destination folder path or ID.'),
+    documentation: z.string().max(10000).optional().describe('Optional documentation text for the view.'),
+    allowDuplicate: z.boolean().optional().describe('Allow duplicate view names when true.'),
+    layout: z
+      .object({
+        algorithm: z.enum(['dagre', 'sugiyama']).optional().describe('Layout algorithm (default dagre).'),
+        rankdir: z.enum(['TB', 'BT', 'LR', 'RL']).optional().describe('Graph direction (TB, BT, LR, RL).'),
+        ranksep: z.number().int().min(0).max(5000).optional().describe('Vertical separation between ranks.'),
+        nodesep: z.number().int().min(0).max(5000).optional().describe('Horizontal separation between nodes.'),
+      })
+      .strict()
+      .optional()
+      .describe('Layout options applied after the view is populated.'),
+    timeoutMs: z
+      .number()
+      .int()
+      .min(1000)
+      .max(600000)
+      .optional()
+      .describe('Maximum time to wait for the populate operation (default: 120000).'),
+  })
+  .strict()
+  .refine((args) => args.types !== undefined || args.namePattern !== undefined || args.properties !== undefined, {
+    message: 'Provide at least one search criterion: types, namePattern, or properties.',
+  });
+
 export const ExportViewSchema = z
   .object({
     viewId: z.string().min(1).describe('View ID to export.'),
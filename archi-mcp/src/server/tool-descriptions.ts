@@ -42,3 +42,14 @@ export const RUN_SCRIPT_DESCRIPTION =
   '- `$(selector)` — auto-bound to the loaded model (no UI context needed)\n\n' +
   'Example: `var actors = findElements("business-actor"); console.log(JSON.stringify(actors));`\n' +
   'Example: `model.find("element").each(function(e) { console.log(e.name); });`';
+
+export const GENERATE_VIEW_FROM_QUERY_DESCRIPTION =
+  'Builds a context view in one call: searches elements by types, name regex and property filters, ' +
+  'optionally expands to neighbors up to neighborhoodDepth relationships away, creates the view, ' +
+  'adds the elements, connects the relationships between them, waits for completion, applies layout, ' +
+  'and returns the view summary (visual-to-concept mappings).\n\n' +
+  'Use instead of chaining archi_search_model → archi_create_view → archi_populate_view → ' +
+  'archi_wait_for_operation → archi_layout_view → archi_get_view_summary.\n' +
+  '- At least one of types, namePattern or properties is required.\n' +
+  '- Matches are placed first; neighbors fill the remaining maxElements (default 50, max 200).\n' +
+  '- No view is created when nothing matches (error code NO_MATCHES).';
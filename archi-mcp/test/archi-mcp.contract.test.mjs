@@ -3,7 +3,16 @@ import http from 'node:http';
 import test from 'node:test';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { ArchiApiClient } from '../dist/archi-api.js';
+import { loadConfig } from '../dist/config.js';
+import { startHttpTransport } from '../dist/http-transport.js';
+import { createArchiMcpServer } from '../dist/server.js';
+import { createModelChangeFeed } from '../dist/server/model-events.js';
 
 function extractFirstText(callResult) {
   const first = callResult.content?.[0];
@@ -51,6 +60,44 @@ async function startHealthServer(version) {
   });
 }
 
+async function waitUntil(condition, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+/** Hold GET /events streams open so a test can publish `model.changed` to every subscriber. */
+function createModelEventStreams() {
+  const streams = new Set();
+  let nextId = 1;
+
+  return {
+    streams,
+    handle(req, res) {
+      if (req.method !== 'GET' || !req.url?.startsWith('/events')) {
+        return false;
+      }
+
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write('retry: 3000\n: connected\n\n');
+      streams.add(res);
+      res.on('close', () => streams.delete(res));
+      return true;
+    },
+    publishModelChanged(data = { source: 'archi', commandStackEvent: 'execute' }) {
+      const payload = { type: 'model.changed', timestamp: new Date().toISOString(), data };
+      for (const res of streams) {
+        res.write(`id: ${nextId}\nevent: model.changed\ndata: ${JSON.stringify(payload)}\n\n`);
+      }
+      nextId += 1;
+    },
+  };
+}
+
 async function withMcpClient(apiBaseUrl, callback, extraEnv = {}) {
   const transport = new StdioClientTransport({
     command: process.execPath,
@@ -860,6 +907,204 @@ test('archi_populate_view returns explicit no-op when nothing needs to change',
   }
 });
 
+test('archi_generate_view_from_query searches, expands neighbors, populates and lays out a new view', async () => {
+  const searchBodies = [];
+  let createBody;
+  let applyBody;
+  let layoutBody;
+
+  const readJson = (req, callback) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => callback(JSON.parse(body || '{}')));
+  };
+  const sendJson = (res, payload) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  };
+  const elementDetails = {
+    e1: {
+      id: 'e1',
+      relationships: {
+        outgoing: [
+          { id: 'r1', type: 'serving-relationship', otherEndId: 'e2', otherEndType: 'business-process' },
+          { id: 'r3', type: 'association-relationship', otherEndId: 'r9', otherEndType: 'flow-relationship' },
+        ],
+      },
+    },
+    e2: {
+      id: 'e2',
+      relationships: {
+        incoming: [{ id: 'r1', type: 'serving-relationship', otherEndId: 'e1', otherEndType: 'application-component' }],
+      },
+    },
+  };
+
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/model/search') {
+      readJson(req, (body) => {
+        searchBodies.push(body);
+        sendJson(res, {
+          results: [
+            { id: 'e1', name: 'CRM', type: 'application-component', properties: { owner: 'sales', tier: 'gold' } },
+            { id: 'e4', name: 'ERP', type: 'application-component', properties: { owner: 'sales' } },
+            { id: 'r9', name: '', type: 'flow-relationship', sourceId: 'e1', targetId: 'e4' },
+          ],
+          total: 3,
+        });
+      });
+      return;
+    }
+
+    const elementMatch = req.method === 'GET' ? /^\/model\/element\/(\w+)$/.exec(req.url ?? '') : null;
+    if (elementMatch && elementDetails[elementMatch[1]]) {
+      sendJson(res, elementDetails[elementMatch[1]]);
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/views') {
+      readJson(req, (body) => {
+        createBody = body;
+        sendJson(res, { viewId: 'view-gen', viewName: body.name });
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && req.url === '/views/view-gen') {
+      sendJson(
+        res,
+        applyBody
+          ? {
+              id: 'view-gen',
+              name: 'CRM context',
+              elements: [
+                { id: 'vo-1', conceptId: 'e1', conceptType: 'application-component', name: 'CRM' },
+                { id: 'vo-2', conceptId: 'e2', conceptType: 'business-process', name: 'Sell' },
+              ],
+              connections: [
+                { id: 'vc-1', conceptId: 'r1', conceptType: 'serving-relationship', sourceId: 'vo-1', targetId: 'vo-2' },
+              ],
+            }
+          : { id: 'view-gen', name: 'CRM context', elements: [], connections: [] },
+      );
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/model/apply') {
+      readJson(req, (body) => {
+        applyBody = body;
+        sendJson(res, { operationId: 'op-gen-1', status: 'queued' });
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && req.url?.startsWith('/ops/status')) {
+      sendJson(res, { operationId: 'op-gen-1', status: 'complete', result: [] });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/views/view-gen/layout') {
+      readJson(req, (body) => {
+        layoutBody = body;
+        sendJson(res, { viewId: 'view-gen', algorithm: body.algorithm, nodesPositioned: 2 });
+      });
+      return;
+    }
+
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'Not found' } }));
+  });
+
+  try {
+    await withMcpClient(baseUrl, async (client) => {
+      const result = await client.callTool({
+        name: 'archi_generate_view_from_query',
+        arguments: {
+          viewName: 'CRM context',
+          types: ['application-component'],
+          namePattern: 'crm|erp',
+          properties: [{ key: 'owner', value: 'sales' }, { key: 'tier' }],
+          neighborhoodDepth: 1,
+          layout: { rankdir: 'LR' },
+        },
+      });
+
+      assert.equal(result.isError, undefined, extractFirstText(result));
+      assert.equal(searchBodies.length, 1);
+      assert.equal(searchBodies[0].type, 'application-component');
+      assert.equal(searchBodies[0].propertyKey, 'owner');
+      assert.equal(searchBodies[0].propertyValue, 'sales');
+      assert.equal(searchBodies[0].includeProperties, true);
+      assert.equal(searchBodies[0].includeRelationships, false);
+      assert.equal(createBody.name, 'CRM context');
+
+      assert.deepEqual(
+        applyBody.changes.filter((change) => change.op === 'addToView').map((change) => change.elementId),
+        ['e1', 'e2'],
+      );
+      assert.deepEqual(
+        applyBody.changes.filter((change) => change.op === 'addConnectionToView').map((change) => change.relationshipId),
+        ['r1'],
+      );
+      assert.deepEqual(layoutBody, { algorithm: 'dagre', rankdir: 'LR' });
+
+      const data = result.structuredContent.data;
+      assert.equal(data.viewId, 'view-gen');
+      assert.equal(data.matchedElementCount, 1);
+      assert.equal(data.neighborElementCount, 1);
+      assert.deepEqual(data.elementIds, ['e1', 'e2']);
+      assert.equal(data.truncated, false);
+      assert.equal(data.operationId, 'op-gen-1');
+      assert.equal(data.summary.elementCount, 2);
+      assert.equal(data.summary.connectionCount, 1);
+    });
+  } finally {
+    await closeServer(server);
+  }
+});
+
+test('archi_generate_view_from_query does not create a view when nothing matches', async () => {
+  let viewCreated = false;
+
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/model/search') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ results: [], total: 0 }));
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/views') {
+      viewCreated = true;
+    }
+
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'Not found' } }));
+  });
+
+  try {
+    await withMcpClient(baseUrl, async (client) => {
+      const missingCriteria = await client.callTool({
+        name: 'archi_generate_view_from_query',
+        arguments: { viewName: 'Empty' },
+      });
+      assert.equal(missingCriteria.isError, true);
+      assert.match(extractFirstText(missingCriteria), /at least one search criterion/);
+
+      const result = await client.callTool({
+        name: 'archi_generate_view_from_query',
+        arguments: { viewName: 'Empty', namePattern: 'nothing' },
+      });
+      assert.equal(result.isError, true);
+      assert.match(extractFirstText(result), /NO_MATCHES|No elements matched/);
+      assert.equal(viewCreated, false);
+    });
+  } finally {
+    await closeServer(server);
+  }
+});
+
 test('archi_export_view normalizes lowercase format values before API call', async () => {
   let capturedBody;
 
@@ -912,7 +1157,7 @@ test('tool metadata exposes prompts/resources and aligned schemas', async () =>
     const { prompts } = await client.listPrompts();
     const { resources } = await client.listResources();
 
-    assert.equal(tools.length, 28);
+    assert.equal(tools.length, 29);
     assert.equal(prompts.length, 9);
     assert.equal(resources.length, 2);
     assert.ok(resources.some((resource) => resource.uri === 'archi://server/defaults'));
@@ -973,7 +1218,11 @@ test('tool metadata exposes prompts/resources and aligned schemas', async () =>
 
     const capabilityPrompt = prompts.find((prompt) => prompt.name === 'archi_design_capability_map');
     assert.ok(capabilityPrompt);
-    assert.equal(capabilityPrompt.arguments, undefined);
+    assert.deepEqual(
+      capabilityPrompt.arguments.map((argument) => argument.name),
+      ['businessDomain', 'strategicGoal', 'timeHorizon', 'includeHeatmap'],
+    );
+    assert.ok(capabilityPrompt.arguments.every((argument) => argument.required === false));
   });
 });
 
@@ -1008,6 +1257,71 @@ test('unreachable API errors are actionable and redact stack traces', async () =
   });
 });
 
+test('ARCHI_API_TOKEN is forwarded and 401s surface as UNAUTHORIZED', async () => {
+  const seen = [];
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      if (req.url.startsWith('/events')) {
+        // Model-change subscription of the MCP session; not part of this check
+        res.writeHead(404, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { code: 'NotFound', message: 'Not found' } }));
+        return;
+      }
+      seen.push({ url: req.url, authorization: req.headers.authorization, body });
+      if (req.headers.authorization !== 'Bearer s3cret') {
+        res.writeHead(401, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { code: 'Unauthorized', message: 'Invalid API token' } }));
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ requestId: 'query-auth-1' }));
+    });
+  });
+
+  try {
+    await withMcpClient(
+      baseUrl,
+      async (client) => {
+        const query = await client.callTool({
+          name: 'archi_query_model',
+          arguments: { limit: 5 },
+        });
+        assert.equal(query.isError, undefined);
+        assert.equal(query.structuredContent.data.requestId, 'query-auth-1');
+        assert.equal(seen[0].authorization, 'Bearer s3cret');
+        assert.match(seen[0].body, /"limit":5/);
+
+        const defaults = await client.readResource({ uri: 'archi://server/defaults' });
+        const payload = JSON.parse(defaults.contents[0].text);
+        assert.equal(payload.apiTokenConfigured, true);
+        assert.doesNotMatch(defaults.contents[0].text, /s3cret/);
+      },
+      { ARCHI_API_TOKEN: 's3cret' },
+    );
+
+    await withMcpClient(
+      baseUrl,
+      async (client) => {
+        const result = await client.callTool({
+          name: 'archi_get_health',
+          arguments: {},
+        });
+        assert.equal(result.isError, true);
+        const text = extractFirstText(result);
+        assert.match(text, /\(HTTP 401\) \[UNAUTHORIZED\]/);
+        assert.match(text, /rejected ARCHI_API_TOKEN/);
+      },
+      { ARCHI_API_TOKEN: 'wrong' },
+    );
+  } finally {
+    await closeServer(server);
+  }
+});
+
 test('large tool outputs truncate text and structured content', async () => {
   const { server, baseUrl } = await startMockServer((req, res) => {
     if (req.method === 'POST' && req.url === '/scripts/run') {
@@ -1461,6 +1775,61 @@ test('archi_wait_for_operation polls until completion', async () => {
   }
 });
 
+test('archi_wait_for_operation waits on the event stream instead of the poll interval', async () => {
+  const opId = 'op-wait-events';
+  let completed = false;
+  let eventQuery;
+
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    if (req.method === 'GET' && req.url?.startsWith('/events')) {
+      eventQuery = new URL(req.url, 'http://127.0.0.1').searchParams.get('types');
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      res.write('retry: 3000\n: connected\n\n');
+      setTimeout(() => {
+        completed = true;
+        const payload = { type: 'operation.complete', timestamp: new Date().toISOString(), data: { opId } };
+        res.write(`id: 1\nevent: operation.complete\ndata: ${JSON.stringify(payload)}\n\n`);
+      }, 300);
+      req.on('close', () => res.end());
+      return;
+    }
+
+    if (req.method === 'GET' && req.url?.startsWith('/ops/status')) {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ operationId: opId, status: completed ? 'complete' : 'processing', result: [] }));
+      return;
+    }
+
+    res.writeHead(404, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 'NOT_FOUND', message: 'Not found' } }));
+  });
+
+  try {
+    await withMcpClient(baseUrl, async (client) => {
+      const startedAt = Date.now();
+      const result = await client.callTool({
+        name: 'archi_wait_for_operation',
+        arguments: {
+          operationId: opId,
+          timeoutMs: 10000,
+          pollIntervalMs: 10000,
+        },
+      });
+
+      assert.equal(result.isError, undefined);
+      assert.equal(result.structuredContent.data.status, 'complete');
+      assert.equal(result.structuredContent.data.polls, 2);
+      assert.deepEqual(result.structuredContent.data.statusHistory, ['processing', 'complete']);
+      assert.ok(Date.now() - startedAt < 5000);
+      assert.equal(result.structuredContent.data.timedOut, false);
+      assert.equal(eventQuery, 'operation.complete,operation.error');
+    });
+  } finally {
+    server.closeAllConnections?.();
+    await closeServer(server);
+  }
+});
+
 test('archi_list_operations forwards paging/summary arguments and exposes metadata', async () => {
   let capturedListQuery;
   const { server, baseUrl } = await startMockServer((req, res) => {
@@ -1584,6 +1953,260 @@ test('archi_list_views applies filtering, sorting, and pagination metadata', asy
   }
 });
 
+test('resource templates expose elements, views and folders with update notifications', async () => {
+  const elementId = 'id-aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+  const viewId = 'id-bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+  const otherViewId = 'id-cccccccccccccccccccccccccccccccc';
+  const events = createModelEventStreams();
+  const json = (res, body) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    req.resume();
+    if (events.handle(req, res)) {
+      return;
+    }
+    if (req.method === 'POST' && req.url === '/model/query') {
+      json(res, { elements: [{ id: elementId, name: 'Customer Portal', type: 'application-component' }] });
+    } else if (req.method === 'GET' && req.url === `/model/element/${elementId}`) {
+      json(res, { id: elementId, name: 'Customer Portal', type: 'application-component' });
+    } else if (req.method === 'GET' && req.url === '/views') {
+      json(res, { views: [{ id: viewId, name: 'Overview', type: 'archimate-diagram-model' }], total: 1 });
+    } else if (req.method === 'GET' && req.url === `/views/${viewId}`) {
+      json(res, {
+        id: viewId,
+        name: 'Overview',
+        elements: [{ id: 'vo-1', name: 'Customer Portal', conceptId: elementId, conceptType: 'ApplicationComponent' }],
+        connections: [],
+      });
+    } else if (req.method === 'GET' && req.url.startsWith('/folders')) {
+      json(res, {
+        folders: [
+          { id: 'f-1', name: 'Application', path: 'Application', elementCount: 0, subfolderCount: 1 },
+          { id: 'f-2', name: 'Core Apps', path: 'Application/Core Apps', parentId: 'f-1', childIds: [elementId] },
+        ],
+      });
+    } else if (req.method === 'PUT' && req.url === `/views/${viewId}/router`) {
+      json(res, { viewId, routerType: 'manhattan' });
+    } else {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'NotFound', message: 'Not found' } }));
+    }
+  });
+
+  try {
+    await withMcpClient(baseUrl, async (client) => {
+      const { resourceTemplates } = await client.listResourceTemplates();
+      assert.deepEqual(resourceTemplates.map((template) => template.uriTemplate).sort(), [
+        'archi://element/{id}',
+        'archi://folder/{+path}',
+        'archi://view/{id}',
+        'archi://view/{id}/summary',
+      ]);
+
+      const { resources } = await client.listResources();
+      const uris = resources.map((resource) => resource.uri);
+      assert.ok(uris.includes(`archi://element/${elementId}`));
+      assert.ok(uris.includes(`archi://view/${viewId}/summary`));
+      assert.ok(uris.includes('archi://folder/Application/Core%20Apps'));
+
+      const element = await client.readResource({ uri: `archi://element/${elementId}` });
+      assert.equal(JSON.parse(element.contents[0].text).name, 'Customer Portal');
+
+      const summary = await client.readResource({ uri: `archi://view/${viewId}/summary` });
+      assert.equal(JSON.parse(summary.contents[0].text).elements[0].conceptId, elementId);
+
+      const folder = await client.readResource({ uri: 'archi://folder/Application' });
+      const folderPayload = JSON.parse(folder.contents[0].text);
+      assert.deepEqual(folderPayload.subfolders.map((subfolder) => subfolder.uri), [
+        'archi://folder/Application/Core%20Apps',
+      ]);
+      await assert.rejects(client.readResource({ uri: 'archi://folder/Nope' }), /Folder not found: Nope/);
+
+      const updated = [];
+      let listChanged = 0;
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated.push(notification.params.uri);
+      });
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+        listChanged += 1;
+      });
+      await client.subscribeResource({ uri: `archi://view/${viewId}` });
+      await client.subscribeResource({ uri: `archi://view/${otherViewId}` });
+      await client.subscribeResource({ uri: 'archi://server/defaults' });
+      await waitUntil(() => events.streams.size === 1);
+
+      // Tool results alone do not notify; Archi Server's model.changed event does
+      const router = await client.callTool({
+        name: 'archi_set_view_router',
+        arguments: { viewId, routerType: 'manhattan' },
+      });
+      assert.equal(router.isError, undefined);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      assert.deepEqual(updated, []);
+
+      events.publishModelChanged();
+      await waitUntil(() => updated.length === 2 && listChanged === 1);
+      assert.deepEqual(updated.sort(), [`archi://view/${viewId}`, `archi://view/${otherViewId}`].sort());
+    });
+  } finally {
+    await closeServer(server);
+  }
+});
+
+test('model.changed events reach every HTTP session over one event stream', async () => {
+  const viewId = 'id-bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+  const events = createModelEventStreams();
+  const { server: archi, baseUrl } = await startMockServer((req, res) => {
+    req.resume();
+    if (!events.handle(req, res)) {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'NotFound', message: 'Not found' } }));
+    }
+  });
+  const config = {
+    apiBaseUrl: baseUrl,
+    requestTimeoutMs: 5000,
+    transport: 'http',
+    httpHost: '127.0.0.1',
+    httpPort: 0,
+    sessionIdleTimeoutMs: 60000,
+  };
+  const modelChanges = createModelChangeFeed(new ArchiApiClient(config));
+  const mcp = await startHttpTransport(config, () => createArchiMcpServer(config, modelChanges));
+
+  try {
+    const clients = [0, 1].map(() => new Client({ name: 'archi-mcp-events-test', version: '0.0.1' }));
+    const updated = clients.map(() => []);
+    for (const [index, client] of clients.entries()) {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updated[index].push(notification.params.uri);
+      });
+      await client.connect(new StreamableHTTPClientTransport(new URL(mcp.url)));
+      await client.subscribeResource({ uri: `archi://view/${viewId}` });
+    }
+    await waitUntil(() => events.streams.size === 1);
+
+    events.publishModelChanged({ source: 'api', opId: 'op-1', executed: 1 });
+    await waitUntil(() => updated.every((uris) => uris.length === 1));
+    assert.deepEqual(updated, [[`archi://view/${viewId}`], [`archi://view/${viewId}`]]);
+    assert.equal(events.streams.size, 1);
+
+    await Promise.all(clients.map((client) => client.close()));
+  } finally {
+    await mcp.close();
+    await waitUntil(() => events.streams.size === 0);
+    await closeServer(archi);
+  }
+});
+
+test('completions suggest prompt arguments and folder paths from the live model', async () => {
+  const searchBodies = [];
+  let viewListCalls = 0;
+  const json = (res, body) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const { server, baseUrl } = await startMockServer((req, res) => {
+    if (req.method === 'POST' && req.url === '/model/search') {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        searchBodies.push(JSON.parse(body || '{}'));
+        json(res, {
+          results: [
+            { id: 'e-1', name: 'Order Service', type: 'application-component' },
+            { id: 'e-2', name: 'Customer Orders', type: 'application-component' },
+          ],
+        });
+      });
+      return;
+    }
+
+    req.resume();
+    if (req.method === 'GET' && req.url === '/views') {
+      viewListCalls += 1;
+      json(res, {
+        views: [
+          { id: 'v-1', name: 'Application Overview' },
+          { id: 'v-2', name: 'Sales Landscape' },
+          { id: 'v-3', name: 'Overview of Sales Apps' },
+        ],
+      });
+    } else if (req.method === 'GET' && req.url.startsWith('/folders')) {
+      json(res, {
+        folders: [
+          { id: 'f-1', name: 'Application', path: 'Application' },
+          { id: 'f-2', name: 'Core Apps', path: 'Application/Core Apps', parentId: 'f-1' },
+          { id: 'f-3', name: 'Business', path: 'Business' },
+        ],
+      });
+    } else {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'NotFound', message: 'Not found' } }));
+    }
+  });
+
+  const completePrompt = (client, name, argument, value) =>
+    client.complete({ ref: { type: 'ref/prompt', name }, argument: { name: argument, value } });
+
+  try {
+    await withMcpClient(baseUrl, async (client) => {
+      assert.ok(client.getServerCapabilities()?.completions);
+
+      const { prompts } = await client.listPrompts();
+      const curate = prompts.find((prompt) => prompt.name === 'archi_curate_and_export_view');
+      assert.deepEqual(
+        curate.arguments.map((argument) => [argument.name, argument.required]),
+        [
+          ['viewIdOrName', false],
+          ['layoutDirection', false],
+          ['routerType', false],
+          ['exportFormat', false],
+        ],
+      );
+
+      const views = await completePrompt(client, 'archi_curate_and_export_view', 'viewIdOrName', 'over');
+      assert.deepEqual(views.completion.values, ['Overview of Sales Apps', 'Application Overview']);
+      await completePrompt(client, 'archi_curate_and_export_view', 'viewIdOrName', 'sales');
+      assert.equal(viewListCalls, 1);
+
+      const router = await completePrompt(client, 'archi_curate_and_export_view', 'routerType', 'man');
+      assert.deepEqual(router.completion.values, ['manhattan']);
+
+      const apps = await completePrompt(client, 'archi_model_application_integration', 'sourceApp', 'order');
+      assert.deepEqual(apps.completion.values, ['Order Service', 'Customer Orders']);
+      assert.equal(searchBodies[0].type, 'application-component');
+      assert.equal(searchBodies[0].includeRelationships, false);
+      assert.equal(searchBodies[0].namePattern, '[oO][rR][dD][eE][rR]');
+
+      const folders = await client.complete({
+        ref: { type: 'ref/resource', uri: 'archi://folder/{+path}' },
+        argument: { name: 'path', value: 'app' },
+      });
+      assert.deepEqual(folders.completion.values, ['Application', 'Application/Core Apps']);
+
+      const prompt = await client.getPrompt({
+        name: 'archi_curate_and_export_view',
+        arguments: { viewIdOrName: 'Sales Landscape', routerType: 'manhattan' },
+      });
+      const text = extractPromptText(prompt);
+      assert.match(text, /- viewIdOrName: Sales Landscape/);
+      assert.match(text, /Clarification gate is CLOSED/);
+    });
+
+    await withMcpClient('http://127.0.0.1:9', async (client) => {
+      const offline = await completePrompt(client, 'archi_curate_and_export_view', 'viewIdOrName', 'a');
+      assert.deepEqual(offline.completion.values, []);
+    });
+  } finally {
+    await closeServer(server);
+  }
+});
+
 test('resource defaults expose runtime config from environment', async () => {
   await withMcpClient(
     'http://127.0.0.1:8765',
@@ -1624,3 +2247,115 @@ test('ArchiApiClient instances keep independent HTTP config', async () => {
     await Promise.all([closeServer(first.server), closeServer(second.server)]);
   }
 });
+
+test('loadConfig selects the transport from flags over environment', () => {
+  const saved = process.env.ARCHI_MCP_TRANSPORT;
+  process.env.ARCHI_MCP_TRANSPORT = 'http';
+  try {
+    assert.equal(loadConfig([]).transport, 'http');
+    const config = loadConfig(['--transport', 'stdio', '--host', '0.0.0.0', '--port', '9001']);
+    assert.equal(config.transport, 'stdio');
+    assert.equal(config.httpHost, '0.0.0.0');
+    assert.equal(config.httpPort, 9001);
+    assert.throws(() => loadConfig(['--transport', 'websocket']), /Unsupported transport 'websocket'/);
+    assert.throws(() => loadConfig(['--port', 'abc']), /Invalid port 'abc'/);
+    assert.throws(() => loadConfig(['--port']), /Missing value for --port/);
+
+    const withHostArgs = loadConfig(['--stdio', 'serve', '--transport=stdio', '--future-flag', 'x']);
+    assert.equal(withHostArgs.transport, 'stdio');
+  } finally {
+    if (saved === undefined) delete process.env.ARCHI_MCP_TRANSPORT;
+    else process.env.ARCHI_MCP_TRANSPORT = saved;
+  }
+});
+
+test('streamable HTTP transport expires idle sessions but keeps ones with an open event stream', async () => {
+  const archi = await startHealthServer('idle');
+  const config = {
+    apiBaseUrl: archi.baseUrl,
+    requestTimeoutMs: 5000,
+    transport: 'http',
+    httpHost: '127.0.0.1',
+    httpPort: 0,
+    sessionIdleTimeoutMs: 100,
+  };
+  const mcp = await startHttpTransport(config, () => createArchiMcpServer(config));
+
+  try {
+    const initialized = await fetch(mcp.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '0.0.1' } },
+      }),
+    });
+    assert.ok(initialized.headers.get('mcp-session-id'));
+    await initialized.text();
+
+    // The SDK client opens a GET stream for server notifications after initializing.
+    const transport = new StreamableHTTPClientTransport(new URL(mcp.url));
+    const client = new Client({ name: 'archi-mcp-idle-test', version: '0.0.1' });
+    await client.connect(transport);
+    assert.equal(mcp.sessionCount(), 2);
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+    assert.equal(mcp.sessionCount(), 1);
+    const health = await client.callTool({ name: 'archi_get_health', arguments: {} });
+    assert.equal(health.structuredContent.data.version, 'idle');
+
+    await client.close();
+  } finally {
+    await mcp.close();
+    await closeServer(archi.server);
+  }
+});
+
+test('streamable HTTP transport serves independent sessions', async () => {
+  const archi = await startHealthServer('shared');
+  const config = {
+    apiBaseUrl: archi.baseUrl,
+    requestTimeoutMs: 5000,
+    transport: 'http',
+    httpHost: '127.0.0.1',
+    httpPort: 0,
+    httpAuthToken: 'mcp-secret',
+    sessionIdleTimeoutMs: 60000,
+  };
+  const mcp = await startHttpTransport(config, () => createArchiMcpServer(config));
+  const requestInit = { headers: { Authorization: 'Bearer mcp-secret' } };
+
+  try {
+    const unauthorized = await fetch(mcp.url, { method: 'POST', body: '{}' });
+    assert.equal(unauthorized.status, 401);
+
+    const unknownSession = await fetch(mcp.url, {
+      method: 'POST',
+      headers: { ...requestInit.headers, 'content-type': 'application/json', 'mcp-session-id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(unknownSession.status, 404);
+
+    const transports = [0, 1].map(() => new StreamableHTTPClientTransport(new URL(mcp.url), { requestInit }));
+    const clients = transports.map(() => new Client({ name: 'archi-mcp-http-test', version: '0.0.1' }));
+    await Promise.all(clients.map((client, index) => client.connect(transports[index])));
+
+    assert.equal(mcp.sessionCount(), 2);
+    assert.notEqual(transports[0].sessionId, transports[1].sessionId);
+
+    for (const client of clients) {
+      const health = await client.callTool({ name: 'archi_get_health', arguments: {} });
+      assert.equal(health.structuredContent.data.version, 'shared');
+    }
+
+    await transports[0].terminateSession();
+    await clients[0].close();
+    assert.equal(mcp.sessionCount(), 1);
+    await clients[1].close();
+  } finally {
+    await mcp.close();
+    await closeServer(archi.server);
+  }
+});
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, test } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ApiError } from '../src/utils/api';
+import { failureFromError } from '../src/utils/output';
+import { cli, assertSuccess } from './helpers/cli';
+
+const TOKEN = 's3cret-token';
+
+let server: Server;
+let baseUrl: string;
+const authorizations: (string | undefined)[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    authorizations.push(req.headers.authorization);
+    res.setHeader('Content-Type', 'application/json');
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.statusCode = 401;
+      res.end(JSON.stringify({ error: { code: 'Unauthorized', message: 'Invalid API token' } }));
+      return;
+    }
+    res.end(JSON.stringify({ status: 'ok', version: 'test' }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('API token authentication', () => {
+  test('sends ARCHI_API_TOKEN or --token as a bearer token', async () => {
+    assertSuccess(await cli('health', { baseUrl, env: { ARCHI_API_TOKEN: TOKEN } }), 'health with env token');
+    assertSuccess(await cli('--token', TOKEN, 'health', { baseUrl, env: { ARCHI_API_TOKEN: 'stale' } }), 'health with flag');
+    expect(authorizations.slice(-2)).toEqual([`Bearer ${TOKEN}`, `Bearer ${TOKEN}`]);
+  });
+
+  test('reports 401 responses as UNAUTHORIZED with a hint', async () => {
+    const missing = await cli('health', { baseUrl, env: { ARCHI_API_TOKEN: '' } });
+    expect(missing.exitCode).toBe(1);
+    expect(missing.error?.code).toBe('UNAUTHORIZED');
+    expect(missing.error?.message).toMatch(/requires an API token; set ARCHI_API_TOKEN or pass --token/);
+    expect(missing.error?.details).toBeUndefined();
+
+    const wrong = await cli('--token', 'nope', 'model', 'query', { baseUrl });
+    expect(wrong.error?.code).toBe('UNAUTHORIZED');
+    expect(wrong.error?.message).toMatch(/^Invalid API token\. The server rejected the API token/);
+  });
+
+  test('keeps the command details when a 401 fails it', async () => {
+    const doctor = await cli('doctor', { baseUrl, env: { ARCHI_API_TOKEN: '' } });
+    expect(doctor.error?.code).toBe('UNAUTHORIZED');
+    expect((doctor.error?.details as { checks: { name: string; status: string }[] }).checks).toEqual([
+      expect.objectContaining({ name: 'server', status: 'fail' }),
+    ]);
+
+    const checkpoint = { checkpoint: { resumeCommand: 'archicli batch apply model.json --resume' } };
+    expect(failureFromError(new ApiError(401, 'UNAUTHORIZED', 'Unauthorized'), 'BATCH_APPLY_FAILED', checkpoint).error)
+      .toEqual({ code: 'UNAUTHORIZED', message: 'Unauthorized', details: checkpoint });
+    expect(failureFromError(new ApiError(500, 'InternalError', 'boom'), 'BATCH_APPLY_FAILED', checkpoint).error)
+      .toEqual({ code: 'BATCH_APPLY_FAILED', message: 'ApiError: boom', details: checkpoint });
+  });
+});
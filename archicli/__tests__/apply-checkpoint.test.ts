@@ -0,0 +1,134 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+  APPLY_CHECKPOINT_VERSION,
+  hashChanges,
+  loadApplyCheckpoint,
+  resolveCheckpointPath,
+  writeApplyCheckpoint,
+} from '../src/utils/checkpoint';
+import type { ApplyCheckpoint } from '../src/utils/checkpoint';
+import { applyChunkedChanges } from '../src/utils/chunkedApply';
+
+vi.mock('../src/utils/api', () => ({
+  post: vi.fn(),
+  get: vi.fn(),
+  ApiError: class extends Error {},
+}));
+vi.mock('../src/utils/poll', () => ({
+  pollUntilDone: vi.fn(),
+}));
+
+import { post } from '../src/utils/api';
+import { pollUntilDone } from '../src/utils/poll';
+const mockPost = vi.mocked(post);
+const mockPoll = vi.mocked(pollUntilDone);
+
+const changes = [
+  { op: 'createElement', type: 'node', name: 'A', tempId: 'a' },
+  { op: 'createElement', type: 'node', name: 'B', tempId: 'b' },
+  { op: 'createRelationship', type: 'serving-relationship', sourceId: 'a', targetId: 'b', tempId: 'r' },
+];
+
+function checkpoint(overrides: Partial<ApplyCheckpoint> = {}): ApplyCheckpoint {
+  return {
+    checkpointVersion: APPLY_CHECKPOINT_VERSION,
+    bomFile: '/work/changes.json',
+    bomHash: hashChanges(changes),
+    chunkSize: 1,
+    totalChanges: 3,
+    chunks: 3,
+    completedChunks: [1, 2],
+    tempIdMap: { a: 'id-a', b: 'id-b' },
+    operations: [],
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'archicli-checkpoint-'));
+  vi.clearAllMocks();
+});
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('apply checkpoints', () => {
+  test('defaults the checkpoint path next to the BOM', () => {
+    expect(resolveCheckpointPath('/work/model/elements.json')).toBe('/work/model/elements.checkpoint.json');
+    expect(resolveCheckpointPath('/work/model/elements.json', '/tmp/cp.json')).toBe('/tmp/cp.json');
+  });
+
+  test('hash changes when any operation changes', () => {
+    const edited = [...changes.slice(0, 2), { ...changes[2], targetId: 'a' }];
+    expect(hashChanges(changes)).toBe(hashChanges(JSON.parse(JSON.stringify(changes))));
+    expect(hashChanges(edited)).not.toBe(hashChanges(changes));
+  });
+
+  test('round-trips through disk', () => {
+    const path = join(dir, 'changes.checkpoint.json');
+    writeApplyCheckpoint(path, checkpoint());
+    expect(loadApplyCheckpoint(path)).toEqual(checkpoint());
+    expect(readFileSync(path, 'utf-8').endsWith('\n')).toBe(true);
+  });
+
+  test('rejects missing, foreign and newer files', () => {
+    expect(() => loadApplyCheckpoint(join(dir, 'missing.json'))).toThrow(/not found/);
+    const foreign = join(dir, 'foreign.json');
+    writeFileSync(foreign, JSON.stringify({ version: '1.0', changes: [] }));
+    expect(() => loadApplyCheckpoint(foreign)).toThrow(/not a batch apply checkpoint/);
+    const newer = join(dir, 'newer.json');
+    writeFileSync(newer, JSON.stringify(checkpoint({ checkpointVersion: APPLY_CHECKPOINT_VERSION + 1 })));
+    expect(() => loadApplyCheckpoint(newer)).toThrow(/reads up to version/);
+  });
+
+  test('resumed runs skip completed chunks and substitute checkpointed tempIds', async () => {
+    mockPost.mockResolvedValue({ operationId: 'op-3', status: 'queued' });
+    mockPoll.mockResolvedValue({ status: 'complete', result: [{ tempId: 'r', realId: 'id-r' }] });
+    const completed: number[] = [];
+    const tempIdMap = { a: 'id-a', b: 'id-b' };
+
+    const applied = await applyChunkedChanges(changes, {
+      chunkSize: 1,
+      poll: true,
+      throttleMs: 0,
+      tempIdMap,
+      warnings: [],
+      completedChunks: new Set([1, 2]),
+      onChunkComplete: (chunk) => completed.push(chunk),
+    });
+
+    expect(applied.results.map((result) => result.status)).toEqual(['skipped', 'skipped', 'complete']);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost.mock.calls[0][1]).toEqual({
+      changes: [{ op: 'createRelationship', type: 'serving-relationship', sourceId: 'id-a', targetId: 'id-b', tempId: 'r' }],
+    });
+    expect(completed).toEqual([3]);
+    expect(tempIdMap).toEqual({ a: 'id-a', b: 'id-b', r: 'id-r' });
+  });
+
+  test('failed chunks are not reported as complete', async () => {
+    mockPost.mockResolvedValue({ operationId: 'op-1', status: 'queued' });
+    mockPoll
+      .mockResolvedValueOnce({ status: 'complete', result: [{ tempId: 'a', realId: 'id-a' }] })
+      .mockResolvedValueOnce({ status: 'error', error: 'boom' })
+      .mockResolvedValueOnce({ status: 'complete', result: [] });
+    const completed: number[] = [];
+
+    const applied = await applyChunkedChanges(changes, {
+      chunkSize: 1,
+      poll: true,
+      throttleMs: 0,
+      tempIdMap: {},
+      warnings: [],
+      onChunkComplete: (chunk) => completed.push(chunk),
+    });
+
+    expect(applied.hadOperationErrors).toBe(true);
+    expect(completed).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,210 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { applyChunkedChanges } from '../src/utils/chunkedApply';
+import {
+  buildRollbackChanges,
+  captureChunkState,
+  createRollbackJournal,
+  recordChunk,
+} from '../src/utils/rollback';
+import { validate } from '../src/schemas/registry';
+
+vi.mock('../src/utils/api', () => ({
+  post: vi.fn(),
+  get: vi.fn(),
+  ApiError: class extends Error {},
+}));
+vi.mock('../src/utils/poll', () => ({
+  pollUntilDone: vi.fn(),
+}));
+
+import { get, post } from '../src/utils/api';
+import { pollUntilDone } from '../src/utils/poll';
+const mockGet = vi.mocked(get);
+const mockPost = vi.mocked(post);
+const mockPoll = vi.mocked(pollUntilDone);
+
+const noPriorState = { concepts: {}, folders: {} };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('rollback journal', () => {
+  test('deletes created concepts, latest chunk first and relationships before elements', () => {
+    const journal = createRollbackJournal();
+    recordChunk(
+      journal,
+      1,
+      [
+        { op: 'createElement', type: 'node', name: 'A', tempId: 'a' },
+        { op: 'createView', name: 'Overview', tempId: 'v' },
+      ],
+      {
+        status: 'complete',
+        result: [
+          { op: 'createElement', tempId: 'a', realId: 'id-a' },
+          { op: 'createView', tempId: 'v', viewId: 'id-v' },
+        ],
+      },
+      noPriorState
+    );
+    recordChunk(
+      journal,
+      2,
+      [
+        {
+          op: 'createOrGetElement',
+          create: { type: 'node', name: 'B', tempId: 'b' },
+          match: { type: 'node', name: 'B' },
+        },
+        { op: 'createRelationship', type: 'serving-relationship', sourceId: 'id-a', targetId: 'b', tempId: 'r' },
+        { op: 'addToView', viewId: 'id-v', elementId: 'id-a' },
+      ],
+      {
+        status: 'complete',
+        result: [
+          { op: 'createOrGetElement', action: 'reused', tempId: 'b', realId: 'id-existing' },
+          { op: 'createRelationship', tempId: 'r', realId: 'id-r' },
+          { op: 'addToView', viewId: 'id-v', visualId: 'vis-1' },
+        ],
+      },
+      noPriorState
+    );
+
+    const changes = buildRollbackChanges(journal);
+    expect(changes).toEqual([
+      { op: 'deleteRelationship', id: 'id-r' },
+      { op: 'deleteView', viewId: 'id-v' },
+      { op: 'deleteElement', id: 'id-a' },
+    ]);
+    expect(journal.notReversible).toEqual([]);
+    expect(validate('bom', { version: '1.0', changes }).valid).toBe(true);
+  });
+
+  test('restores names, documentation, property values and folders of existing concepts', () => {
+    const journal = createRollbackJournal();
+    recordChunk(
+      journal,
+      1,
+      [
+        { op: 'updateElement', id: 'id-a', name: 'Renamed', properties: { owner: 'Team B', added: 'x' } },
+        { op: 'updateRelationship', id: 'id-r', documentation: 'new' },
+        { op: 'setProperty', id: 'id-r', key: 'weight', value: '2' },
+        { op: 'moveToFolder', id: 'id-a', folderId: 'id-f2' },
+      ],
+      { status: 'complete', result: [] },
+      {
+        concepts: {
+          'id-a': { name: 'Portal', documentation: '', properties: { owner: 'Team A' } },
+          'id-r': { name: '', documentation: 'old', properties: { weight: '1' } },
+        },
+        folders: { 'id-a': 'id-f1' },
+      }
+    );
+
+    expect(buildRollbackChanges(journal)).toEqual([
+      { op: 'updateElement', id: 'id-a', name: 'Portal' },
+      { op: 'updateRelationship', id: 'id-r', documentation: 'old' },
+      { op: 'setProperty', id: 'id-a', key: 'owner', value: 'Team A' },
+      { op: 'setProperty', id: 'id-r', key: 'weight', value: '1' },
+      { op: 'moveToFolder', id: 'id-a', folderId: 'id-f1' },
+    ]);
+    expect(journal.notReversible).toEqual([
+      {
+        chunk: 1,
+        op: 'setProperty',
+        id: 'id-a',
+        reason: "property 'added' did not exist before and cannot be removed by a BOM",
+      },
+    ]);
+  });
+
+  test('reports deletes, folders and edits to existing views as not reversible', () => {
+    const journal = createRollbackJournal();
+    recordChunk(
+      journal,
+      1,
+      [
+        { op: 'createElement', type: 'node', name: 'A', tempId: 'a' },
+        { op: 'deleteElement', id: 'a' },
+        { op: 'deleteRelationship', id: 'id-old' },
+        { op: 'createFolder', name: 'New', parentType: 'other', tempId: 'f' },
+        { op: 'createNote', viewId: 'id-view', content: 'hi' },
+        { op: 'addToView', viewId: 'id-view', elementId: 'a', tempId: 'vis' },
+      ],
+      { status: 'complete', result: [{ op: 'createElement', tempId: 'a', realId: 'id-a' }] },
+      noPriorState
+    );
+
+    expect(buildRollbackChanges(journal)).toEqual([]);
+    expect(journal.notReversible.map((gap) => `${gap.op} ${gap.id}`)).toEqual([
+      'deleteRelationship id-old',
+      'createFolder f',
+      'createNote id-view',
+    ]);
+  });
+
+  test('captures state only for existing concepts', async () => {
+    const journal = createRollbackJournal();
+    journal.createdIds.add('id-new');
+    mockGet.mockImplementation(async (path: string) => {
+      if (path === '/model/element/id-a') {
+        return { id: 'id-a', name: 'Portal', documentation: 'Docs', properties: { owner: 'Team A' } };
+      }
+      if (path === '/folders?includeChildren=true') {
+        return { folders: [{ id: 'id-f1', name: 'Apps', path: 'Apps', parentId: null, childIds: ['id-a'] }] };
+      }
+      throw new Error(`unexpected GET ${path}`);
+    });
+
+    const prior = await captureChunkState(
+      [
+        { op: 'createElement', type: 'node', name: 'B', tempId: 'b' },
+        { op: 'setProperty', id: 'b', key: 'k', value: 'v' },
+        { op: 'setProperty', id: 'id-new', key: 'k', value: 'v' },
+        { op: 'updateElement', id: 'id-a', name: 'Renamed' },
+        { op: 'moveToFolder', id: 'id-a', folderId: 'id-f2' },
+      ],
+      journal
+    );
+
+    expect(prior).toEqual({
+      concepts: { 'id-a': { name: 'Portal', documentation: 'Docs', properties: { owner: 'Team A' } } },
+      folders: { 'id-a': 'id-f1' },
+    });
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('stopOnError', () => {
+  test('submits no chunks after the first failure', async () => {
+    mockPost.mockResolvedValue({ operationId: 'op-1', status: 'queued' });
+    mockPoll
+      .mockResolvedValueOnce({ status: 'complete', result: [{ tempId: 'a', realId: 'id-a' }] })
+      .mockResolvedValueOnce({ status: 'error', error: 'boom' });
+    const submitted: number[] = [];
+
+    const applied = await applyChunkedChanges(
+      [
+        { op: 'createElement', type: 'node', name: 'A', tempId: 'a' },
+        { op: 'createElement', type: 'node', name: 'B', tempId: 'b' },
+        { op: 'createElement', type: 'node', name: 'C', tempId: 'c' },
+      ],
+      {
+        chunkSize: 1,
+        poll: true,
+        throttleMs: 0,
+        tempIdMap: {},
+        warnings: [],
+        stopOnError: true,
+        beforeChunk: async (chunk) => {
+          submitted.push(chunk);
+        },
+      }
+    );
+
+    expect(applied.hadOperationErrors).toBe(true);
+    expect(applied.results.map((result) => result.status)).toEqual(['complete', 'error']);
+    expect(submitted).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'vitest';
+import {
+  buildArchiCsvFiles,
+  buildBomChangesFromArchiCsv,
+  formatCsvRow,
+  fromArchiCsvType,
+  parseCsv,
+  toArchiCsvType,
+} from '../src/utils/archiCsv';
+import { validate } from '../src/schemas/registry';
+
+describe('Archi CSV type mapping', () => {
+  test('converts CLI types to Archi class names and back', () => {
+    expect(toArchiCsvType('application-component')).toBe('ApplicationComponent');
+    expect(toArchiCsvType('serving-relationship')).toBe('ServingRelationship');
+    expect(toArchiCsvType('junction')).toBe('Junction');
+    expect(fromArchiCsvType('BusinessActor')).toBe('business-actor');
+    expect(fromArchiCsvType('AccessRelationship')).toBe('access-relationship');
+  });
+});
+
+describe('Archi CSV formatting', () => {
+  test('quotes every field and doubles embedded quotes', () => {
+    expect(formatCsvRow(['id-1', 'Say "hi"', ''])).toBe('"id-1","Say ""hi""",""');
+    expect(formatCsvRow(['a', 'b'], ';')).toBe('"a";"b"');
+  });
+
+  test('builds the elements/relations/properties triple with the model row first', () => {
+    const files = buildArchiCsvFiles({
+      model: { id: 'id-model', name: 'Bank' },
+      elements: [
+        {
+          id: 'id-a',
+          name: 'Portal',
+          type: 'application-component',
+          documentation: 'line1\nline2',
+          properties: { owner: 'Team A' },
+        },
+        { id: 'id-b', name: 'Customer', type: 'business-actor', documentation: '', properties: {} },
+      ],
+      relationships: [
+        {
+          id: 'id-r',
+          name: '',
+          type: 'serving-relationship',
+          documentation: '',
+          properties: { protocol: 'https' },
+          sourceId: 'id-a',
+          targetId: 'id-b',
+        },
+      ],
+    });
+
+    expect(files.elements).toBe(
+      '"ID","Type","Name","Documentation","Specialization"\r\n' +
+        '"id-model","ArchimateModel","Bank","",""\r\n' +
+        '"id-a","ApplicationComponent","Portal","line1\nline2",""\r\n' +
+        '"id-b","BusinessActor","Customer","",""\r\n'
+    );
+    expect(files.relations).toBe(
+      '"ID","Type","Name","Documentation","Source","Target","Specialization"\r\n' +
+        '"id-r","ServingRelationship","","","id-a","id-b",""\r\n'
+    );
+    expect(files.properties).toBe(
+      '"ID","Key","Value"\r\n' +
+        '"id-a","owner","Team A"\r\n' +
+        '"id-r","protocol","https"\r\n'
+    );
+  });
+});
+
+describe('Archi CSV parsing', () => {
+  test('handles quoting, embedded line breaks, CRLF and a UTF-8 BOM', () => {
+    const rows = parseCsv('\uFEFF"ID","Name"\r\n"a","Say ""hi""\nagain"\r\n\r\nb,plain\r\n');
+    expect(rows).toEqual([
+      { line: 1, values: ['ID', 'Name'] },
+      { line: 2, values: ['a', 'Say "hi"\nagain'] },
+      { line: 5, values: ['b', 'plain'] },
+    ]);
+  });
+
+  test('honours a custom delimiter and rejects unterminated quotes', () => {
+    expect(parseCsv('"a";"b;c"', ';')).toEqual([{ line: 1, values: ['a', 'b;c'] }]);
+    expect(() => parseCsv('"a,b\n')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('Archi CSV to BOM conversion', () => {
+  const elements =
+    '"ID","Type","Name","Documentation","Specialization"\r\n' +
+    '"id-model","ArchimateModel","Bank","",""\r\n' +
+    '"id-a","ApplicationComponent","Portal","Customer portal",""\r\n' +
+    '"id-b","BusinessActor","Customer","",""\r\n';
+  const relations =
+    '"ID","Type","Name","Documentation","Source","Target","Specialization"\r\n' +
+    '"id-r2","AssociationRelationship","","","id-r1","id-b",""\r\n' +
+    '"id-r1","ServingRelationship","","","id-a","id-b",""\r\n';
+  const properties =
+    '"ID","Key","Value"\r\n' +
+    '"id-model","version","1"\r\n' +
+    '"id-a","owner","Team A"\r\n';
+
+  test('emits createOrGet operations with CSV-derived tempIds in dependency order', () => {
+    const result = buildBomChangesFromArchiCsv({ elements, relations, properties }, { tempIdPrefix: 'csv-' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.counts).toEqual({ elements: 2, relationships: 2, properties: 1 });
+    expect(result.changes[0]).toEqual({
+      op: 'createOrGetElement',
+      create: { type: 'application-component', name: 'Portal', tempId: 'csv-id-a', documentation: 'Customer portal' },
+      match: { type: 'application-component', name: 'Portal' },
+      onDuplicate: 'reuse',
+    });
+    // id-r2 connects to relationship id-r1, so id-r1 must be created first.
+    expect(result.changes[2]).toMatchObject({ op: 'createOrGetRelationship', create: { tempId: 'csv-id-r1' } });
+    expect(result.changes[3]).toMatchObject({
+      create: { tempId: 'csv-id-r2', sourceId: 'csv-id-r1', targetId: 'csv-id-b' },
+      match: { type: 'association-relationship', sourceId: 'csv-id-r1', targetId: 'csv-id-b' },
+    });
+    expect(result.changes[4]).toEqual({ op: 'setProperty', id: 'csv-id-a', key: 'owner', value: 'Team A' });
+    expect(result.warnings).toEqual(['Skipped 1 model-level property']);
+    expect(validate('bom', { version: '1.0', changes: result.changes }).valid).toBe(true);
+  });
+
+  test('passes unknown references through as existing model IDs with a warning', () => {
+    const result = buildBomChangesFromArchiCsv({
+      elements: '"ID","Type","Name"\n"id-a","Node","Server"\n',
+      relations: '"ID","Type","Source","Target"\n"id-r","RealizationRelationship","id-a","id-existing"\n',
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.changes[1]).toMatchObject({ create: { sourceId: 'id-a', targetId: 'id-existing' } });
+    expect(result.warnings[0]).toContain("'id-existing' is not defined in the CSV files");
+  });
+
+  test('reports row-level errors with file and line', () => {
+    const result = buildBomChangesFromArchiCsv({
+      elements: '"ID","Type","Name"\n"id-a","Widget","X"\n"id-b","Node",""\n"id-c","Node","C"\n"id-c","Node","D"\n',
+    });
+    expect(result.errors).toEqual([
+      { file: 'elements.csv', line: 2, message: "Unknown element type 'Widget'" },
+      { file: 'elements.csv', line: 3, message: "Element 'id-b' has no name" },
+      { file: 'elements.csv', line: 5, message: "Duplicate ID 'id-c' (first defined at elements.csv:4)" },
+    ]);
+  });
+
+  test('rejects files with missing required columns', () => {
+    const result = buildBomChangesFromArchiCsv({ elements: '"ID","Name"\n"id-a","X"\n' });
+    expect(result.errors[0].message).toContain('Missing required column(s): Type');
+  });
+});
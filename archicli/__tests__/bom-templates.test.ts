@@ -0,0 +1,144 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { expandChanges, findDuplicateTempIds, interpolateValue, loadBom } from '../src/utils/bom';
+import { validate } from '../src/schemas/registry';
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'archicli-templates-'));
+});
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function write(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content, 'utf-8');
+  return path;
+}
+
+describe('interpolation', () => {
+  test('replaces references in nested string values and keeps escapes literal', () => {
+    const scope = { team: 'Payments', tier: 1, owner: { email: 'pay@example.com' } };
+    expect(
+      interpolateValue(
+        { name: '${team} API', properties: { tier: 'T${tier}', contact: '${owner.email}', raw: '$${team}' } },
+        scope,
+        '/changes/0'
+      )
+    ).toEqual({ name: 'Payments API', properties: { tier: 'T1', contact: 'pay@example.com', raw: '${team}' } });
+  });
+
+  test('reports undefined variables with their pointer', () => {
+    expect(() => interpolateValue({ name: '${missing}' }, {}, '/changes/3')).toThrow(
+      expect.objectContaining({ pointer: '/changes/3/name', message: "undefined variable 'missing'" })
+    );
+  });
+});
+
+describe('forEach', () => {
+  const template = [
+    { op: 'createElement', type: 'node', name: 'Shared Cluster', tempId: 'cluster' },
+    {
+      forEach: '${services}',
+      as: 'svc',
+      changes: [
+        { op: 'createElement', type: 'application-component', name: '${svc} Service', tempId: 'app' },
+        { op: 'createElement', type: 'application-interface', name: '${svc} API', tempId: 'api' },
+        { op: 'createRelationship', type: 'composition-relationship', sourceId: 'app', targetId: 'api' },
+        { op: 'createRelationship', type: 'serving-relationship', sourceId: 'cluster', targetId: 'app', tempId: 'host-${svc}' },
+      ],
+    },
+  ];
+
+  test('repeats the block per item with derived tempIds and rewritten references', () => {
+    const expanded = expandChanges(template, { services: ['Orders', 'Billing'] });
+    expect(expanded.map((entry) => entry.pointer)).toEqual([
+      '/changes/0',
+      '/changes/1/changes/0',
+      '/changes/1/changes/1',
+      '/changes/1/changes/2',
+      '/changes/1/changes/3',
+      '/changes/1/changes/0',
+      '/changes/1/changes/1',
+      '/changes/1/changes/2',
+      '/changes/1/changes/3',
+    ]);
+    const changes = expanded.map((entry) => entry.change);
+    expect(changes.slice(1, 5)).toEqual([
+      { op: 'createElement', type: 'application-component', name: 'Orders Service', tempId: 'app-orders' },
+      { op: 'createElement', type: 'application-interface', name: 'Orders API', tempId: 'api-orders' },
+      { op: 'createRelationship', type: 'composition-relationship', sourceId: 'app-orders', targetId: 'api-orders' },
+      { op: 'createRelationship', type: 'serving-relationship', sourceId: 'cluster', targetId: 'app-orders', tempId: 'host-Orders' },
+    ]);
+    expect(findDuplicateTempIds(changes)).toEqual([]);
+    expect(validate('bom', { version: '1.0', variables: { services: ['Orders'] }, changes: template }).valid).toBe(true);
+    expect(validate('bom', { version: '1.0', changes }).valid).toBe(true);
+  });
+
+  test('derives suffixes from object keys and rejects non-list variables', () => {
+    const expanded = expandChanges(
+      [
+        {
+          forEach: [{ key: 'eu-west', region: 'EU West' }, { region: 'US' }],
+          as: 'site',
+          changes: [{ op: 'createElement', type: 'location', name: '${site.region}', tempId: 'loc' }],
+        },
+      ],
+      {}
+    );
+    expect(expanded.map((entry) => (entry.change as { tempId: string }).tempId)).toEqual(['loc-eu-west', 'loc-2']);
+    expect(() => expandChanges([{ forEach: '${name}', changes: [] }], { name: 'x' })).toThrow(/not a list/);
+  });
+});
+
+describe('loadBom templates', () => {
+  test('passes include parameters over the included file defaults', () => {
+    write(
+      'microservice.yaml',
+      [
+        'version: "1.0"',
+        'variables:',
+        '  service: Example',
+        '  owner: Platform',
+        'changes:',
+        '  - op: createElement',
+        '    type: application-component',
+        '    name: ${service}',
+        '    tempId: ${service}-app',
+        '    properties:',
+        '      owner: ${owner}',
+        '',
+      ].join('\n')
+    );
+    const root = write(
+      'landscape.json',
+      JSON.stringify({
+        version: '1.0',
+        variables: { team: 'Checkout' },
+        includes: [
+          { path: 'microservice.yaml', variables: { service: 'orders', owner: '${team}' } },
+          { path: 'microservice.yaml', variables: { service: 'payments' } },
+        ],
+      })
+    );
+
+    const loaded = loadBom(root);
+    expect(loaded.changes).toEqual([
+      { op: 'createElement', type: 'application-component', name: 'orders', tempId: 'orders-app', properties: { owner: 'Checkout' } },
+      { op: 'createElement', type: 'application-component', name: 'payments', tempId: 'payments-app', properties: { owner: 'Platform' } },
+    ]);
+  });
+
+  test('locates template errors in the declaring file', () => {
+    const path = write(
+      'broken.yaml',
+      ['version: "1.0"', 'changes:', '  - op: createElement', '    type: node', '    name: ${host}', ''].join('\n')
+    );
+    expect(() => loadBom(path)).toThrow(
+      /^Invalid template in BOM file .*broken\.yaml at \/changes\/0\/name \(line 5\): undefined variable 'host'$/
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import {
+  findDuplicateTempIds,
+  loadBom,
+  readBomSource,
+  withChangeOrigins,
+  withSourceLines,
+} from '../src/utils/bom';
+import { validate } from '../src/schemas/registry';
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'archicli-yaml-'));
+});
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function write(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content, 'utf-8');
+  return path;
+}
+
+describe('YAML BOMs', () => {
+  test('parse with comments and report line numbers for schema errors', () => {
+    const path = write(
+      'model.yaml',
+      [
+        '# Core application landscape',
+        'version: "1.0"',
+        'changes:',
+        '  - op: createElement',
+        '    type: application-component',
+        '    name: CRM # primary system',
+        '    tempId: crm',
+        '  - op: createElement',
+        '    type: application-component',
+        '    tempId: erp',
+        '',
+      ].join('\n')
+    );
+
+    const source = readBomSource(path);
+    expect(source.format).toBe('yaml');
+    const validation = validate('bom', source.data);
+    expect(validation.valid).toBe(false);
+    const located = withSourceLines(validation.errors, source);
+    expect(located.some((error) => error.path === '/changes/1' && error.line === 8)).toBe(true);
+  });
+
+  test('flatten includes across JSON and YAML and locate flattened paths in their file', () => {
+    write(
+      'elements.json',
+      JSON.stringify({
+        version: '1.0',
+        changes: [{ op: 'createElement', type: 'node', name: 'Host', tempId: 'host' }],
+      })
+    );
+    write(
+      'relationships.yml',
+      [
+        'version: "1.0"',
+        'changes:',
+        '  - op: createRelationship',
+        '    type: serving-relationship',
+        '    sourceId: host',
+        '    targetId: crm',
+        '    tempId: host',
+        '',
+      ].join('\n')
+    );
+    const root = write(
+      'index.yaml',
+      [
+        'version: "1.0"',
+        'includes:',
+        '  - elements.json',
+        '  - relationships.yml',
+        'changes:',
+        '  - op: createElement',
+        '    type: application-component',
+        '    name: CRM',
+        '    tempId: crm',
+        '',
+      ].join('\n')
+    );
+
+    const loaded = loadBom(root);
+    expect(loaded.changes.map((change) => (change as { op: string }).op)).toEqual([
+      'createElement',
+      'createRelationship',
+      'createElement',
+    ]);
+    expect(loaded.origins.map((origin) => origin.pointer)).toEqual(['/changes/0', '/changes/0', '/changes/0']);
+
+    const duplicates = withChangeOrigins(findDuplicateTempIds(loaded.changes), loaded);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ path: '/changes/1/tempId', line: 7 });
+    expect(duplicates[0].file).toMatch(/relationships\.yml$/);
+
+    // JSON is located through the same position lookup.
+    const [jsonError] = withChangeOrigins([{ path: '/changes/0/name', message: 'x' }], loaded);
+    expect(jsonError).toMatchObject({ line: 1 });
+    expect(jsonError.file).toMatch(/elements\.json$/);
+  });
+
+  test('reject malformed YAML with the failing position', () => {
+    const path = write('broken.yaml', 'version: "1.0"\nchanges:\n  - op: [createElement\n');
+    expect(() => readBomSource(path)).toThrow(/^Invalid YAML in BOM file .*broken\.yaml: .*line \d+, column \d+/);
+  });
+});
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { applyChunkedChanges } from '../src/utils/chunkedApply';
+
+vi.mock('../src/utils/api', async () => ({
+  ...(await vi.importActual<typeof import('../src/utils/api')>('../src/utils/api')),
+  post: vi.fn(),
+  get: vi.fn(),
+}));
+vi.mock('../src/utils/poll', () => ({
+  pollUntilDone: vi.fn(),
+}));
+
+import { ApiError, post } from '../src/utils/api';
+import { pollUntilDone } from '../src/utils/poll';
+const mockPost = vi.mocked(post);
+const mockPoll = vi.mocked(pollUntilDone);
+
+const baseOptions = { chunkSize: 1, poll: true, throttleMs: 0, warnings: [] as string[] };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('chunked apply with createOrGet* operations', () => {
+  test('--skip-existing maps a duplicate create.tempId to the existing ID for later chunks', async () => {
+    mockPost
+      .mockRejectedValueOnce(
+        new ApiError(
+          400,
+          'ValidationError',
+          "Change 0 (createOrGetElement): element 'Portal' of type application-component already exists (id: id-portal)",
+        ),
+      )
+      .mockResolvedValueOnce({ operationId: 'op-2', status: 'queued' });
+    mockPoll.mockResolvedValue({ status: 'complete', result: [] });
+    const tempIdMap: Record<string, string> = {};
+
+    const applied = await applyChunkedChanges(
+      [
+        {
+          op: 'createOrGetElement',
+          create: { type: 'application-component', name: 'Portal', tempId: 'portal' },
+          match: { type: 'application-component', name: 'Portal' },
+        },
+        { op: 'updateElement', id: 'portal', name: 'Customer Portal' },
+      ],
+      { ...baseOptions, tempIdMap, skipExisting: true },
+    );
+
+    expect(tempIdMap).toEqual({ portal: 'id-portal' });
+    expect(applied.skippedOperations).toHaveLength(1);
+    expect(mockPost).toHaveBeenLastCalledWith('/model/apply', {
+      changes: [{ op: 'updateElement', id: 'id-portal', name: 'Customer Portal' }],
+    });
+  });
+
+  test('--continue-on-error skips chunks whose nested create/match refs point at a failed chunk', async () => {
+    mockPost.mockResolvedValue({ operationId: 'op-1', status: 'queued' });
+    mockPoll
+      .mockResolvedValueOnce({ status: 'error', error: 'boom' })
+      .mockResolvedValueOnce({ status: 'complete', result: [{ tempId: 'b', realId: 'id-b' }] });
+
+    const applied = await applyChunkedChanges(
+      [
+        { op: 'createElement', type: 'node', name: 'A', tempId: 'a' },
+        { op: 'createElement', type: 'node', name: 'B', tempId: 'b' },
+        {
+          op: 'createOrGetRelationship',
+          create: { type: 'serving-relationship', sourceId: 'a', targetId: 'b', tempId: 'r1' },
+          match: { type: 'serving-relationship', sourceId: 'a', targetId: 'b' },
+        },
+        {
+          op: 'createOrGetRelationship',
+          create: { type: 'serving-relationship', sourceId: 'b', targetId: 'id-c' },
+          match: { type: 'serving-relationship', sourceId: 'r1', targetId: 'id-c' },
+        },
+      ],
+      { ...baseOptions, tempIdMap: {}, continueOnError: true },
+    );
+
+    expect(applied.results.map((result) => result.status)).toEqual(['error', 'complete', 'skipped', 'skipped']);
+    expect(mockPost).toHaveBeenCalledTimes(2);
+  });
+});
@@ -16,6 +16,7 @@ describe('completion vocabulary', () => {
         'view',
         'ops',
         'folder',
+        'import',
         'ids',
         'doctor',
         'init',
@@ -26,6 +27,7 @@ describe('completion vocabulary', () => {
     expect(vocabulary.view).toEqual(expect.arrayContaining(['list', 'get', 'create', 'export', 'delete', 'layout']));
     expect(vocabulary.folder).toEqual(expect.arrayContaining(['list']));
     expect(vocabulary.ids).toEqual(expect.arrayContaining(['lookup']));
+    expect(vocabulary.import).toEqual(expect.arrayContaining(['csv', 'exchange']));
   });
 
   test('pwsh script contains dynamically-derived command groups', () => {
@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { createProgram } from '../src/index';
+import {
+  applyProfileDefaults,
+  parseProfileSetting,
+  selectProfile,
+  setProfileSetting,
+  validateCliConfig,
+} from '../src/utils/profiles';
+import { cli, assertSuccess } from './helpers/cli';
+
+function findCommand(path: string) {
+  let command = createProgram();
+  for (const name of path.split(' ')) {
+    command = command.commands.find((sub) => sub.name() === name)!;
+  }
+  return command;
+}
+
+describe('config file validation', () => {
+  test('accepts profiles with every setting', () => {
+    expect(
+      validateCliConfig({
+        defaultProfile: 'sandbox',
+        profiles: {
+          sandbox: {
+            baseUrl: 'http://127.0.0.1:8765',
+            output: 'text',
+            chunkSize: 20,
+            idFiles: ['ids/a.ids.json'],
+            layout: { algorithm: 'sugiyama', rankdir: 'LR', ranksep: 100, nodesep: 0 },
+          },
+        },
+      })
+    ).toEqual([]);
+  });
+
+  test('reports each invalid setting', () => {
+    expect(
+      validateCliConfig({
+        defaultProfile: 'prod',
+        profiles: { sandbox: { baseUrl: 'localhost', chunkSize: 0, layout: { rankdir: 'XX' }, colour: 'red' } },
+      })
+    ).toEqual([
+      "profiles.sandbox: unknown setting 'colour'",
+      'profiles.sandbox.baseUrl must be an http(s) URL',
+      'profiles.sandbox.chunkSize must be an integer from 1 to 1000',
+      'profiles.sandbox.layout.rankdir must be one of TB, LR, BT, RL',
+      "defaultProfile 'prod' is not defined in profiles",
+    ]);
+  });
+});
+
+describe('profile selection and settings', () => {
+  const config = { defaultProfile: 'sandbox', profiles: { sandbox: { chunkSize: 4 }, staging: { output: 'yaml' as const } } };
+
+  test('prefers the requested profile over the default', () => {
+    expect(selectProfile(config, '/x/archicli.config.json')?.name).toBe('sandbox');
+    expect(selectProfile(config, '/x/archicli.config.json', 'staging')?.settings).toEqual({ output: 'yaml' });
+    expect(selectProfile({}, '/x/archicli.config.json')).toBeUndefined();
+    expect(() => selectProfile(config, '/x/archicli.config.json', 'prod')).toThrow(
+      "Profile 'prod' is not defined in /x/archicli.config.json (profiles: sandbox, staging)"
+    );
+  });
+
+  test('parses config set values into typed settings', () => {
+    expect(parseProfileSetting('chunkSize', '20')).toBe(20);
+    expect(parseProfileSetting('idFiles', 'a.ids.json, b.ids.json')).toEqual(['a.ids.json', 'b.ids.json']);
+    expect(parseProfileSetting('layout.rankdir', 'lr')).toBe('LR');
+    expect(parseProfileSetting('baseUrl', 'http://host:8765/')).toBe('http://host:8765');
+    expect(() => parseProfileSetting('chunkSize', 'many')).toThrow('chunkSize must be an integer from 1 to 1000');
+    expect(() => parseProfileSetting('output', 'xml')).toThrow('output must be one of json, text, yaml');
+    expect(setProfileSetting({ layout: { rankdir: 'LR' } }, 'layout.nodesep', 10)).toEqual({
+      layout: { rankdir: 'LR', nodesep: 10 },
+    });
+  });
+
+  test('fills only options left at their defaults', () => {
+    const profile = {
+      name: 'sandbox',
+      file: '/work/archicli.config.json',
+      settings: { chunkSize: 12, idFiles: ['ids/a.ids.json'], layout: { algorithm: 'sugiyama' as const, ranksep: 120 } },
+    };
+
+    const apply = findCommand('batch apply');
+    apply.setOptionValueWithSource('rankdir', 'BT', 'cli');
+    applyProfileDefaults(apply, profile);
+    expect(apply.opts()).toMatchObject({
+      chunkSize: '12',
+      idFile: ['/work/ids/a.ids.json'],
+      layoutAlgorithm: 'sugiyama',
+      rankdir: 'BT',
+    });
+    expect(apply.getOptionValueSource('chunkSize')).toBe('config');
+
+    const layout = findCommand('view layout');
+    applyProfileDefaults(layout, profile);
+    expect(layout.opts()).toMatchObject({ algorithm: 'sugiyama', rankdir: 'TB', ranksep: '120', nodesep: '50' });
+  });
+});
+
+describe('config commands', () => {
+  test('config set creates the file named by ARCHICLI_CONFIG and config get reads it back', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'archicli-config-'));
+    const file = join(dir, 'archicli.config.json');
+    const env = { ARCHICLI_CONFIG: file, ARCHICLI_PROFILE: '' };
+    try {
+      assertSuccess(await cli('--profile', 'staging', 'config', 'set', 'chunkSize', '20', { env }), 'config set');
+      assertSuccess(
+        await cli('--profile', 'sandbox', 'config', 'set', 'layout.rankdir', 'LR', { env }),
+        'config set second profile'
+      );
+      expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual({
+        defaultProfile: 'staging',
+        profiles: { staging: { chunkSize: 20 }, sandbox: { layout: { rankdir: 'LR' } } },
+      });
+
+      const value = assertSuccess(
+        await cli<{ profile: string; value: unknown }>('config', 'get', 'chunkSize', { env }),
+        'config get'
+      );
+      expect(value).toMatchObject({ profile: 'staging', value: 20 });
+
+      const missing = await cli('--profile', 'prod', 'health', { env });
+      expect(missing.success).toBe(false);
+      expect(missing.error?.message).toMatch(/Profile 'prod' is not defined/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest';
+import { formatEventLine, parseEventTypes } from '../src/commands/events/tail';
+import { SseParser, toServerEvent } from '../src/utils/sse';
+
+describe('SseParser', () => {
+  test('parses messages split across chunks and skips comments', () => {
+    const parser = new SseParser();
+    expect(parser.push('retry: 3000\n: connected\n\nid: 7\nevent: operation.qu')).toEqual([]);
+    expect(parser.push('eued\ndata: {"type":"operation.queued"}\n')).toEqual([]);
+    expect(parser.push('\n: keepalive\n\n')).toEqual([
+      { id: '7', event: 'operation.queued', data: '{"type":"operation.queued"}' },
+    ]);
+  });
+
+  test('joins multi-line data and handles CRLF split between chunks', () => {
+    const parser = new SseParser();
+    expect(parser.push('data: first\r')).toEqual([]);
+    expect(parser.push('\ndata:second\r\n\r\n')).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  test('keeps the last event ID for following messages', () => {
+    const parser = new SseParser();
+    const messages = parser.push('id: 3\ndata: a\n\ndata: b\n\n');
+    expect(messages.map((message) => message.id)).toEqual(['3', '3']);
+  });
+});
+
+describe('toServerEvent', () => {
+  test('decodes the JSON payload and numeric ID', () => {
+    const event = toServerEvent({
+      id: '12',
+      event: 'operation.complete',
+      data: JSON.stringify({
+        type: 'operation.complete',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        data: { opId: 'op_1', status: 'complete', durationMs: 42 },
+      }),
+    });
+    expect(event).toEqual({
+      id: 12,
+      type: 'operation.complete',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      data: { opId: 'op_1', status: 'complete', durationMs: 42 },
+    });
+  });
+
+  test('ignores payloads that are not JSON objects', () => {
+    expect(toServerEvent({ event: 'message', data: 'hello' })).toBeUndefined();
+    expect(toServerEvent({ event: 'message', data: '42' })).toBeUndefined();
+  });
+});
+
+describe('events tail helpers', () => {
+  test('accepts event types and prefixes', () => {
+    expect(parseEventTypes('operation, model.changed,operation')).toEqual(['operation', 'model.changed']);
+    expect(() => parseEventTypes('operation.done')).toThrow(/--types must list event types/);
+    expect(() => parseEventTypes(' , ')).toThrow(/--types/);
+  });
+
+  test('summarizes events on one line', () => {
+    expect(
+      formatEventLine({
+        id: 1,
+        type: 'operation.error',
+        timestamp: 'T',
+        data: { opId: 'op_1', status: 'error', changes: 3, durationMs: 10, error: 'boom' },
+      })
+    ).toBe('T  operation.error       op_1  changes=3  10ms  error: boom');
+    expect(
+      formatEventLine({ id: 2, type: 'model.changed', timestamp: 'T', data: { source: 'archi' } })
+    ).toBe('T  model.changed         source=archi');
+  });
+});
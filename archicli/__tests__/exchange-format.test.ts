@@ -0,0 +1,237 @@
+import { describe, expect, test } from 'vitest';
+import {
+  buildBomChangesFromExchange,
+  buildExchangeXml,
+  escapeXml,
+  fromExchangeElementType,
+  fromExchangeRelationshipType,
+  fromExchangeViewpoint,
+  toExchangeElementType,
+  toExchangeRelationshipType,
+  toExchangeViewpoint,
+} from '../src/utils/exchangeFormat';
+import { validate } from '../src/schemas/registry';
+import { getAttribute, parseXml } from '../src/utils/xml';
+
+describe('exchange format type mapping', () => {
+  test('maps CLI types and viewpoints to exchange names', () => {
+    expect(toExchangeElementType('application-component')).toBe('ApplicationComponent');
+    expect(toExchangeElementType('junction')).toBe('AndJunction');
+    expect(toExchangeRelationshipType('serving-relationship')).toBe('Serving');
+    expect(toExchangeRelationshipType('specialization-relationship')).toBe('Specialization');
+    expect(toExchangeViewpoint('application_cooperation')).toBe('Application Cooperation');
+    expect(toExchangeViewpoint('implementation_deployment')).toBe('Implementation and Deployment');
+    expect(toExchangeViewpoint('implementation_and_migration')).toBe('Implementation and Migration');
+    expect(toExchangeViewpoint('capability')).toBe('Capability Map');
+  });
+
+  test('maps exchange names back to CLI types and viewpoint tokens', () => {
+    expect(fromExchangeElementType('BusinessActor')).toBe('business-actor');
+    expect(fromExchangeElementType('OrJunction')).toBe('junction');
+    expect(fromExchangeRelationshipType('Serving')).toBe('serving-relationship');
+    expect(fromExchangeViewpoint('Implementation and Migration')).toBe('implementation_and_migration');
+    expect(fromExchangeViewpoint('Capability Map')).toBe('capability');
+  });
+
+  test('escapes markup and drops characters XML 1.0 cannot carry', () => {
+    expect(escapeXml('a < b & "c" > d\u0001')).toBe('a &lt; b &amp; &quot;c&quot; &gt; d');
+  });
+});
+
+const xml = buildExchangeXml({
+  concepts: {
+    model: { id: 'id-model', name: 'Bank' },
+    elements: [
+      { id: 'id-a', name: 'Portal', type: 'application-component', documentation: '', properties: { owner: 'A' } },
+      { id: 'id-b', name: 'Customer', type: 'business-actor', documentation: 'External', properties: {} },
+    ],
+    relationships: [
+      {
+        id: 'id-r',
+        name: '',
+        type: 'access-relationship',
+        documentation: '',
+        properties: {},
+        sourceId: 'id-a',
+        targetId: 'id-b',
+        accessType: 3,
+      },
+    ],
+  },
+  folders: [
+    { id: 'id-f1', name: 'Application', parentId: null, childIds: ['id-a'] },
+    { id: 'id-f2', name: 'Legacy', parentId: 'id-f1', childIds: ['id-unknown'] },
+    { id: 'id-f3', name: 'Views', parentId: null, childIds: ['id-v'] },
+  ],
+  views: [
+    {
+      id: 'id-v',
+      name: 'Overview',
+      viewpoint: 'layered',
+      elements: [
+        { id: 'id-g', name: 'Group', type: 'diagram-model-group', x: 10, y: 20, width: 300, height: 200 },
+        { id: 'id-va', parentId: 'id-g', conceptId: 'id-a', x: 5, y: 7, width: -1, height: -1 },
+        { id: 'id-vb', conceptId: 'id-b', x: 400, y: 20, width: 120, height: 55 },
+      ],
+      connections: [{ id: 'id-c', sourceId: 'id-va', targetId: 'id-vb', conceptId: 'id-r' }],
+    },
+  ],
+});
+
+describe('exchange format document', () => {
+  test('writes concepts with property definitions and relationship attributes', () => {
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/"')).toBe(true);
+    expect(xml).toContain('<element identifier="id-a" xsi:type="ApplicationComponent">');
+    expect(xml).toContain('<property propertyDefinitionRef="propid-1">');
+    expect(xml).toContain('<propertyDefinition identifier="propid-1" type="string">');
+    expect(xml).toContain('<documentation xml:lang="en">External</documentation>');
+    expect(xml).toContain(
+      '<relationship identifier="id-r" source="id-a" target="id-b" xsi:type="Access" accessType="ReadWrite"/>'
+    );
+  });
+
+  test('nests organizations by parent folder and skips unexported members', () => {
+    expect(xml).toContain('<label xml:lang="en">Legacy</label>');
+    expect(xml).toContain('<item identifierRef="id-a"/>');
+    expect(xml).toContain('<item identifierRef="id-v"/>');
+    expect(xml).not.toContain('id-unknown');
+  });
+
+  test('converts parent-relative geometry to absolute coordinates with default sizes', () => {
+    expect(xml).toContain('<view identifier="id-v" xsi:type="Diagram" viewpoint="Layered">');
+    expect(xml).toContain('<node identifier="id-g" xsi:type="Container" x="10" y="20" w="300" h="200">');
+    expect(xml).toContain('<node identifier="id-va" elementRef="id-a" xsi:type="Element" x="15" y="27" w="120" h="55"/>');
+    expect(xml).toContain(
+      '<connection identifier="id-c" relationshipRef="id-r" xsi:type="Relationship" source="id-va" target="id-vb"/>'
+    );
+  });
+});
+
+describe('XML parsing', () => {
+  test('reads attributes, entities, CDATA and line numbers', () => {
+    const root = parseXml(
+      '<?xml version="1.0"?>\n<!-- c -->\n<m xsi:type="x:Foo" a=\'1 &amp; 2\'>\n  <t>a &lt; b<![CDATA[ <raw> ]]>&#x41;</t>\n</m>\n'
+    );
+    expect(getAttribute(root, 'type')).toBe('x:Foo');
+    expect(root.attributes.a).toBe('1 & 2');
+    expect(root.children[0]).toMatchObject({ name: 't', text: 'a < b <raw> A', line: 4 });
+  });
+
+  test('rejects mismatched tags with the offending line', () => {
+    expect(() => parseXml('<a>\n<b></a>')).toThrow("End tag '</a>' does not match '<b>' from line 2");
+  });
+});
+
+describe('exchange format import', () => {
+  test('round-trips an exported document into a valid BOM', () => {
+    const result = buildBomChangesFromExchange(xml, { tempIdPrefix: 'x-' });
+
+    expect(result.errors).toEqual([]);
+    expect(result.counts).toEqual({
+      elements: 2,
+      relationships: 1,
+      properties: 1,
+      folders: 1,
+      views: 1,
+      nodes: 3,
+      connections: 1,
+    });
+    expect(result.changes).toContainEqual({
+      op: 'createOrGetRelationship',
+      create: { type: 'access-relationship', sourceId: 'x-id-a', targetId: 'x-id-b', tempId: 'x-id-r', accessType: 3 },
+      match: { type: 'access-relationship', sourceId: 'x-id-a', targetId: 'x-id-b' },
+      onDuplicate: 'reuse',
+    });
+    expect(result.changes).toContainEqual({ op: 'setProperty', id: 'x-id-a', key: 'owner', value: 'A' });
+    expect(result.changes).toContainEqual({ op: 'createFolder', name: 'Legacy', tempId: 'x-folder-1', parentType: 'application' });
+    expect(result.changes).toContainEqual({ op: 'createView', name: 'Overview', tempId: 'x-id-v', viewpoint: 'layered' });
+    // Exported absolute coordinates (15, 27) become relative to the group at (10, 20) again.
+    expect(result.changes).toContainEqual({
+      op: 'addToView',
+      viewId: 'x-id-v',
+      elementId: 'x-id-a',
+      tempId: 'x-id-va',
+      x: 5,
+      y: 7,
+      width: 120,
+      height: 55,
+      parentVisualId: 'x-id-g',
+    });
+    expect(result.changes).toContainEqual({
+      op: 'addConnectionToView',
+      viewId: 'x-id-v',
+      relationshipId: 'x-id-r',
+      sourceVisualId: 'x-id-va',
+      targetVisualId: 'x-id-vb',
+      tempId: 'x-id-c',
+    });
+    expect(validate('bom', { version: '1.0', changes: result.changes }).valid).toBe(true);
+  });
+
+  test('nests groups and notes, moves members into subfolders and warns about skipped content', () => {
+    const result = buildBomChangesFromExchange(
+      `<model xmlns="http://www.opengroup.org/xsd/archimate/3.0/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" identifier="m">
+  <name>M</name>
+  <elements>
+    <element identifier="e1" xsi:type="Node"><name xml:lang="en">Server</name><name xml:lang="de">Rechner</name></element>
+    <element identifier="j1" xsi:type="OrJunction"/>
+  </elements>
+  <organizations>
+    <item>
+      <label>Technology &amp; Physical</label>
+      <item><label>Racks</label><item identifierRef="e1"/></item>
+    </item>
+  </organizations>
+  <views>
+    <diagrams>
+      <view identifier="v1" xsi:type="Diagram" viewpoint="Capability Map">
+        <name>Deployment</name>
+        <node identifier="g1" xsi:type="Container" x="100" y="100" w="400" h="300">
+          <label>Zone</label>
+          <node identifier="n1" xsi:type="Label" x="120" y="130" w="150" h="40"><label>Note</label></node>
+          <node identifier="n2" elementRef="e1" xsi:type="Element" x="150" y="200" w="120" h="55"/>
+        </node>
+        <node identifier="n3" xsi:type="Label" x="0" y="0" w="10" h="10"/>
+        <connection identifier="c1" xsi:type="Line" source="n1" target="n2"/>
+      </view>
+    </diagrams>
+  </views>
+</model>`,
+      { lang: 'de' }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.changes[0]).toMatchObject({ op: 'createOrGetElement', create: { name: 'Rechner', tempId: 'e1' } });
+    expect(result.changes[1]).toEqual({ op: 'createElement', type: 'junction', name: 'Junction', tempId: 'j1' });
+    expect(result.changes.slice(2)).toEqual([
+      { op: 'createFolder', name: 'Racks', tempId: 'folder-1', parentType: 'technology' },
+      { op: 'createView', name: 'Deployment', tempId: 'v1', viewpoint: 'capability' },
+      { op: 'createGroup', viewId: 'v1', name: 'Zone', tempId: 'g1', x: 100, y: 100, width: 400, height: 300 },
+      { op: 'createNote', viewId: 'v1', content: 'Note', tempId: 'n1', x: 120, y: 130, width: 150, height: 40 },
+      { op: 'nestInView', viewId: 'v1', visualId: 'n1', parentVisualId: 'g1', x: 20, y: 30 },
+      { op: 'addToView', viewId: 'v1', elementId: 'e1', tempId: 'n2', x: 50, y: 100, width: 120, height: 55, parentVisualId: 'g1' },
+      { op: 'moveToFolder', id: 'e1', folderId: 'folder-1' },
+    ]);
+    expect(result.warnings).toEqual([
+      '1 OR junction(s) will be created as AND junctions; junction kind cannot be set through a BOM',
+      "1 unnamed junction(s) will be created with the name 'Junction'",
+      'Skipped 1 empty note(s)',
+      'Skipped 1 connection(s) that are plain lines or not between element nodes',
+    ]);
+    expect(validate('bom', { version: '1.0', changes: result.changes }).valid).toBe(true);
+  });
+
+  test('reports unknown types, dangling references and malformed XML by line', () => {
+    const result = buildBomChangesFromExchange(
+      '<model>\n<elements>\n<element identifier="a" xsi:type="Widget"><name>A</name></element>\n</elements>\n' +
+        '<relationships>\n<relationship identifier="r" xsi:type="Serving" source="a" target="b"/>\n</relationships>\n</model>'
+    );
+    expect(result.errors).toEqual([
+      { line: 3, message: "Unknown element type 'Widget'" },
+      { line: 6, message: "Relationship 'r' source 'a' is not an element or relationship in this file" },
+    ]);
+    expect(buildBomChangesFromExchange('<model><name></model>').errors).toEqual([
+      { line: 1, message: "Malformed XML: End tag '</model>' does not match '<name>' from line 1" },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'vitest';
+import { buildChangeBom, diffModelSnapshots, summarizeModelDiff } from '../src/utils/modelDiff';
+import type { ModelSnapshot, SnapshotView } from '../src/utils/modelSnapshot';
+import { validate } from '../src/schemas/registry';
+
+function snapshot(overrides: Partial<ModelSnapshot>): ModelSnapshot {
+  return {
+    snapshotVersion: 1,
+    model: { id: 'id-model', name: 'Bank' },
+    elements: [],
+    relationships: [],
+    folders: [
+      { id: 'id-fa', name: 'Application', type: 'application', parentId: null },
+      { id: 'id-fv', name: 'Views', type: 'diagrams', parentId: null },
+    ],
+    views: [],
+    ...overrides,
+  };
+}
+
+const overview: SnapshotView = {
+  id: 'id-v',
+  name: 'Overview',
+  type: 'archimate-diagram-model',
+  documentation: '',
+  viewpoint: 'layered',
+  folderId: 'id-fv',
+  nodes: [
+    { id: 'id-va', type: 'diagram-model-archimate-object', name: 'Portal', conceptId: 'id-a', x: 10, y: 10, width: 120, height: 55 },
+    { id: 'id-vb', type: 'diagram-model-archimate-object', name: 'CRM', conceptId: 'id-b', x: 200, y: 10, width: -1, height: -1 },
+  ],
+  connections: [
+    { id: 'id-c1', type: 'diagram-model-archimate-connection', name: '', conceptId: 'id-r1', sourceId: 'id-va', targetId: 'id-vb' },
+  ],
+};
+
+const before = snapshot({
+  elements: [
+    { id: 'id-a', type: 'application-component', name: 'Portal', documentation: '', folderId: 'id-fa', properties: { owner: 'A', tier: '1' } },
+    { id: 'id-b', type: 'application-component', name: 'CRM', documentation: '', folderId: 'id-fa', properties: {} },
+  ],
+  relationships: [
+    {
+      id: 'id-r1',
+      type: 'serving-relationship',
+      name: '',
+      documentation: '',
+      properties: {},
+      sourceId: 'id-a',
+      targetId: 'id-b',
+    },
+  ],
+  views: [overview],
+});
+
+const after = snapshot({
+  elements: [
+    { id: 'id-a', type: 'application-component', name: 'Web Portal', documentation: '', folderId: 'id-fa', properties: { owner: 'B' } },
+    { id: 'id-n', type: 'application-service', name: 'Login', documentation: 'New', folderId: 'id-fa', properties: { sla: 'gold' } },
+  ],
+  relationships: [
+    {
+      id: 'id-r2',
+      type: 'realization-relationship',
+      name: '',
+      documentation: '',
+      properties: {},
+      sourceId: 'id-a',
+      targetId: 'id-n',
+    },
+  ],
+  views: [
+    {
+      ...overview,
+      nodes: [
+        { ...overview.nodes[0], x: 40, fillColor: '#ffffff' },
+        { id: 'id-vn', type: 'diagram-model-archimate-object', name: 'Login', conceptId: 'id-n', x: 200, y: 120, width: -1, height: -1 },
+      ],
+      connections: [],
+    },
+  ],
+});
+
+describe('model diff', () => {
+  test('reports added, removed and changed items with field-level changes', () => {
+    const diff = diffModelSnapshots(before, after);
+
+    expect(summarizeModelDiff(diff)).toEqual({
+      elements: { added: 1, removed: 1, changed: 1 },
+      relationships: { added: 1, removed: 1, changed: 0 },
+      folders: { added: 0, removed: 0, changed: 0 },
+      views: { added: 0, removed: 0, changed: 1 },
+    });
+    expect(diff.elements.changed[0]).toEqual({
+      id: 'id-a',
+      name: 'Web Portal',
+      changes: [
+        { field: 'name', old: 'Portal', new: 'Web Portal' },
+        { field: 'properties.owner', old: 'A', new: 'B' },
+        { field: 'properties.tier', old: '1', new: undefined },
+      ],
+    });
+    expect(diff.views.changed[0].nodes.changed[0].changes).toEqual([
+      { field: 'x', old: 10, new: 40 },
+      { field: 'fillColor', old: undefined, new: '#ffffff' },
+    ]);
+    expect(diff.views.changed[0].nodes.removed.map((node) => node.id)).toEqual(['id-vb']);
+  });
+
+  test('reports nothing for identical snapshots', () => {
+    const summary = summarizeModelDiff(diffModelSnapshots(before, before));
+    expect(Object.values(summary).every((counts) => counts.added + counts.removed + counts.changed === 0)).toBe(true);
+  });
+
+  test('builds a valid change BOM ordered creates, updates, view changes, deletes', () => {
+    const bom = buildChangeBom(diffModelSnapshots(before, after), after);
+
+    expect(bom.changes).toEqual([
+      { op: 'createElement', type: 'application-service', name: 'Login', tempId: 'id-n', documentation: 'New' },
+      { op: 'createRelationship', type: 'realization-relationship', sourceId: 'id-a', targetId: 'id-n', tempId: 'id-r2' },
+      { op: 'setProperty', id: 'id-n', key: 'sla', value: 'gold' },
+      { op: 'updateElement', id: 'id-a', name: 'Web Portal' },
+      { op: 'setProperty', id: 'id-a', key: 'owner', value: 'B' },
+      { op: 'addToView', viewId: 'id-v', elementId: 'id-n', tempId: 'id-vn', x: 200, y: 120 },
+      { op: 'moveViewObject', viewObjectId: 'id-va', x: 40, y: 10, width: 120, height: 55 },
+      { op: 'styleViewObject', viewObjectId: 'id-va', fillColor: '#ffffff' },
+      { op: 'deleteRelationship', id: 'id-r1' },
+      { op: 'deleteElement', id: 'id-b' },
+    ]);
+    // id-vb and id-c1 disappear with their deleted concepts; only the removed property is inexpressible.
+    expect(bom.unsupported).toEqual([
+      { kind: 'element', id: 'id-a', reason: "property 'tier' was removed; no BOM operation removes properties" },
+    ]);
+    expect(validate('bom', { version: '1.0', changes: bom.changes }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest';
+import { graphToDot, graphToMermaid, parseRelationshipTypes, traverseGraph } from '../src/utils/modelGraph';
+import type { GraphConcepts } from '../src/utils/modelGraph';
+
+// actor <-serves- service <-realizes- app -assigned-> node;  app -flow-> other app
+const concepts: GraphConcepts = {
+  elements: [
+    { id: 'id-actor', type: 'business-actor', name: 'Customer' },
+    { id: 'id-svc', type: 'application-service', name: 'Payments' },
+    { id: 'id-app', type: 'application-component', name: 'Portal' },
+    { id: 'id-node', type: 'node', name: 'Host' },
+    { id: 'id-crm', type: 'application-component', name: 'CRM' },
+  ],
+  relationships: [
+    { id: 'id-r1', type: 'serving-relationship', name: '', sourceId: 'id-svc', targetId: 'id-actor' },
+    { id: 'id-r2', type: 'realization-relationship', name: 'realizes', sourceId: 'id-app', targetId: 'id-svc' },
+    { id: 'id-r3', type: 'assignment-relationship', name: '', sourceId: 'id-node', targetId: 'id-app' },
+    { id: 'id-r4', type: 'flow-relationship', name: 'orders', sourceId: 'id-app', targetId: 'id-crm' },
+    { id: 'id-r5', type: 'association-relationship', name: '', sourceId: 'id-crm', targetId: 'id-r4' },
+  ],
+};
+
+describe('traverseGraph', () => {
+  test('walks N hops in both directions and reports distances', () => {
+    const graph = traverseGraph(concepts, { startIds: ['id-svc'], depth: 2, direction: 'both' });
+    expect(graph.nodes.map((node) => `${node.distance} ${node.id}`)).toEqual([
+      '0 id-svc',
+      '1 id-actor',
+      '1 id-app',
+      '2 id-crm',
+      '2 id-node',
+    ]);
+    expect(graph.edges.map((edge) => edge.id)).toEqual(['id-r1', 'id-r2', 'id-r3', 'id-r4']);
+    expect(graph.summary).toEqual({ nodes: 5, edges: 4 });
+  });
+
+  test('direction and relationship type filters limit the walk', () => {
+    const outgoing = traverseGraph(concepts, { startIds: ['id-app'], depth: 5, direction: 'out' });
+    expect(outgoing.nodes.map((node) => node.id)).toEqual(['id-app', 'id-crm', 'id-svc', 'id-actor']);
+
+    const serving = traverseGraph(concepts, {
+      startIds: ['id-app'],
+      depth: 5,
+      direction: 'both',
+      relationshipTypes: ['realization-relationship', 'serving-relationship'],
+    });
+    expect(serving.edges.map((edge) => edge.id)).toEqual(['id-r1', 'id-r2']);
+
+    expect(traverseGraph(concepts, { startIds: ['id-app'], depth: 0, direction: 'both' }).edges).toEqual([]);
+    expect(() => traverseGraph(concepts, { startIds: ['id-r4'], depth: 1, direction: 'both' })).toThrow(
+      'Element(s) not found in the model: id-r4'
+    );
+  });
+
+  test('renders DOT and Mermaid with relationship notation', () => {
+    const graph = traverseGraph(concepts, { startIds: ['id-app'], depth: 1, direction: 'both' });
+    const dot = graphToDot(graph);
+    expect(dot).toContain('id_app [label="Portal\\n«application-component»", fillcolor="#b5ffff", penwidth=2];');
+    expect(dot).toContain('id_node -> id_app [dir=both, arrowtail=dot, arrowhead=normal];');
+    expect(dot).toContain('id_app -> id_crm [style=dashed, arrowhead=normal, label="orders"];');
+    const mermaid = graphToMermaid(graph);
+    expect(mermaid).toContain('  id_app -.->|"realizes"| id_svc');
+    expect(mermaid).toContain('  style id_app fill:#b5ffff,stroke:#5c5c5c,stroke-width:3px');
+  });
+
+  test('relationship type lists accept short names', () => {
+    expect(parseRelationshipTypes('serving, Flow,serving-relationship', '--rel-type')).toEqual([
+      'serving-relationship',
+      'flow-relationship',
+    ]);
+    expect(() => parseRelationshipTypes('serving,owns', '--rel-type')).toThrow(/--rel-type must list/);
+  });
+});
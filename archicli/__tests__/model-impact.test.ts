@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'vitest';
+import { analyzeImpact } from '../src/utils/modelImpact';
+import type { ImpactConcepts } from '../src/utils/modelImpact';
+
+// host -assigned-> app -realizes-> svc -serves-> actor;  app -reads-> data;  app -writes-> log;
+// batch -flow-> app;  app -composes-> module (not an impact relationship)
+const concepts: ImpactConcepts = {
+  elements: [
+    { id: 'id-host', type: 'node', name: 'Host' },
+    { id: 'id-app', type: 'application-component', name: 'Portal' },
+    { id: 'id-svc', type: 'application-service', name: 'Payments' },
+    { id: 'id-actor', type: 'business-actor', name: 'Customer' },
+    { id: 'id-data', type: 'data-object', name: 'Orders' },
+    { id: 'id-log', type: 'data-object', name: 'Audit log' },
+    { id: 'id-batch', type: 'application-process', name: 'Nightly batch' },
+    { id: 'id-module', type: 'application-component', name: 'Module' },
+  ],
+  relationships: [
+    { id: 'id-r1', type: 'assignment-relationship', name: '', sourceId: 'id-host', targetId: 'id-app' },
+    { id: 'id-r2', type: 'realization-relationship', name: '', sourceId: 'id-app', targetId: 'id-svc' },
+    { id: 'id-r3', type: 'serving-relationship', name: '', sourceId: 'id-svc', targetId: 'id-actor' },
+    { id: 'id-r4', type: 'access-relationship', name: '', sourceId: 'id-app', targetId: 'id-data', accessType: 1 },
+    { id: 'id-r5', type: 'access-relationship', name: '', sourceId: 'id-app', targetId: 'id-log', accessType: 0 },
+    { id: 'id-r6', type: 'flow-relationship', name: '', sourceId: 'id-batch', targetId: 'id-app' },
+    { id: 'id-r7', type: 'composition-relationship', name: '', sourceId: 'id-app', targetId: 'id-module' },
+  ],
+};
+
+describe('analyzeImpact', () => {
+  test('propagates along dependencies with depth and shortest paths', () => {
+    const report = analyzeImpact(concepts, 'id-host');
+    expect(report.affected.map((entry) => `${entry.depth} ${entry.id}`)).toEqual([
+      '1 id-app',
+      '2 id-log',
+      '2 id-svc',
+      '3 id-actor',
+    ]);
+    expect(report.affected[3].path).toBe('Host -[assignment]-> Portal -[realization]-> Payments -[serving]-> Customer');
+    expect(report.affected[3].steps.map((step) => step.relationshipId)).toEqual(['id-r1', 'id-r2', 'id-r3']);
+    expect(report.summary).toEqual({ affected: 4, depth: 3 });
+  });
+
+  test('read access makes the accessor depend on the object', () => {
+    const report = analyzeImpact(concepts, 'id-data');
+    expect(report.affected.map((entry) => entry.id)).toEqual(['id-app', 'id-log', 'id-svc', 'id-actor']);
+    expect(report.affected[0].path).toBe('Orders -[access]-> Portal');
+    // Nothing upstream of the changed element is affected.
+    expect(analyzeImpact(concepts, 'id-actor').affected).toEqual([]);
+  });
+
+  test('max depth and relationship types limit propagation', () => {
+    expect(analyzeImpact(concepts, 'id-batch', { maxDepth: 1 }).affected.map((entry) => entry.id)).toEqual(['id-app']);
+    const report = analyzeImpact(concepts, 'id-host', {
+      relationshipTypes: ['assignment-relationship', 'realization-relationship'],
+    });
+    expect(report.affected.map((entry) => entry.id)).toEqual(['id-app', 'id-svc']);
+    expect(report.rules).toEqual([
+      { type: 'assignment-relationship', direction: 'forward' },
+      { type: 'realization-relationship', direction: 'forward' },
+    ]);
+    expect(() => analyzeImpact(concepts, 'id-missing')).toThrow('Element not found in the model: id-missing');
+  });
+});
@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, test } from 'vitest';
+import { isRelationshipAllowed, lintModel, validateLintConfig } from '../src/utils/lint';
+import type { ModelSnapshot } from '../src/utils/modelSnapshot';
+
+const model: ModelSnapshot = {
+  snapshotVersion: 1,
+  model: { id: 'id-model', name: 'Bank' },
+  elements: [
+    { id: 'id-a', type: 'application-component', name: 'Portal', documentation: '', properties: { owner: 'Team A' } },
+    { id: 'id-b', type: 'application-component', name: 'portal', documentation: '', properties: { owner: ' ' } },
+    { id: 'id-c', type: 'business-actor', name: 'Customer ', documentation: '', properties: {} },
+    { id: 'id-j', type: 'junction', name: '', documentation: '', properties: {} },
+  ],
+  relationships: [
+    {
+      id: 'id-r1',
+      type: 'serving-relationship',
+      name: '',
+      documentation: '',
+      properties: {},
+      sourceId: 'id-a',
+      targetId: 'id-c',
+    },
+    {
+      id: 'id-r2',
+      type: 'composition-relationship',
+      name: '',
+      documentation: '',
+      properties: {},
+      sourceId: 'id-c',
+      targetId: 'id-a',
+    },
+  ],
+  folders: [],
+  views: [
+    {
+      id: 'id-v1',
+      name: 'Overview',
+      type: 'archimate-diagram-model',
+      documentation: '',
+      nodes: [
+        { id: 'id-va', type: 'diagram-model-archimate-object', name: 'Portal', conceptId: 'id-a', x: 0, y: 0, width: -1, height: -1 },
+      ],
+      connections: [],
+    },
+    { id: 'id-v2', name: 'draft', type: 'archimate-diagram-model', documentation: '', nodes: [], connections: [] },
+  ],
+};
+
+describe('lint rules', () => {
+  test('default rules report each problem once, errors first', () => {
+    const report = lintModel(model);
+    expect(report.findings.map((finding) => `${finding.severity} ${finding.rule} ${finding.id}`)).toEqual([
+      'error invalid-relationship id-r2',
+      'warning duplicate-name id-a',
+      'warning duplicate-name id-b',
+      'warning element-not-in-view id-b',
+      'warning element-not-in-view id-c',
+      'warning element-not-in-view id-j',
+      'warning empty-view id-v2',
+      'warning naming-convention id-c',
+    ]);
+    expect(report.findings[0].message).toBe(
+      'ArchiMate does not allow composition-relationship from business-actor to application-component'
+    );
+    expect(report.summary).toMatchObject({ errors: 1, warnings: 7, info: 0 });
+  });
+
+  test('config sets severities, options, ignored IDs and turns rules off', () => {
+    const report = lintModel(model, {
+      rules: {
+        'required-properties': ['error', { properties: { 'application-component': ['owner'], '*': ['status'] } }],
+        'naming-convention': ['info', { patterns: { view: '^[A-Z]' } }],
+        'duplicate-name': ['warning', { ignoreCase: false }],
+        'element-not-in-view': ['warning', { ignoreTypes: ['junction'] }],
+        'invalid-relationship': 'off',
+        'empty-view': 'off',
+      },
+      ignore: ['id-c'],
+    });
+    expect(report.findings.map((finding) => `${finding.severity} ${finding.rule} ${finding.id}`)).toEqual([
+      'error required-properties id-a',
+      'error required-properties id-b',
+      'error required-properties id-j',
+      'error required-properties id-r1',
+      'error required-properties id-r2',
+      'warning element-not-in-view id-b',
+      'info naming-convention id-v2',
+    ]);
+    expect(report.findings.find((finding) => finding.id === 'id-b')?.message).toBe(
+      'Missing required properties: status, owner'
+    );
+    expect(report.summary.rules).toMatchObject({ 'invalid-relationship': 'off', 'naming-convention': 'info' });
+  });
+
+  test('--rule restricts the report to the listed rules', () => {
+    const report = lintModel(model, {}, ['empty-view']);
+    expect(report.findings.map((finding) => finding.id)).toEqual(['id-v2']);
+    expect(Object.keys(report.summary.rules)).toEqual(['empty-view']);
+  });
+});
+
+describe('lint config', () => {
+  test('rejects unknown rules, severities and malformed options', () => {
+    expect(validateLintConfig({ rules: { 'empty-view': 'warning' } })).toEqual([]);
+    expect(
+      validateLintConfig({
+        rules: {
+          'no-such-rule': 'error',
+          'empty-view': 'fatal',
+          'naming-convention': ['warning', { patterns: { '*': '(' } }],
+          'duplicate-name': ['warning', { ignoreCase: 'yes' }],
+        },
+        extends: 'recommended',
+      })
+    ).toEqual([
+      "unknown top-level key 'extends'",
+      expect.stringMatching(/^unknown rule 'no-such-rule'/),
+      "rule 'empty-view': severity must be one of error, warning, info, off",
+      expect.stringMatching(/^rule 'naming-convention': pattern for '\*' is not a valid regular expression/),
+      "rule 'duplicate-name': 'ignoreCase' must be a boolean",
+    ]);
+  });
+});
+
+describe('relationship matrix', () => {
+  test('matches context/relationships.xml', () => {
+    const xml = readFileSync(join(__dirname, '..', '..', 'context', 'relationships.xml'), 'utf-8');
+    const matrix = JSON.parse(readFileSync(join(__dirname, '..', 'src', 'schemas', 'relationships.json'), 'utf-8'));
+    const kebab = (concept: string): string =>
+      concept === 'Relationship' ? 'relationship' : concept.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+    let source = '';
+    let pairs = 0;
+    for (const line of xml.split('\n')) {
+      const sourceMatch = /<source concept="(\w+)"/.exec(line);
+      if (sourceMatch) source = kebab(sourceMatch[1]);
+      const targetMatch = /<target concept="(\w+)" relations="(\w*)"/.exec(line);
+      if (!targetMatch) continue;
+      pairs++;
+      expect(matrix.rules[source][kebab(targetMatch[1])]).toBe(targetMatch[2]);
+    }
+    const matrixPairs = Object.values(matrix.rules as Record<string, object>).reduce(
+      (sum, targets) => sum + Object.keys(targets).length,
+      0
+    );
+    expect(pairs).toBe(matrixPairs);
+
+    expect(isRelationshipAllowed('serving-relationship', 'application-component', 'business-actor')).toBe(true);
+    expect(isRelationshipAllowed('composition-relationship', 'business-actor', 'application-component')).toBe(false);
+    expect(isRelationshipAllowed('association-relationship', 'business-actor', 'serving-relationship')).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest';
+import type { FolderInfo, ViewDetailResponse } from '../src/client';
+import type { ModelConcepts } from '../src/utils/modelData';
+import { buildModelSnapshot, serializeModelSnapshot } from '../src/utils/modelSnapshot';
+
+const concepts: ModelConcepts = {
+  model: { id: 'id-model', name: 'Bank' },
+  elements: [
+    { id: 'id-b', name: 'Customer', type: 'business-actor', documentation: '', properties: { zeta: '1', alpha: '2' } },
+    { id: 'id-a', name: 'Portal', type: 'application-component', documentation: 'Web', properties: {} },
+  ],
+  relationships: [
+    {
+      id: 'id-r',
+      name: '',
+      type: 'serving-relationship',
+      documentation: '',
+      properties: {},
+      sourceId: 'id-a',
+      targetId: 'id-b',
+    },
+  ],
+};
+const folders: FolderInfo[] = [
+  { id: 'id-f2', name: 'Business', type: 'business', parentId: null, childIds: ['id-b'] },
+  { id: 'id-f1', name: 'Application', type: 'application', parentId: null, childIds: ['id-a'] },
+];
+// The server also reports style attributes that the generated ViewElement type does not declare.
+const styledPortalNode = {
+  id: 'id-va',
+  type: 'diagram-model-archimate-object',
+  name: 'Portal',
+  conceptId: 'id-a',
+  x: 10,
+  y: 10,
+  width: 120,
+  height: 55,
+  fillColor: '#ffffb5',
+};
+const views: ViewDetailResponse[] = [
+  {
+    id: 'id-v',
+    name: 'Overview',
+    type: 'archimate-diagram-model',
+    documentation: '',
+    viewpoint: 'layered',
+    elements: [
+      { id: 'id-vb', type: 'diagram-model-archimate-object', name: 'Customer', conceptId: 'id-b', x: 300, y: 10, width: -1, height: -1 },
+      styledPortalNode,
+    ],
+    connections: [{ id: 'id-c', type: 'diagram-model-archimate-connection', name: '', sourceId: 'id-va', targetId: 'id-vb', conceptId: 'id-r' }],
+  },
+];
+
+describe('model snapshot', () => {
+  test('sorts collections and property keys and records folder placement', () => {
+    const snapshot = buildModelSnapshot({ concepts, folders, views });
+
+    expect(snapshot.elements.map((element) => element.id)).toEqual(['id-a', 'id-b']);
+    expect(snapshot.folders.map((folder) => folder.id)).toEqual(['id-f1', 'id-f2']);
+    expect(snapshot.elements[0].folderId).toBe('id-f1');
+    expect(Object.keys(snapshot.elements[1].properties)).toEqual(['alpha', 'zeta']);
+    expect(snapshot.views[0].nodes.map((node) => node.id)).toEqual(['id-va', 'id-vb']);
+    expect(snapshot.views[0].nodes[0]).toMatchObject({ x: 10, y: 10, width: 120, height: 55, fillColor: '#ffffb5' });
+    expect(snapshot.views[0].connections[0]).toMatchObject({ conceptId: 'id-r', sourceId: 'id-va', targetId: 'id-vb' });
+  });
+
+  test('serializes identically regardless of server ordering', () => {
+    const first = serializeModelSnapshot(buildModelSnapshot({ concepts, folders, views }));
+    const reordered = serializeModelSnapshot(
+      buildModelSnapshot({
+        concepts: {
+          ...concepts,
+          elements: [...concepts.elements].reverse().map((element) => ({
+            ...element,
+            properties: Object.fromEntries(Object.entries(element.properties).reverse()),
+          })),
+        },
+        folders: [...folders].reverse(),
+        views: views.map((view) => ({ ...view, elements: [...(view.elements ?? [])].reverse() })),
+      })
+    );
+
+    expect(reordered).toBe(first);
+    expect(first.endsWith('}\n')).toBe(true);
+    expect(first).not.toContain('undefined');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, test } from 'vitest';
+import type { FolderInfo } from '../src/client';
+import type { ModelConcepts } from '../src/utils/modelData';
+import { buildSyncPlan, readDesiredState } from '../src/utils/modelSync';
+import { validate } from '../src/schemas/registry';
+
+const folders: FolderInfo[] = [
+  { id: 'id-fa', name: 'Application', type: 'application', path: 'Application', parentId: null, childIds: ['id-x', 'id-fcrm'] },
+  { id: 'id-fcrm', name: 'CRM', path: 'Application/CRM', parentId: 'id-fa', childIds: ['id-a', 'id-fsub'] },
+  { id: 'id-fsub', name: 'Legacy', path: 'Application/CRM/Legacy', parentId: 'id-fcrm', childIds: ['id-b', 'id-c'] },
+  { id: 'id-fr', name: 'Relations', type: 'relations', path: 'Relations', parentId: null, childIds: ['id-r1', 'id-r2', 'id-r3'] },
+];
+
+function live(overrides: Partial<ModelConcepts> = {}): ModelConcepts {
+  return {
+    model: { id: 'id-model', name: 'Bank' },
+    elements: [
+      { id: 'id-a', type: 'application-component', name: 'CRM', documentation: '', properties: { 'sync-key': 'crm' } },
+      { id: 'id-b', type: 'application-service', name: 'Old Name', documentation: '', properties: { 'sync-key': 'svc' } },
+      { id: 'id-c', type: 'application-component', name: 'Retired', documentation: '', properties: {} },
+      { id: 'id-x', type: 'application-component', name: 'Portal', documentation: '', properties: {} },
+    ],
+    relationships: [
+      { id: 'id-r1', type: 'realization-relationship', name: '', documentation: '', sourceId: 'id-a', targetId: 'id-b', properties: {} },
+      { id: 'id-r2', type: 'serving-relationship', name: '', documentation: '', sourceId: 'id-c', targetId: 'id-a', properties: {} },
+      { id: 'id-r3', type: 'serving-relationship', name: '', documentation: '', sourceId: 'id-c', targetId: 'id-x', properties: {} },
+    ],
+    ...overrides,
+  };
+}
+
+const desiredChanges = [
+  { op: 'createElement', type: 'application-component', name: 'CRM', tempId: 'crm' },
+  { op: 'createElement', type: 'application-service', name: 'Customer Data', tempId: 'svc', documentation: 'CRUD' },
+  { op: 'createElement', type: 'application-interface', name: 'CRM API', tempId: 'api' },
+  { op: 'setProperty', id: 'api', key: 'owner', value: 'Team A' },
+  { op: 'createRelationship', type: 'realization-relationship', sourceId: 'crm', targetId: 'svc' },
+  { op: 'createRelationship', type: 'serving-relationship', sourceId: 'api', targetId: 'id-x', tempId: 'api-portal' },
+];
+
+describe('readDesiredState', () => {
+  test('reads creates and merges setProperty into the declared concept', () => {
+    const desired = readDesiredState(desiredChanges);
+    expect(desired.errors).toEqual([]);
+    expect(desired.elements.map((element) => element.ref)).toEqual(['crm', 'svc', 'api']);
+    expect(desired.elements[2].properties).toEqual({ owner: 'Team A' });
+    expect(desired.relationships[0]).toMatchObject({ ref: 'sync-1', key: undefined, sourceId: 'crm', targetId: 'svc' });
+  });
+
+  test('reads createOrGet specs', () => {
+    const desired = readDesiredState([
+      {
+        op: 'createOrGetElement',
+        create: { type: 'node', name: 'Host', tempId: 'host', properties: { env: 'prod' } },
+        match: { type: 'node', name: 'Host' },
+      },
+    ]);
+    expect(desired.elements[0]).toMatchObject({ ref: 'host', type: 'node', name: 'Host', properties: { env: 'prod' } });
+  });
+
+  test('rejects operations that do not describe state', () => {
+    const desired = readDesiredState([
+      { op: 'deleteElement', id: 'id-a' },
+      { op: 'setProperty', id: 'id-a', key: 'k', value: 'v' },
+    ]);
+    expect(desired.errors.map((error) => error.path)).toEqual(['/changes/0/op', '/changes/1/id']);
+  });
+});
+
+describe('buildSyncPlan', () => {
+  test('plans creates, drift updates and deletes for a folder scope', () => {
+    const plan = buildSyncPlan({
+      desired: readDesiredState(desiredChanges),
+      concepts: live(),
+      folders,
+      scope: { kind: 'folder', folderId: 'id-fcrm' },
+      keyProperty: 'sync-key',
+    });
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.items.map((item) => `${item.action} ${item.kind} ${item.id ?? item.key}`)).toEqual([
+      'create element api',
+      'create relationship api-portal',
+      'update element id-b',
+      'delete relationship id-r2',
+      'delete element id-c',
+    ]);
+    expect(plan.unchanged).toBe(2);
+    expect(plan.items[2].changes).toEqual([
+      { field: 'name', old: 'Old Name', new: 'Customer Data' },
+      { field: 'documentation', old: '', new: 'CRUD' },
+    ]);
+    expect(plan.changes).toEqual([
+      { op: 'createElement', type: 'application-interface', name: 'CRM API', tempId: 'api', folder: 'id-fcrm' },
+      { op: 'setProperty', id: 'api', key: 'owner', value: 'Team A' },
+      { op: 'setProperty', id: 'api', key: 'sync-key', value: 'api' },
+      { op: 'createRelationship', type: 'serving-relationship', sourceId: 'api', targetId: 'id-x', tempId: 'api-portal' },
+      { op: 'setProperty', id: 'api-portal', key: 'sync-key', value: 'api-portal' },
+      // id-x is outside the folder, so the relationship is moved in to stay managed.
+      { op: 'moveToFolder', id: 'api-portal', folderId: 'id-fcrm' },
+      { op: 'updateElement', id: 'id-b', name: 'Customer Data', documentation: 'CRUD' },
+      { op: 'deleteRelationship', id: 'id-r2' },
+      { op: 'deleteElement', id: 'id-c' },
+    ]);
+    expect(plan.warnings).toEqual([
+      "Deleting application-component 'Retired' (id-c) also removes 1 relationship(s) outside the managed scope",
+    ]);
+    expect(validate('bom', { version: '1.0', changes: plan.changes }).valid).toBe(true);
+  });
+
+  test('adopts unkeyed concepts by type and name and stamps the key', () => {
+    const concepts = live();
+    concepts.elements[0].properties = {};
+    const plan = buildSyncPlan({
+      desired: readDesiredState([desiredChanges[0]]),
+      concepts,
+      folders,
+      scope: { kind: 'folder', folderId: 'id-fcrm' },
+      keyProperty: 'sync-key',
+    });
+
+    expect(plan.items[0]).toMatchObject({ action: 'update', id: 'id-a', key: 'crm' });
+    expect(plan.changes[0]).toEqual({ op: 'setProperty', id: 'id-a', key: 'sync-key', value: 'crm' });
+  });
+
+  test('replaces a keyed relationship whose endpoints changed', () => {
+    const concepts = live();
+    concepts.relationships[0].properties = { 'sync-key': 'rel' };
+    const plan = buildSyncPlan({
+      desired: readDesiredState([
+        ...desiredChanges.slice(0, 3),
+        { op: 'createRelationship', type: 'realization-relationship', sourceId: 'api', targetId: 'svc', tempId: 'rel' },
+      ]),
+      concepts,
+      folders,
+      scope: { kind: 'folder', folderId: 'id-fcrm' },
+      keyProperty: 'sync-key',
+    });
+
+    const relationshipItems = plan.items.filter((item) => item.kind === 'relationship');
+    expect(relationshipItems.map((item) => `${item.action} ${item.id ?? item.key}`)).toEqual([
+      'create rel',
+      'delete id-r1',
+      'delete id-r2',
+    ]);
+  });
+
+  test('tags created concepts and reports properties it cannot remove', () => {
+    const concepts = live();
+    concepts.elements[3].properties = { source: 'cmdb', 'sync-key': 'portal', legacy: 'yes' };
+    const plan = buildSyncPlan({
+      desired: readDesiredState([
+        { op: 'createElement', type: 'application-component', name: 'Portal', tempId: 'portal' },
+        { op: 'createElement', type: 'node', name: 'Host', tempId: 'host' },
+      ]),
+      concepts,
+      folders,
+      scope: { kind: 'tag', key: 'source', value: 'cmdb' },
+      keyProperty: 'sync-key',
+    });
+
+    expect(plan.items).toEqual([{ action: 'create', kind: 'element', key: 'host', type: 'node', name: 'Host' }]);
+    expect(plan.changes).toEqual([
+      { op: 'createElement', type: 'node', name: 'Host', tempId: 'host' },
+      { op: 'setProperty', id: 'host', key: 'source', value: 'cmdb' },
+      { op: 'setProperty', id: 'host', key: 'sync-key', value: 'host' },
+    ]);
+    expect(plan.unsupported).toEqual([
+      {
+        kind: 'element',
+        id: 'id-x',
+        reason: "property 'legacy' is not in the desired state and cannot be removed by a BOM",
+      },
+    ]);
+  });
+
+  test('reports endpoints that are unknown or about to be deleted', () => {
+    const plan = buildSyncPlan({
+      desired: readDesiredState([
+        { op: 'createRelationship', type: 'serving-relationship', sourceId: 'nope', targetId: 'id-c' },
+      ]),
+      concepts: live(),
+      folders,
+      scope: { kind: 'folder', folderId: 'id-fcrm' },
+      keyProperty: 'sync-key',
+    });
+
+    expect(plan.errors.map((error) => error.path)).toEqual(['/changes/0/sourceId', '/changes/0/targetId']);
+  });
+});
@@ -0,0 +1,112 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { toJUnit, toSarif } from '../src/utils/reports';
+import type { ReportRun } from '../src/utils/reports';
+import { cli } from './helpers';
+
+let dir: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'archicli-reports-'));
+});
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const lintRun: ReportRun = {
+  command: 'lint',
+  rules: [
+    { id: 'invalid-relationship', description: 'Relationships are allowed' },
+    { id: 'empty-view', description: 'Every view contains elements' },
+    { id: 'duplicate-name', description: 'Element names are unique per type' },
+  ],
+  findings: [
+    {
+      ruleId: 'invalid-relationship',
+      level: 'error',
+      message: 'ArchiMate does not allow composition-relationship from <actor> to "app"',
+      concept: { id: 'id-r', type: 'composition-relationship', name: '' },
+    },
+    {
+      ruleId: 'duplicate-name',
+      level: 'warning',
+      message: 'Name & co is also used by id-b',
+      concept: { id: 'id-a', type: 'node', name: 'Name & co' },
+    },
+  ],
+};
+
+describe('report renderers', () => {
+  test('SARIF lists rules and locates model findings logically', () => {
+    const sarif = JSON.parse(toSarif(lintRun));
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe('archicli');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'invalid-relationship',
+      'empty-view',
+      'duplicate-name',
+    ]);
+    expect(run.results[1]).toEqual({
+      ruleId: 'duplicate-name',
+      level: 'warning',
+      message: { text: 'Name & co is also used by id-b' },
+      locations: [{ logicalLocations: [{ name: 'Name & co', fullyQualifiedName: 'id-a', kind: 'node' }] }],
+    });
+  });
+
+  test('JUnit fails only errors and passes clean rules', () => {
+    const xml = toJUnit(lintRun);
+    expect(xml).toContain('<testsuite name="archicli lint" tests="3" failures="1" errors="0" skipped="0">');
+    expect(xml).toContain(
+      '<failure message="ArchiMate does not allow composition-relationship from &lt;actor&gt; to &quot;app&quot;"'
+    );
+    expect(xml).toContain('<system-out>warning: Name &amp; co is also used by id-b</system-out>');
+    expect(xml).toContain('<testcase classname="empty-view" name="Every view contains elements"/>');
+  });
+});
+
+describe('verify --report', () => {
+  const bom = {
+    version: '1.0',
+    changes: [
+      { op: 'createElement', type: 'node', name: 'Host', tempId: 'host' },
+      { op: 'createRelationship', type: 'serving-relationship', sourceId: 'host', targetId: 'missing' },
+    ],
+  };
+
+  // Paths outside the working directory stay absolute.
+  test('sarif replaces the envelope and points at the JSON line', async () => {
+    const path = join(dir, 'changes.json');
+    writeFileSync(path, JSON.stringify(bom, null, 2));
+
+    const result = await cli('verify', path, '--semantic', '--report', 'sarif');
+    expect(result.exitCode).toBe(1);
+    const results = JSON.parse(result.stdout).runs[0].results;
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      ruleId: 'tempid-reference',
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: { artifactLocation: { uri: path }, region: { startLine: 14 } },
+          logicalLocations: [{ fullyQualifiedName: '/changes/1/targetId' }],
+        },
+      ],
+    });
+  });
+
+  test('junit with --report-file keeps the JSON envelope', async () => {
+    const path = join(dir, 'changes.json');
+    writeFileSync(path, JSON.stringify({ ...bom, changes: bom.changes.slice(0, 1) }));
+    const reportPath = join(dir, 'reports', 'verify.xml');
+
+    const result = await cli('verify', path, '--semantic', '--report', 'junit', '--report-file', reportPath);
+    expect(result.success).toBe(true);
+    expect(existsSync(reportPath)).toBe(true);
+    const xml = readFileSync(reportPath, 'utf-8');
+    expect(xml).toContain('tests="7" failures="0"');
+    expect(xml).toContain('<testcase classname="connection-direction"');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'vitest';
+import { createProgram } from '../src/index';
+import {
+  completeShellLine,
+  completionTarget,
+  formatNameReference,
+  resolveNamedConcept,
+  resolveVariable,
+  scanLine,
+  toArgument,
+} from '../src/utils/shell';
+import type { NamedConcept } from '../src/utils/shell';
+
+const variables = new Map<string, unknown>([
+  ['last', { success: true, data: { results: [{ id: 'id-a', name: 'Portal' }], total: 1 } }],
+  ['1', { success: true, data: { views: [{ id: 'id-v1' }] } }],
+]);
+
+const concepts: NamedConcept[] = [
+  { id: 'id-a', name: 'Portal', kind: 'element' },
+  { id: 'id-d', name: 'Core DB', kind: 'element' },
+  { id: 'id-v1', name: 'Overview', kind: 'view' },
+  { id: 'id-v2', name: 'Portal', kind: 'view' },
+];
+
+function words(line: string): string[] {
+  return scanLine(line, (reference) => toArgument(resolveVariable(reference, variables))).words.map(
+    (word) => word.value
+  );
+}
+
+describe('scanLine', () => {
+  test('splits on whitespace and honours quotes and escapes', () => {
+    expect(words(`model search --name "Core DB"  --type 'a b' x\\ y ""`)).toEqual([
+      'model',
+      'search',
+      '--name',
+      'Core DB',
+      '--type',
+      'a b',
+      'x y',
+      '',
+    ]);
+    expect(scanLine('view get "Over').openQuote).toBe(true);
+  });
+
+  test('expands variable paths outside single quotes', () => {
+    expect(words('model element $last.data.results[0].id')).toEqual(['model', 'element', 'id-a']);
+    expect(words('echo "id=$1.data.views[0].id" \'$last\' \\$last')).toEqual(['echo', 'id=id-v1', '$last', '$last']);
+    expect(words('echo $last.data.results[0]')).toEqual(['echo', '{"id":"id-a","name":"Portal"}']);
+    expect(() => words('echo $nope')).toThrow(/Unknown variable '\$nope'/);
+    expect(() => words('echo $last.data.results[3]')).toThrow(/does not exist/);
+  });
+
+  test('marks words whose first character is literal', () => {
+    const scanned = scanLine(`@Portal @"Core DB" '@x' \\@y`).words;
+    expect(scanned.map((word) => [word.value, word.literalStart])).toEqual([
+      ['@Portal', false],
+      ['@Core DB', false],
+      ['@x', true],
+      ['@y', true],
+    ]);
+  });
+});
+
+describe('resolveNamedConcept', () => {
+  test('maps unique names to IDs and rejects ambiguous or unknown ones', () => {
+    expect(resolveNamedConcept('Core DB', concepts)).toBe('id-d');
+    expect(() => resolveNamedConcept('Portal', concepts)).toThrow(/ambiguous: id-a \(element\), id-v2 \(view\)/);
+    expect(() => resolveNamedConcept('Nope', concepts)).toThrow(/No element or view named 'Nope'/);
+  });
+
+  test('quotes names that contain shell syntax', () => {
+    expect(formatNameReference('Portal')).toBe('@Portal');
+    expect(formatNameReference('Core "DB"')).toBe('@"Core \\"DB\\""');
+  });
+});
+
+describe('completeShellLine', () => {
+  const context = { program: createProgram(), builtins: ['help', 'vars'], variables, concepts };
+
+  test('completes commands, subcommands and options', () => {
+    expect(completeShellLine('mo', context)).toEqual([['model'], 'mo']);
+    expect(completeShellLine('', context)[0]).toEqual(expect.arrayContaining(['help', 'model', 'view', 'vars']));
+    expect(completeShellLine('view g', context)).toEqual([['get'], 'g']);
+    expect(completeShellLine('model search --na', context)).toEqual([['--name'], '--na']);
+    expect(completeShellLine('model search --ou', context)).toEqual([['--output'], '--ou']);
+  });
+
+  test('completes IDs, @names and variable paths', () => {
+    expect(completeShellLine('view get id-v', context)).toEqual([['id-v1', 'id-v2'], 'id-v']);
+    expect(completeShellLine('view get @C', context)).toEqual([[], '@C']);
+    expect(completeShellLine('view get @"C', context)).toEqual([['@"Core DB"'], '@"C']);
+    expect(completeShellLine('view get @Ov', context)).toEqual([['@Overview'], '@Ov']);
+    expect(completeShellLine('model element $la', context)).toEqual([['$last'], '$la']);
+    expect(completeShellLine('model element $last.data.results[0].', context)).toEqual([
+      ['$last.data.results[0].id', '$last.data.results[0].name'],
+      '$last.data.results[0].',
+    ]);
+  });
+
+  test('reports when completion needs concept names', () => {
+    const program = createProgram();
+    expect(completionTarget('view get ', program)).toBe('concepts');
+    expect(completionTarget('model search @P', program)).toBe('concepts');
+    expect(completionTarget('view ', program)).toBe('keywords');
+    expect(completionTarget('view get --', program)).toBe('keywords');
+  });
+});
@@ -137,3 +137,44 @@ describe('visual ID semantics', () => {
     ).toBe(true);
   });
 });
+
+// ── createOrGet tempIds ──────────────────────────────────────────────────────
+
+describe('createOrGet tempIds', () => {
+  test('create.tempId is declared for later setProperty and nested relationship endpoints', async () => {
+    const changes = [
+      {
+        op: 'createOrGetElement',
+        create: { type: 'business-actor', name: 'A', tempId: 'e-a' },
+        match: { type: 'business-actor', name: 'A' },
+      },
+      {
+        op: 'createOrGetElement',
+        create: { type: 'business-role', name: 'B', tempId: 'e-b' },
+        match: { type: 'business-role', name: 'B' },
+      },
+      {
+        op: 'createOrGetRelationship',
+        create: { type: 'assignment-relationship', sourceId: 'e-a', targetId: 'e-b', tempId: 'r-ab' },
+        match: { type: 'assignment-relationship', sourceId: 'e-a', targetId: 'e-b' },
+      },
+      { op: 'setProperty', id: 'r-ab', key: 'source', value: 'csv' },
+    ];
+    const result = await validateBomSemantics(changes, [], { resolveNames: false });
+    expect(result.errors).toHaveLength(0);
+    expect(result.valid).toBe(true);
+  });
+
+  test('unknown nested endpoint is reported with its create/match path', async () => {
+    const changes = [
+      {
+        op: 'createOrGetRelationship',
+        create: { type: 'serving-relationship', sourceId: 'e-missing', targetId: 'id-real' },
+        match: { type: 'serving-relationship', sourceId: 'e-missing', targetId: 'id-real' },
+      },
+    ];
+    const result = await validateBomSemantics(changes, [], { resolveNames: false });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.path)).toEqual(['/changes/0/create/sourceId', '/changes/0/match/sourceId']);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import type { SnapshotView } from '../src/utils/modelSnapshot';
+import { renderViewSvg } from '../src/utils/viewRender';
+
+const view: SnapshotView = {
+  id: 'id-v',
+  name: 'Apps & data',
+  type: 'archimate-diagram-model',
+  documentation: '',
+  nodes: [
+    { id: 'id-g', type: 'diagram-model-group', name: 'Core', x: 100, y: 50, width: 300, height: 200 },
+    {
+      id: 'id-na',
+      type: 'diagram-model-archimate-object',
+      name: 'Portal <web>',
+      conceptId: 'id-a',
+      parentId: 'id-g',
+      x: 20,
+      y: 30,
+      width: -1,
+      height: -1,
+    },
+    {
+      id: 'id-ns',
+      type: 'diagram-model-archimate-object',
+      name: 'Payments',
+      conceptId: 'id-s',
+      x: 500,
+      y: 80,
+      width: 120,
+      height: 55,
+      fillColor: '#ff0000',
+    },
+    { id: 'id-nn', type: 'diagram-model-note', name: '', content: 'Draft', x: 500, y: 300, width: -1, height: -1 },
+  ],
+  connections: [
+    {
+      id: 'id-c1',
+      type: 'diagram-model-archimate-connection',
+      name: 'uses',
+      conceptId: 'id-r',
+      sourceId: 'id-ns',
+      targetId: 'id-na',
+    },
+    { id: 'id-c2', type: 'diagram-model-connection', name: '', sourceId: 'id-nn', targetId: 'id-ns' },
+    { id: 'id-c3', type: 'diagram-model-archimate-connection', name: '', sourceId: 'id-nn', targetId: 'id-c1' },
+  ],
+};
+
+const conceptTypes = new Map([
+  ['id-a', 'application-component'],
+  ['id-s', 'application-service'],
+  ['id-r', 'serving-relationship'],
+]);
+
+describe('renderViewSvg', () => {
+  test('resolves nested bounds, default sizes and the canvas', () => {
+    const rendered = renderViewSvg(view, conceptTypes, { margin: 10 });
+    // Group at (100,50); note at 500,300 with default 185x80 -> extent 100..685 x 50..380.
+    expect(rendered).toMatchObject({ width: 605, height: 350, nodes: 4, connections: 2 });
+    expect(rendered.svg).toContain('<g transform="translate(-90,-40)">');
+    // Child is parent-relative: 100+20, 50+30, default 120x55.
+    expect(rendered.svg).toContain('<rect x="120" y="80" width="120" height="55" fill="#b5ffff"');
+    // The service keeps its explicit fill and gets rounded ends.
+    expect(rendered.svg).toContain('rx="27.5" ry="27.5" fill="#ff0000"');
+    expect(rendered.svg.indexOf('id="id-g"')).toBeLessThan(rendered.svg.indexOf('id="id-na"'));
+  });
+
+  test('draws relationship notation, escapes text and is deterministic', () => {
+    const rendered = renderViewSvg(view, conceptTypes);
+    expect(rendered.svg).toMatch(/<g id="id-c1"><title>serving-relationship: uses<\/title><line [^>]*marker-end="url\(#arrow-open\)"/);
+    expect(rendered.svg).toMatch(/<g id="id-c2">.*stroke-dasharray="4,4"/);
+    expect(rendered.svg).not.toContain('id-c3');
+    expect(rendered.svg).toContain('Portal &lt;web&gt;');
+    expect(rendered.svg).toContain('<title>Apps &amp; data</title>');
+    expect(rendered.svg).toContain('>Draft</tspan>');
+    expect(renderViewSvg(view, conceptTypes).svg).toBe(rendered.svg);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'vitest';
+import type { SnapshotView } from '../src/utils/modelSnapshot';
+import { renderViewText } from '../src/utils/viewText';
+
+const view: SnapshotView = {
+  id: 'id-v',
+  name: 'Apps',
+  type: 'archimate-diagram-model',
+  documentation: '',
+  nodes: [
+    { id: 'id-c', type: 'diagram-model-archimate-object', name: 'Customer', conceptId: 'id-actor', x: 500, y: 0, width: -1, height: -1 },
+    { id: 'id-g', type: 'diagram-model-group', name: 'Core', x: 0, y: 0, width: 300, height: 200 },
+    { id: 'id-s', type: 'diagram-model-archimate-object', name: 'Pay "now"', conceptId: 'id-svc', parentId: 'id-g', x: 160, y: 30, width: -1, height: -1 },
+    { id: 'id-a', type: 'diagram-model-archimate-object', name: 'Portal', conceptId: 'id-app', parentId: 'id-g', x: 10, y: 30, width: -1, height: -1 },
+  ],
+  connections: [
+    { id: 'id-c1', type: 'diagram-model-archimate-connection', name: 'uses', conceptId: 'id-r1', sourceId: 'id-s', targetId: 'id-c' },
+    { id: 'id-c2', type: 'diagram-model-archimate-connection', name: '', conceptId: 'id-r2', sourceId: 'id-g', targetId: 'id-c' },
+  ],
+};
+
+const conceptTypes = new Map([
+  ['id-actor', 'business-actor'],
+  ['id-app', 'application-component'],
+  ['id-svc', 'application-service'],
+  ['id-r1', 'serving-relationship'],
+  ['id-r2', 'composition-relationship'],
+]);
+
+describe('renderViewText', () => {
+  test('mermaid nests children in subgraphs in reading order', () => {
+    const { text, nodes, connections } = renderViewText('mermaid', view, conceptTypes);
+    expect({ nodes, connections }).toEqual({ nodes: 4, connections: 2 });
+    expect(text).toContain(
+      [
+        'flowchart TB',
+        '  subgraph id_g["Core"]',
+        '    id_a["Portal"]',
+        '    id_s(["Pay #quot;now#quot;"])',
+        '  end',
+        '  id_c["Customer"]',
+        '  id_s -->|"uses"| id_c',
+        '  id_g === id_c',
+      ].join('\n')
+    );
+    expect(text).toContain('  style id_a fill:#b5ffff,stroke:#5c5c5c');
+  });
+
+  test('plantuml uses native ArchiMate elements and UML arrows', () => {
+    const { text } = renderViewText('plantuml', view, conceptTypes);
+    expect(text).toContain('rectangle "Core" as id_g #d2d7d7 {\n  archimate #b5ffff "Portal" as id_a <<application-component>>');
+    expect(text).toContain("archimate #b5ffff \"Pay 'now'\" as id_s <<application-service>>");
+    expect(text).toContain('id_s --> id_c : uses');
+    expect(text).toContain('id_g *-- id_c');
+    expect(text.trimEnd().endsWith('@enduml')).toBe(true);
+  });
+
+  test('dot turns containers into clusters with an anchor for edges', () => {
+    const { text } = renderViewText('dot', view, conceptTypes);
+    expect(text).toContain('subgraph cluster_id_g {');
+    expect(text).toContain('id_s [label="Pay \\"now\\"", shape=box, style="rounded,filled", fillcolor="#b5ffff"];');
+    expect(text).toContain('id_s -> id_c [arrowhead=vee, label="uses"];');
+    expect(text).toContain('id_g -> id_c [dir=both, arrowtail=diamond, arrowhead=none, ltail=cluster_id_g];');
+  });
+});
@@ -1,8 +1,9 @@
 #!/usr/bin/env node
-import { Command, CommanderError } from 'commander';
+import { CommanderError } from 'commander';
 import { createProgram } from './index';
+import { configureCommander, normalizeCommanderMessage } from './utils/commander';
 import { setConfig } from './utils/config';
-import { failure, print } from './utils/output';
+import { failure, failureFromError, print } from './utils/output';
 import { resetWarnings } from './utils/warnings';
 
 // Parse the requested output mode before Commander initialization so usage errors
@@ -24,10 +25,6 @@ function detectRequestedOutput(argv: string[]): 'json' | 'text' | 'yaml' {
   return 'json';
 }
 
-function normalizeCommanderMessage(message: string): string {
-  return message.replace(/^error:\s*/i, '').trim();
-}
-
 function isBatchApplyInvocation(argv: string[]): boolean {
   const args = argv.slice(2);
   for (let i = 0; i < args.length; i++) {
@@ -55,20 +52,6 @@ function withPollGuidanceIfNeeded(message: string, argv: string[]): string {
   return `${message}\nHint: ${guidance}`;
 }
 
-// Recursively override Commander output handlers to keep error rendering centralized.
-function configureCommander(command: Command): void {
-  command.configureOutput({
-    writeOut: (str) => process.stdout.write(str),
-    writeErr: () => {
-      // Suppress Commander default stderr. We emit structured output in the catch block.
-    },
-  });
-  command.exitOverride();
-  for (const subcommand of command.commands) {
-    configureCommander(subcommand);
-  }
-}
-
 /**
  * CLI entrypoint: initialize config, parse args, and normalize usage errors.
  */
@@ -119,6 +102,6 @@ async function main(): Promise<void> {
 }
 
 main().catch((err) => {
-  print(failure('CLI_FATAL', String(err)));
+  print(failureFromError(err, 'CLI_FATAL'));
   process.exit(1);
 });
@@ -1,3 +1,3 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
-export type { AddConnectionToViewOp, AddToViewOp, ApplyRequest, ApplyResponse, ArchiMateElementType, ArchiMateRelationshipType, ChangeOperation, ClientOptions, ConsoleOutput, CreateElementOp, CreateFolderOp, CreateGroupOp, CreateNoteOp, CreateOrGetElementOp, CreateOrGetRelationshipOp, CreateRelationshipOp, CreateViewOp, CreateViewRequest, CreateViewResponse, DeleteConnectionFromViewOp, DeleteElementOp, DeleteRelationshipOp, DeleteViewData, DeleteViewError, DeleteViewErrors, DeleteViewOp, DeleteViewResponse, DeleteViewResponses, DiagnosticsResponse, DuplicateStrategy, DuplicateViewResponse, ElementCreateSpec, ElementDetailResponse, ElementMatchSpec, ElementSummary, ErrorResponse, ExportViewRequest, ExportViewResponse, FolderInfo, FolderListResponse, GetElementByIdData, GetElementByIdError, GetElementByIdErrors, GetElementByIdResponse, GetElementByIdResponses, GetFoldersData, GetFoldersError, GetFoldersErrors, GetFoldersResponse, GetFoldersResponses, GetHealthData, GetHealthResponse, GetHealthResponses, GetModelDiagnosticsData, GetModelDiagnosticsError, GetModelDiagnosticsErrors, GetModelDiagnosticsResponse, GetModelDiagnosticsResponses, GetModelStatsData, GetModelStatsError, GetModelStatsErrors, GetModelStatsResponse, GetModelStatsResponses, GetOpsListData, GetOpsListError, GetOpsListErrors, GetOpsListResponse, GetOpsListResponses, GetOpsStatusData, GetOpsStatusError, GetOpsStatusErrors, GetOpsStatusResponse, GetOpsStatusResponses, GetTestData, GetTestResponse, GetTestResponses, GetViewByIdData, GetViewByIdError, GetViewByIdErrors, GetViewByIdResponse, GetViewByIdResponses, GetViewsData, GetViewsError, GetViewsErrors, GetViewsResponse, GetViewsResponses, GetViewValidateData, GetViewValidateError, GetViewValidateErrors, GetViewValidateResponse, GetViewValidateResponses, HealthResponse, IdempotencyConflictErrorResponse, LayoutRequest, LayoutResponse, MemoryInfo, ModelInfo, MoveToFolderOp, MoveViewObjectOp, NestInViewOp, OperationDigest, OperationListResponse, OperationStatusResponse, OperationSummary, OperationTimelineEvent, PlanRequest, PlanResponse, PostModelApplyData, PostModelApplyError, PostModelApplyErrors, PostModelApplyResponse, PostModelApplyResponses, PostModelPlanData, PostModelPlanError, PostModelPlanErrors, PostModelPlanResponse, PostModelPlanResponses, PostModelQueryData, PostModelQueryError, PostModelQueryErrors, PostModelQueryResponse, PostModelQueryResponses, PostModelSaveData, PostModelSaveError, PostModelSaveErrors, PostModelSaveResponse, PostModelSaveResponses, PostModelSearchData, PostModelSearchError, PostModelSearchErrors, PostModelSearchResponse, PostModelSearchResponses, PostScriptsRunData, PostScriptsRunError, PostScriptsRunErrors, PostScriptsRunResponse, PostScriptsRunResponses, PostShutdownData, PostShutdownResponse, PostShutdownResponses, PostViewDuplicateData, PostViewDuplicateError, PostViewDuplicateErrors, PostViewDuplicateResponse, PostViewDuplicateResponses, PostViewExportData, PostViewExportError, PostViewExportErrors, PostViewExportResponse, PostViewExportResponses, PostViewLayoutData, PostViewLayoutError, PostViewLayoutErrors, PostViewLayoutResponse, PostViewLayoutResponses, PostViewsData, PostViewsError, PostViewsErrors, PostViewsResponse, PostViewsResponses, PutViewRouterData, PutViewRouterError, PutViewRouterErrors, PutViewRouterResponse, PutViewRouterResponses, QueryRequest, QueryResponse, QueueStats, RelationshipCreateSpec, RelationshipInfo, RelationshipMatchSpec, RelationshipSummary, SaveResponse, ScriptRunRequest, ScriptRunResponse, SearchRequest, SearchResponse, SearchResult, SetPropertyOp, SetRouterResponse, ShutdownResponse, StatsResponse, StyleConnectionOp, StyleViewObjectOp, TempIdMapping, TestResponse, UpdateElementOp, UpdateRelationshipOp, ValidateViewResponse, ValidationCheck, ValidationViolation, ViewConnection, ViewDetailResponse, ViewElement, ViewListResponse, ViewReference, ViewSummary } from './types.gen';
+export type { AddConnectionToViewOp, AddToViewOp, ApplyRequest, ApplyResponse, ArchiMateElementType, ArchiMateRelationshipType, ChangeOperation, ClientOptions, ConsoleOutput, CreateElementOp, CreateFolderOp, CreateGroupOp, CreateNoteOp, CreateOrGetElementOp, CreateOrGetRelationshipOp, CreateRelationshipOp, CreateViewOp, CreateViewRequest, CreateViewResponse, DeleteConnectionFromViewOp, DeleteElementOp, DeleteRelationshipOp, DeleteViewData, DeleteViewError, DeleteViewErrors, DeleteViewOp, DeleteViewResponse, DeleteViewResponses, DiagnosticsResponse, DuplicateStrategy, DuplicateViewResponse, ElementCreateSpec, ElementDetailResponse, ElementMatchSpec, ElementSummary, ErrorResponse, ExportViewRequest, ExportViewResponse, FolderInfo, FolderListResponse, GetElementByIdData, GetElementByIdError, GetElementByIdErrors, GetElementByIdResponse, GetElementByIdResponses, GetEventsData, GetEventsError, GetEventsErrors, GetEventsResponse, GetEventsResponses, GetFoldersData, GetFoldersError, GetFoldersErrors, GetFoldersResponse, GetFoldersResponses, GetHealthData, GetHealthResponse, GetHealthResponses, GetModelDiagnosticsData, GetModelDiagnosticsError, GetModelDiagnosticsErrors, GetModelDiagnosticsResponse, GetModelDiagnosticsResponses, GetModelStatsData, GetModelStatsError, GetModelStatsErrors, GetModelStatsResponse, GetModelStatsResponses, GetOpsListData, GetOpsListError, GetOpsListErrors, GetOpsListResponse, GetOpsListResponses, GetOpsStatusData, GetOpsStatusError, GetOpsStatusErrors, GetOpsStatusResponse, GetOpsStatusResponses, GetTestData, GetTestResponse, GetTestResponses, GetViewByIdData, GetViewByIdError, GetViewByIdErrors, GetViewByIdResponse, GetViewByIdResponses, GetViewsData, GetViewsError, GetViewsErrors, GetViewsResponse, GetViewsResponses, GetViewValidateData, GetViewValidateError, GetViewValidateErrors, GetViewValidateResponse, GetViewValidateResponses, HealthResponse, IdempotencyConflictErrorResponse, LayoutRequest, LayoutResponse, MemoryInfo, ModelInfo, MoveToFolderOp, MoveViewObjectOp, NestInViewOp, OperationDigest, OperationListResponse, OperationStatusResponse, OperationSummary, OperationTimelineEvent, PlanRequest, PlanResponse, PostModelApplyData, PostModelApplyError, PostModelApplyErrors, PostModelApplyResponse, PostModelApplyResponses, PostModelPlanData, PostModelPlanError, PostModelPlanErrors, PostModelPlanResponse, PostModelPlanResponses, PostModelQueryData, PostModelQueryError, PostModelQueryErrors, PostModelQueryResponse, PostModelQueryResponses, PostModelSaveData, PostModelSaveError, PostModelSaveErrors, PostModelSaveResponse, PostModelSaveResponses, PostModelSearchData, PostModelSearchError, PostModelSearchErrors, PostModelSearchResponse, PostModelSearchResponses, PostScriptsRunData, PostScriptsRunError, PostScriptsRunErrors, PostScriptsRunResponse, PostScriptsRunResponses, PostShutdownData, PostShutdownResponse, PostShutdownResponses, PostViewDuplicateData, PostViewDuplicateError, PostViewDuplicateErrors, PostViewDuplicateResponse, PostViewDuplicateResponses, PostViewExportData, PostViewExportError, PostViewExportErrors, PostViewExportResponse, PostViewExportResponses, PostViewLayoutData, PostViewLayoutError, PostViewLayoutErrors, PostViewLayoutResponse, PostViewLayoutResponses, PostViewsData, PostViewsError, PostViewsErrors, PostViewsResponse, PostViewsResponses, PutViewRouterData, PutViewRouterError, PutViewRouterErrors, PutViewRouterResponse, PutViewRouterResponses, QueryRequest, QueryResponse, QueueStats, RelationshipCreateSpec, RelationshipInfo, RelationshipMatchSpec, RelationshipSummary, SaveResponse, ScriptRunRequest, ScriptRunResponse, SearchRequest, SearchResponse, SearchResult, ServerEvent, SetPropertyOp, SetRouterResponse, ShutdownResponse, StatsResponse, StyleConnectionOp, StyleViewObjectOp, TempIdMapping, TestResponse, UpdateElementOp, UpdateRelationshipOp, ValidateViewResponse, ValidationCheck, ValidationViolation, ViewConnection, ViewDetailResponse, ViewElement, ViewListResponse, ViewReference, ViewSummary } from './types.gen';
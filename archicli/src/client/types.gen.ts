@@ -966,6 +966,39 @@ export type OperationDigest = {
     };
 };
 
+/**
+ * Payload of one `/events` message (the `data:` line)
+ */
+export type ServerEvent = {
+    type: 'operation.queued' | 'operation.processing' | 'operation.complete' | 'operation.error' | 'model.changed';
+    timestamp: string;
+    /**
+     * Operation events carry `opId`, `status`, `changes`, `createdAt`, `startedAt` and
+     * `completedAt`; terminal ones add `durationMs` and `totals` (and `error` on failure).
+     * `model.changed` carries `source` (`api` or `archi`), plus `opId`, `executed` and
+     * `executedByType` for API changes.
+     *
+     */
+    data: {
+        opId?: string;
+        status?: 'queued' | 'processing' | 'complete' | 'error';
+        changes?: number;
+        createdAt?: string;
+        startedAt?: string;
+        completedAt?: string;
+        durationMs?: number;
+        totals?: {
+            [key: string]: number;
+        };
+        error?: string;
+        source?: 'api' | 'archi';
+        executed?: number;
+        executedByType?: {
+            [key: string]: number;
+        };
+    };
+};
+
 export type ErrorResponse = {
     error?: {
         code?: string;
@@ -1007,6 +1040,10 @@ export type SearchRequest = {
      * Include relationships in result set (default true)
      */
     includeRelationships?: boolean;
+    /**
+     * Include each concept's full property map in results (default false)
+     */
+    includeProperties?: boolean;
     /**
      * Maximum number of results to return
      */
@@ -1025,6 +1062,7 @@ export type SearchResponse = {
         propertyKey?: string;
         propertyValue?: string;
         includeRelationships?: boolean;
+        includeProperties?: boolean;
         limit?: number;
     };
 };
@@ -1034,6 +1072,32 @@ export type SearchResult = {
     name?: string;
     type?: string;
     documentation?: string;
+    /**
+     * Source element ID (relationships only)
+     */
+    sourceId?: string;
+    /**
+     * Target element ID (relationships only)
+     */
+    targetId?: string;
+    /**
+     * Access type (access-relationship only; 0=write, 1=read, 2=access, 3=readwrite)
+     */
+    accessType?: 0 | 1 | 2 | 3;
+    /**
+     * Influence strength (influence-relationship only)
+     */
+    strength?: string;
+    /**
+     * Whether the association is directed (association-relationship only)
+     */
+    directed?: boolean;
+    /**
+     * Custom properties as key-value pairs (only when includeProperties is true)
+     */
+    properties?: {
+        [key: string]: string;
+    };
 };
 
 export type RelationshipSummary = {
@@ -1176,6 +1240,22 @@ export type FolderInfo = {
      * Full path from root (e.g., "Business/Processes/Core")
      */
     path?: string;
+    /**
+     * ID of the parent folder (null for top-level folders)
+     */
+    parentId?: string;
+    /**
+     * Number of concepts/views directly in this folder
+     */
+    elementCount?: number;
+    /**
+     * Number of direct subfolders
+     */
+    subfolderCount?: number;
+    /**
+     * IDs of concepts/views directly in this folder (only with includeChildren=true)
+     */
+    childIds?: Array<string>;
     /**
      * Nested subfolders
      */
@@ -1447,6 +1527,10 @@ export type ViewElement = {
      *
      */
     parentId?: string;
+    /**
+     * Text content (notes only)
+     */
+    content?: string;
     /**
      * Underlying ArchiMate concept ID
      */
@@ -1769,7 +1853,12 @@ export type GetModelStatsResponse = GetModelStatsResponses[keyof GetModelStatsRe
 export type GetFoldersData = {
     body?: never;
     path?: never;
-    query?: never;
+    query?: {
+        /**
+         * Include childIds (direct members) for each folder
+         */
+        includeChildren?: boolean;
+    };
     url: '/folders';
 };
 
@@ -1908,6 +1997,50 @@ export type GetOpsListResponses = {
 
 export type GetOpsListResponse = GetOpsListResponses[keyof GetOpsListResponses];
 
+export type GetEventsData = {
+    body?: never;
+    headers?: {
+        /**
+         * ID of the last event received before reconnecting
+         */
+        'Last-Event-ID'?: string;
+    };
+    path?: never;
+    query?: {
+        /**
+         * Comma-separated event types or prefixes to receive (e.g. `operation` or `operation.complete,model.changed`)
+         */
+        types?: string;
+        /**
+         * Replay buffered events with an ID greater than this (same as the `Last-Event-ID` header)
+         */
+        since?: number;
+    };
+    url: '/events';
+};
+
+export type GetEventsErrors = {
+    /**
+     * Invalid query parameter
+     */
+    400: ErrorResponse;
+    /**
+     * Subscriber limit reached
+     */
+    503: ErrorResponse;
+};
+
+export type GetEventsError = GetEventsErrors[keyof GetEventsErrors];
+
+export type GetEventsResponses = {
+    /**
+     * Event stream; each `data:` line holds a JSON `ServerEvent`
+     */
+    200: ServerEvent;
+};
+
+export type GetEventsResponse = GetEventsResponses[keyof GetEventsResponses];
+
 export type PostScriptsRunData = {
     body: ScriptRunRequest;
     path?: never;
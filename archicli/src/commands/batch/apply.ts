@@ -1,54 +1,40 @@
 import { Command } from 'commander';
-import { readFileSync, writeFileSync } from 'fs';
+import { existsSync, rmSync, writeFileSync } from 'fs';
 import { basename, dirname, extname, resolve } from 'path';
 import { validate } from '../../schemas/registry';
-import { post, get, ApiError } from '../../utils/api';
+import { post } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt, parseNonNegativeInt } from '../../utils/args';
 import {
   buildIdFileRemediation,
   findDuplicateTempIds,
   loadBom,
   loadIdFilesWithDiagnostics,
+  readBomSource,
   summarizeIdFileCompleteness,
+  withChangeOrigins,
+  withSourceLines,
 } from '../../utils/bom';
-import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
-import { pollUntilDone, type OperationErrorDetails } from '../../utils/poll';
-import { collectTempIdRefs, REFERENCE_ID_FIELDS, resolveTempIdsByName, substituteIds } from '../../utils/tempIds';
 import {
-  autoResolveVisualIds,
-  buildElementToVisualMap,
-  buildVisualToElementMap,
-  clearElementCache,
-  clearRelationshipCache,
-  crossValidateConnections,
-  type AutoResolutionResult,
-  type CrossValidationSummary,
-} from '../../utils/crossValidation';
-
-// Minimal `/model/apply` acknowledgment payload before polling.
-interface ApplyResponse {
-  operationId: string;
-  status: string;
-  message?: string;
-}
-
-// Operation plus original position tracking for duplicate-skip bookkeeping.
-interface ChunkOperation {
-  change: unknown;
-  originalIndexInChunk: number;
-}
+  applyChunkedChanges,
+  buildChunkFailureMessage,
+  collectRecoverySnapshot,
+  splitIntoChunks,
+} from '../../utils/chunkedApply';
+import {
+  APPLY_CHECKPOINT_VERSION,
+  hashChanges,
+  loadApplyCheckpoint,
+  resolveCheckpointPath,
+  writeApplyCheckpoint,
+} from '../../utils/checkpoint';
+import type { ApplyCheckpoint } from '../../utils/checkpoint';
+import { isCommanderError } from '../../utils/commander';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { applyRollback, captureChunkState, createRollbackJournal, recordChunk } from '../../utils/rollback';
+import type { ChunkPriorState, RollbackJournal, RollbackReport } from '../../utils/rollback';
+import { collectTempIdRefs, resolveTempIdsByName } from '../../utils/tempIds';
 
-// Diagnostics for operations skipped due to duplicate/create conflicts.
-interface SkippedOperation {
-  chunk: number;
-  of: number;
-  opIndex: number;
-  originalChunkIndex: number;
-  globalIndex: number;
-  op: string;
-  reason: string;
-}
+export { parseDuplicateExistingChangeIndex, parseExistingIdFromError } from '../../utils/chunkedApply';
 
 /**
  * Resolve where tempId mappings should be persisted for this run.
@@ -62,94 +48,22 @@ export function resolveIdsOutputPath(file: string, saveIdsOption?: string | bool
 }
 
 /**
- * Extract duplicate operation index from server validation error messages.
+ * Summarize a kept checkpoint, with the command that resumes from it.
  */
-export function parseDuplicateExistingChangeIndex(message: string): number | null {
-  if (!/already exists/i.test(message)) return null;
-  const match = message.match(/Change\s+(\d+)\s+\([^)]+\):/i);
-  if (!match) return null;
-  const value = Number(match[1]);
-  if (!Number.isSafeInteger(value) || value < 0) return null;
-  return value;
+function describeCheckpoint(file: string, checkpointPath: string, checkpoint: ApplyCheckpoint): Record<string, unknown> {
+  return {
+    path: checkpointPath,
+    completedChunks: checkpoint.completedChunks.length,
+    chunks: checkpoint.chunks,
+    resumeCommand: `archicli batch apply "${file}" --resume "${checkpointPath}"`,
+  };
 }
 
 /**
- * Extract existing real ID from duplicate-create validation errors.
+ * Error code for a failed run, depending on whether rollback restored the pre-apply state.
  */
-export function parseExistingIdFromError(message: string): string | null {
-  if (!/already exists/i.test(message)) return null;
-  const match = message.match(/\(id:\s*(\S+)\)\s*$/);
-  return match ? match[1] : null;
-}
-
-/**
- * Build a concise multi-line message for partial chunk failures.
- */
-function buildChunkFailureMessage(results: Array<Record<string, unknown>>): string {
-  const failed = results.filter((r) => r.status === 'error');
-  if (failed.length === 0) return 'One or more chunks failed';
-
-  return failed
-    .map((chunk) => {
-      const chunkNo = typeof chunk.chunk === 'number' ? chunk.chunk : '?';
-      const chunkOf = typeof chunk.of === 'number' ? chunk.of : '?';
-      const fallbackMessage =
-        typeof chunk.error === 'string' && chunk.error.length > 0
-          ? chunk.error
-          : 'operation failed';
-      const details = (chunk.errorDetails ?? null) as OperationErrorDetails | null;
-
-      if (!details || typeof details !== 'object') {
-        return `Chunk ${chunkNo}/${chunkOf}: ${fallbackMessage}`;
-      }
-
-      const message =
-        typeof details.message === 'string' && details.message.length > 0
-          ? details.message
-          : fallbackMessage;
-      const opNumber = typeof details.opNumber === 'number' ? details.opNumber : null;
-      const opName = typeof details.op === 'string' && details.op.length > 0 ? details.op : null;
-      const path = typeof details.path === 'string' && details.path.length > 0 ? details.path : null;
-      const refField = typeof details.field === 'string' && details.field.length > 0 ? details.field : null;
-      const refValue =
-        typeof details.reference === 'string' && details.reference.length > 0
-          ? details.reference
-          : null;
-      const hint = typeof details.hint === 'string' && details.hint.length > 0 ? details.hint : null;
-
-      const contextParts: string[] = [];
-      if (opNumber !== null) contextParts.push(`op ${opNumber}`);
-      if (opName) contextParts.push(opName);
-      if (!opNumber && !opName && path) contextParts.push(path);
-
-      const context = contextParts.length > 0 ? `${contextParts.join(' ')}: ` : '';
-      const ref = refField && refValue ? ` (${refField}=${refValue})` : '';
-      const hintText = hint ? ` Hint: ${hint}` : '';
-      return `Chunk ${chunkNo}/${chunkOf}: ${context}${message}${ref}${hintText}`;
-    })
-    .join('\n');
-}
-
-async function collectRecoverySnapshot(): Promise<Record<string, unknown>> {
-  const recovery: Record<string, unknown> = {
-    mode: 'targeted_recovery',
-    nextStep:
-      'Re-read current state, reconcile expected vs actual deltas, and retry only minimal missing operations.',
-  };
-
-  try {
-    recovery['model'] = await post<Record<string, unknown>>('/model/query', {});
-  } catch (error) {
-    recovery['modelReadError'] = error instanceof Error ? error.message : String(error);
-  }
-
-  try {
-    recovery['diagnostics'] = await get<Record<string, unknown>>('/model/diagnostics');
-  } catch (error) {
-    recovery['diagnosticsReadError'] = error instanceof Error ? error.message : String(error);
-  }
-
-  return recovery;
+function rollbackFailureCode(rollback: RollbackReport): string {
+  return rollback.status === 'complete' ? 'BATCH_APPLY_ROLLED_BACK' : 'BATCH_APPLY_ROLLBACK_INCOMPLETE';
 }
 
 /**
@@ -164,7 +78,7 @@ export function batchApplyCommand(): Command {
         '(default chunk-size 8). Polling is enabled by default. This reduces\n' +
         'GEF CompoundCommand rollback risk while keeping throughput practical.\n\n' +
         'TEMPID RESOLUTION ORDER (per chunk submission):\n' +
-        '  1. Declared "idFiles" in the BOM (loaded upfront)\n' +
+        '  1. Declared "idFiles" in the BOM and --id-file maps (loaded upfront)\n' +
         '  2. Results from previously polled chunks in this run\n' +
         '  3. Model name lookup for concept IDs if --resolve-names is set\n\n' +
         'EXAMPLE WORKFLOW:\n' +
@@ -178,11 +92,19 @@ export function batchApplyCommand(): Command {
         'IDEMPOTENT RE-APPLY:\n' +
         '  archicli batch apply model/elements.json --idempotency-key run-20260213 --duplicate-strategy reuse\n' +
         '  # safely re-run: same key + same payload replays existing operation IDs; duplicate creates are reused\n\n' +
+        'RESUME AFTER FAILURE:\n' +
+        '  archicli batch apply model/elements.json --resume model/elements.checkpoint.json\n' +
+        '  # progress (completed chunks, tempId map, operation IDs) is checkpointed after every chunk;\n' +
+        '  # --resume skips completed chunks and continues with the accumulated ID map\n\n' +
+        'ROLLBACK ON FAILURE:\n' +
+        '  archicli batch apply model/elements.json --rollback-on-failure\n' +
+        '  # stops at the first failed chunk and submits inverse operations for the chunks already applied;\n' +
+        '  # changes a BOM cannot undo (deleted concepts, new property keys, folders) are reported\n\n' +
         'LEGACY MODE (deprecated):\n' +
         '  archicli batch apply model/elements.json --skip-existing\n' +
         '  # fallback duplicate-skip behavior kept for backward compatibility'
     )
-    .argument('<file>', 'path to BOM JSON file')
+    .argument('<file>', 'path to BOM file (JSON or YAML)')
     .option('-c, --chunk-size <n>', 'operations per API request (default 8 for reliability, max 1000)', '8')
     .option('--dry-run', 'validate BOM and show what would be submitted, without applying')
     .option('--no-poll', 'disable polling (polling is enabled by default)')
@@ -190,6 +112,13 @@ export function batchApplyCommand(): Command {
     .option('--poll-timeout <ms>', 'polling timeout in ms per chunk', '60000')
     .option('--save-ids [path]', 'save tempId→realId map after apply (default: <file>.ids.json)')
     .option('--no-save-ids', 'skip saving the ID map after apply')
+    .option('--checkpoint <path>', 'checkpoint file updated after each chunk (default: <file>.checkpoint.json)')
+    .option('--no-checkpoint', 'do not write a checkpoint file')
+    .option('--resume <checkpoint>', 'skip chunks completed in a previous run and reuse its tempId map')
+    .option(
+      '--rollback-on-failure',
+      'on failure, undo completed chunks: delete what they created and restore previous names, documentation and properties'
+    )
     .option(
       '--idempotency-key <key>',
       'caller-provided idempotency key (chunked requests derive deterministic per-chunk keys)'
@@ -202,6 +131,7 @@ export function batchApplyCommand(): Command {
       '--resolve-names',
       'query model by exact name for unresolved concept tempIds (does not resolve visual IDs)'
     )
+    .option('--id-file <paths...>', 'extra .ids.json files to load with the BOM\'s declared idFiles')
     .option(
       '--allow-incomplete-idfiles',
       'allow apply to continue when declared idFiles are missing or malformed'
@@ -253,9 +183,13 @@ export function batchApplyCommand(): Command {
           poll: boolean;
           pollTimeout: string;
           saveIds?: string | boolean;
+          checkpoint?: string | boolean;
+          resume?: string;
+          rollbackOnFailure?: boolean;
           idempotencyKey?: string;
           duplicateStrategy?: string;
           resolveNames?: boolean;
+          idFile?: string[];
           allowIncompleteIdfiles?: boolean;
           skipExisting?: boolean;
           allowEmpty?: boolean;
@@ -269,19 +203,26 @@ export function batchApplyCommand(): Command {
         },
         cmd: Command
       ) => {
+        // Tracked outside the try so unexpected failures can still point at the checkpoint.
+        let checkpointPath: string | undefined;
+        let checkpoint: ApplyCheckpoint | undefined;
+        // Likewise for --rollback-on-failure, so a thrown error still undoes completed chunks.
+        let rollbackContext:
+          | { journal: RollbackJournal; chunkSize: number; pollTimeoutMs?: number; throttleMs: number }
+          | undefined;
         try {
           // Phase 1: parse and schema-validate the root BOM file.
-          const content = readFileSync(resolve(file), 'utf-8');
-          const bom = JSON.parse(content);
-          const validation = validate('bom', bom);
+          const source = readBomSource(file);
+          const validation = validate('bom', source.data);
           if (!validation.valid) {
-            print(failure('INVALID_BOM', 'BOM validation failed', validation.errors));
+            print(failure('INVALID_BOM', 'BOM validation failed', withSourceLines(validation.errors, source)));
             cmd.error('', { exitCode: 1 });
             return;
           }
 
           // Phase 2: flatten includes and re-validate the effective operation list.
-          const { changes: allChanges, idFilePaths, includedFiles } = loadBom(file);
+          const loaded = loadBom(file);
+          const { changes: allChanges, idFilePaths, includedFiles } = loaded;
 
           const flattenedValidation = validate('bom', {
             version: '1.0',
@@ -291,7 +232,7 @@ export function batchApplyCommand(): Command {
             print(
               failure('INVALID_BOM', 'Flattened BOM validation failed', {
                 files: includedFiles,
-                errors: flattenedValidation.errors,
+                errors: withChangeOrigins(flattenedValidation.errors, loaded),
               })
             );
             cmd.error('', { exitCode: 1 });
@@ -303,7 +244,7 @@ export function batchApplyCommand(): Command {
           if (duplicateTempIdErrors.length > 0) {
             print(
               failure('INVALID_BOM', 'Duplicate tempIds found in flattened BOM', {
-                errors: duplicateTempIdErrors,
+                errors: withChangeOrigins(duplicateTempIdErrors, loaded),
               })
             );
             cmd.error('', { exitCode: 1 });
@@ -363,23 +304,76 @@ export function batchApplyCommand(): Command {
           }
 
           const chunkSizeInput = parsePositiveInt(options.chunkSize, '--chunk-size');
-          const chunkSize = Math.min(1000, chunkSizeInput);
+          let chunkSize = Math.min(1000, chunkSizeInput);
           if (chunkSizeInput > 1000) {
             warnings.push(`--chunk-size capped at maximum of 1000 (requested ${chunkSizeInput})`);
           }
 
+          if (options.rollbackOnFailure) {
+            if (!options.poll) {
+              throw new ArgumentValidationError('--rollback-on-failure requires polling; remove --no-poll');
+            }
+            if (options.continueOnError) {
+              throw new ArgumentValidationError(
+                'Cannot combine --rollback-on-failure with --continue-on-error. Choose one failure handling mode.'
+              );
+            }
+            if (options.resume !== undefined || typeof options.checkpoint === 'string') {
+              throw new ArgumentValidationError(
+                '--rollback-on-failure cannot be combined with --resume or --checkpoint; a rolled-back run has nothing to resume'
+              );
+            }
+          }
+
+          // --resume: the same operations must be split into the same chunks as before.
+          const bomHash = hashChanges(allChanges);
+          let resumed: ApplyCheckpoint | undefined;
+          if (options.resume !== undefined) {
+            if (!options.poll) {
+              throw new ArgumentValidationError('--resume requires polling; remove --no-poll');
+            }
+            const resumePath = resolve(options.resume);
+            try {
+              resumed = loadApplyCheckpoint(resumePath);
+            } catch (err) {
+              print(failure('INVALID_CHECKPOINT', err instanceof Error ? err.message : String(err)));
+              cmd.error('', { exitCode: 1 });
+              return;
+            }
+            if (resumed.bomHash !== bomHash) {
+              print(
+                failure(
+                  'INVALID_CHECKPOINT',
+                  `Checkpoint ${resumePath} was written for a different set of changes; the BOM (or an include) changed since that run`,
+                  { checkpoint: resumePath, bomFile: resumed.bomFile }
+                )
+              );
+              cmd.error('', { exitCode: 1 });
+              return;
+            }
+            if (cmd.getOptionValueSource('chunkSize') === 'cli' && chunkSize !== resumed.chunkSize) {
+              throw new ArgumentValidationError(
+                `--chunk-size ${chunkSize} differs from the checkpoint's chunk size ${resumed.chunkSize}; omit --chunk-size when resuming`
+              );
+            }
+            chunkSize = resumed.chunkSize;
+          }
+
           const pollTimeoutMs = options.poll
             ? parsePositiveInt(options.pollTimeout, '--poll-timeout')
             : undefined;
 
-          const chunks: unknown[][] = [];
-          for (let i = 0; i < allChanges.length; i += chunkSize) {
-            chunks.push(allChanges.slice(i, i + chunkSize));
-          }
+          const chunks = splitIntoChunks(allChanges, chunkSize);
 
-          // Load external tempId maps declared by BOM idFiles.
-          const { map: tempIdMap, diagnostics: idFileDiagnostics } =
-            loadIdFilesWithDiagnostics(idFilePaths);
+          // Load --id-file maps, then the BOM's declared idFiles (which win on conflicts).
+          const { map: tempIdMap, diagnostics: idFileDiagnostics } = loadIdFilesWithDiagnostics([
+            ...(options.idFile ?? []).map((path) => resolve(path)),
+            ...idFilePaths,
+          ]);
+          if (resumed) {
+            Object.assign(tempIdMap, resumed.tempIdMap);
+          }
+          const completedChunks = new Set(resumed?.completedChunks ?? []);
           const idFilesCompleteness = summarizeIdFileCompleteness(idFileDiagnostics);
           if (!options.allowIncompleteIdfiles && !idFilesCompleteness.complete) {
             const remediation = buildIdFileRemediation(
@@ -414,7 +408,11 @@ export function batchApplyCommand(): Command {
                 chunksPreview: chunks.map((chunk, index) => ({
                   chunk: index + 1,
                   operations: chunk.length,
+                  ...(completedChunks.has(index + 1) ? { completed: true } : {}),
                 })),
+                ...(resumed
+                  ? { resume: { checkpoint: resolve(options.resume as string), completedChunks: completedChunks.size } }
+                  : {}),
                 ...(warnings.length > 0 ? { warnings } : {}),
               })
             );
@@ -429,285 +427,97 @@ export function batchApplyCommand(): Command {
             }
           }
 
-          // Build visual-to-element map for connection cross-validation (R5)
-          const visualToElementMap = options.validateConnections
-            ? buildVisualToElementMap(allChanges)
-            : {};
-          // Build element-to-visual reverse index for auto-resolution
-          const elementToVisualMap = options.validateConnections
-            ? buildElementToVisualMap(allChanges)
-            : {};
-          const connectionValidationSummaries: CrossValidationSummary[] = [];
-          const autoResolutionSummaries: AutoResolutionResult[] = [];
-          if (options.validateConnections) {
-            clearRelationshipCache();
-            clearElementCache();
-            if (!options.poll) {
-              warnings.push('--validate-connections requires --poll to resolve tempIds. Validation was disabled.');
-              options.validateConnections = false;
+          // Checkpoint after every completed chunk; a resumed run keeps updating its checkpoint.
+          if (options.poll && options.checkpoint !== false && !options.rollbackOnFailure) {
+            checkpointPath =
+              options.resume !== undefined && typeof options.checkpoint !== 'string'
+                ? resolve(options.resume)
+                : resolveCheckpointPath(file, options.checkpoint);
+            if (!resumed && existsSync(checkpointPath)) {
+              warnings.push(`Replacing existing checkpoint ${checkpointPath}; use --resume to continue that run instead`);
             }
+            checkpoint = {
+              checkpointVersion: APPLY_CHECKPOINT_VERSION,
+              bomFile: resolve(file),
+              bomHash,
+              chunkSize,
+              totalChanges: allChanges.length,
+              chunks: chunks.length,
+              completedChunks: [...completedChunks].sort((a, b) => a - b),
+              tempIdMap: { ...tempIdMap },
+              operations: resumed?.operations ?? [],
+              updatedAt: new Date().toISOString(),
+            };
           }
+          const activeCheckpoint = checkpoint;
+          const activeCheckpointPath = checkpointPath;
+          const journal = options.rollbackOnFailure ? createRollbackJournal() : undefined;
+          let priorState: ChunkPriorState = { concepts: {}, folders: {} };
+          const beforeChunk = journal
+            ? async (_chunk: number, submitted: unknown[]): Promise<void> => {
+                priorState = await captureChunkState(submitted, journal);
+              }
+            : undefined;
+          const onChunkComplete = (chunk: number, result: Record<string, unknown>, submitted: unknown[]): void => {
+            if (journal) {
+              recordChunk(journal, chunk, submitted, result, priorState);
+            }
+            if (activeCheckpoint && activeCheckpointPath) {
+              activeCheckpoint.completedChunks.push(chunk);
+              activeCheckpoint.operations.push({
+                chunk,
+                operationId: typeof result.operationId === 'string' ? result.operationId : null,
+                status: String(result.status),
+              });
+              activeCheckpoint.tempIdMap = { ...tempIdMap };
+              activeCheckpoint.updatedAt = new Date().toISOString();
+              writeApplyCheckpoint(activeCheckpointPath, activeCheckpoint);
+            }
+          };
 
           // Determine inter-chunk throttle delay
           const throttleMs = options.throttle !== undefined
             ? parseNonNegativeInt(options.throttle, '--throttle')
             : (chunkSize <= 8 && !options.fast ? 50 : 0);
-
-          if (!options.poll) {
-            warnings.push('Running without --poll: operation results and tempId mappings are not tracked.');
+          if (journal) {
+            rollbackContext = { journal, chunkSize, pollTimeoutMs, throttleMs };
           }
 
-          const results: Array<Record<string, unknown>> = [];
-          const skippedOperations: SkippedOperation[] = [];
-          let hadOperationErrors = false;
-          const failedChunkTempIds = new Set<string>();
-          for (let i = 0; i < chunks.length; i++) {
-            const chunkStartIndex = i * chunkSize;
-            const pendingOps: ChunkOperation[] = chunks[i].map((change, index) => ({
-              change,
-              originalIndexInChunk: index,
-            }));
-
-            // --continue-on-error: skip chunks with unresolved deps from failed prior chunks
-            if (options.continueOnError && failedChunkTempIds.size > 0) {
-              const hasUnresolvedDep = pendingOps.some((op) => {
-                const source = op.change as Record<string, unknown>;
-                for (const field of REFERENCE_ID_FIELDS.filter(f => f !== 'id')) {
-                  const value = source[field];
-                  if (typeof value === 'string' && failedChunkTempIds.has(value)) {
-                    return true;
-                  }
-                }
-                return false;
-              });
-              if (hasUnresolvedDep) {
-                results.push({
-                  chunk: i + 1,
-                  of: chunks.length,
-                  operationId: null,
-                  status: 'skipped',
-                  message: 'Skipped due to unresolved dependencies from a failed chunk',
-                });
-                // Track tempIds from this skipped chunk as also failed
-                for (const op of pendingOps) {
-                  const tempId = (op.change as { tempId?: string }).tempId;
-                  if (tempId) failedChunkTempIds.add(tempId);
-                }
-                continue;
-              }
-            }
-
-            let resp: ApplyResponse | null = null;
-            // Retry loop is used only for duplicate-create skipping in --skip-existing mode.
-            while (true) {
-              if (pendingOps.length === 0) {
-                results.push({
-                  chunk: i + 1,
-                  of: chunks.length,
-                  operationId: null,
-                  status: 'skipped',
-                  message: 'All operations in this chunk were skipped as duplicates',
-                });
-                break;
-              }
-
-              const currentChunk = substituteIds(
-                pendingOps.map((op) => op.change),
-                tempIdMap
-              );
-
-              // Auto-resolve missing sourceVisualId/targetVisualId before validation
-              if (options.validateConnections) {
-                const autoResolution = await autoResolveVisualIds(
-                  currentChunk,
-                  tempIdMap,
-                  elementToVisualMap,
-                );
-                if (autoResolution.attempted > 0) {
-                  autoResolutionSummaries.push(autoResolution);
-                }
-              }
-
-              // R5: Cross-validate addConnectionToView operations before submission
-              if (options.validateConnections) {
-                const originalChunk = pendingOps.map((op) => op.change);
-                const validation = await crossValidateConnections(
-                  currentChunk,
-                  originalChunk,
-                  tempIdMap,
-                  visualToElementMap,
-                );
-                if (validation.checked > 0) {
-                  connectionValidationSummaries.push(validation);
-
-                  // Log swap warnings to stderr
-                  for (const detail of validation.details) {
-                    if (detail.swapped && detail.relationship) {
-                      warnings.push(
-                        `Chunk ${i + 1}: swapped connection direction for relationship "${detail.relationship.name}" ` +
-                        `(${detail.relationship.sourceId} -> ${detail.relationship.targetId})`
-                      );
-                    }
-                  }
-
-                  // Fail on complete mismatches (unless --continue-on-error)
-                  if (validation.failed > 0) {
-                    const errors = validation.details
-                      .filter((d) => !d.valid && !d.swapped)
-                      .map((d) => d.error)
-                      .join('\n');
-
-                    if (!options.continueOnError) {
-                      throw new Error(
-                        `Connection cross-validation failed for ${validation.failed} operation(s) in chunk ${i + 1}:\n${errors}`
-                      );
-                    }
-
-                    warnings.push(
-                      `Chunk ${i + 1}: ${validation.failed} connection(s) failed validation and were skipped due to --continue-on-error.`
-                    );
-                  }
-                }
-              }
-
-              try {
-                const applyPayload: {
-                  changes: unknown[];
-                  idempotencyKey?: string;
-                  duplicateStrategy?: 'error' | 'reuse' | 'rename';
-                } = {
-                  changes: currentChunk,
-                };
-                if (duplicateStrategy) {
-                  applyPayload.duplicateStrategy = duplicateStrategy;
-                }
-                if (idempotencyKey) {
-                  applyPayload.idempotencyKey = `${idempotencyKey}:chunk:${i + 1}:of:${chunks.length}`;
-                }
-                resp = await post<ApplyResponse>('/model/apply', applyPayload);
-                break;
-              } catch (err) {
-                if (
-                  options.skipExisting &&
-                  err instanceof ApiError &&
-                  err.status === 400 &&
-                  err.code === 'ValidationError'
-                ) {
-                  const duplicateIndex = parseDuplicateExistingChangeIndex(err.message);
-                  if (duplicateIndex !== null && duplicateIndex < pendingOps.length) {
-                    const skipped = pendingOps[duplicateIndex];
-                    const opValue = (skipped.change as { op?: unknown }).op;
-                    const op = typeof opValue === 'string' ? opValue : 'unknown';
-                    if (!op.startsWith('create')) {
-                      throw err;
-                    }
-                    // Propagate existing real ID into tempId map so downstream ops can reference it
-                    const skippedTempId = (skipped.change as { tempId?: string }).tempId;
-                    if (skippedTempId) {
-                      const existingRealId = parseExistingIdFromError(err.message);
-                      if (existingRealId) {
-                        tempIdMap[skippedTempId] = existingRealId;
-                      }
-                    }
-                    pendingOps.splice(duplicateIndex, 1);
-                    skippedOperations.push({
-                      chunk: i + 1,
-                      of: chunks.length,
-                      opIndex: duplicateIndex,
-                      originalChunkIndex: skipped.originalIndexInChunk,
-                      globalIndex: chunkStartIndex + skipped.originalIndexInChunk,
-                      op,
-                      reason: err.message,
-                    });
-                    continue;
-                  }
-                }
-                // --continue-on-error: record failure and move to next chunk
-                if (options.continueOnError) {
-                  hadOperationErrors = true;
-                  for (const op of pendingOps) {
-                    const tempId = (op.change as { tempId?: string }).tempId;
-                    if (tempId) failedChunkTempIds.add(tempId);
-                  }
-                  results.push({
-                    chunk: i + 1,
-                    of: chunks.length,
-                    operationId: null,
-                    status: 'error',
-                    error: String(err),
-                  });
-                  resp = null;
-                  break;
-                }
-                throw err;
-              }
-            }
-
-            if (!resp) {
-              continue;
-            }
-
-            let chunkResult: Record<string, unknown> = {
-              chunk: i + 1,
-              of: chunks.length,
-              operationId: resp.operationId,
-              status: resp.status,
-            };
-
-            if (options.poll) {
-              const pollResult = await pollUntilDone(resp.operationId, {
-                timeoutMs: pollTimeoutMs,
-              });
-              chunkResult = { ...chunkResult, ...pollResult };
-
-              if ((pollResult as { status?: string }).status === 'error') {
-                hadOperationErrors = true;
-                // Track tempIds from this failed chunk for --continue-on-error
-                if (options.continueOnError) {
-                  for (const op of pendingOps) {
-                    const tempId = (op.change as { tempId?: string }).tempId;
-                    if (tempId) failedChunkTempIds.add(tempId);
-                  }
-                }
-              }
-
-              const opResults = (pollResult as {
-                result?: Array<{
-                  tempId?: string;
-                  realId?: string;
-                  visualId?: string;
-                  viewId?: string;
-                  noteId?: string;
-                  groupId?: string;
-                }>;
-              }).result ?? [];
-
-              for (const result of opResults) {
-                const id =
-                  result.realId ??
-                  result.visualId ??
-                  result.noteId ??
-                  result.groupId ??
-                  result.viewId;
-                if (result.tempId && id) {
-                  tempIdMap[result.tempId] = id;
-                }
-              }
-            }
-
-            results.push(chunkResult);
+          const {
+            results,
+            skippedOperations,
+            hadOperationErrors,
+            connectionValidationSummaries,
+            autoResolutionSummaries,
+          } = await applyChunkedChanges(allChanges, {
+            chunkSize,
+            poll: options.poll,
+            pollTimeoutMs,
+            idempotencyKey,
+            duplicateStrategy,
+            skipExisting: options.skipExisting,
+            continueOnError: options.continueOnError,
+            stopOnError: options.rollbackOnFailure,
+            validateConnections: options.validateConnections,
+            throttleMs,
+            tempIdMap,
+            warnings,
+            completedChunks,
+            beforeChunk,
+            onChunkComplete,
+          });
 
-            // Throttle between chunks to avoid rate-limit spikes
-            if (throttleMs > 0 && i < chunks.length - 1) {
-              await new Promise((r) => setTimeout(r, throttleMs));
-            }
+          // --rollback-on-failure: undo completed chunks before anything is persisted.
+          let rollback: RollbackReport | undefined;
+          if (journal && hadOperationErrors) {
+            rollback = await applyRollback(journal, { chunkSize, pollTimeoutMs, throttleMs, warnings });
           }
 
           // Persist the merged tempId map only when polling produced stable results.
           const shouldSave = options.saveIds !== false;
           const savedIdCount = Object.keys(tempIdMap).length;
           let idsSavedPath: string | undefined;
-          if (shouldSave && options.poll && savedIdCount > 0) {
+          if (shouldSave && options.poll && savedIdCount > 0 && !rollback) {
             idsSavedPath = resolveIdsOutputPath(file, options.saveIds);
             writeFileSync(idsSavedPath, JSON.stringify(tempIdMap, null, 2));
           }
@@ -790,6 +600,18 @@ export function batchApplyCommand(): Command {
           if (idsSavedPath) {
             output['idsSaved'] = { path: idsSavedPath, count: savedIdCount };
           }
+          if (resumed) {
+            output['resumed'] = { checkpoint: resolve(options.resume as string), skippedChunks: completedChunks.size };
+          }
+          if (checkpoint && checkpointPath) {
+            if (!hadOperationErrors) {
+              // A finished run has nothing left to resume.
+              if (existsSync(checkpointPath)) rmSync(checkpointPath);
+              output['checkpoint'] = { path: checkpointPath, removed: true };
+            } else {
+              output['checkpoint'] = describeCheckpoint(file, checkpointPath, checkpoint);
+            }
+          }
           if (allChanges.length === 0) {
             warnings.push('Empty BOM -- no changes were applied');
             if (!options.allowEmpty) {
@@ -804,6 +626,16 @@ export function batchApplyCommand(): Command {
             output['warnings'] = warnings;
           }
 
+          if (rollback) {
+            output['rollback'] = rollback;
+            if (rollback.status !== 'complete') {
+              output['recovery'] = await collectRecoverySnapshot();
+            }
+            print(failure(rollbackFailureCode(rollback), buildChunkFailureMessage(results), output));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
           if (hadOperationErrors) {
             output['recovery'] = await collectRecoverySnapshot();
             print(
@@ -825,13 +657,32 @@ export function batchApplyCommand(): Command {
           if (
             message.includes('Include cycle detected') ||
             message.includes('BOM file not found') ||
-            message.includes('Invalid JSON in BOM file')
+            message.includes('Invalid JSON in BOM file') ||
+            message.includes('Invalid YAML in BOM file') ||
+            message.includes('Invalid template in BOM file')
           ) {
             print(failure('INVALID_BOM', message.replace(/^Error:\s*/, '')));
             cmd.error('', { exitCode: 1 });
             return;
           }
-          print(failure('BATCH_APPLY_FAILED', String(err)));
+          if (rollbackContext && rollbackContext.journal.chunks.length > 0) {
+            const { journal, ...settings } = rollbackContext;
+            const rollbackWarnings: string[] = [];
+            const rollback = await applyRollback(journal, { ...settings, warnings: rollbackWarnings });
+            print(
+              failureFromError(err, rollbackFailureCode(rollback), {
+                rollback,
+                ...(rollbackWarnings.length > 0 ? { warnings: rollbackWarnings } : {}),
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const details =
+            checkpoint && checkpointPath && checkpoint.completedChunks.length > 0
+              ? { checkpoint: describeCheckpoint(file, checkpointPath, checkpoint) }
+              : undefined;
+          print(failureFromError(err, 'BATCH_APPLY_FAILED', details));
           cmd.error('', { exitCode: 1 });
         }
       }
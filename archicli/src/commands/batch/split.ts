@@ -1,9 +1,9 @@
 import { Command, Option } from 'commander';
-import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync } from 'fs';
+import { writeFileSync, mkdirSync, existsSync, readdirSync } from 'fs';
 import { resolve, dirname, basename, extname, join } from 'path';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
-import { findDuplicateTempIds, loadBom } from '../../utils/bom';
+import { findDuplicateTempIds, loadBom, readBomSource, withChangeOrigins, withSourceLines } from '../../utils/bom';
 import { isCommanderError } from '../../utils/commander';
 import { validate } from '../../schemas/registry';
 
@@ -15,10 +15,11 @@ export function batchSplitCommand(): Command {
     .description(
       'Split a large BOM into N chunk files and produce a new index BOM that\n' +
         'links them all via "includes". Useful for version-controlling large change sets.\n\n' +
+        'Chunk and index files are always written as JSON, also for YAML sources.\n\n' +
         '--chunk-size is the preferred flag name.\n' +
         'Legacy --size remains accepted for backward compatibility and emits a deprecation warning.'
     )
-    .argument('<file>', 'path to source BOM JSON file')
+    .argument('<file>', 'path to source BOM file (JSON or YAML)')
     .option('-c, --chunk-size <n>', 'operations per chunk file')
     .addOption(new Option('-s, --size <n>', 'deprecated alias for --chunk-size').hideHelp())
     .option('-o, --output-dir <dir>', 'directory for chunk files (default: <basename>-parts/)')
@@ -31,22 +32,22 @@ export function batchSplitCommand(): Command {
       ) => {
       try {
         // Validate BOM
-        const content = readFileSync(resolve(file), 'utf-8');
-        const bom = JSON.parse(content);
-        const validation = validate('bom', bom);
+        const source = readBomSource(file);
+        const validation = validate('bom', source.data);
         if (!validation.valid) {
-          print(failure('INVALID_BOM', 'BOM validation failed', validation.errors));
+          print(failure('INVALID_BOM', 'BOM validation failed', withSourceLines(validation.errors, source)));
           cmd.error('', { exitCode: 1 });
           return;
         }
 
         // Flatten all changes
-        const { changes: allChanges } = loadBom(file);
+        const loaded = loadBom(file);
+        const allChanges = loaded.changes;
         const duplicateTempIdErrors = findDuplicateTempIds(allChanges);
         if (duplicateTempIdErrors.length > 0) {
           print(
             failure('INVALID_BOM', 'Duplicate tempIds found in flattened BOM', {
-              errors: duplicateTempIdErrors,
+              errors: withChangeOrigins(duplicateTempIdErrors, loaded),
             })
           );
           cmd.error('', { exitCode: 1 });
@@ -124,7 +125,7 @@ export function batchSplitCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('BATCH_SPLIT_FAILED', String(err)));
+        print(failureFromError(err, 'BATCH_SPLIT_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
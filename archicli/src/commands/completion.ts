@@ -1,5 +1,5 @@
 import { Command } from 'commander';
-import { print, success, failure } from '../utils/output';
+import { print, success, failure, failureFromError } from '../utils/output';
 import { isCommanderError } from '../utils/commander';
 import { getConfig } from '../utils/config';
 import { ARCHIMATE_TYPES } from '../utils/archimateTypes';
@@ -16,18 +16,24 @@ export interface CompletionVocabulary {
   ops: ReadonlyArray<string>;
   folder: ReadonlyArray<string>;
   ids: ReadonlyArray<string>;
+  import: ReadonlyArray<string>;
+  events: ReadonlyArray<string>;
+  config: ReadonlyArray<string>;
   shells: ReadonlyArray<CompletionShell>;
   archimateTypes: ReadonlyArray<string>;
 }
 
 const DEFAULT_COMPLETION_VOCABULARY: CompletionVocabulary = {
-  topLevel: ['health', 'verify', 'model', 'batch', 'view', 'ops', 'folder', 'ids', 'doctor', 'init', 'completion'],
-  model: ['query', 'apply', 'search', 'element', 'save', 'stats'],
+  topLevel: ['health', 'verify', 'model', 'batch', 'view', 'ops', 'folder', 'import', 'ids', 'config', 'events', 'doctor', 'init', 'lint', 'shell', 'completion'],
+  model: ['query', 'apply', 'search', 'element', 'save', 'stats', 'export', 'snapshot', 'diff', 'sync', 'graph', 'impact'],
   batch: ['apply', 'split'],
-  view: ['list', 'get', 'create', 'export', 'delete', 'layout'],
+  view: ['list', 'get', 'create', 'export', 'render', 'delete', 'layout'],
   ops: ['status', 'list'],
   folder: ['list'],
   ids: ['lookup'],
+  import: ['csv', 'exchange'],
+  events: ['tail'],
+  config: ['list', 'get', 'set'],
   shells: COMPLETION_SHELLS,
   archimateTypes: ARCHIMATE_TYPES,
 };
@@ -55,6 +61,9 @@ export function deriveCompletionVocabulary(rootCommand?: Command): CompletionVoc
   const ops = commandNames(findSubcommand(rootCommand, 'ops'));
   const folder = commandNames(findSubcommand(rootCommand, 'folder'));
   const ids = commandNames(findSubcommand(rootCommand, 'ids'));
+  const importCommands = commandNames(findSubcommand(rootCommand, 'import'));
+  const events = commandNames(findSubcommand(rootCommand, 'events'));
+  const config = commandNames(findSubcommand(rootCommand, 'config'));
 
   return {
     topLevel: topLevel.length > 0 ? topLevel : DEFAULT_COMPLETION_VOCABULARY.topLevel,
@@ -64,6 +73,9 @@ export function deriveCompletionVocabulary(rootCommand?: Command): CompletionVoc
     ops: ops.length > 0 ? ops : DEFAULT_COMPLETION_VOCABULARY.ops,
     folder: folder.length > 0 ? folder : DEFAULT_COMPLETION_VOCABULARY.folder,
     ids: ids.length > 0 ? ids : DEFAULT_COMPLETION_VOCABULARY.ids,
+    import: importCommands.length > 0 ? importCommands : DEFAULT_COMPLETION_VOCABULARY.import,
+    events: events.length > 0 ? events : DEFAULT_COMPLETION_VOCABULARY.events,
+    config: config.length > 0 ? config : DEFAULT_COMPLETION_VOCABULARY.config,
     shells: [...DEFAULT_COMPLETION_VOCABULARY.shells],
     archimateTypes: [...DEFAULT_COMPLETION_VOCABULARY.archimateTypes],
   };
@@ -85,6 +97,9 @@ _archicli_complete() {
   local ops="${vocabulary.ops.join(' ')}"
   local folder="${vocabulary.folder.join(' ')}"
   local ids="${vocabulary.ids.join(' ')}"
+  local import_cmds="${vocabulary.import.join(' ')}"
+  local events="${vocabulary.events.join(' ')}"
+  local config_cmds="${vocabulary.config.join(' ')}"
   local shells="${vocabulary.shells.join(' ')}"
   local archimate_types="${vocabulary.archimateTypes.join(' ')}"
 
@@ -125,6 +140,15 @@ _archicli_complete() {
     ids)
       [[ \${COMP_CWORD} -eq 2 ]] && COMPREPLY=( $(compgen -W "\${ids}" -- "\${cur}") )
       ;;
+    import)
+      [[ \${COMP_CWORD} -eq 2 ]] && COMPREPLY=( $(compgen -W "\${import_cmds}" -- "\${cur}") )
+      ;;
+    events)
+      [[ \${COMP_CWORD} -eq 2 ]] && COMPREPLY=( $(compgen -W "\${events}" -- "\${cur}") )
+      ;;
+    config)
+      [[ \${COMP_CWORD} -eq 2 ]] && COMPREPLY=( $(compgen -W "\${config_cmds}" -- "\${cur}") )
+      ;;
     completion)
       [[ \${COMP_CWORD} -eq 2 ]] && COMPREPLY=( $(compgen -W "\${shells}" -- "\${cur}") )
       ;;
@@ -140,7 +164,7 @@ function zshScript(vocabulary: CompletionVocabulary): string {
   return `#compdef archicli
 # archicli zsh completion
 _archicli_complete() {
-  local -a top model batch view ops folder ids shells archimate_types
+  local -a top model batch view ops folder ids import_cmds events config_cmds shells archimate_types
   top=(${vocabulary.topLevel.join(' ')})
   model=(${vocabulary.model.join(' ')})
   batch=(${vocabulary.batch.join(' ')})
@@ -148,6 +172,9 @@ _archicli_complete() {
   ops=(${vocabulary.ops.join(' ')})
   folder=(${vocabulary.folder.join(' ')})
   ids=(${vocabulary.ids.join(' ')})
+  import_cmds=(${vocabulary.import.join(' ')})
+  events=(${vocabulary.events.join(' ')})
+  config_cmds=(${vocabulary.config.join(' ')})
   shells=(${vocabulary.shells.join(' ')})
   archimate_types=(${vocabulary.archimateTypes.join(' ')})
 
@@ -179,6 +206,9 @@ _archicli_complete() {
     ops) (( CURRENT == 3 )) && _describe 'ops command' ops ;;
     folder) (( CURRENT == 3 )) && _describe 'folder command' folder ;;
     ids) (( CURRENT == 3 )) && _describe 'ids command' ids ;;
+    import) (( CURRENT == 3 )) && _describe 'import command' import_cmds ;;
+    events) (( CURRENT == 3 )) && _describe 'events command' events ;;
+    config) (( CURRENT == 3 )) && _describe 'config command' config_cmds ;;
     completion) (( CURRENT == 3 )) && _describe 'shell' shells ;;
   esac
 }
@@ -196,6 +226,9 @@ function fishScript(vocabulary: CompletionVocabulary): string {
   const ops = vocabulary.ops.join(' ');
   const folder = vocabulary.folder.join(' ');
   const ids = vocabulary.ids.join(' ');
+  const importCommands = vocabulary.import.join(' ');
+  const events = vocabulary.events.join(' ');
+  const config = vocabulary.config.join(' ');
   const shells = vocabulary.shells.join(' ');
   const archimateTypes = vocabulary.archimateTypes.join(' ');
 
@@ -208,6 +241,9 @@ complete -c archicli -n "__fish_seen_subcommand_from view" -a "${view}"
 complete -c archicli -n "__fish_seen_subcommand_from ops" -a "${ops}"
 complete -c archicli -n "__fish_seen_subcommand_from folder" -a "${folder}"
 complete -c archicli -n "__fish_seen_subcommand_from ids" -a "${ids}"
+complete -c archicli -n "__fish_seen_subcommand_from import" -a "${importCommands}"
+complete -c archicli -n "__fish_seen_subcommand_from events" -a "${events}"
+complete -c archicli -n "__fish_seen_subcommand_from config" -a "${config}"
 complete -c archicli -n "__fish_seen_subcommand_from completion" -a "${shells}"
 complete -c archicli -n "__fish_seen_subcommand_from model; and __fish_seen_subcommand_from search" -l type -s t -a "${archimateTypes}"
 `;
@@ -233,6 +269,9 @@ Register-ArgumentCompleter -CommandName archicli -ScriptBlock {
   $ops = @(${vocabulary.ops.map((cmd) => `'${cmd}'`).join(', ')})
   $folder = @(${vocabulary.folder.map((cmd) => `'${cmd}'`).join(', ')})
   $ids = @(${vocabulary.ids.map((cmd) => `'${cmd}'`).join(', ')})
+  $importCommands = @(${vocabulary.import.map((cmd) => `'${cmd}'`).join(', ')})
+  $events = @(${vocabulary.events.map((cmd) => `'${cmd}'`).join(', ')})
+  $configCommands = @(${vocabulary.config.map((cmd) => `'${cmd}'`).join(', ')})
   $shells = @(${vocabulary.shells.map((cmd) => `'${cmd}'`).join(', ')})
   $archimateTypes = @(${vocabulary.archimateTypes.map((cmd) => `'${cmd}'`).join(', ')})
   $normalizedTokens = @($tokens | ForEach-Object { $_.Trim('"').Trim("'") })
@@ -256,6 +295,9 @@ Register-ArgumentCompleter -CommandName archicli -ScriptBlock {
       'ops' { $candidates = $ops }
       'folder' { $candidates = $folder }
       'ids' { $candidates = $ids }
+      'import' { $candidates = $importCommands }
+      'events' { $candidates = $events }
+      'config' { $candidates = $configCommands }
       'completion' { $candidates = $shells }
       default { $candidates = @() }
     }
@@ -329,7 +371,7 @@ export function completionCommand(): Command {
         }
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('COMPLETION_FAILED', String(err)));
+        print(failureFromError(err, 'COMPLETION_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
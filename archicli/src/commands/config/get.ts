@@ -0,0 +1,79 @@
+import { Command } from 'commander';
+import { ArgumentValidationError } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import {
+  findCliConfig,
+  getProfileSetting,
+  loadCliConfig,
+  PROFILE_SETTING_KEYS,
+  requestedProfileName,
+  selectProfile,
+} from '../../utils/profiles';
+import type { ProfileSettingKey } from '../../utils/profiles';
+
+/**
+ * Print one setting of the active profile (or the file's defaultProfile).
+ */
+export function configGetCommand(): Command {
+  return new Command('get')
+    .description(
+      'Print one setting of the active profile, or the file\'s defaultProfile.\n\n' +
+        `KEYS: defaultProfile, ${PROFILE_SETTING_KEYS.join(', ')}\n` +
+        'Unset settings print null.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli config get baseUrl\n' +
+        '  archicli --profile staging config get layout.rankdir\n' +
+        '  archicli config get defaultProfile --output text'
+    )
+    .argument('<key>', 'setting to read')
+    .action(async (key: string, _options: unknown, cmd: Command) => {
+      try {
+        if (key !== 'defaultProfile' && !PROFILE_SETTING_KEYS.includes(key as ProfileSettingKey)) {
+          throw new ArgumentValidationError(
+            `Unknown key '${key}'. Valid keys: defaultProfile, ${PROFILE_SETTING_KEYS.join(', ')}`
+          );
+        }
+        const file = findCliConfig();
+        if (!file) {
+          print(failure('CONFIG_NOT_FOUND', 'No archicli.config.json or .archiclirc found (create one with "archicli config set")'));
+          cmd.error('', { exitCode: 1 });
+          return;
+        }
+
+        let result: { file: string; profile: string | null; key: string; value: unknown };
+        try {
+          const config = loadCliConfig(file);
+          if (key === 'defaultProfile') {
+            result = { file, profile: null, key, value: config.defaultProfile ?? null };
+          } else {
+            const active = selectProfile(config, file, requestedProfileName(cmd.optsWithGlobals<{ profile?: string }>().profile));
+            if (!active) {
+              throw new ArgumentValidationError('No profile selected: pass --profile <name> or set defaultProfile');
+            }
+            result = {
+              file,
+              profile: active.name,
+              key,
+              value: getProfileSetting(active.settings, key as ProfileSettingKey) ?? null,
+            };
+          }
+        } catch (err) {
+          if (err instanceof ArgumentValidationError) throw err;
+          print(failure('CONFIG_INVALID', err instanceof Error ? err.message : String(err)));
+          cmd.error('', { exitCode: 1 });
+          return;
+        }
+        print(success(result));
+      } catch (err) {
+        if (isCommanderError(err)) throw err;
+        if (err instanceof ArgumentValidationError) {
+          print(failure(err.code, err.message));
+          cmd.error('', { exitCode: 1 });
+          return;
+        }
+        print(failureFromError(err, 'CONFIG_GET_FAILED'));
+        cmd.error('', { exitCode: 1 });
+      }
+    });
+}
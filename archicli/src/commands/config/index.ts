@@ -0,0 +1,34 @@
+import { Command } from 'commander';
+import { configGetCommand } from './get';
+import { configListCommand } from './list';
+import { configSetCommand } from './set';
+
+/**
+ * Connection profile namespace.
+ */
+export function configCommand(): Command {
+  return new Command('config')
+    .description(
+      'Manage named connection profiles in archicli.config.json or .archiclirc.\n\n' +
+        'The config file is looked up from the working directory upwards, then ~/.archiclirc\n' +
+        '(ARCHICLI_CONFIG names a file explicitly). Select a profile with --profile or\n' +
+        'ARCHICLI_PROFILE; otherwise "defaultProfile" applies. Command-line flags and\n' +
+        'ARCHI_BASE_URL win over profile settings.\n\n' +
+        'FILE FORMAT:\n' +
+        '  { "defaultProfile": "sandbox",\n' +
+        '    "profiles": {\n' +
+        '      "sandbox": { "baseUrl": "http://127.0.0.1:8765", "output": "text" },\n' +
+        '      "staging": { "baseUrl": "http://127.0.0.1:8766", "chunkSize": 20,\n' +
+        '                   "idFiles": ["ids/staging.ids.json"],\n' +
+        '                   "layout": { "algorithm": "sugiyama", "rankdir": "LR" } } } }'
+    )
+    .action(function (this: Command) {
+      if (this.args.length > 0) {
+        this.error(`unknown command '${this.args[0]}'`);
+      }
+      this.help();
+    })
+    .addCommand(configListCommand())
+    .addCommand(configGetCommand())
+    .addCommand(configSetCommand());
+}
@@ -0,0 +1,49 @@
+import { Command } from 'commander';
+import { isCommanderError } from '../../utils/commander';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { findCliConfig, loadCliConfig, requestedProfileName, selectProfile } from '../../utils/profiles';
+import type { ActiveProfile, CliConfigFile } from '../../utils/profiles';
+
+/**
+ * Show the config file in use and every profile it defines.
+ */
+export function configListCommand(): Command {
+  return new Command('list')
+    .description(
+      'Show the config file in use, the active profile and the settings of every profile.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli config list\n' +
+        '  archicli config list --output text\n' +
+        '  archicli --profile staging config list'
+    )
+    .action(async (_options: unknown, cmd: Command) => {
+      try {
+        const file = findCliConfig();
+        let config: CliConfigFile = {};
+        let active: ActiveProfile | undefined;
+        if (file) {
+          try {
+            config = loadCliConfig(file);
+            active = selectProfile(config, file, requestedProfileName(cmd.optsWithGlobals<{ profile?: string }>().profile));
+          } catch (err) {
+            print(failure('CONFIG_INVALID', err instanceof Error ? err.message : String(err)));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+        }
+
+        print(
+          success({
+            file: file ?? null,
+            defaultProfile: config.defaultProfile ?? null,
+            activeProfile: active?.name ?? null,
+            profiles: config.profiles ?? {},
+          })
+        );
+      } catch (err) {
+        if (isCommanderError(err)) throw err;
+        print(failureFromError(err, 'CONFIG_LIST_FAILED'));
+        cmd.error('', { exitCode: 1 });
+      }
+    });
+}
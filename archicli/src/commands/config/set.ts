@@ -0,0 +1,104 @@
+import { Command } from 'commander';
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import {
+  CLI_CONFIG_FILES,
+  findCliConfig,
+  loadCliConfig,
+  parseProfileSetting,
+  PROFILE_SETTING_KEYS,
+  requestedProfileName,
+  saveCliConfig,
+  setProfileSetting,
+} from '../../utils/profiles';
+import type { CliConfigFile, ProfileSettingKey } from '../../utils/profiles';
+
+/**
+ * Write one setting of a profile, creating the profile and the config file as needed.
+ */
+export function configSetCommand(): Command {
+  return new Command('set')
+    .description(
+      'Write one setting of a profile, creating the profile (and the config file) if needed.\n\n' +
+        'The profile is --profile, else the defaultProfile, else "default". The first profile\n' +
+        'written to a file becomes its defaultProfile. Without --file, the config file in\n' +
+        `use is updated, or ./${CLI_CONFIG_FILES[0]} is created.\n\n` +
+        `KEYS: defaultProfile, ${PROFILE_SETTING_KEYS.join(', ')}\n` +
+        'idFiles takes a comma-separated list, resolved relative to the config file.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli --profile staging config set baseUrl http://127.0.0.1:8766\n' +
+        '  archicli --profile staging config set chunkSize 20\n' +
+        '  archicli --profile staging config set idFiles ids/elements.ids.json,ids/views.ids.json\n' +
+        '  archicli config set defaultProfile staging'
+    )
+    .argument('<key>', 'setting to write')
+    .argument('<value>', 'new value')
+    .option('--file <path>', `config file to write (default: the file in use, or ./${CLI_CONFIG_FILES[0]})`)
+    .action(async (key: string, rawValue: string, options: { file?: string }, cmd: Command) => {
+      try {
+        if (key !== 'defaultProfile' && !PROFILE_SETTING_KEYS.includes(key as ProfileSettingKey)) {
+          throw new ArgumentValidationError(
+            `Unknown key '${key}'. Valid keys: defaultProfile, ${PROFILE_SETTING_KEYS.join(', ')}`
+          );
+        }
+        const file = options.file ? resolve(options.file) : findCliConfig() ?? resolve(CLI_CONFIG_FILES[0]);
+        const created = !existsSync(file);
+
+        let config: CliConfigFile = {};
+        if (!created) {
+          try {
+            config = loadCliConfig(file);
+          } catch (err) {
+            print(failure('CONFIG_INVALID', err instanceof Error ? err.message : String(err)));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+        }
+
+        let profile: string | null = null;
+        let value: unknown;
+        if (key === 'defaultProfile') {
+          if (!config.profiles?.[rawValue]) {
+            const known = Object.keys(config.profiles ?? {});
+            throw new ArgumentValidationError(
+              `Profile '${rawValue}' is not defined in ${file}` + (known.length > 0 ? ` (profiles: ${known.join(', ')})` : '')
+            );
+          }
+          value = rawValue;
+          config = { ...config, defaultProfile: rawValue };
+        } else {
+          try {
+            value = parseProfileSetting(key as ProfileSettingKey, rawValue);
+          } catch (err) {
+            throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+          }
+          profile = requestedProfileName(cmd.optsWithGlobals<{ profile?: string }>().profile) ?? config.defaultProfile ?? 'default';
+          const settings = setProfileSetting(config.profiles?.[profile] ?? {}, key as ProfileSettingKey, value);
+          config = {
+            ...config,
+            defaultProfile: config.defaultProfile ?? profile,
+            profiles: { ...config.profiles, [profile]: settings },
+          };
+        }
+
+        try {
+          saveCliConfig(file, config);
+        } catch (err) {
+          throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+        }
+        print(success({ file, created, profile, key, value }));
+      } catch (err) {
+        if (isCommanderError(err)) throw err;
+        if (err instanceof ArgumentValidationError) {
+          print(failure(err.code, err.message));
+          cmd.error('', { exitCode: 1 });
+          return;
+        }
+        print(failureFromError(err, 'CONFIG_SET_FAILED'));
+        cmd.error('', { exitCode: 1 });
+      }
+    });
+}
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
-import { get, post } from '../utils/api';
+import { ApiError, get, post } from '../utils/api';
 import { isCommanderError } from '../utils/commander';
-import { print, success, failure } from '../utils/output';
+import { print, success, failure, failureFromError } from '../utils/output';
 
 type CheckStatus = 'pass' | 'warn' | 'fail';
 
@@ -65,7 +65,11 @@ export function doctorCommand(): Command {
           message: 'Unable to reach /health endpoint',
           details: String(err),
         });
-        print(failure('DOCTOR_FAILED', 'Server is unreachable', { checks }));
+        print(
+          err instanceof ApiError && err.status === 401
+            ? failureFromError(err, 'DOCTOR_FAILED', { checks })
+            : failure('DOCTOR_FAILED', 'Server is unreachable', { checks })
+        );
         cmd.error('', { exitCode: 1 });
         return;
       }
@@ -0,0 +1,21 @@
+import { Command } from 'commander';
+import { eventsTailCommand } from './tail';
+
+/**
+ * Server event stream namespace.
+ */
+export function eventsCommand(): Command {
+  return new Command('events')
+    .description(
+      'Follow the server event stream (GET /events).\n\n' +
+        'The server announces operation lifecycle changes (queued, processing,\n' +
+        'complete, error) and model changes, whether made through the API or in Archi.'
+    )
+    .action(function (this: Command) {
+      if (this.args.length > 0) {
+        this.error(`unknown command '${this.args[0]}'`);
+      }
+      this.help();
+    })
+    .addCommand(eventsTailCommand());
+}
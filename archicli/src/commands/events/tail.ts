@@ -0,0 +1,162 @@
+import { Command } from 'commander';
+import { ApiError, get } from '../../utils/api';
+import { ArgumentValidationError, parseNonNegativeInt, parsePositiveInt } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { getConfig } from '../../utils/config';
+import { failure, failureFromError, print, toYamlString } from '../../utils/output';
+import type { OperationStatus } from '../../utils/poll';
+import { openEventStream, SERVER_EVENT_TYPES } from '../../utils/sse';
+import type { ServerEvent } from '../../utils/sse';
+
+const TYPE_FILTERS = [...new Set([...SERVER_EVENT_TYPES, ...SERVER_EVENT_TYPES.map((type) => type.split('.')[0])])];
+
+/**
+ * Parse a --types list; each entry is an event type or a prefix such as `operation`.
+ */
+export function parseEventTypes(raw: string): string[] {
+  const types = raw
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+  const unknown = types.filter((type) => !TYPE_FILTERS.includes(type));
+  if (types.length === 0 || unknown.length > 0) {
+    throw new ArgumentValidationError(`--types must list event types (${TYPE_FILTERS.join(', ')}), got '${raw}'`);
+  }
+  return [...new Set(types)];
+}
+
+/**
+ * One-line summary of an event for --output text.
+ */
+export function formatEventLine(event: ServerEvent): string {
+  const data = event.data;
+  const parts: string[] = [];
+  if (data.opId) parts.push(String(data.opId));
+  if (event.type === 'model.changed') {
+    parts.push(`source=${data.source ?? 'unknown'}`);
+    if (typeof data.executed === 'number') parts.push(`executed=${data.executed}`);
+  } else {
+    if (typeof data.changes === 'number') parts.push(`changes=${data.changes}`);
+    if (typeof data.durationMs === 'number') parts.push(`${data.durationMs}ms`);
+    if (data.error) parts.push(`error: ${data.error}`);
+  }
+  return `${event.timestamp}  ${event.type.padEnd(20)}  ${parts.join('  ')}`.trimEnd();
+}
+
+function printEvent(event: ServerEvent): void {
+  const output = getConfig().output;
+  if (output === 'text') {
+    console.log(formatEventLine(event));
+  } else if (output === 'yaml') {
+    console.log(`---\n${toYamlString(event)}`);
+  } else {
+    console.log(JSON.stringify(event));
+  }
+}
+
+function isTerminal(type: string): boolean {
+  return type === 'operation.complete' || type === 'operation.error';
+}
+
+/**
+ * Print server events as they arrive.
+ */
+export function eventsTailCommand(): Command {
+  return new Command('tail')
+    .description(
+      'Print server events as they arrive: one JSON object per line (NDJSON), one\n' +
+        'summary line per event with --output text, or one YAML document per event.\n\n' +
+        `EVENT TYPES: ${SERVER_EVENT_TYPES.join(', ')}\n` +
+        '--types takes types or prefixes (operation = every operation.* event).\n' +
+        'model.changed has source "api" (an applied operation) or "archi" (an edit in Archi).\n\n' +
+        'Runs until interrupted unless --count, --timeout or --until-done is given.\n' +
+        '--until-done exits after the --op operation completes, with exit code 1 if it failed.\n' +
+        '--since replays buffered events after that event ID (e.g. after a reconnect).\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli events tail\n' +
+        '  archicli events tail --types operation.complete,operation.error --output text\n' +
+        '  archicli events tail --types model.changed --count 1\n' +
+        '  archicli events tail --op op_1700000000000_123 --until-done'
+    )
+    .option('--types <types>', 'comma-separated event types or prefixes to show (default: all)')
+    .option('--op <opId>', 'only show events for this operation')
+    .option('--until-done', 'exit when the --op operation completes or fails')
+    .option('--since <eventId>', 'replay buffered events after this event ID')
+    .option('--count <n>', 'exit after printing this many events')
+    .option('--timeout <ms>', 'exit after this many milliseconds')
+    .action(
+      async (
+        options: { types?: string; op?: string; untilDone?: boolean; since?: string; count?: string; timeout?: string },
+        cmd: Command
+      ) => {
+        const controller = new AbortController();
+        let timer: NodeJS.Timeout | undefined;
+        try {
+          const types = options.types !== undefined ? parseEventTypes(options.types) : undefined;
+          const since = options.since !== undefined ? parseNonNegativeInt(options.since, '--since') : undefined;
+          const count = options.count !== undefined ? parsePositiveInt(options.count, '--count') : undefined;
+          const timeoutMs = options.timeout !== undefined ? parsePositiveInt(options.timeout, '--timeout') : undefined;
+          if (options.untilDone && !options.op) {
+            throw new ArgumentValidationError('--until-done requires --op <opId>');
+          }
+          if (timeoutMs !== undefined) {
+            timer = setTimeout(() => controller.abort(), timeoutMs);
+          }
+
+          let events;
+          try {
+            events = await openEventStream({ types, since, signal: controller.signal });
+          } catch (err) {
+            if (err instanceof ApiError && err.status === 404) {
+              print(failure('EVENTS_UNAVAILABLE', `Server has no event stream (GET /events): ${err.message}`));
+              cmd.error('', { exitCode: 1 });
+              return;
+            }
+            throw err;
+          }
+
+          // The operation may have finished before we subscribed
+          if (options.untilDone && options.op) {
+            const status = await get<OperationStatus & { completedAt?: string }>(
+              `/ops/status?opId=${encodeURIComponent(options.op)}`
+            );
+            if (status.status === 'complete' || status.status === 'error') {
+              printEvent({
+                id: null,
+                type: `operation.${status.status}`,
+                timestamp: status.completedAt ?? new Date().toISOString(),
+                data: { opId: options.op, status: status.status, ...(status.error ? { error: status.error } : {}) },
+              });
+              if (status.status === 'error') cmd.error('', { exitCode: 1 });
+              return;
+            }
+          }
+
+          let printed = 0;
+          for await (const event of events) {
+            if (options.op && event.data.opId !== options.op) continue;
+            printEvent(event);
+            printed++;
+            if (options.untilDone && isTerminal(event.type)) {
+              if (event.type === 'operation.error') cmd.error('', { exitCode: 1 });
+              return;
+            }
+            if (count !== undefined && printed >= count) return;
+          }
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (controller.signal.aborted) return;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'EVENTS_TAIL_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        } finally {
+          clearTimeout(timer);
+          controller.abort();
+        }
+      }
+    );
+}
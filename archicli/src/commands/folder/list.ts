@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * List folders, optionally filtered by folder type substring.
@@ -28,7 +28,7 @@ export function folderListCommand(): Command {
         }
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('FOLDER_LIST_FAILED', String(err)));
+        print(failureFromError(err, 'FOLDER_LIST_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../utils/api';
 import { isCommanderError } from '../utils/commander';
-import { print, success, failure } from '../utils/output';
+import { print, success, failureFromError } from '../utils/output';
 
 /**
  * Connectivity and server-state preflight command.
@@ -21,7 +21,7 @@ export function healthCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('HEALTH_FAILED', String(err)));
+        print(failureFromError(err, 'HEALTH_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { isCommanderError } from '../utils/commander';
-import { print, success, failure } from '../utils/output';
+import { print, success, failure, failureFromError } from '../utils/output';
 
 /**
  * Namespace command for ID-map utilities.
@@ -75,7 +75,7 @@ function idsLookupCommand(): Command {
           print(success({ tempId, results, errors }));
         } catch (err) {
           if (isCommanderError(err)) throw err;
-          print(failure('IDS_LOOKUP_FAILED', String(err)));
+          print(failureFromError(err, 'IDS_LOOKUP_FAILED'));
           cmd.error('', { exitCode: 1 });
         }
       }
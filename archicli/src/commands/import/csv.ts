@@ -0,0 +1,137 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { buildBomChangesFromArchiCsv, CSV_DELIMITERS } from '../../utils/archiCsv';
+import { validateGeneratedBom } from '../../utils/bom';
+import { isCommanderError } from '../../utils/commander';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { addWarning } from '../../utils/warnings';
+
+/**
+ * Convert an Archi CSV file set into a BOM for verify / batch apply.
+ */
+export function importCsvCommand(): Command {
+  return new Command('csv')
+    .description(
+      'Convert Archi CSV files (elements.csv, relations.csv, properties.csv) into a BOM.\n\n' +
+        'Reads the same files Archi writes with File > Export > Model to CSV (and that\n' +
+        '"model export --format csv" produces). relations.csv and properties.csv are optional.\n\n' +
+        'GENERATED OPERATIONS:\n' +
+        '  elements.csv    -> createOrGetElement (onDuplicate: reuse)\n' +
+        '  relations.csv   -> createOrGetRelationship (onDuplicate: reuse)\n' +
+        '  properties.csv  -> setProperty\n\n' +
+        'Each CSV ID becomes a tempId (prefixed with --temp-id-prefix), so relationships and\n' +
+        'properties reference the elements they belong to. IDs not present in the CSV files\n' +
+        'are treated as existing model IDs. Re-importing the same files reuses matching\n' +
+        'elements/relationships instead of duplicating them; properties are (re)set.\n' +
+        'Specialization values are ignored (with a warning).\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli import csv ./inventory --file inventory.json\n' +
+        '  archicli import csv ./inventory --prefix bank- --delimiter semicolon --file bank.json\n' +
+        '  archicli verify inventory.json --semantic && archicli batch apply inventory.json'
+    )
+    .argument('<dir>', 'directory containing the CSV files')
+    .option('--prefix <prefix>', 'file name prefix of the CSV files (e.g. "bank-" -> bank-elements.csv)', '')
+    .option('--delimiter <name>', 'CSV delimiter: comma, semicolon, or tab', 'comma')
+    .option('--temp-id-prefix <prefix>', 'prefix added to CSV IDs to form tempIds', '')
+    .option('--folder <path>', 'folder path or ID for newly created elements')
+    .option('-o, --file <path>', 'write the BOM to this file (default: include the BOM in the output)')
+    .option('--force', 'overwrite an existing BOM file')
+    .action(
+      async (
+        dir: string,
+        options: {
+          prefix: string;
+          delimiter: string;
+          tempIdPrefix: string;
+          folder?: string;
+          file?: string;
+          force?: boolean;
+        },
+        cmd: Command
+      ) => {
+        try {
+          const delimiter = CSV_DELIMITERS[options.delimiter.toLowerCase()];
+          if (delimiter === undefined) {
+            throw new ArgumentValidationError(
+              `Invalid --delimiter '${options.delimiter}'. Valid values: ${Object.keys(CSV_DELIMITERS).join(', ')}`
+            );
+          }
+
+          const inputDir = resolve(dir);
+          const fileNames = {
+            elements: `${options.prefix}elements.csv`,
+            relations: `${options.prefix}relations.csv`,
+            properties: `${options.prefix}properties.csv`,
+          };
+          const elementsPath = join(inputDir, fileNames.elements);
+          if (!existsSync(elementsPath)) {
+            throw new ArgumentValidationError(`Elements file not found: ${elementsPath}`);
+          }
+          const readOptional = (name: string): string | undefined => {
+            const path = join(inputDir, name);
+            return existsSync(path) ? readFileSync(path, 'utf-8') : undefined;
+          };
+
+          const outputPath = options.file ? resolve(options.file) : undefined;
+          if (outputPath && !options.force && existsSync(outputPath)) {
+            throw new ArgumentValidationError(`Output file already exists: ${outputPath}. Use --force to overwrite.`);
+          }
+
+          const result = buildBomChangesFromArchiCsv(
+            {
+              elements: readFileSync(elementsPath, 'utf-8'),
+              relations: readOptional(fileNames.relations),
+              properties: readOptional(fileNames.properties),
+            },
+            { delimiter, tempIdPrefix: options.tempIdPrefix, folder: options.folder, fileNames }
+          );
+          if (result.errors.length > 0) {
+            print(
+              failure('CSV_IMPORT_INVALID', `CSV files contain ${result.errors.length} error(s)`, {
+                errors: result.errors,
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          for (const warning of result.warnings) addWarning(warning);
+
+          const bom = {
+            version: '1.0',
+            description: `Imported from Archi CSV files in ${dir}`,
+            changes: result.changes,
+          };
+
+          const invalidBom = validateGeneratedBom(result.changes, 'BOM');
+          if (invalidBom) {
+            print(invalidBom);
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
+          const summary = {
+            ...result.counts,
+            operations: result.changes.length,
+          };
+          if (outputPath) {
+            mkdirSync(dirname(outputPath), { recursive: true });
+            writeFileSync(outputPath, JSON.stringify(bom, null, 2) + '\n', 'utf-8');
+            print(success({ file: outputPath, ...summary }));
+          } else {
+            print(success({ ...summary, bom }));
+          }
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'CSV_IMPORT_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
@@ -0,0 +1,111 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { validateGeneratedBom } from '../../utils/bom';
+import { isCommanderError } from '../../utils/commander';
+import { buildBomChangesFromExchange } from '../../utils/exchangeFormat';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { addWarning } from '../../utils/warnings';
+
+/**
+ * Convert an Open Group exchange format document into a BOM for verify / batch apply.
+ */
+export function importExchangeCommand(): Command {
+  return new Command('exchange')
+    .description(
+      'Convert an ArchiMate Open Group Exchange Format XML file into a BOM.\n\n' +
+        'Reads files written by Archi (File > Export > Model to Open Exchange File), other\n' +
+        'ArchiMate tools, or "model export --format exchange".\n\n' +
+        'GENERATED OPERATIONS:\n' +
+        '  elements              -> createOrGetElement (onDuplicate: reuse)\n' +
+        '  relationships         -> createOrGetRelationship (onDuplicate: reuse)\n' +
+        '  properties            -> setProperty\n' +
+        '  organizations         -> createFolder + moveToFolder\n' +
+        '  views                 -> createView\n' +
+        '  element nodes         -> addToView (nested nodes via parentVisualId)\n' +
+        '  container/label nodes -> createGroup / createNote (+ nestInView)\n' +
+        '  relationship lines    -> addConnectionToView\n\n' +
+        'Exchange identifiers become tempIds (prefixed with --temp-id-prefix). Node bounds are\n' +
+        'kept; absolute exchange coordinates are converted back to parent-relative positions.\n' +
+        'Styles, bendpoints, plain lines, and sketch/canvas views are not imported (warnings\n' +
+        'list anything skipped).\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli import exchange model.xml --file model-bom.json\n' +
+        '  archicli import exchange model.xml --temp-id-prefix x- --lang de --file model-bom.json\n' +
+        '  archicli verify model-bom.json --semantic && archicli batch apply model-bom.json'
+    )
+    .argument('<file>', 'exchange format XML file')
+    .option('--temp-id-prefix <prefix>', 'prefix added to exchange identifiers to form tempIds', '')
+    .option('--lang <code>', 'preferred xml:lang for names, documentation, and labels')
+    .option('-o, --file <path>', 'write the BOM to this file (default: include the BOM in the output)')
+    .option('--force', 'overwrite an existing BOM file')
+    .action(
+      async (
+        file: string,
+        options: { tempIdPrefix: string; lang?: string; file?: string; force?: boolean },
+        cmd: Command
+      ) => {
+        try {
+          const inputPath = resolve(file);
+          if (!existsSync(inputPath)) {
+            throw new ArgumentValidationError(`Exchange file not found: ${inputPath}`);
+          }
+          const outputPath = options.file ? resolve(options.file) : undefined;
+          if (outputPath && !options.force && existsSync(outputPath)) {
+            throw new ArgumentValidationError(`Output file already exists: ${outputPath}. Use --force to overwrite.`);
+          }
+
+          const result = buildBomChangesFromExchange(readFileSync(inputPath, 'utf-8'), {
+            tempIdPrefix: options.tempIdPrefix,
+            lang: options.lang,
+          });
+          if (result.errors.length > 0) {
+            print(
+              failure('EXCHANGE_IMPORT_INVALID', `Exchange file contains ${result.errors.length} error(s)`, {
+                file: inputPath,
+                errors: result.errors,
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          for (const warning of result.warnings) addWarning(warning);
+
+          const bom = {
+            version: '1.0',
+            description: `Imported from exchange file ${file}`,
+            changes: result.changes,
+          };
+
+          const invalidBom = validateGeneratedBom(result.changes, 'BOM');
+          if (invalidBom) {
+            print(invalidBom);
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
+          const summary = {
+            ...result.counts,
+            operations: result.changes.length,
+          };
+          if (outputPath) {
+            mkdirSync(dirname(outputPath), { recursive: true });
+            writeFileSync(outputPath, JSON.stringify(bom, null, 2) + '\n', 'utf-8');
+            print(success({ file: outputPath, ...summary }));
+          } else {
+            print(success({ ...summary, bom }));
+          }
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'EXCHANGE_IMPORT_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
@@ -0,0 +1,23 @@
+import { Command } from 'commander';
+import { importCsvCommand } from './csv';
+import { importExchangeCommand } from './exchange';
+
+/**
+ * Import namespace: convert external model files into BOMs.
+ */
+export function importCommand(): Command {
+  return new Command('import')
+    .description(
+      'Convert external model files into BOM files.\n\n' +
+        'Import commands never touch the model directly: they write a BOM you can\n' +
+        'review, "verify", and then "batch apply".'
+    )
+    .action(function (this: Command) {
+      if (this.args.length > 0) {
+        this.error(`unknown command '${this.args[0]}'`);
+      }
+      this.help();
+    })
+    .addCommand(importCsvCommand())
+    .addCommand(importExchangeCommand());
+}
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { existsSync, mkdirSync, readdirSync, writeFileSync } from 'fs';
 import { join, resolve } from 'path';
 import { isCommanderError } from '../utils/commander';
-import { print, success, failure } from '../utils/output';
+import { print, success, failure, failureFromError } from '../utils/output';
 
 const ELEMENTS_TEMPLATE = {
   version: '1.0',
@@ -230,7 +230,7 @@ export function initCommand(): Command {
         );
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('INIT_FAILED', String(err)));
+        print(failureFromError(err, 'INIT_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -0,0 +1,146 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { ArgumentValidationError } from '../utils/args';
+import { isCommanderError } from '../utils/commander';
+import { findLintConfig, LINT_RULE_DESCRIPTIONS, LINT_RULES, lintModel, loadLintConfig } from '../utils/lint';
+import type { LintConfig, LintReport } from '../utils/lint';
+import { fetchModelSnapshot, loadModelSnapshot } from '../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../utils/output';
+import type { CLIResponse } from '../utils/output';
+import { isReportFormat, REPORT_FORMATS, writeReport } from '../utils/reports';
+import type { ReportFormat, ReportRun } from '../utils/reports';
+
+function parseRuleList(raw: string): string[] {
+  const rules = raw
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter((rule) => rule.length > 0);
+  const unknown = rules.filter((rule) => !LINT_RULES.includes(rule));
+  if (rules.length === 0 || unknown.length > 0) {
+    throw new ArgumentValidationError(
+      `--rule must list known rules (${LINT_RULES.join(', ')}), got '${raw}'`
+    );
+  }
+  return rules;
+}
+
+function toReportRun(result: LintReport): ReportRun {
+  return {
+    command: 'lint',
+    rules: Object.entries(result.summary.rules)
+      .filter(([, severity]) => severity !== 'off')
+      .map(([id]) => ({ id, description: LINT_RULE_DESCRIPTIONS[id] })),
+    findings: result.findings.map((finding) => ({
+      ruleId: finding.rule,
+      level: finding.severity === 'info' ? 'note' : finding.severity,
+      message: finding.message,
+      concept: { id: finding.id, type: finding.type, name: finding.name },
+    })),
+  };
+}
+
+/**
+ * Check the model against naming, completeness, and ArchiMate conformance rules.
+ */
+export function lintCommand(): Command {
+  return new Command('lint')
+    .description(
+      'Check the model against configurable modelling rules.\n\n' +
+        'RULES (default severity):\n' +
+        '  naming-convention     (warning) names match a pattern per concept type\n' +
+        '  required-properties   (error)   listed property keys are set per concept type\n' +
+        '  element-not-in-view   (warning) element appears on no view\n' +
+        '  empty-view            (warning) view has no elements\n' +
+        '  invalid-relationship  (error)   relationship not allowed between its source and\n' +
+        '                                  target types (context/relationships.xml)\n' +
+        '  duplicate-name        (warning) elements of the same type share a name\n\n' +
+        'CONFIG: .archilint.json in the working directory or a parent (or --config):\n' +
+        '  { "rules": { "empty-view": "off",\n' +
+        '               "required-properties": ["error", { "properties": { "application-component": ["owner"] } }],\n' +
+        '               "naming-convention": ["warning", { "patterns": { "*": "^[A-Z]", "view": "^[A-Z]" } }] },\n' +
+        '    "ignore": ["<concept or view id>"] }\n' +
+        '  Severities: error, warning, info, off. Rule options:\n' +
+        '    naming-convention.patterns      type (or "*" for elements, "view") -> regex\n' +
+        '    required-properties.properties  type (or "*") -> property keys\n' +
+        '    element-not-in-view.ignoreTypes element types to skip\n' +
+        '    duplicate-name.ignoreCase       compare names case-insensitively (default true)\n' +
+        '    duplicate-name.acrossTypes      also flag same names on different types\n\n' +
+        'Exits with code 1 when any finding has severity "error".\n' +
+        '--report sarif|junit replaces the JSON output with a CI report (or writes it to\n' +
+        '--report-file and keeps the JSON output).\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli lint\n' +
+        '  archicli lint --rule invalid-relationship,duplicate-name\n' +
+        '  archicli lint --snapshot model.snapshot.json --config ci/.archilint.json\n' +
+        '  archicli lint --output text\n' +
+        '  archicli lint --report junit --report-file reports/lint.xml'
+    )
+    .option('--config <path>', 'lint config file (default: nearest .archilint.json)')
+    .option('--snapshot <file>', 'lint a file written by "model snapshot" instead of the live model')
+    .option('--rule <ids>', 'comma-separated rules to run (others are skipped)')
+    .option('--report <format>', 'also produce a sarif or junit report of the findings')
+    .option('--report-file <path>', 'write the --report to this file (default: stdout, replacing the JSON output)')
+    .action(
+      async (
+        options: { config?: string; snapshot?: string; rule?: string; report?: string; reportFile?: string },
+        cmd: Command
+      ) => {
+        try {
+          if (options.report !== undefined && !isReportFormat(options.report)) {
+            throw new ArgumentValidationError(
+              `--report must be one of ${REPORT_FORMATS.join(', ')}, got '${options.report}'`
+            );
+          }
+          if (options.reportFile && !options.report) {
+            throw new ArgumentValidationError('--report-file requires --report');
+          }
+          const reportFormat = options.report as ReportFormat | undefined;
+          const only = options.rule !== undefined ? parseRuleList(options.rule) : undefined;
+          const configPath = options.config ? resolve(options.config) : findLintConfig(process.cwd());
+          let config: LintConfig = {};
+          if (configPath) {
+            try {
+              config = loadLintConfig(configPath);
+            } catch (err) {
+              throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+            }
+          }
+  
+          let snapshot;
+          if (options.snapshot) {
+            try {
+              snapshot = loadModelSnapshot(resolve(options.snapshot));
+            } catch (err) {
+              throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+            }
+          } else {
+            snapshot = await fetchModelSnapshot();
+          }
+  
+          const result = lintModel(snapshot, config, only);
+          const report = {
+            model: snapshot.model,
+            source: options.snapshot ? resolve(options.snapshot) : 'live',
+            config: configPath ?? null,
+            ...result,
+          };
+          const response: CLIResponse =
+            result.summary.errors > 0
+              ? failure('LINT_FAILED', `Lint found ${result.summary.errors} error(s)`, report)
+              : success(report);
+          if (reportFormat) writeReport(reportFormat, toReportRun(result), options.reportFile);
+          if (!reportFormat || options.reportFile) print(response);
+          if (!response.success) cmd.error('', { exitCode: 1 });
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'LINT_ERROR'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
@@ -4,7 +4,7 @@ import { resolve } from 'path';
 import { post } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 import { pollUntilDone } from '../../utils/poll';
 
 /**
@@ -61,7 +61,7 @@ export function modelApplyCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('APPLY_FAILED', String(err)));
+        print(failureFromError(err, 'APPLY_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
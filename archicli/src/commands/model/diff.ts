@@ -0,0 +1,117 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { validateGeneratedBom } from '../../utils/bom';
+import { isCommanderError } from '../../utils/commander';
+import { buildChangeBom, diffModelSnapshots, summarizeModelDiff } from '../../utils/modelDiff';
+import { fetchModelSnapshot, loadModelSnapshot } from '../../utils/modelSnapshot';
+import type { ModelSnapshot } from '../../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { addWarning } from '../../utils/warnings';
+
+function readSnapshot(path: string): ModelSnapshot {
+  try {
+    return loadModelSnapshot(resolve(path));
+  } catch (err) {
+    throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Compare two model snapshots (or a snapshot and the live model).
+ */
+export function modelDiffCommand(): Command {
+  return new Command('diff')
+    .description(
+      'Compare two model snapshots, or a snapshot and the live model, by ID.\n\n' +
+        'Reports added, removed, and changed elements, relationships (including properties),\n' +
+        'folders, and views (nodes with bounds/nesting/style, and connections). Snapshots are\n' +
+        'written by "model snapshot". Omit <new> to compare <old> against the running server,\n' +
+        'e.g. to review what an agent session changed.\n\n' +
+        'CHANGE BOM (--bom):\n' +
+        '  Writes the operations that turn <old> into <new>: createElement/createRelationship/\n' +
+        '  createView (+ view content), updateElement/updateRelationship, setProperty,\n' +
+        '  moveToFolder, moveViewObject/nestInView/style*, and delete* operations. Items added in\n' +
+        '  <new> use their <new> IDs as tempIds. Differences no BOM operation can express (e.g.\n' +
+        '  removed properties, type changes, folder renames) are listed under "unsupported".\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model snapshot --file before.json\n' +
+        '  archicli model diff before.json\n' +
+        '  archicli model diff before.json after.json --summary\n' +
+        '  archicli model diff before.json after.json --bom changes.json'
+    )
+    .argument('<old>', 'baseline snapshot file')
+    .argument('[new]', 'snapshot file to compare against (default: the live model)')
+    .option('--summary', 'report only added/removed/changed counts')
+    .option('--bom <path>', 'write a change BOM that turns <old> into <new>')
+    .option('--force', 'overwrite an existing BOM file')
+    .action(
+      async (
+        oldPath: string,
+        newPath: string | undefined,
+        options: { summary?: boolean; bom?: string; force?: boolean },
+        cmd: Command
+      ) => {
+        try {
+          const bomPath = options.bom ? resolve(options.bom) : undefined;
+          if (bomPath && !options.force && existsSync(bomPath)) {
+            throw new ArgumentValidationError(`Output file already exists: ${bomPath}. Use --force to overwrite.`);
+          }
+
+          const oldSnapshot = readSnapshot(oldPath);
+          const newSnapshot = newPath ? readSnapshot(newPath) : await fetchModelSnapshot();
+          if (oldSnapshot.model.id && newSnapshot.model.id && oldSnapshot.model.id !== newSnapshot.model.id) {
+            addWarning(
+              `Comparing different models ('${oldSnapshot.model.id}' vs '${newSnapshot.model.id}'); every concept will differ by ID`
+            );
+          }
+
+          const diff = diffModelSnapshots(oldSnapshot, newSnapshot);
+          const summary = summarizeModelDiff(diff);
+          const identical = Object.values(summary).every(
+            (counts) => counts.added === 0 && counts.removed === 0 && counts.changed === 0
+          );
+          const data: Record<string, unknown> = {
+            old: resolve(oldPath),
+            new: newPath ? resolve(newPath) : 'live',
+            identical,
+            summary,
+          };
+          if (!options.summary) data.diff = diff;
+
+          if (bomPath) {
+            const changeBom = buildChangeBom(diff, newSnapshot);
+            const bom = {
+              version: '1.0',
+              description: `Changes from ${oldPath} to ${newPath ?? 'the live model'}`,
+              changes: changeBom.changes,
+            };
+            const invalidBom = validateGeneratedBom(changeBom.changes, 'change BOM');
+            if (invalidBom) {
+              print(invalidBom);
+              cmd.error('', { exitCode: 1 });
+              return;
+            }
+            if (changeBom.unsupported.length > 0) {
+              addWarning(`${changeBom.unsupported.length} difference(s) cannot be expressed as BOM operations; see bom.unsupported`);
+            }
+            mkdirSync(dirname(bomPath), { recursive: true });
+            writeFileSync(bomPath, JSON.stringify(bom, null, 2) + '\n', 'utf-8');
+            data.bom = { file: bomPath, operations: changeBom.changes.length, unsupported: changeBom.unsupported };
+          }
+
+          print(success(data));
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'MODEL_DIFF_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
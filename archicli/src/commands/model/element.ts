@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 import { loadIdFilesWithDiagnostics } from '../../utils/bom';
 
 /**
@@ -43,7 +43,7 @@ export function modelElementCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('ELEMENT_FAILED', String(err)));
+        print(failureFromError(err, 'ELEMENT_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -0,0 +1,163 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { buildArchiCsvFiles, CSV_DELIMITERS } from '../../utils/archiCsv';
+import { isCommanderError } from '../../utils/commander';
+import { buildExchangeXml } from '../../utils/exchangeFormat';
+import { fetchFolders, fetchModelConcepts, fetchViewDetails } from '../../utils/modelData';
+import { print, success, failure, failureFromError } from '../../utils/output';
+
+/**
+ * Export the full model to Archi's native CSV file set.
+ */
+async function exportCsv(
+  outputDir: string,
+  prefix: string,
+  delimiter: string,
+  force: boolean
+): Promise<Record<string, unknown>> {
+  const fileNames = {
+    elements: `${prefix}elements.csv`,
+    relations: `${prefix}relations.csv`,
+    properties: `${prefix}properties.csv`,
+  };
+  const paths = {
+    elements: join(outputDir, fileNames.elements),
+    relations: join(outputDir, fileNames.relations),
+    properties: join(outputDir, fileNames.properties),
+  };
+
+  if (!force) {
+    const existing = Object.values(paths).filter((path) => existsSync(path));
+    if (existing.length > 0) {
+      throw new ArgumentValidationError(
+        `Output file(s) already exist: ${existing.join(', ')}. Use --force to overwrite.`
+      );
+    }
+  }
+
+  const concepts = await fetchModelConcepts();
+  const files = buildArchiCsvFiles(concepts, delimiter);
+
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(paths.elements, files.elements, 'utf-8');
+  writeFileSync(paths.relations, files.relations, 'utf-8');
+  writeFileSync(paths.properties, files.properties, 'utf-8');
+
+  const propertyCount = [...concepts.elements, ...concepts.relationships].reduce(
+    (sum, concept) => sum + Object.keys(concept.properties).length,
+    0
+  );
+
+  return {
+    format: 'csv',
+    outputDir,
+    files: [paths.elements, paths.relations, paths.properties],
+    elements: concepts.elements.length,
+    relationships: concepts.relationships.length,
+    properties: propertyCount,
+  };
+}
+
+/**
+ * Export the full model (concepts, folders, views) as an Open Group exchange format document.
+ */
+async function exportExchange(outputPath: string, force: boolean): Promise<Record<string, unknown>> {
+  if (!force && existsSync(outputPath)) {
+    throw new ArgumentValidationError(`Output file already exists: ${outputPath}. Use --force to overwrite.`);
+  }
+
+  const concepts = await fetchModelConcepts();
+  const folders = await fetchFolders();
+  const views = await fetchViewDetails();
+  const xml = buildExchangeXml({ concepts, folders, views });
+
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(outputPath, xml, 'utf-8');
+
+  return {
+    format: 'exchange',
+    file: outputPath,
+    elements: concepts.elements.length,
+    relationships: concepts.relationships.length,
+    views: views.length,
+    folders: folders.length,
+  };
+}
+
+/**
+ * Export the live model to interchange file formats.
+ */
+export function modelExportCommand(): Command {
+  return new Command('export')
+    .description(
+      'Export the entire model to files other tools can read.\n\n' +
+        'FORMATS:\n' +
+        '  csv       Archi CSV triple: elements.csv, relations.csv, properties.csv\n' +
+        '            (same headers and quoting as Archi File > Export > Model to CSV,\n' +
+        '            so the files re-import via File > Import > CSV Data)\n' +
+        '  exchange  ArchiMate 3.1 Open Group Exchange Format XML (<prefix>model.xml or --file):\n' +
+        '            elements, relationships, properties, folder organizations, and views\n' +
+        '            with node/connection geometry, for Archi and other ArchiMate tools\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model export --format csv --output-dir ./csv\n' +
+        '  archicli model export --format csv --prefix bank- --delimiter semicolon\n' +
+        '  archicli model export --format exchange --file model.xml'
+    )
+    .option('-f, --format <format>', 'export format: csv or exchange', 'csv')
+    .option('-o, --output-dir <dir>', 'directory for exported files (default: current directory)')
+    .option('--prefix <prefix>', 'file name prefix (e.g. "bank-" -> bank-elements.csv, bank-model.xml)', '')
+    .option('--delimiter <name>', 'CSV delimiter: comma, semicolon, or tab', 'comma')
+    .option('--file <path>', 'output file for --format exchange (default: <output-dir>/<prefix>model.xml)')
+    .option('--force', 'overwrite existing output files')
+    .action(
+      async (
+        options: {
+          format: string;
+          outputDir?: string;
+          prefix: string;
+          delimiter: string;
+          file?: string;
+          force?: boolean;
+        },
+        cmd: Command
+      ) => {
+        try {
+          const format = options.format.toLowerCase();
+          if (format !== 'csv' && format !== 'exchange') {
+            throw new ArgumentValidationError(`Invalid --format '${options.format}'. Valid formats: csv, exchange`);
+          }
+          const outputDir = resolve(options.outputDir ?? process.cwd());
+
+          if (format === 'exchange') {
+            const outputPath = options.file ? resolve(options.file) : join(outputDir, `${options.prefix}model.xml`);
+            print(success(await exportExchange(outputPath, options.force ?? false)));
+            return;
+          }
+          if (options.file) {
+            throw new ArgumentValidationError('--file applies only to --format exchange; use --output-dir and --prefix for csv');
+          }
+
+          const delimiter = CSV_DELIMITERS[options.delimiter.toLowerCase()];
+          if (delimiter === undefined) {
+            throw new ArgumentValidationError(
+              `Invalid --delimiter '${options.delimiter}'. Valid values: ${Object.keys(CSV_DELIMITERS).join(', ')}`
+            );
+          }
+
+          const data = await exportCsv(outputDir, options.prefix, delimiter, options.force ?? false);
+          print(success(data));
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'MODEL_EXPORT_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
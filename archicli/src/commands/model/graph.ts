@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ArgumentValidationError, parseNonNegativeInt } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import {
+  GRAPH_DIRECTIONS,
+  GRAPH_FORMATS,
+  graphToDot,
+  graphToMermaid,
+  isGraphDirection,
+  isGraphFormat,
+  parseRelationshipTypes,
+  traverseGraph,
+} from '../../utils/modelGraph';
+import type { GraphConcepts } from '../../utils/modelGraph';
+import { fetchModelConcepts } from '../../utils/modelData';
+import { loadModelSnapshot } from '../../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../../utils/output';
+
+/**
+ * Walk relationships N hops out from one or more elements.
+ */
+export function modelGraphCommand(): Command {
+  return new Command('graph')
+    .description(
+      'Return the neighborhood of one or more elements: everything reachable within\n' +
+        '--depth relationship hops, as JSON, Graphviz DOT, or Mermaid.\n\n' +
+        '--direction out follows relationships from source to target, in from target to\n' +
+        'source, both (default) either way. --rel-type limits which relationship types are\n' +
+        'followed (e.g. serving,flow; the "-relationship" suffix is optional).\n' +
+        'Each node reports its distance (hops) from the nearest start element.\n\n' +
+        'DOT and Mermaid are written to stdout in place of the JSON output, or to --file.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model graph id-abc123\n' +
+        '  archicli model graph id-abc123 id-def456 --depth 2 --direction out\n' +
+        '  archicli model graph id-abc123 --rel-type serving,realization --format mermaid\n' +
+        '  archicli model graph id-abc123 --depth 3 --format dot --file graph.dot\n' +
+        '  archicli model graph id-abc123 --snapshot model.snapshot.json'
+    )
+    .argument('<ids...>', 'element IDs to start from')
+    .option('-d, --depth <n>', 'relationship hops to follow', '1')
+    .option('--direction <dir>', `follow relationships ${GRAPH_DIRECTIONS.join(', ')}`, 'both')
+    .option('--rel-type <types>', 'comma-separated relationship types to follow (default: all)')
+    .option('-f, --format <format>', `result format: ${GRAPH_FORMATS.join(', ')}`, 'json')
+    .option('--file <path>', 'write DOT or Mermaid output to this file')
+    .option('--snapshot <file>', 'read a file written by "model snapshot" instead of the live model')
+    .action(
+      async (
+        ids: string[],
+        options: { depth: string; direction: string; relType?: string; format: string; file?: string; snapshot?: string },
+        cmd: Command
+      ) => {
+        try {
+          const depth = parseNonNegativeInt(options.depth, '--depth');
+          if (!isGraphDirection(options.direction)) {
+            throw new ArgumentValidationError(
+              `--direction must be one of ${GRAPH_DIRECTIONS.join(', ')}, got '${options.direction}'`
+            );
+          }
+          const format = options.format.toLowerCase();
+          if (!isGraphFormat(format)) {
+            throw new ArgumentValidationError(`--format must be one of ${GRAPH_FORMATS.join(', ')}, got '${options.format}'`);
+          }
+          if (options.file && format === 'json') {
+            throw new ArgumentValidationError('--file requires --format dot or mermaid');
+          }
+          const relationshipTypes =
+            options.relType !== undefined ? parseRelationshipTypes(options.relType, '--rel-type') : undefined;
+
+          let concepts: GraphConcepts;
+          if (options.snapshot) {
+            try {
+              concepts = loadModelSnapshot(resolve(options.snapshot));
+            } catch (err) {
+              throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+            }
+          } else {
+            concepts = await fetchModelConcepts();
+          }
+
+          let graph;
+          try {
+            graph = traverseGraph(concepts, { startIds: ids, depth, direction: options.direction, relationshipTypes });
+          } catch (err) {
+            print(failure('NOT_FOUND', err instanceof Error ? err.message : String(err)));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
+          if (format === 'json') {
+            print(success(graph));
+            return;
+          }
+          const text = format === 'dot' ? graphToDot(graph) : graphToMermaid(graph);
+          if (!options.file) {
+            process.stdout.write(text);
+            return;
+          }
+          const outputPath = resolve(options.file);
+          mkdirSync(dirname(outputPath), { recursive: true });
+          writeFileSync(outputPath, text, 'utf-8');
+          print(success({ file: outputPath, format, ...graph.summary }));
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'MODEL_GRAPH_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
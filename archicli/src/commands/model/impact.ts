@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { fetchModelConcepts } from '../../utils/modelData';
+import { parseRelationshipTypes } from '../../utils/modelGraph';
+import { analyzeImpact, IMPACT_RELATIONSHIP_TYPES } from '../../utils/modelImpact';
+import type { ImpactConcepts } from '../../utils/modelImpact';
+import { loadModelSnapshot } from '../../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../../utils/output';
+
+/**
+ * Report which elements a change to one element would affect.
+ */
+export function modelImpactCommand(): Command {
+  return new Command('impact')
+    .description(
+      'Impact analysis: list the elements affected if an element changes or is removed,\n' +
+        'with the depth and shortest impact path of each.\n\n' +
+        'PROPAGATION (a change to X affects Y):\n' +
+        '  serving, realization, assignment, flow   X is the source, Y the target\n' +
+        '  access                                   X is the accessed object, Y the accessor;\n' +
+        '                                           write access propagates from the writer to\n' +
+        '                                           the object, read/write both ways\n' +
+        'Other relationship types (composition, association, ...) are not followed.\n' +
+        '--rel-type restricts propagation to some of the types above.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model impact id-abc123\n' +
+        '  archicli model impact id-abc123 --max-depth 2 --output text\n' +
+        '  archicli model impact id-abc123 --rel-type serving,realization\n' +
+        '  archicli model impact id-abc123 --snapshot model.snapshot.json'
+    )
+    .argument('<elementId>', 'element that changes or is removed')
+    .option('--max-depth <n>', 'stop after this many hops (default: unlimited)')
+    .option('--rel-type <types>', `relationship types to follow (default: ${IMPACT_RELATIONSHIP_TYPES.map((type) => type.replace(/-relationship$/, '')).join(',')})`)
+    .option('--snapshot <file>', 'read a file written by "model snapshot" instead of the live model')
+    .action(
+      async (
+        elementId: string,
+        options: { maxDepth?: string; relType?: string; snapshot?: string },
+        cmd: Command
+      ) => {
+        try {
+          const maxDepth = options.maxDepth !== undefined ? parsePositiveInt(options.maxDepth, '--max-depth') : undefined;
+          let relationshipTypes: string[] | undefined;
+          if (options.relType !== undefined) {
+            relationshipTypes = parseRelationshipTypes(options.relType, '--rel-type');
+            const unsupported = relationshipTypes.filter((type) => !IMPACT_RELATIONSHIP_TYPES.includes(type));
+            if (unsupported.length > 0) {
+              throw new ArgumentValidationError(
+                `--rel-type only accepts impact relationships (${IMPACT_RELATIONSHIP_TYPES.join(', ')}), got ${unsupported.join(', ')}`
+              );
+            }
+          }
+
+          let concepts: ImpactConcepts;
+          if (options.snapshot) {
+            try {
+              concepts = loadModelSnapshot(resolve(options.snapshot));
+            } catch (err) {
+              throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+            }
+          } else {
+            concepts = await fetchModelConcepts();
+          }
+
+          let report;
+          try {
+            report = analyzeImpact(concepts, elementId, { maxDepth, relationshipTypes });
+          } catch (err) {
+            print(failure('NOT_FOUND', err instanceof Error ? err.message : String(err)));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(success(report));
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'MODEL_IMPACT_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
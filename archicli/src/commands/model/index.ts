@@ -5,6 +5,12 @@ import { modelSearchCommand } from './search';
 import { modelElementCommand } from './element';
 import { modelSaveCommand } from './save';
 import { modelStatsCommand } from './stats';
+import { modelExportCommand } from './export';
+import { modelSnapshotCommand } from './snapshot';
+import { modelDiffCommand } from './diff';
+import { modelSyncCommand } from './sync';
+import { modelGraphCommand } from './graph';
+import { modelImpactCommand } from './impact';
 
 /**
  * Model query/mutation namespace.
@@ -13,8 +19,9 @@ export function modelCommand(): Command {
   return new Command('model')
     .description(
       'Query and mutate the ArchiMate model.\n\n' +
-        'READ commands (sync): query, search, element, stats\n' +
-        'WRITE commands (async, require --poll): apply\n\n' +
+        'READ commands (sync): query, search, element, stats, export, snapshot, diff, graph, impact\n' +
+        'WRITE commands (async, require --poll): apply\n' +
+        'WRITE commands (plan, then --apply): sync\n\n' +
         'For large batches of changes, use "batch apply" instead of "model apply".\n' +
         'It handles chunking, polling, and tempId persistence automatically.'
     )
@@ -29,5 +36,11 @@ export function modelCommand(): Command {
     .addCommand(modelSearchCommand())
     .addCommand(modelElementCommand())
     .addCommand(modelSaveCommand())
-    .addCommand(modelStatsCommand());
+    .addCommand(modelStatsCommand())
+    .addCommand(modelExportCommand())
+    .addCommand(modelSnapshotCommand())
+    .addCommand(modelDiffCommand())
+    .addCommand(modelSyncCommand())
+    .addCommand(modelGraphCommand())
+    .addCommand(modelImpactCommand());
 }
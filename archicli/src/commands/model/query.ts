@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { get, post } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 
 /**
  * Retrieve a high-level model snapshot plus optional relationship/view samples.
@@ -48,7 +48,7 @@ export function modelQueryCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('QUERY_FAILED', String(err)));
+        print(failureFromError(err, 'QUERY_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
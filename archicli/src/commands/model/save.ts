@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { post } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * Trigger model persistence to disk through the server save endpoint.
@@ -26,7 +26,7 @@ export function modelSaveCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('MODEL_SAVE_FAILED', String(err)));
+        print(failureFromError(err, 'MODEL_SAVE_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { post } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 import { ARCHIMATE_TYPE_SET, ARCHIMATE_TYPES, RELATIONSHIP_TYPE_SET } from '../../utils/archimateTypes';
 
 // Extract user-entered args for duplicate option checks that Commander does not enforce.
@@ -185,7 +185,7 @@ export function modelSearchCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('SEARCH_FAILED', String(err)));
+        print(failureFromError(err, 'SEARCH_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -0,0 +1,61 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ArgumentValidationError } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { fetchModelSnapshot, serializeModelSnapshot } from '../../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../../utils/output';
+
+/**
+ * Write the whole model as a canonical JSON snapshot.
+ */
+export function modelSnapshotCommand(): Command {
+  return new Command('snapshot')
+    .description(
+      'Write the entire model as a deterministic JSON snapshot suitable for committing to git.\n\n' +
+        'Includes every element, relationship, property, folder, and view (nodes with bounds,\n' +
+        'nesting, and style; connections). Collections are sorted by ID, property keys are\n' +
+        'sorted, and no timestamps are written, so an unchanged model always produces a\n' +
+        'byte-identical file and real changes show up as small line diffs.\n\n' +
+        'View bounds are stored as Archi keeps them: relative to the parent node, -1 for\n' +
+        'default width/height.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model snapshot --file model.snapshot.json\n' +
+        '  archicli model snapshot --file model.snapshot.json --force && git diff model.snapshot.json'
+    )
+    .option('-o, --file <path>', 'write the snapshot to this file (default: include it in the output)')
+    .option('--force', 'overwrite an existing snapshot file')
+    .action(async (options: { file?: string; force?: boolean }, cmd: Command) => {
+      try {
+        const outputPath = options.file ? resolve(options.file) : undefined;
+        if (outputPath && !options.force && existsSync(outputPath)) {
+          throw new ArgumentValidationError(`Output file already exists: ${outputPath}. Use --force to overwrite.`);
+        }
+
+        const snapshot = await fetchModelSnapshot();
+
+        const summary = {
+          elements: snapshot.elements.length,
+          relationships: snapshot.relationships.length,
+          folders: snapshot.folders.length,
+          views: snapshot.views.length,
+        };
+        if (outputPath) {
+          mkdirSync(dirname(outputPath), { recursive: true });
+          writeFileSync(outputPath, serializeModelSnapshot(snapshot), 'utf-8');
+          print(success({ file: outputPath, ...summary }));
+        } else {
+          print(success({ ...summary, snapshot }));
+        }
+      } catch (err) {
+        if (isCommanderError(err)) throw err;
+        if (err instanceof ArgumentValidationError) {
+          print(failure(err.code, err.message));
+          cmd.error('', { exitCode: 1 });
+          return;
+        }
+        print(failureFromError(err, 'MODEL_SNAPSHOT_FAILED'));
+        cmd.error('', { exitCode: 1 });
+      }
+    });
+}
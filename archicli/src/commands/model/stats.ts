@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * Retrieve model statistics with element/relationship/view type breakdowns.
@@ -19,7 +19,7 @@ export function modelStatsCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('STATS_FAILED', String(err)));
+        print(failureFromError(err, 'STATS_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
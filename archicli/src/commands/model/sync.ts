@@ -0,0 +1,252 @@
+import { Command } from 'commander';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { FolderInfo } from '../../client';
+import { validate } from '../../schemas/registry';
+import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
+import {
+  findDuplicateTempIds,
+  loadBom,
+  loadIdFilesWithDiagnostics,
+  summarizeIdFileCompleteness,
+  validateGeneratedBom,
+  withChangeOrigins,
+} from '../../utils/bom';
+import { applyChunkedChanges, buildChunkFailureMessage, collectRecoverySnapshot } from '../../utils/chunkedApply';
+import { isCommanderError } from '../../utils/commander';
+import { fetchFolders, fetchModelConcepts } from '../../utils/modelData';
+import { buildSyncPlan, DEFAULT_SYNC_KEY_PROPERTY, readDesiredState } from '../../utils/modelSync';
+import type { SyncScope } from '../../utils/modelSync';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { addWarning } from '../../utils/warnings';
+
+/**
+ * Resolve `--folder` (ID or full path such as "Application/CRM") against the folder list.
+ */
+function resolveScopeFolder(folders: FolderInfo[], value: string): FolderInfo {
+  const byId = folders.find((folder) => folder.id === value);
+  if (byId) return byId;
+  const byPath = folders.filter((folder) => folder.path === value);
+  if (byPath.length === 1) return byPath[0];
+  if (byPath.length > 1) {
+    throw new ArgumentValidationError(
+      `--folder '${value}' matches ${byPath.length} folders; use the folder ID instead: ` +
+        byPath.map((folder) => folder.id).join(', ')
+    );
+  }
+  throw new ArgumentValidationError(`--folder '${value}' matches no folder ID or path (see "archicli folder list")`);
+}
+
+/**
+ * Reconcile a managed part of the model with a desired-state BOM.
+ */
+export function modelSyncCommand(): Command {
+  return new Command('sync')
+    .description(
+      'Make a managed part of the model match a desired-state BOM (plan, then --apply).\n\n' +
+        'The BOM lists the concepts that should exist (createElement/createOrGetElement,\n' +
+        'createRelationship/createOrGetRelationship, setProperty on their tempIds). The managed\n' +
+        'scope is everything in --folder (and its subfolders; relationships between two managed\n' +
+        'elements count too) or everything with the --tag property. sync compares the two and plans:\n' +
+        '  create  desired concepts with no live counterpart\n' +
+        '  update  name, documentation and properties that drifted\n' +
+        '  delete  managed concepts no longer in the desired state\n\n' +
+        'MATCHING: live concepts are matched by the --key-property property, which sync stamps\n' +
+        'with the desired tempId, so renames in the source of truth are tracked. Concepts without\n' +
+        'a key match by type+name (elements) or type+endpoints (relationships). A changed type or\n' +
+        'endpoint replaces the concept. Extra live properties are reported under "unsupported"\n' +
+        '(no BOM operation removes properties).\n\n' +
+        'Without --apply nothing is changed. --apply submits the plan in chunks like "batch apply".\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli model sync crm-desired.json --folder "Application/CRM"\n' +
+        '  archicli model sync crm-desired.json --folder "Application/CRM" --apply\n' +
+        '  archicli model sync cmdb.json --tag source=cmdb --bom plan.json\n' +
+        '  archicli model sync cmdb.json --tag source=cmdb --key-property cmdb-id --apply'
+    )
+    .argument('<file>', 'desired-state BOM file (JSON or YAML)')
+    .option('--folder <id|path>', 'managed scope: concepts in this folder and its subfolders')
+    .option('--tag <key=value>', 'managed scope: concepts with this property value')
+    .option('--key-property <name>', 'property holding each concept\'s desired tempId', DEFAULT_SYNC_KEY_PROPERTY)
+    .option('--apply', 'apply the plan (default: only show it)')
+    .option('--bom <path>', 'write the planned operations as a BOM file')
+    .option('--force', 'overwrite an existing BOM file')
+    .option('-c, --chunk-size <n>', 'operations per API request with --apply (max 1000)', '8')
+    .option('--poll-timeout <ms>', 'polling timeout in ms per chunk with --apply', '60000')
+    .action(
+      async (
+        file: string,
+        options: {
+          folder?: string;
+          tag?: string;
+          keyProperty: string;
+          apply?: boolean;
+          bom?: string;
+          force?: boolean;
+          chunkSize: string;
+          pollTimeout: string;
+        },
+        cmd: Command
+      ) => {
+        try {
+          if ((options.folder === undefined) === (options.tag === undefined)) {
+            throw new ArgumentValidationError('Specify exactly one managed scope: --folder <id|path> or --tag <key=value>');
+          }
+          const tagMatch = options.tag !== undefined ? /^([^=]+)=(.*)$/.exec(options.tag) : null;
+          if (options.tag !== undefined && !tagMatch) {
+            throw new ArgumentValidationError(`Invalid --tag '${options.tag}'. Expected key=value`);
+          }
+          const keyProperty = options.keyProperty.trim();
+          if (keyProperty.length === 0) {
+            throw new ArgumentValidationError('--key-property must not be empty');
+          }
+          if (tagMatch && tagMatch[1] === keyProperty) {
+            throw new ArgumentValidationError('--tag and --key-property must use different properties');
+          }
+          const chunkSize = Math.min(1000, parsePositiveInt(options.chunkSize, '--chunk-size'));
+          const pollTimeoutMs = parsePositiveInt(options.pollTimeout, '--poll-timeout');
+          const bomPath = options.bom ? resolve(options.bom) : undefined;
+          if (bomPath && !options.force && existsSync(bomPath)) {
+            throw new ArgumentValidationError(`Output file already exists: ${bomPath}. Use --force to overwrite.`);
+          }
+
+          // Same gates as "batch apply": the flattened BOM must be valid before it means anything.
+          const loaded = loadBom(file);
+          const { changes, idFilePaths, includedFiles } = loaded;
+          const validation = validate('bom', { version: '1.0', changes });
+          if (!validation.valid) {
+            print(
+              failure('INVALID_BOM', 'BOM validation failed', {
+                files: includedFiles,
+                errors: withChangeOrigins(validation.errors, loaded),
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const duplicateTempIdErrors = findDuplicateTempIds(changes);
+          if (duplicateTempIdErrors.length > 0) {
+            print(
+              failure('INVALID_BOM', 'Duplicate tempIds found in flattened BOM', {
+                errors: withChangeOrigins(duplicateTempIdErrors, loaded),
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const desired = readDesiredState(changes);
+          if (desired.errors.length > 0) {
+            print(
+              failure('INVALID_BOM', 'BOM cannot be used as a desired state', {
+                errors: withChangeOrigins(desired.errors, loaded),
+              })
+            );
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const { map: idMap, diagnostics: idFileDiagnostics } = loadIdFilesWithDiagnostics(idFilePaths);
+          if (!summarizeIdFileCompleteness(idFileDiagnostics).complete) {
+            addWarning('Declared idFiles could not be fully loaded; references to their tempIds will not resolve');
+          }
+
+          const concepts = await fetchModelConcepts();
+          const folders = await fetchFolders();
+          let scope: SyncScope;
+          let scopeOutput: Record<string, unknown>;
+          if (tagMatch) {
+            scope = { kind: 'tag', key: tagMatch[1], value: tagMatch[2] };
+            scopeOutput = { tag: { key: scope.key, value: scope.value } };
+          } else {
+            const folder = resolveScopeFolder(folders, options.folder as string);
+            scope = { kind: 'folder', folderId: folder.id as string };
+            scopeOutput = { folder: { id: folder.id, path: folder.path ?? folder.name } };
+          }
+
+          const plan = buildSyncPlan({ desired, concepts, folders, scope, keyProperty, idMap });
+          if (plan.errors.length > 0) {
+            print(failure('INVALID_BOM', 'Desired state does not fit the live model', { errors: plan.errors }));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const invalidPlan = validateGeneratedBom(plan.changes, 'sync plan');
+          if (invalidPlan) {
+            print(invalidPlan);
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          for (const warning of plan.warnings) addWarning(warning);
+          if (plan.unsupported.length > 0) {
+            addWarning(`${plan.unsupported.length} difference(s) cannot be reconciled by BOM operations; see unsupported`);
+          }
+
+          const count = (action: string): number => plan.items.filter((item) => item.action === action).length;
+          const data: Record<string, unknown> = {
+            file: resolve(file),
+            scope: scopeOutput,
+            keyProperty,
+            inSync: plan.items.length === 0,
+            summary: { create: count('create'), update: count('update'), delete: count('delete'), unchanged: plan.unchanged },
+            plan: plan.items,
+            unsupported: plan.unsupported,
+            operations: plan.changes.length,
+            applied: false,
+          };
+
+          if (bomPath) {
+            const planBom = { version: '1.0', description: `Sync plan for ${file}`, changes: plan.changes };
+            mkdirSync(dirname(bomPath), { recursive: true });
+            writeFileSync(bomPath, JSON.stringify(planBom, null, 2) + '\n', 'utf-8');
+            data.bom = bomPath;
+          }
+
+          if (!options.apply || plan.changes.length === 0) {
+            print(success(data));
+            return;
+          }
+
+          const warnings: string[] = [];
+          const applied = await applyChunkedChanges(plan.changes, {
+            chunkSize,
+            poll: true,
+            pollTimeoutMs,
+            throttleMs: chunkSize <= 8 ? 50 : 0,
+            tempIdMap: {},
+            warnings,
+          });
+          for (const warning of warnings) addWarning(warning);
+          data.applied = true;
+          data.chunks = applied.chunks;
+          data.results = applied.results;
+
+          if (applied.hadOperationErrors) {
+            data.recovery = await collectRecoverySnapshot();
+            print(failure('MODEL_SYNC_PARTIAL_FAILURE', buildChunkFailureMessage(applied.results), data));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
+          print(success(data));
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          const message = String(err);
+          if (
+            message.includes('Include cycle detected') ||
+            message.includes('BOM file not found') ||
+            message.includes('Invalid JSON in BOM file') ||
+            message.includes('Invalid YAML in BOM file') ||
+            message.includes('Invalid template in BOM file')
+          ) {
+            print(failure('INVALID_BOM', message.replace(/^Error:\s*/, '')));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'MODEL_SYNC_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 
 const VALID_STATUSES = new Set(['queued', 'processing', 'complete', 'error']);
 
@@ -64,7 +64,7 @@ export function opsListCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('OPS_LIST_FAILED', String(err)));
+        print(failureFromError(err, 'OPS_LIST_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
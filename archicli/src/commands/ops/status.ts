@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { ArgumentValidationError, parsePositiveInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 import { pollUntilDone, type OperationStatus } from '../../utils/poll';
 
 /**
@@ -63,7 +63,7 @@ export function opsStatusCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('OPS_STATUS_FAILED', String(err)));
+        print(failureFromError(err, 'OPS_STATUS_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
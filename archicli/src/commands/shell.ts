@@ -0,0 +1,395 @@
+import { Command, CommanderError } from 'commander';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, resolve } from 'path';
+import { createInterface } from 'readline';
+import type { Interface } from 'readline';
+import type { ViewListResponse } from '../client';
+import { get } from '../utils/api';
+import { ArgumentValidationError, parsePositiveInt } from '../utils/args';
+import { configureCommander, isCommanderError, normalizeCommanderMessage } from '../utils/commander';
+import { getConfig, setConfig } from '../utils/config';
+import type { Config } from '../utils/config';
+import { fetchModelConcepts } from '../utils/modelData';
+import { failure, failureFromError, print, setResponseListener } from '../utils/output';
+import type { CLIResponse } from '../utils/output';
+import {
+  completeShellLine,
+  completionTarget,
+  resolveNamedConcept,
+  resolveVariable,
+  scanLine,
+  toArgument,
+} from '../utils/shell';
+import type { NamedConcept } from '../utils/shell';
+import { resetWarnings } from '../utils/warnings';
+
+const DEFAULT_HISTORY_FILE = resolve(homedir(), '.archicli_history');
+
+const BUILTINS = ['help', 'vars', 'history', 'refresh', 'connect', 'output', 'exit', 'quit'] as const;
+
+// Commands after which cached element and view names are likely stale
+const MUTATING_COMMANDS = ['batch apply', 'model apply', 'model sync', 'view create', 'view delete', 'import'];
+
+const ASSIGNMENT_PATTERN = /^\s*\$([A-Za-z_]\w*)\s*=\s*/;
+
+const HELP_TEXT = [
+  'Type commands without the "archicli" prefix, e.g. model search --name Portal',
+  '',
+  'VARIABLES:',
+  '  $last                 envelope of the previous command ($last.data.results[0].id)',
+  '  $1, $2, ...           envelopes of earlier commands, numbered in order',
+  '  $name = <command>     also keep the result as $name',
+  '  @Name, @"Some Name"   ID of the element or view with that name',
+  '  Single quotes and \\$ keep a literal "$" or "@".',
+  '',
+  'SHELL COMMANDS:',
+  '  vars                  list variables',
+  '  history               show command history',
+  '  refresh               re-fetch element and view names for completion',
+  '  connect <url>         switch to another server',
+  '  output <format>       switch output format (json, text, yaml)',
+  '  help [command]        this text, or help for a CLI command',
+  '  exit, quit            leave the shell (or press Ctrl-D)',
+].join('\n');
+
+/**
+ * Process-local session state shared by the REPL loop, completer and built-ins.
+ */
+interface ShellSession {
+  config: Config;
+  variables: Map<string, unknown>;
+  resultCount: number;
+  concepts?: NamedConcept[];
+  createProgram: () => Command;
+}
+
+async function fetchNamedConcepts(): Promise<NamedConcept[]> {
+  const [model, views] = await Promise.all([fetchModelConcepts(), get<ViewListResponse>('/views')]);
+  const concepts: NamedConcept[] = model.elements.map((element) => ({
+    id: element.id,
+    name: element.name,
+    kind: 'element' as const,
+  }));
+  for (const view of views.views ?? []) {
+    if (view.id) concepts.push({ id: view.id, name: view.name ?? '', kind: 'view' });
+  }
+  return concepts;
+}
+
+async function loadConcepts(session: ShellSession): Promise<NamedConcept[]> {
+  if (!session.concepts) {
+    setConfig(session.config);
+    session.concepts = await fetchNamedConcepts();
+  }
+  return session.concepts;
+}
+
+function readHistory(file: string | undefined): string[] {
+  if (!file || !existsSync(file)) return [];
+  try {
+    // readline keeps history newest-first
+    return readFileSync(file, 'utf-8').split(/\r?\n/).filter((line) => line.trim().length > 0).reverse();
+  } catch {
+    return [];
+  }
+}
+
+function writeHistory(file: string | undefined, history: readonly string[]): void {
+  if (!file || history.length === 0) return;
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, [...history].reverse().join('\n') + '\n', 'utf-8');
+  } catch {
+    // History is a convenience; never fail the session over it
+  }
+}
+
+/**
+ * Expand `$variables` and `@names` in a line and split it into command words.
+ */
+async function expandLine(line: string, session: ShellSession): Promise<string[]> {
+  const { words, openQuote } = scanLine(line, (reference) =>
+    toArgument(resolveVariable(reference, session.variables))
+  );
+  if (openQuote) {
+    throw new ArgumentValidationError('Unterminated quote');
+  }
+  const args: string[] = [];
+  for (const word of words) {
+    if (!word.literalStart && word.value.startsWith('@') && word.value.length > 1) {
+      args.push(resolveNamedConcept(word.value.slice(1), await loadConcepts(session)));
+    } else {
+      args.push(word.value);
+    }
+  }
+  return args;
+}
+
+function globalArgs(config: Config): string[] {
+  return [
+    '--base-url',
+    config.baseUrl,
+    '--output',
+    config.output,
+    ...(config.quiet ? ['--quiet'] : []),
+    ...(config.verbose ? ['--verbose'] : []),
+    ...(config.wide ? ['--wide'] : []),
+    ...(config.profile ? ['--profile', config.profile] : []),
+    ...(config.token ? ['--token', config.token] : []),
+  ];
+}
+
+/**
+ * Run one CLI command in-process and return the last envelope it printed.
+ */
+async function runCommand(args: string[], session: ShellSession): Promise<CLIResponse | undefined> {
+  const program = session.createProgram();
+  configureCommander(program);
+  let response: CLIResponse | undefined;
+  setResponseListener((printed) => {
+    response = printed;
+  });
+  try {
+    await program.parseAsync([...globalArgs(session.config), ...args], { from: 'user' });
+  } catch (err) {
+    if (!(err instanceof CommanderError)) {
+      print(failureFromError(err, 'CLI_FATAL'));
+    } else if (err.code !== 'commander.helpDisplayed' && err.code !== 'commander.help' && err.code !== 'commander.version') {
+      const message = normalizeCommanderMessage(err.message ?? '');
+      if (message.length > 0) {
+        print(failure('CLI_USAGE_ERROR', message, { commanderCode: err.code }));
+      }
+    }
+  } finally {
+    setResponseListener(undefined);
+    // Commands set the process config from their options; restore the session's
+    setConfig(session.config);
+  }
+  return response;
+}
+
+function printVariables(session: ShellSession): void {
+  if (session.variables.size === 0) {
+    console.log('(no variables yet)');
+    return;
+  }
+  for (const [name, value] of session.variables) {
+    const envelope = value as CLIResponse;
+    const summary = envelope.success ? 'ok' : `error ${envelope.error?.code ?? ''}`.trim();
+    console.log(`$${name}`.padEnd(16) + summary);
+  }
+}
+
+/**
+ * Handle shell built-ins; returns false when the line is a CLI command.
+ */
+async function runBuiltin(args: string[], session: ShellSession, rl: Interface): Promise<boolean> {
+  const [name, ...rest] = args;
+  switch (name) {
+    case 'help':
+      if (rest.length > 0) {
+        await runCommand([...rest, '--help'], session);
+      } else {
+        console.log(HELP_TEXT);
+      }
+      return true;
+    case 'vars':
+      printVariables(session);
+      return true;
+    case 'history': {
+      const entries = [...(rl as Interface & { history: string[] }).history].reverse();
+      entries.forEach((entry, index) => console.log(`${String(index + 1).padStart(5)}  ${entry}`));
+      return true;
+    }
+    case 'refresh': {
+      session.concepts = undefined;
+      const concepts = await loadConcepts(session);
+      console.log(`Loaded ${concepts.length} element and view names`);
+      return true;
+    }
+    case 'connect': {
+      if (rest.length !== 1) throw new ArgumentValidationError('Usage: connect <url>');
+      session.config = { ...session.config, baseUrl: rest[0].replace(/\/+$/, '') };
+      session.concepts = undefined;
+      await printConnection(session);
+      return true;
+    }
+    case 'output': {
+      if (rest.length !== 1 || !['json', 'text', 'yaml'].includes(rest[0])) {
+        throw new ArgumentValidationError('Usage: output <json|text|yaml>');
+      }
+      session.config = { ...session.config, output: rest[0] as Config['output'] };
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+async function printConnection(session: ShellSession): Promise<void> {
+  setConfig(session.config);
+  try {
+    const health = await get<{ model?: { name?: string } }>('/health');
+    const model = health.model?.name ? ` (model: ${health.model.name})` : '';
+    console.log(`Connected to ${session.config.baseUrl}${model}`);
+  } catch (err) {
+    console.log(`Server at ${session.config.baseUrl} is not reachable: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function isMutatingCommand(args: string[]): boolean {
+  const path = args.filter((arg) => !arg.startsWith('-')).slice(0, 2).join(' ');
+  return MUTATING_COMMANDS.some((command) => path === command || path.startsWith(`${command} `));
+}
+
+/**
+ * Execute one input line: built-in, or CLI command whose result is stored in variables.
+ */
+async function runLine(line: string, session: ShellSession, rl: Interface): Promise<void> {
+  resetWarnings();
+  const assignment = ASSIGNMENT_PATTERN.exec(line);
+  const target = assignment?.[1];
+  if (target !== undefined && target === 'last') {
+    throw new ArgumentValidationError('$last is set automatically; choose another name');
+  }
+  const args = await expandLine(assignment ? line.slice(assignment[0].length) : line, session);
+  if (args.length === 0) {
+    if (target !== undefined) throw new ArgumentValidationError(`Nothing to assign to $${target}`);
+    return;
+  }
+  if (target === undefined && (await runBuiltin(args, session, rl))) return;
+  if (args[0] === 'shell') throw new ArgumentValidationError('Already in the archicli shell');
+
+  const response = await runCommand(args, session);
+  if (!response) return;
+  session.resultCount++;
+  session.variables.set(String(session.resultCount), response);
+  session.variables.set('last', response);
+  if (target !== undefined) session.variables.set(target, response);
+  if (response.success && isMutatingCommand(args)) session.concepts = undefined;
+}
+
+/**
+ * Start an interactive session with completion, history and result variables.
+ */
+export function shellCommand(createProgram: () => Command): Command {
+  return new Command('shell')
+    .description(
+      'Interactive shell: run archicli commands without the "archicli" prefix while keeping\n' +
+        'the server connection, with tab completion, command history and variables.\n\n' +
+        'COMPLETION: commands, subcommands and options; element and view IDs and @names\n' +
+        '  (fetched from the server on first use; "refresh" re-fetches them).\n' +
+        'VARIABLES: every result is kept as $last and $1, $2, ...; "$name = <command>"\n' +
+        '  also keeps it as $name. Use paths such as $last.data.results[0].id in arguments.\n' +
+        '  @Name or @"Some Name" stands for the ID of the element or view with that name.\n' +
+        'Type "help" in the shell for its own commands (vars, history, connect, output, ...).\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli shell\n' +
+        '  archicli --output text shell\n' +
+        '  archicli shell --history-file ./archicli.history\n\n' +
+        '  archicli> model search --name Portal\n' +
+        '  archicli> model element $last.data.results[0].id\n' +
+        '  archicli> $views = view list\n' +
+        '  archicli> view get @"Application Overview"'
+    )
+    .option('--history-file <path>', `where to keep command history (default: ${DEFAULT_HISTORY_FILE})`)
+    .option('--no-history', 'do not read or write a history file')
+    .option('--history-size <n>', 'number of history entries to keep', '1000')
+    .action(
+      async (options: { historyFile?: string; history: boolean; historySize: string }, cmd: Command) => {
+        let rl: Interface | undefined;
+        try {
+          const historySize = parsePositiveInt(options.historySize, '--history-size');
+          const historyFile = options.history ? resolve(options.historyFile ?? DEFAULT_HISTORY_FILE) : undefined;
+          const session: ShellSession = {
+            config: { ...getConfig() },
+            variables: new Map(),
+            resultCount: 0,
+            createProgram,
+          };
+          const completionProgram = createProgram();
+
+          const input = process.stdin;
+          rl = createInterface({
+            input,
+            output: process.stdout,
+            prompt: 'archicli> ',
+            terminal: input.isTTY === true,
+            history: readHistory(historyFile),
+            historySize,
+            removeHistoryDuplicates: true,
+            completer: (line: string, callback: (err: null | Error, result: [string[], string]) => void) => {
+              const assignment = ASSIGNMENT_PATTERN.exec(line);
+              const commandLine = assignment ? line.slice(assignment[0].length) : line;
+              const complete = (): void =>
+                callback(
+                  null,
+                  completeShellLine(commandLine, {
+                    program: completionProgram,
+                    builtins: BUILTINS,
+                    variables: session.variables,
+                    concepts: session.concepts,
+                  })
+                );
+              if (session.concepts || completionTarget(commandLine, completionProgram) !== 'concepts') {
+                complete();
+                return;
+              }
+              // Completion should degrade to keywords when the server is unreachable
+              loadConcepts(session).then(complete, complete);
+            },
+          });
+          const shell = rl;
+
+          let running = false;
+          shell.on('SIGINT', () => {
+            if (running) {
+              // Commands are not cancellable in-process; leave the shell like a one-shot CLI would
+              shell.close();
+              writeHistory(historyFile, (shell as Interface & { history: string[] }).history);
+              process.exit(130);
+            }
+            shell.write('', { ctrl: true, name: 'u' });
+            process.stdout.write('^C\n');
+            shell.prompt();
+          });
+
+          if (shell.terminal) {
+            await printConnection(session);
+            console.log('Type "help" for shell commands, "exit" or Ctrl-D to leave.');
+          }
+          if (shell.terminal) shell.prompt();
+          for await (const line of shell) {
+            const trimmed = line.trim();
+            if (trimmed === 'exit' || trimmed === 'quit') break;
+            if (trimmed.length > 0 && !trimmed.startsWith('#')) {
+              running = true;
+              try {
+                await runLine(line, session, shell);
+              } catch (err) {
+                if (err instanceof ArgumentValidationError) print(failure(err.code, err.message));
+                else print(failureFromError(err, 'SHELL_ERROR'));
+              } finally {
+                running = false;
+                setConfig(session.config);
+              }
+            }
+            if (shell.terminal) shell.prompt();
+          }
+          writeHistory(historyFile, (shell as Interface & { history: string[] }).history);
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'SHELL_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        } finally {
+          rl?.close();
+        }
+      }
+    );
+}
@@ -1,18 +1,25 @@
 import { Command } from 'commander';
-import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import { validate, detectSchema, SCHEMA_NAMES, type KnownSchema } from '../schemas/registry';
 import {
   buildIdFileRemediation,
   findDuplicateTempIds,
+  getDeclaredTempId,
   loadBom,
   loadIdFilesWithDiagnostics,
+  readBomSource,
   summarizeIdFileCompleteness,
+  withChangeOrigins,
+  withSourceLines,
+  type BomSource,
   type IdFileDiagnostics,
 } from '../utils/bom';
 import { isCommanderError } from '../utils/commander';
-import { print, success, failure } from '../utils/output';
-import { REFERENCE_ID_FIELDS, resolveTempIdsByName } from '../utils/tempIds';
+import { print, success, failure, failureFromError } from '../utils/output';
+import type { CLIResponse } from '../utils/output';
+import { isReportFormat, REPORT_FORMATS, writeReport } from '../utils/reports';
+import type { ReportFinding } from '../utils/reports';
+import { collectTempIdRefs, REFERENCE_ID_FIELDS, resolveTempIdsByName } from '../utils/tempIds';
 
 // Operations intentionally checked after forward-reference validation.
 const PHASE3_OPS = new Set([
@@ -25,7 +32,9 @@ const PHASE3_OPS = new Set([
 // Operations that can introduce new tempIds for later references.
 const PHASE2_TEMPID_CREATORS = new Set([
   'createElement',
+  'createOrGetElement',
   'createRelationship',
+  'createOrGetRelationship',
   'addToView',
   'addConnectionToView',
   'createFolder',
@@ -172,12 +181,9 @@ export async function validateBomSemantics(
   const declaredTempIds = new Map<string, TempIdDeclaration>();
   for (const [index, change] of changes.entries()) {
     const operation = change as BomOperation;
-    if (
-      typeof operation.tempId === 'string' &&
-      operation.tempId.length > 0 &&
-      !declaredTempIds.has(operation.tempId)
-    ) {
-      declaredTempIds.set(operation.tempId, {
+    const tempId = getDeclaredTempId(operation);
+    if (tempId !== undefined && !declaredTempIds.has(tempId)) {
+      declaredTempIds.set(tempId, {
         index,
         op: typeof operation.op === 'string' ? operation.op : 'unknown',
       });
@@ -186,15 +192,10 @@ export async function validateBomSemantics(
 
   if (options.resolveNames) {
     const unresolved = new Set<string>();
-    for (const change of changes) {
-      const operation = change as BomOperation;
-      for (const field of REFERENCE_ID_FIELDS) {
-        const value = operation[field];
-        if (typeof value !== 'string' || isRealId(value)) continue;
-        if (declaredTempIds.has(value)) continue;
-        if (idFileMap[value] !== undefined) continue;
-        unresolved.add(value);
-      }
+    for (const value of collectTempIdRefs(changes)) {
+      if (declaredTempIds.has(value)) continue;
+      if (idFileMap[value] !== undefined) continue;
+      unresolved.add(value);
     }
     if (unresolved.size > 0) {
       await resolveTempIdsByName([...unresolved], idFileMap);
@@ -206,13 +207,22 @@ export async function validateBomSemantics(
   // Validate references against declared/loaded tempIds and execution ordering rules.
   const checkReferences = (operation: BomOperation, opIndex: number): void => {
     const opName = typeof operation.op === 'string' ? operation.op : 'unknown';
-    for (const field of REFERENCE_ID_FIELDS) {
-      const refValue = operation[field];
+    const references: Array<{ path: string; field: (typeof REFERENCE_ID_FIELDS)[number]; refValue: unknown }> =
+      REFERENCE_ID_FIELDS.map((field) => ({ path: field, field, refValue: operation[field] }));
+    // createOrGetRelationship keeps its endpoints inside the create/match specs.
+    for (const specField of ['create', 'match'] as const) {
+      const spec = operation[specField];
+      if (typeof spec !== 'object' || spec === null) continue;
+      for (const field of REFERENCE_ID_FIELDS) {
+        references.push({ path: `${specField}/${field}`, field, refValue: (spec as BomOperation)[field] });
+      }
+    }
+    for (const { path, field, refValue } of references) {
       if (typeof refValue !== 'string' || isRealId(refValue)) continue;
 
       if (!declaredTempIds.has(refValue) && idFileMap[refValue] === undefined) {
         errors.push({
-          path: `/changes/${opIndex}/${field}`,
+          path: `/changes/${opIndex}/${path}`,
           message: `Change ${opIndex} (${opName}): '${field}' references unknown tempId '${refValue}'`,
           hint: buildUnknownTempIdHint(field, options.resolveNames ?? false),
         });
@@ -224,7 +234,7 @@ export async function validateBomSemantics(
         const expectedCreators = expectedVisualTempIdCreators(field);
         if (!expectedCreators.has(declared.op)) {
           errors.push({
-            path: `/changes/${opIndex}/${field}`,
+            path: `/changes/${opIndex}/${path}`,
             message: `Change ${opIndex} (${opName}): '${field}' references non-visual tempId '${refValue}' from ${declared.op}`,
             hint: buildVisualTempIdTypeHint(field, refValue, declared),
           });
@@ -236,7 +246,7 @@ export async function validateBomSemantics(
 
       const declaredForOrdering = declaredTempIds.get(refValue);
       errors.push({
-        path: `/changes/${opIndex}/${field}`,
+        path: `/changes/${opIndex}/${path}`,
         message: `Change ${opIndex} (${opName}): '${field}' references tempId '${refValue}' before it is available`,
         hint: declaredForOrdering
           ? `Declared at /changes/${declaredForOrdering.index} (${declaredForOrdering.op}); reorder operations or pre-resolve via idFiles.`
@@ -252,12 +262,9 @@ export async function validateBomSemantics(
 
     checkReferences(operation, index);
 
-    if (
-      typeof operation.tempId === 'string' &&
-      operation.tempId.length > 0 &&
-      PHASE2_TEMPID_CREATORS.has(opName)
-    ) {
-      availableTempIds.add(operation.tempId);
+    const tempId = getDeclaredTempId(operation);
+    if (tempId !== undefined && PHASE2_TEMPID_CREATORS.has(opName)) {
+      availableTempIds.add(tempId);
     }
   }
 
@@ -341,23 +348,48 @@ export async function validateBomSemantics(
   };
 }
 
+// Checks reported by --report; each becomes a SARIF rule and, when clean, a passing JUnit test case.
+const VERIFY_CHECKS: Record<string, string> = {
+  parse: 'File parses as JSON or YAML',
+  schema: 'File matches the schema',
+  'bom-load': 'Includes, templates, and idFiles entries resolve',
+  'duplicate-tempid': 'Each tempId is declared once',
+  idfiles: 'Declared idFiles load completely',
+  'tempid-reference': 'tempId references resolve in execution order',
+  'connection-direction': 'addConnectionToView endpoints match the relationship direction',
+};
+
+const CONNECTION_DIRECTION_MESSAGE =
+  /\(addConnectionToView\): (sourceVisualId\/targetVisualId are swapped|visual objects do not match)/;
+
+function semanticRuleId(error: SemanticError): string {
+  if (error.message.startsWith('Duplicate tempId')) return 'duplicate-tempid';
+  if (CONNECTION_DIRECTION_MESSAGE.test(error.message)) return 'connection-direction';
+  return 'tempid-reference';
+}
+
 /**
  * Validate schema (and optionally semantics) for JSON payloads before apply.
  */
 export function verifyCommand(): Command {
   return new Command('verify')
     .description(
-      'Validate a JSON file against a known schema before sending to the server.\n\n' +
+      'Validate a JSON or YAML file against a known schema before sending to the server.\n\n' +
         'Run this before "batch apply" to catch authoring errors (missing required\n' +
         'fields, unknown operation types, invalid structure) without touching the model.\n\n' +
         'Use --semantic for tempId reference preflight.\n' +
         'Use --resolve-names with --semantic to mirror batch apply name resolution for concept IDs.\n' +
         'Name lookup cannot reconstruct visual IDs (sourceVisualId/targetVisualId).\n\n' +
+        'Errors include the JSON Pointer and the line number in the source file.\n' +
+        'Files named *.yaml or *.yml are parsed as YAML.\n\n' +
+        'REPORTS: --report sarif|junit renders every finding (file, line, JSON Pointer) for CI\n' +
+        'and code review. It replaces the JSON output on stdout; add --report-file <path>\n' +
+        'to write it to a file and keep the JSON output.\n\n' +
         'Schema is auto-detected from file structure if --schema is omitted.\n' +
         'Available schemas: ' +
         SCHEMA_NAMES.join(', ')
     )
-    .argument('<file>', 'path to JSON file to validate')
+    .argument('<file>', 'path to JSON or YAML file to validate')
     .option(
       '-s, --schema <schema>',
       `schema to validate against (${SCHEMA_NAMES.join('|')}); auto-detected if omitted`
@@ -372,6 +404,8 @@ export function verifyCommand(): Command {
       '--allow-incomplete-idfiles',
       'allow semantic validation to continue when declared idFiles are missing or malformed'
     )
+    .option('--report <format>', 'also produce a sarif or junit report of all findings')
+    .option('--report-file <path>', 'write the --report to this file (default: stdout, replacing the JSON output)')
     .action(
       async (
         file: string,
@@ -381,21 +415,69 @@ export function verifyCommand(): Command {
           preflight?: boolean;
           resolveNames?: boolean;
           allowIncompleteIdfiles?: boolean;
+          report?: string;
+          reportFile?: string;
         },
         cmd: Command
       ) => {
+        const checks: string[] = [];
+        const findings: ReportFinding[] = [];
+        const report = options.report;
+        // Every outcome goes through here so the report and the envelope always agree.
+        const finish = (response: CLIResponse): void => {
+          if (report && isReportFormat(report)) {
+            const rules = checks.map((id) => ({ id, description: VERIFY_CHECKS[id] }));
+            writeReport(report, { command: 'verify', rules, findings }, options.reportFile);
+            if (options.reportFile) print(response);
+          } else {
+            print(response);
+          }
+          if (!response.success) cmd.error('', { exitCode: 1 });
+        };
+        const addFindings = (
+          ruleId: string,
+          errors: Array<{ path: string; message: string; hint?: string; file?: string; line?: number }>
+        ): void => {
+          for (const error of errors) {
+            findings.push({
+              ruleId,
+              level: 'error',
+              message: error.message,
+              hint: error.hint,
+              file: error.file ?? file,
+              line: error.line,
+              pointer: error.path,
+            });
+          }
+        };
+
         try {
+          if (report !== undefined && !isReportFormat(report)) {
+            print(failure('INVALID_ARGUMENT', `--report must be one of ${REPORT_FORMATS.join(', ')}, got '${report}'`));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          if (options.reportFile && !report) {
+            print(failure('INVALID_ARGUMENT', '--report-file requires --report'));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+
           const resolvedFile = resolve(file);
-          const content = readFileSync(resolvedFile, 'utf-8');
-          let data: unknown;
+          let source: BomSource;
+          checks.push('parse');
           try {
-            data = JSON.parse(content);
+            source = readBomSource(resolvedFile);
           } catch (err) {
-            print(failure('PARSE_ERROR', `Not valid JSON: ${String(err)}`));
-            cmd.error('', { exitCode: 1 });
+            const message = err instanceof Error ? err.message : String(err);
+            if (!/^Invalid (JSON|YAML) in BOM file/.test(message)) throw err;
+            findings.push({ ruleId: 'parse', level: 'error', message, file });
+            finish(failure('PARSE_ERROR', message));
             return;
           }
+          const data = source.data;
 
+          checks.push('schema');
           let schema = options.schema as KnownSchema | undefined;
           if (!schema) {
             schema = detectSchema(data);
@@ -406,12 +488,15 @@ export function verifyCommand(): Command {
                 hint += ' Hint: BOM files require a top-level "version" field set to "1.0" for auto-detection.';
               } else if (obj.version !== '1.0') {
                 hint += ` Hint: BOM "version" must be "1.0", found "${obj.version}".`;
+                if (typeof obj.version === 'number') {
+                  hint += ' In YAML, quote it: version: "1.0".';
+                }
               } else if (!obj.changes && !obj.includes) {
                 hint += ' Hint: BOM files require either a "changes" array or an "includes" array.';
               }
               hint += ' Use --schema to specify one of: ' + SCHEMA_NAMES.join(', ');
-              print(failure('SCHEMA_UNKNOWN', hint));
-              cmd.error('', { exitCode: 1 });
+              findings.push({ ruleId: 'schema', level: 'error', message: hint, file });
+              finish(failure('SCHEMA_UNKNOWN', hint));
               return;
             }
           }
@@ -429,45 +514,55 @@ export function verifyCommand(): Command {
 
           const schemaValidation = validate(schema, data);
           if (!schemaValidation.valid) {
-            print(
+            const errors = withSourceLines(schemaValidation.errors, source);
+            addFindings('schema', errors);
+            finish(
               failure('VALIDATION_FAILED', 'File failed schema validation', {
                 file,
                 schema,
-                errors: schemaValidation.errors,
+                errors,
               })
             );
-            cmd.error('', { exitCode: 1 });
             return;
           }
 
           let bomOpCount = 0;
           if (schema === 'bom') {
             let loaded;
+            checks.push('bom-load');
             try {
               loaded = loadBom(resolvedFile);
               bomOpCount = loaded.changes.length;
             } catch (err) {
-              print(failure('INVALID_BOM', String(err)));
-              cmd.error('', { exitCode: 1 });
+              findings.push({
+                ruleId: 'bom-load',
+                level: 'error',
+                message: err instanceof Error ? err.message : String(err),
+                file,
+              });
+              finish(failure('INVALID_BOM', String(err)));
               return;
             }
 
+            checks.push('duplicate-tempid');
             const duplicateTempIdErrors = findDuplicateTempIds(loaded.changes);
             if (duplicateTempIdErrors.length > 0) {
-              print(
+              const errors = withChangeOrigins(duplicateTempIdErrors, loaded);
+              addFindings('duplicate-tempid', errors);
+              finish(
                 failure('VALIDATION_FAILED', 'Duplicate tempIds found', {
                   file,
                   schema,
                   checkedOperations: loaded.changes.length,
-                  errors: duplicateTempIdErrors,
+                  errors,
                 })
               );
-              cmd.error('', { exitCode: 1 });
               return;
             }
 
             const runSemantic = Boolean(options.semantic || options.preflight);
             if (runSemantic) {
+              checks.push('idfiles', 'tempid-reference', 'connection-direction');
               const semanticResult = await validateBomSemantics(loaded.changes, loaded.idFilePaths, {
                 resolveNames: options.resolveNames,
               });
@@ -477,7 +572,15 @@ export function verifyCommand(): Command {
                   semanticResult.idFiles,
                   `archicli verify "${file}" --semantic`
                 );
-                print(
+                for (const path of [...remediation.missingPaths, ...remediation.malformedPaths]) {
+                  findings.push({
+                    ruleId: 'idfiles',
+                    level: 'error',
+                    message: `Declared idFile could not be loaded: ${path}`,
+                    file,
+                  });
+                }
+                finish(
                   failure(
                     'IDFILES_INCOMPLETE',
                     'Declared idFiles could not be fully loaded; semantic validation is incomplete',
@@ -494,12 +597,13 @@ export function verifyCommand(): Command {
                     }
                   )
                 );
-                cmd.error('', { exitCode: 1 });
                 return;
               }
 
               if (!semanticResult.valid) {
-                print(
+                const errors = withChangeOrigins(semanticResult.errors, loaded);
+                for (const error of errors) addFindings(semanticRuleId(error), [error]);
+                finish(
                   failure('SEMANTIC_VALIDATION_FAILED', 'BOM failed semantic preflight checks', {
                     file,
                     schema,
@@ -507,14 +611,13 @@ export function verifyCommand(): Command {
                     resolveNames: semanticResult.resolveNames,
                     idFilesLoaded: semanticResult.idFilesLoaded,
                     idFiles: semanticResult.idFiles,
-                    errors: semanticResult.errors,
+                    errors,
                   })
                 );
-                cmd.error('', { exitCode: 1 });
                 return;
               }
 
-              print(
+              finish(
                 success({
                   file,
                   schema,
@@ -534,10 +637,10 @@ export function verifyCommand(): Command {
           if (bomOpCount > 0) {
             output['operations'] = bomOpCount;
           }
-          print(success(output));
+          finish(success(output));
         } catch (err) {
           if (isCommanderError(err)) throw err;
-          print(failure('VERIFY_ERROR', String(err)));
+          print(failureFromError(err, 'VERIFY_ERROR'));
           cmd.error('', { exitCode: 1 });
         }
       }
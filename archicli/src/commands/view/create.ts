@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { post } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 
 // Valid ArchiMate viewpoints (from ArchiMate 3.2 specification)
 const VALID_VIEWPOINTS = new Set([
@@ -79,7 +79,7 @@ export function viewCreateCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('VIEW_CREATE_FAILED', String(err)));
+        print(failureFromError(err, 'VIEW_CREATE_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { del } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * Delete a view by persistent concept ID.
@@ -16,7 +16,7 @@ export function viewDeleteCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('VIEW_DELETE_FAILED', String(err)));
+        print(failureFromError(err, 'VIEW_DELETE_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -1,13 +1,16 @@
 import { Command } from 'commander';
-import { existsSync, mkdirSync } from 'fs';
-import { resolve, join } from 'path';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve, join } from 'path';
 import { get, post } from '../../utils/api';
 import { ArgumentValidationError, parseBoundedFloat, parseNonNegativeInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { fetchResolvedView } from '../../utils/viewSource';
+import { isTextViewFormat, renderViewText, TEXT_VIEW_EXTENSIONS, TEXT_VIEW_FORMATS } from '../../utils/viewText';
+import type { TextViewFormat } from '../../utils/viewText';
 
 // Keep generated filenames filesystem-safe across supported platforms.
-function sanitizeFilename(name: string): string {
+export function sanitizeFilename(name: string): string {
   return name.replace(/[<>:"/\\|?*]+/g, '_').replace(/\s+/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
 }
 
@@ -65,23 +68,52 @@ async function exportSingleView(
   return await post(`/views/${encodeURIComponent(id)}/export`, body);
 }
 
+/**
+ * Translate a single view into a text diagram language on the client.
+ */
+async function exportTextView(
+  id: string,
+  format: TextViewFormat,
+  outputPath: string | undefined,
+): Promise<Record<string, unknown>> {
+  const { view, conceptTypes } = await fetchResolvedView(id);
+  const rendered = renderViewText(format, view, conceptTypes);
+  const filePath = outputPath
+    ?? join(process.cwd(), `${sanitizeFilename(view.name) || view.id}.${TEXT_VIEW_EXTENSIONS[format]}`);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, rendered.text, 'utf-8');
+  return {
+    viewId: view.id,
+    viewName: view.name,
+    format,
+    filePath,
+    nodes: rendered.nodes,
+    connections: rendered.connections,
+  };
+}
+
 /**
  * Export one view or bulk-export all views.
  */
 export function viewExportCommand(): Command {
   return new Command('export')
     .description(
-      'Export a view to an image file (PNG, JPEG, or JPG).\n\n' +
+      'Export a view to an image file (PNG, JPEG, or JPG) or a text diagram\n' +
+      '(mermaid, plantuml, or dot).\n\n' +
+      'Images come from Archi\'s exporter on the server. Text formats are translated\n' +
+      'on the client from "view get" (elements, nesting, connections) and written as\n' +
+      '.mmd, .puml, or .dot; they do not accept --scale or --margin.\n\n' +
       'Use --all to export every view in the model at once.\n' +
       '--scale must be between 0.5 and 4.0.\n' +
       '--margin must be a non-negative integer.\n\n' +
       'EXAMPLES:\n' +
       '  archicli view export <id>                         # export single view\n' +
       '  archicli view export --all --dir ./exports         # export all views\n' +
-      '  archicli view export --all --scale 2 --format png  # all views at 2x scale'
+      '  archicli view export --all --scale 2 --format png  # all views at 2x scale\n' +
+      '  archicli view export <id> --format mermaid -o docs/overview.mmd'
     )
     .argument('[id]', 'view ID to export (required unless --all is set)')
-    .option('-f, --format <format>', 'image format: PNG, JPEG, or JPG', 'PNG')
+    .option('-f, --format <format>', 'PNG, JPEG, JPG, mermaid, plantuml, or dot', 'PNG')
     .option('-o, --file <path>', 'output file path (default: <viewName>.<format> in current directory)')
     .option('--output-file <path>', 'alias for --file')
     .option('-s, --scale <n>', 'image scale factor (0.5 to 4)')
@@ -105,11 +137,20 @@ export function viewExportCommand(): Command {
       try {
         const validFormats = ['PNG', 'JPEG', 'JPG'];
         const fmt = options.format.toUpperCase();
-        if (!validFormats.includes(fmt)) {
-          print(failure('INVALID_FORMAT', `Invalid format '${fmt}'. Valid formats: ${validFormats.join(', ')}`));
+        const textFormat = isTextViewFormat(options.format.toLowerCase())
+          ? options.format.toLowerCase() as TextViewFormat
+          : undefined;
+        if (!validFormats.includes(fmt) && !textFormat) {
+          print(failure(
+            'INVALID_FORMAT',
+            `Invalid format '${options.format}'. Valid formats: ${[...validFormats, ...TEXT_VIEW_FORMATS].join(', ')}`
+          ));
           cmd.error('', { exitCode: 1 });
           return;
         }
+        if (textFormat && (options.scale !== undefined || options.margin !== undefined)) {
+          throw new ArgumentValidationError('--scale and --margin only apply to image formats');
+        }
 
         const scale = options.scale !== undefined
           ? parseBoundedFloat(options.scale, '--scale', 0.5, 4.0)
@@ -120,7 +161,9 @@ export function viewExportCommand(): Command {
 
         // --all mode: export every view
         if (options.all) {
-          const ext = fmt.toLowerCase() === 'jpeg' ? 'jpg' : fmt.toLowerCase();
+          const ext = textFormat
+            ? TEXT_VIEW_EXTENSIONS[textFormat]
+            : fmt.toLowerCase() === 'jpeg' ? 'jpg' : fmt.toLowerCase();
           const outDir = resolve(options.dir ?? process.cwd());
           if (!existsSync(outDir)) {
             mkdirSync(outDir, { recursive: true });
@@ -150,7 +193,9 @@ export function viewExportCommand(): Command {
               : view.id;
             const outputPath = join(outDir, `${viewName}_${idSuffix}.${ext}`);
             try {
-              const data = await exportSingleView(view.id, fmt, outputPath, scale, margin) as Record<string, unknown>;
+              const data = textFormat
+                ? await exportTextView(view.id, textFormat, outputPath)
+                : await exportSingleView(view.id, fmt, outputPath, scale, margin) as Record<string, unknown>;
               const savedPath = typeof data.filePath === 'string' ? data.filePath : outputPath;
               results.push({ viewId: view.id, name: view.name, filePath: savedPath, status: 'ok' });
             } catch (err) {
@@ -199,7 +244,7 @@ export function viewExportCommand(): Command {
         let outputPath: string | undefined;
         if (filePath) {
           outputPath = resolve(process.cwd(), filePath);
-        } else {
+        } else if (!textFormat) {
           // Default to <viewName>.<format> in cwd
           try {
             const viewData = await get(`/views/${encodeURIComponent(id)}`) as Record<string, unknown>;
@@ -213,7 +258,9 @@ export function viewExportCommand(): Command {
           }
         }
 
-        const data = await exportSingleView(id, fmt, outputPath, scale, margin);
+        const data = textFormat
+          ? await exportTextView(id, textFormat, outputPath)
+          : await exportSingleView(id, fmt, outputPath, scale, margin);
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
@@ -222,7 +269,7 @@ export function viewExportCommand(): Command {
           cmd.error('', { exitCode: 1 });
           return;
         }
-        print(failure('VIEW_EXPORT_FAILED', String(err)));
+        print(failureFromError(err, 'VIEW_EXPORT_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * Fetch a full view payload including visual objects and connections.
@@ -21,7 +21,7 @@ export function viewGetCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('VIEW_GET_FAILED', String(err)));
+        print(failureFromError(err, 'VIEW_GET_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
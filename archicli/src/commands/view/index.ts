@@ -3,6 +3,7 @@ import { viewListCommand } from './list';
 import { viewGetCommand } from './get';
 import { viewCreateCommand } from './create';
 import { viewExportCommand } from './export';
+import { viewRenderCommand } from './render';
 import { viewDeleteCommand } from './delete';
 import { viewLayoutCommand } from './layout';
 
@@ -28,6 +29,7 @@ export function viewCommand(): Command {
     .addCommand(viewGetCommand())
     .addCommand(viewCreateCommand())
     .addCommand(viewExportCommand())
+    .addCommand(viewRenderCommand())
     .addCommand(viewDeleteCommand())
     .addCommand(viewLayoutCommand());
 }
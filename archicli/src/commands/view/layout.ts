@@ -2,7 +2,7 @@ import { Command } from 'commander';
 import { post } from '../../utils/api';
 import { ArgumentValidationError, parseNonNegativeInt } from '../../utils/args';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failure, failureFromError } from '../../utils/output';
 
 /**
  * Run server-side auto-layout for a single view.
@@ -69,7 +69,7 @@ export function viewLayoutCommand(): Command {
             cmd.error('', { exitCode: 1 });
             return;
           }
-          print(failure('VIEW_LAYOUT_FAILED', String(err)));
+          print(failureFromError(err, 'VIEW_LAYOUT_FAILED'));
           cmd.error('', { exitCode: 1 });
         }
       }
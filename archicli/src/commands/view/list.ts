@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { get } from '../../utils/api';
 import { isCommanderError } from '../../utils/commander';
-import { print, success, failure } from '../../utils/output';
+import { print, success, failureFromError } from '../../utils/output';
 
 /**
  * Retrieve all views from the current model.
@@ -15,7 +15,7 @@ export function viewListCommand(): Command {
         print(success(data));
       } catch (err) {
         if (isCommanderError(err)) throw err;
-        print(failure('VIEW_LIST_FAILED', String(err)));
+        print(failureFromError(err, 'VIEW_LIST_FAILED'));
         cmd.error('', { exitCode: 1 });
       }
     });
@@ -0,0 +1,85 @@
+import { Command } from 'commander';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { ArgumentValidationError, parseNonNegativeInt } from '../../utils/args';
+import { isCommanderError } from '../../utils/commander';
+import { loadModelSnapshot } from '../../utils/modelSnapshot';
+import { print, success, failure, failureFromError } from '../../utils/output';
+import { renderViewSvg } from '../../utils/viewRender';
+import { fetchResolvedView, resolveSnapshotView } from '../../utils/viewSource';
+import type { ResolvedView } from '../../utils/viewSource';
+import { sanitizeFilename } from './export';
+
+/**
+ * Render a view to SVG on the client, from the live model or a snapshot file.
+ */
+export function viewRenderCommand(): Command {
+  return new Command('render')
+    .description(
+      'Render a view to an SVG file locally, without Archi\'s image exporter.\n\n' +
+        'Uses the bounds, nesting, and connections from "view get" (or a file written by\n' +
+        '"model snapshot") and draws ArchiMate-style shapes, layer colors, and relationship\n' +
+        'arrowheads. Fill, line, and font colors set on the view take precedence.\n' +
+        'With --snapshot no running Archi server is needed.\n\n' +
+        'Diagram-only features (bendpoints, icons, images, fonts) are not reproduced;\n' +
+        'use "view export" for a pixel-exact image.\n\n' +
+        'EXAMPLES:\n' +
+        '  archicli view render <id>                                   # <viewName>.svg in cwd\n' +
+        '  archicli view render <id> --file docs/overview.svg --margin 20\n' +
+        '  archicli view render <id> --snapshot model.snapshot.json'
+    )
+    .argument('<id>', 'view ID to render')
+    .option('-o, --file <path>', 'output file path (default: <viewName>.svg in current directory)')
+    .option('-m, --margin <n>', 'margin in pixels (default: 10)')
+    .option('--snapshot <file>', 'read the view from a file written by "model snapshot" instead of the live model')
+    .action(
+      async (id: string, options: { file?: string; margin?: string; snapshot?: string }, cmd: Command) => {
+        try {
+          const margin = options.margin !== undefined ? parseNonNegativeInt(options.margin, '--margin') : undefined;
+
+          let resolved: ResolvedView;
+          if (options.snapshot) {
+            let snapshot;
+            try {
+              snapshot = loadModelSnapshot(resolve(options.snapshot));
+            } catch (err) {
+              throw new ArgumentValidationError(err instanceof Error ? err.message : String(err));
+            }
+            resolved = resolveSnapshotView(snapshot, id);
+          } else {
+            resolved = await fetchResolvedView(id);
+          }
+
+          const { view, conceptTypes } = resolved;
+          const rendered = renderViewSvg(view, conceptTypes, { margin });
+          const outputPath = options.file
+            ? resolve(options.file)
+            : join(process.cwd(), `${sanitizeFilename(view.name) || view.id}.svg`);
+          mkdirSync(dirname(outputPath), { recursive: true });
+          writeFileSync(outputPath, rendered.svg, 'utf-8');
+
+          print(
+            success({
+              file: outputPath,
+              viewId: view.id,
+              name: view.name,
+              source: options.snapshot ? resolve(options.snapshot) : 'live',
+              width: rendered.width,
+              height: rendered.height,
+              nodes: rendered.nodes,
+              connections: rendered.connections,
+            })
+          );
+        } catch (err) {
+          if (isCommanderError(err)) throw err;
+          if (err instanceof ArgumentValidationError) {
+            print(failure(err.code, err.message));
+            cmd.error('', { exitCode: 1 });
+            return;
+          }
+          print(failureFromError(err, 'VIEW_RENDER_FAILED'));
+          cmd.error('', { exitCode: 1 });
+        }
+      }
+    );
+}
@@ -1,5 +1,7 @@
 import { Command } from 'commander';
 import { setConfig } from './utils/config';
+import { applyProfileDefaults, findCliConfig, loadCliConfig, requestedProfileName, selectProfile } from './utils/profiles';
+import type { ActiveProfile } from './utils/profiles';
 import { healthCommand } from './commands/health';
 
 // Read version from package.json so it stays in sync with archi-server releases
@@ -11,9 +13,14 @@ import { viewCommand } from './commands/view/index';
 import { opsCommand } from './commands/ops/index';
 import { completionCommand } from './commands/completion';
 import { folderCommand } from './commands/folder/index';
+import { importCommand } from './commands/import/index';
 import { idsCommand } from './commands/ids';
+import { configCommand } from './commands/config/index';
+import { eventsCommand } from './commands/events/index';
 import { doctorCommand } from './commands/doctor';
 import { initCommand } from './commands/init';
+import { lintCommand } from './commands/lint';
+import { shellCommand } from './commands/shell';
 
 /**
  * Build the root Commander program with global options and all subcommands.
@@ -53,7 +60,12 @@ export function createProgram(): Command {
         '  In json mode, command/usage failures are JSON envelopes.\n' +
         '  In text mode, usage failures are plain text. Exit code 1 on error.\n' +
         '  Use --quiet to suppress non-essential success output.\n' +
-        'ENV: Set ARCHI_BASE_URL to override the default server URL.'
+        'PROFILES: archicli.config.json or .archiclirc (nearest parent directory, then home)\n' +
+        '  holds named profiles (base URL, output, chunk size, idFiles, layout defaults).\n' +
+        '  Select one with --profile or ARCHICLI_PROFILE; see "archicli config list".\n' +
+        'AUTH: If the server was started with ARCHI_API_TOKEN, pass the same token with\n' +
+        '  --token or ARCHI_API_TOKEN. Rejected requests fail with code UNAUTHORIZED.\n' +
+        'ENV: Set ARCHI_BASE_URL to override the default server URL (and the profile\'s).'
     )
     .version(pkg.version)
     .option('-u, --base-url <url>', 'Archi server base URL', process.env['ARCHI_BASE_URL'] ?? 'http://127.0.0.1:8765')
@@ -61,24 +73,57 @@ export function createProgram(): Command {
     .option('-q, --quiet', 'suppress non-essential success output')
     .option('-v, --verbose', 'enable verbose HTTP logging')
     .option('-w, --wide', 'disable column truncation (only affects --output text)')
-    .hook('preAction', (_thisCommand, actionCommand) => {
+    .option('--profile <name>', 'use a named profile from archicli.config.json / .archiclirc (env: ARCHICLI_PROFILE)')
+    .option('--token <token>', 'API token for servers that require one (env: ARCHI_API_TOKEN)')
+    .hook('preAction', (thisCommand, actionCommand) => {
       const opts = actionCommand.optsWithGlobals<{
         baseUrl: string;
         output: string;
         quiet?: boolean;
         verbose?: boolean;
         wide?: boolean;
+        profile?: string;
+        token?: string;
       }>();
-      if (!['json', 'text', 'yaml'].includes(opts.output)) {
-        actionCommand.error(`Unknown output format '${opts.output}'. Valid formats: json, text, yaml`);
+
+      // "config" commands load the file themselves so they can report and repair problems.
+      const requested = requestedProfileName(opts.profile);
+      let profile: ActiveProfile | undefined;
+      if (actionCommand.parent?.name() !== 'config') {
+        const configFile = findCliConfig();
+        if (configFile) {
+          try {
+            profile = selectProfile(loadCliConfig(configFile), configFile, requested);
+          } catch (err) {
+            actionCommand.error(err instanceof Error ? err.message : String(err));
+          }
+        } else if (requested !== undefined) {
+          actionCommand.error(`Profile '${requested}' requested but no archicli.config.json or .archiclirc was found`);
+        }
+      }
+
+      // Flags and ARCHI_BASE_URL win over the profile, which wins over built-in defaults.
+      let baseUrl = opts.baseUrl;
+      if (thisCommand.getOptionValueSource('baseUrl') === 'default' && !process.env['ARCHI_BASE_URL']) {
+        baseUrl = profile?.settings.baseUrl ?? baseUrl;
+      }
+      let output = opts.output;
+      if (thisCommand.getOptionValueSource('output') === 'default') {
+        output = profile?.settings.output ?? output;
+      }
+      if (!['json', 'text', 'yaml'].includes(output)) {
+        actionCommand.error(`Unknown output format '${output}'. Valid formats: json, text, yaml`);
       }
       setConfig({
-        baseUrl: opts.baseUrl,
-        output: opts.output as 'json' | 'text' | 'yaml',
+        baseUrl,
+        output: output as 'json' | 'text' | 'yaml',
         quiet: opts.quiet ?? false,
         verbose: opts.verbose ?? false,
         wide: opts.wide ?? false,
+        profile: profile?.name ?? requested,
+        token: opts.token || process.env['ARCHI_API_TOKEN'] || undefined,
       });
+      if (profile) applyProfileDefaults(actionCommand, profile);
     });
 
   // Show help when no subcommand given; error on unknown commands
@@ -97,9 +142,14 @@ export function createProgram(): Command {
     .addCommand(viewCommand())
     .addCommand(opsCommand())
     .addCommand(folderCommand())
+    .addCommand(importCommand())
     .addCommand(idsCommand())
+    .addCommand(configCommand())
+    .addCommand(eventsCommand())
     .addCommand(doctorCommand())
     .addCommand(initCommand())
+    .addCommand(lintCommand())
+    .addCommand(shellCommand(createProgram))
     .addCommand(completionCommand());
 
   return program;
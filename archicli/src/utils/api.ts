@@ -12,6 +12,28 @@ export class ApiError extends Error {
   }
 }
 
+/** Error code reported for HTTP 401 responses, in ApiError and in failure envelopes. */
+export const UNAUTHORIZED_CODE = 'UNAUTHORIZED';
+
+/**
+ * Authorization header for the configured API token (empty when no token is set).
+ */
+export function authHeaders(): Record<string, string> {
+  const token = getConfig().token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Build the ApiError for a 401 response, with a hint on how to supply the API token.
+ */
+export function unauthorizedError(serverMessage?: string): ApiError {
+  const reason = serverMessage ?? 'Unauthorized';
+  const hint = getConfig().token
+    ? 'The server rejected the API token; check ARCHI_API_TOKEN or --token.'
+    : 'The server requires an API token; set ARCHI_API_TOKEN or pass --token.';
+  return new ApiError(401, UNAUTHORIZED_CODE, `${reason}. ${hint}`);
+}
+
 /** Maximum retries on HTTP 429 (Too Many Requests). */
 const MAX_429_RETRIES = 5;
 /** Default backoff when no Retry-After header (seconds). */
@@ -61,7 +83,7 @@ async function request<T>(
     try {
       res = await fetch(url, {
         method,
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
       });
     } catch (err) {
@@ -84,6 +106,7 @@ async function request<T>(
 
     if (!res.ok) {
       const err = (data as { error?: { code?: string; message?: string } })?.error;
+      if (res.status === 401) throw unauthorizedError(err?.message);
       throw new ApiError(res.status, err?.code ?? 'UNKNOWN', err?.message ?? `HTTP ${res.status}`);
     }
 
@@ -0,0 +1,464 @@
+import { ARCHIMATE_TYPE_SET, RELATIONSHIP_TYPE_SET } from './archimateTypes';
+import type { ModelConcepts } from './modelData';
+
+// Archi's CSV exporter always quotes every field and terminates rows with CRLF.
+const CSV_LINE_END = '\r\n';
+
+export const ELEMENTS_CSV_HEADER = ['ID', 'Type', 'Name', 'Documentation', 'Specialization'] as const;
+export const RELATIONS_CSV_HEADER = ['ID', 'Type', 'Name', 'Documentation', 'Source', 'Target', 'Specialization'] as const;
+export const PROPERTIES_CSV_HEADER = ['ID', 'Key', 'Value'] as const;
+
+/**
+ * Delimiters Archi's CSV exporter and importer support, keyed by option name.
+ */
+export const CSV_DELIMITERS: Record<string, string> = {
+  comma: ',',
+  semicolon: ';',
+  tab: '\t',
+};
+
+/**
+ * Row type Archi writes for the model itself as the first line of elements.csv.
+ */
+export const ARCHI_CSV_MODEL_TYPE = 'ArchimateModel';
+
+/**
+ * Archi CSV file contents keyed by file role.
+ */
+export interface ArchiCsvFiles {
+  elements: string;
+  relations: string;
+  properties: string;
+}
+
+/**
+ * Convert a CLI concept type (e.g. `application-component`) to Archi's CSV class name
+ * (`ApplicationComponent`). The server derives its kebab-case types from the same
+ * class names, so the mapping is a lossless case conversion.
+ */
+export function toArchiCsvType(type: string): string {
+  return type
+    .split('-')
+    .filter((part) => part.length > 0)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Convert an Archi CSV class name (e.g. `ServingRelationship`) to the CLI concept type.
+ */
+export function fromArchiCsvType(type: string): string {
+  return type.trim().replace(/([A-Z])/g, (match, letter: string, offset: number) =>
+    (offset > 0 ? '-' : '') + letter.toLowerCase()
+  );
+}
+
+/**
+ * Quote a single field the way Archi does: always wrapped, embedded quotes doubled.
+ */
+export function quoteCsvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Serialize one CSV row (without line terminator).
+ */
+export function formatCsvRow(values: ReadonlyArray<string>, delimiter = ','): string {
+  return values.map(quoteCsvField).join(delimiter);
+}
+
+function formatCsvFile(header: ReadonlyArray<string>, rows: string[][], delimiter: string): string {
+  return [header, ...rows].map((row) => formatCsvRow(row, delimiter) + CSV_LINE_END).join('');
+}
+
+/**
+ * Build Archi-compatible elements.csv, relations.csv and properties.csv contents.
+ */
+export function buildArchiCsvFiles(concepts: ModelConcepts, delimiter = ','): ArchiCsvFiles {
+  const elementRows: string[][] = [
+    [concepts.model.id, ARCHI_CSV_MODEL_TYPE, concepts.model.name, '', ''],
+    ...concepts.elements.map((element) => [
+      element.id,
+      toArchiCsvType(element.type),
+      element.name,
+      element.documentation,
+      '',
+    ]),
+  ];
+
+  const relationRows = concepts.relationships.map((relationship) => [
+    relationship.id,
+    toArchiCsvType(relationship.type),
+    relationship.name,
+    relationship.documentation,
+    relationship.sourceId,
+    relationship.targetId,
+    '',
+  ]);
+
+  const propertyRows: string[][] = [];
+  for (const concept of [...concepts.elements, ...concepts.relationships]) {
+    for (const [key, value] of Object.entries(concept.properties)) {
+      propertyRows.push([concept.id, key, value]);
+    }
+  }
+
+  return {
+    elements: formatCsvFile(ELEMENTS_CSV_HEADER, elementRows, delimiter),
+    relations: formatCsvFile(RELATIONS_CSV_HEADER, relationRows, delimiter),
+    properties: formatCsvFile(PROPERTIES_CSV_HEADER, propertyRows, delimiter),
+  };
+}
+
+/**
+ * Parse CSV text into rows of raw field values.
+ * Handles quoted fields, doubled quotes, embedded line breaks, CRLF endings and a UTF-8 BOM.
+ * Each row records the 1-based line it starts on so callers can report precise locations.
+ */
+export function parseCsv(text: string, delimiter = ','): Array<{ line: number; values: string[] }> {
+  const rows: Array<{ line: number; values: string[] }> = [];
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStarted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = (): void => {
+    values.push(field);
+    // Skip blank lines (a single empty unquoted field).
+    if (values.length > 1 || values[0] !== '' || fieldStarted) {
+      rows.push({ line: rowLine, values });
+    }
+    values = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (ch === delimiter) {
+      values.push(field);
+      field = '';
+      fieldStarted = true;
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  if (field.length > 0 || values.length > 0 || fieldStarted) endRow();
+  return rows;
+}
+
+/**
+ * Row-level problem found while converting Archi CSV files.
+ */
+export interface ArchiCsvIssue {
+  file: string;
+  line: number;
+  message: string;
+}
+
+/**
+ * Options controlling how CSV rows become BOM operations.
+ */
+export interface ArchiCsvImportOptions {
+  delimiter?: string;
+  /** Prepended to every CSV ID to form the BOM tempId. */
+  tempIdPrefix?: string;
+  /** Folder path or ID for newly created elements. */
+  folder?: string;
+  /** File names used in issue locations. */
+  fileNames?: { elements: string; relations: string; properties: string };
+}
+
+/**
+ * BOM changes generated from an Archi CSV file set.
+ */
+export interface ArchiCsvImportResult {
+  changes: Array<Record<string, unknown>>;
+  errors: ArchiCsvIssue[];
+  warnings: string[];
+  counts: { elements: number; relationships: number; properties: number };
+}
+
+interface CsvTable {
+  file: string;
+  rows: Array<{ line: number; record: Record<string, string> }>;
+}
+
+/**
+ * Parse a CSV file and key each row by its (case-insensitive) header names.
+ */
+function readCsvTable(
+  file: string,
+  text: string,
+  delimiter: string,
+  required: ReadonlyArray<string>,
+  errors: ArchiCsvIssue[]
+): CsvTable | undefined {
+  let parsed: Array<{ line: number; values: string[] }>;
+  try {
+    parsed = parseCsv(text, delimiter);
+  } catch (err) {
+    errors.push({ file, line: 0, message: err instanceof Error ? err.message : String(err) });
+    return undefined;
+  }
+  if (parsed.length === 0) return { file, rows: [] };
+
+  const header = parsed[0].values.map((name) => name.trim().toLowerCase());
+  const missing = required.filter((name) => !header.includes(name.toLowerCase()));
+  if (missing.length > 0) {
+    errors.push({
+      file,
+      line: parsed[0].line,
+      message: `Missing required column(s): ${missing.join(', ')} (found: ${parsed[0].values.join(', ')})`,
+    });
+    return undefined;
+  }
+
+  const rows = parsed.slice(1).map(({ line, values }) => {
+    const record: Record<string, string> = {};
+    header.forEach((name, index) => {
+      record[name] = values[index] ?? '';
+    });
+    return { line, record };
+  });
+  return { file, rows };
+}
+
+/**
+ * Convert an Archi elements/relations/properties CSV set into BOM changes.
+ *
+ * Elements and relationships become createOrGetElement/createOrGetRelationship with
+ * `onDuplicate: "reuse"`, so re-importing the same inventory is idempotent. Each CSV ID
+ * becomes a tempId (optionally prefixed); references to IDs that are not in the CSV set
+ * are passed through unchanged as existing model IDs. Properties become setProperty ops.
+ */
+export function buildBomChangesFromArchiCsv(
+  files: { elements: string; relations?: string; properties?: string },
+  options: ArchiCsvImportOptions = {}
+): ArchiCsvImportResult {
+  const delimiter = options.delimiter ?? ',';
+  const tempIdPrefix = options.tempIdPrefix ?? '';
+  const fileNames = options.fileNames ?? {
+    elements: 'elements.csv',
+    relations: 'relations.csv',
+    properties: 'properties.csv',
+  };
+  const errors: ArchiCsvIssue[] = [];
+  const warnings: string[] = [];
+  const toTempId = (csvId: string): string => `${tempIdPrefix}${csvId}`;
+
+  const elementTable = readCsvTable(fileNames.elements, files.elements, delimiter, ['ID', 'Type', 'Name'], errors);
+  const relationTable =
+    files.relations === undefined
+      ? { file: fileNames.relations, rows: [] }
+      : readCsvTable(fileNames.relations, files.relations, delimiter, ['ID', 'Type', 'Source', 'Target'], errors);
+  const propertyTable =
+    files.properties === undefined
+      ? { file: fileNames.properties, rows: [] }
+      : readCsvTable(fileNames.properties, files.properties, delimiter, ['ID', 'Key', 'Value'], errors);
+
+  const empty: ArchiCsvImportResult = {
+    changes: [],
+    errors,
+    warnings,
+    counts: { elements: 0, relationships: 0, properties: 0 },
+  };
+  if (!elementTable || !relationTable || !propertyTable) return empty;
+
+  const seenIds = new Map<string, string>();
+  const modelIds = new Set<string>();
+  let specializationCount = 0;
+
+  const claimId = (id: string, file: string, line: number): boolean => {
+    const previous = seenIds.get(id);
+    if (previous !== undefined) {
+      errors.push({ file, line, message: `Duplicate ID '${id}' (first defined at ${previous})` });
+      return false;
+    }
+    seenIds.set(id, `${file}:${line}`);
+    return true;
+  };
+
+  const elementChanges: Array<Record<string, unknown>> = [];
+  for (const { line, record } of elementTable.rows) {
+    const id = record['id'].trim();
+    const rawType = record['type'].trim();
+    if (rawType === ARCHI_CSV_MODEL_TYPE) {
+      if (id) modelIds.add(id);
+      continue;
+    }
+    const type = fromArchiCsvType(rawType);
+    if (!ARCHIMATE_TYPE_SET.has(type) || RELATIONSHIP_TYPE_SET.has(type)) {
+      errors.push({ file: elementTable.file, line, message: `Unknown element type '${rawType}'` });
+      continue;
+    }
+    const name = record['name'];
+    if (name.trim().length === 0) {
+      errors.push({ file: elementTable.file, line, message: `Element '${id || rawType}' has no name` });
+      continue;
+    }
+    if (id && !claimId(id, elementTable.file, line)) continue;
+    if ((record['specialization'] ?? '').trim()) specializationCount++;
+
+    const create: Record<string, unknown> = { type, name };
+    if (id) create.tempId = toTempId(id);
+    if (record['documentation']) create.documentation = record['documentation'];
+    if (options.folder) create.folder = options.folder;
+    elementChanges.push({ op: 'createOrGetElement', create, match: { type, name }, onDuplicate: 'reuse' });
+  }
+
+  interface PendingRelation {
+    line: number;
+    id: string;
+    type: string;
+    name: string;
+    documentation: string;
+    source: string;
+    target: string;
+  }
+  const pendingRelations: PendingRelation[] = [];
+  for (const { line, record } of relationTable.rows) {
+    const id = record['id'].trim();
+    const rawType = record['type'].trim();
+    const type = fromArchiCsvType(rawType);
+    if (!RELATIONSHIP_TYPE_SET.has(type)) {
+      errors.push({ file: relationTable.file, line, message: `Unknown relationship type '${rawType}'` });
+      continue;
+    }
+    const source = record['source'].trim();
+    const target = record['target'].trim();
+    if (!source || !target) {
+      errors.push({ file: relationTable.file, line, message: `Relationship '${id || rawType}' needs both Source and Target` });
+      continue;
+    }
+    if (id && !claimId(id, relationTable.file, line)) continue;
+    if ((record['specialization'] ?? '').trim()) specializationCount++;
+
+    pendingRelations.push({
+      line,
+      id,
+      type,
+      name: record['name'] ?? '',
+      documentation: record['documentation'] ?? '',
+      source,
+      target,
+    });
+  }
+
+  // Relationship IDs declared in this CSV set; endpoints may reference them (relationship-to-relationship).
+  const relationIds = new Set(pendingRelations.map((relation) => relation.id).filter((id) => id.length > 0));
+  const resolveReference = (csvId: string, file: string, line: number): string => {
+    if (seenIds.has(csvId)) return toTempId(csvId);
+    warnings.push(`${file}:${line}: '${csvId}' is not defined in the CSV files; treating it as an existing model ID`);
+    return csvId;
+  };
+
+  // Emit relationships after the ones they connect so tempIds are declared before use.
+  const relationChanges: Array<Record<string, unknown>> = [];
+  const emitted = new Set<string>();
+  let remaining = pendingRelations;
+  while (remaining.length > 0) {
+    const blocked: PendingRelation[] = [];
+    for (const relation of remaining) {
+      const ready = [relation.source, relation.target].every(
+        (ref) => !relationIds.has(ref) || emitted.has(ref) || ref === relation.id
+      );
+      if (!ready) {
+        blocked.push(relation);
+        continue;
+      }
+      const { type } = relation;
+      const sourceId = resolveReference(relation.source, relationTable.file, relation.line);
+      const targetId = resolveReference(relation.target, relationTable.file, relation.line);
+      const create: Record<string, unknown> = { type, sourceId, targetId };
+      if (relation.id) create.tempId = toTempId(relation.id);
+      if (relation.name) create.name = relation.name;
+      if (relation.documentation) create.documentation = relation.documentation;
+      relationChanges.push({
+        op: 'createOrGetRelationship',
+        create,
+        match: { type, sourceId, targetId },
+        onDuplicate: 'reuse',
+      });
+      if (relation.id) emitted.add(relation.id);
+    }
+    if (blocked.length === remaining.length) {
+      for (const relation of blocked) {
+        errors.push({
+          file: relationTable.file,
+          line: relation.line,
+          message: `Relationship '${relation.id}' is part of a relationship reference cycle`,
+        });
+      }
+      break;
+    }
+    remaining = blocked;
+  }
+
+  const propertyChanges: Array<Record<string, unknown>> = [];
+  let modelPropertyCount = 0;
+  for (const { line, record } of propertyTable.rows) {
+    const id = record['id'].trim();
+    const key = record['key'];
+    if (modelIds.has(id)) {
+      modelPropertyCount++;
+      continue;
+    }
+    if (!id || key.trim().length === 0) {
+      errors.push({ file: propertyTable.file, line, message: 'Property rows need both ID and Key' });
+      continue;
+    }
+    propertyChanges.push({
+      op: 'setProperty',
+      id: resolveReference(id, propertyTable.file, line),
+      key,
+      value: record['value'],
+    });
+  }
+
+  if (specializationCount > 0) {
+    warnings.push(`Ignored Specialization on ${specializationCount} row(s); BOM operations cannot assign specializations`);
+  }
+  if (modelPropertyCount > 0) {
+    warnings.push(`Skipped ${modelPropertyCount} model-level propert${modelPropertyCount === 1 ? 'y' : 'ies'}`);
+  }
+
+  return {
+    changes: [...elementChanges, ...relationChanges, ...propertyChanges],
+    errors,
+    warnings,
+    counts: {
+      elements: elementChanges.length,
+      relationships: relationChanges.length,
+      properties: propertyChanges.length,
+    },
+  };
+}
@@ -1,11 +1,22 @@
 import { existsSync, readFileSync } from 'fs';
-import { dirname, relative, resolve } from 'path';
+import { dirname, extname, relative, resolve } from 'path';
+import { LineCounter, parseDocument } from 'yaml';
+import type { Document } from 'yaml';
+import { validate } from '../schemas/registry';
+import { failure, type CLIResponse } from './output';
+import { substituteIds } from './tempIds';
+
+interface BomInclude {
+  path: string;
+  variables?: Record<string, unknown>;
+}
 
 interface BomFile {
   version: string;
   description?: string;
+  variables?: Record<string, unknown>;
   changes?: unknown[];
-  includes?: string[];
+  includes?: Array<string | BomInclude>;
   idFiles?: string[];
 }
 
@@ -52,6 +63,26 @@ export interface IdFileRemediation {
   nextSteps: string[];
 }
 
+/**
+ * A parsed BOM file. Sources track node positions so diagnostics can cite line numbers.
+ */
+export interface BomSource {
+  data: unknown;
+  format: 'json' | 'yaml';
+  /** 1-based line of the value at a JSON Pointer path (nearest existing parent). */
+  lineOf(pointer: string): number | undefined;
+}
+
+/**
+ * Where a flattened change was declared: its file and the JSON Pointer of its template there
+ * (e.g. `/changes/2/changes/0` for an operation inside a forEach block).
+ */
+export interface ChangeOrigin {
+  file: string;
+  pointer: string;
+  source: BomSource;
+}
+
 /**
  * Fully flattened BOM payload and supporting metadata.
  */
@@ -59,6 +90,8 @@ export interface LoadedBom {
   changes: unknown[];
   idFilePaths: string[];
   includedFiles: string[];
+  /** Parallel to `changes`. */
+  origins: ChangeOrigin[];
 }
 
 /**
@@ -72,6 +105,102 @@ function formatPath(filePath: string): string {
   return filePath;
 }
 
+/**
+ * BOMs named *.yaml or *.yml are parsed as YAML; everything else as JSON.
+ */
+export function isYamlBomPath(filePath: string): boolean {
+  const extension = extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml';
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '' || pointer === '/') return [];
+  return pointer
+    .replace(/^\//, '')
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Locate JSON Pointer paths in a YAML document. JSON is valid YAML, so this serves both formats.
+ */
+function positionLookup(doc: Document, lineCounter: LineCounter): (pointer: string) => number | undefined {
+  return (pointer) => {
+    const segments = parsePointer(pointer);
+    for (let depth = segments.length; depth >= 0; depth--) {
+      const node = depth === 0 ? doc.contents : doc.getIn(segments.slice(0, depth), true);
+      const range = (node as { range?: [number, number, number] } | null | undefined)?.range;
+      if (range) return lineCounter.linePos(range[0]).line;
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Read and parse one BOM file (JSON or YAML by extension) without following includes.
+ */
+export function readBomSource(filePath: string): BomSource {
+  const abs = resolve(filePath);
+  if (!existsSync(abs)) {
+    throw new Error(`BOM file not found: ${formatPath(abs)}`);
+  }
+  const content = readFileSync(abs, 'utf-8');
+
+  if (!isYamlBomPath(abs)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(`Invalid JSON in BOM file ${formatPath(abs)}: ${String(err)}`);
+    }
+    // Positions are only needed for diagnostics, so the second parse waits for the first lookup.
+    let lookup: ((pointer: string) => number | undefined) | undefined;
+    return {
+      data,
+      format: 'json',
+      lineOf: (pointer) => {
+        if (!lookup) {
+          const lineCounter = new LineCounter();
+          lookup = positionLookup(parseDocument(content, { lineCounter }), lineCounter);
+        }
+        return lookup(pointer);
+      },
+    };
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (doc.errors.length > 0) {
+    // yaml error messages end with a source excerpt; the first line carries the position.
+    const message = doc.errors[0].message.split('\n')[0];
+    throw new Error(`Invalid YAML in BOM file ${formatPath(abs)}: ${message}`);
+  }
+  return { data: doc.toJS(), format: 'yaml', lineOf: positionLookup(doc, lineCounter) };
+}
+
+/**
+ * Attach source line numbers to diagnostics whose paths point into a single BOM file.
+ */
+export function withSourceLines<T extends { path: string }>(errors: T[], source: BomSource): Array<T & { line?: number }> {
+  return errors.map((error) => {
+    const line = source.lineOf(error.path);
+    return line === undefined ? error : { ...error, line };
+  });
+}
+
+/**
+ * Attach file and line numbers to diagnostics whose `/changes/N` paths index the flattened BOM.
+ */
+export function withChangeOrigins<T extends { path: string }>(errors: T[], loaded: LoadedBom): Array<T & { file?: string; line?: number }> {
+  return errors.map((error) => {
+    const match = /^\/changes\/(\d+)(\/.*)?$/.exec(error.path);
+    const origin = match ? loaded.origins[Number(match[1])] : undefined;
+    if (!origin || !match) return error;
+    const line = origin.source.lineOf(`${origin.pointer}${match[2] ?? ''}`);
+    return line === undefined ? error : { ...error, file: origin.file, line };
+  });
+}
+
 /**
  * Mapping from human-readable accessType strings to integer values.
  */
@@ -113,6 +242,19 @@ export function normalizeAccessTypes(changes: unknown[]): void {
   }
 }
 
+/**
+ * Return the tempId an operation declares, including createOrGet* ops that carry it in `create`.
+ */
+export function getDeclaredTempId(change: unknown): string | undefined {
+  if (typeof change !== 'object' || change === null) return undefined;
+  const tempId = (change as { tempId?: unknown }).tempId;
+  if (typeof tempId === 'string' && tempId.length > 0) return tempId;
+  const create = (change as { create?: unknown }).create;
+  if (typeof create !== 'object' || create === null) return undefined;
+  const nestedTempId = (create as { tempId?: unknown }).tempId;
+  return typeof nestedTempId === 'string' && nestedTempId.length > 0 ? nestedTempId : undefined;
+}
+
 /**
  * Detect duplicate tempIds after BOM includes are flattened.
  */
@@ -120,12 +262,13 @@ export function findDuplicateTempIds(changes: unknown[]): DuplicateTempIdError[]
   const seen = new Map<string, number>();
   const errors: DuplicateTempIdError[] = [];
   for (const [index, change] of changes.entries()) {
-    const tempId = (change as { tempId?: unknown }).tempId;
-    if (typeof tempId !== 'string' || tempId.length === 0) continue;
+    const tempId = getDeclaredTempId(change);
+    if (tempId === undefined) continue;
 
     if (seen.has(tempId)) {
+      const field = (change as { tempId?: unknown }).tempId === tempId ? 'tempId' : 'create/tempId';
       errors.push({
-        path: `/changes/${index}/tempId`,
+        path: `/changes/${index}/${field}`,
         message: `Duplicate tempId '${tempId}' also used at /changes/${seen.get(tempId)}`,
       });
     } else {
@@ -135,21 +278,41 @@ export function findDuplicateTempIds(changes: unknown[]): DuplicateTempIdError[]
   return errors;
 }
 
+/**
+ * Check a BOM that archicli generated (imports, change BOMs, sync plans) with the schema and
+ * duplicate-tempId gates verify uses. Returns the INVALID_BOM failure to print, if any.
+ */
+export function validateGeneratedBom(changes: unknown[], label: string): CLIResponse | undefined {
+  const validation = validate('bom', { version: '1.0', changes });
+  if (!validation.valid) {
+    return failure('INVALID_BOM', `Generated ${label} failed schema validation`, validation.errors);
+  }
+  const duplicateTempIdErrors = findDuplicateTempIds(changes);
+  if (duplicateTempIdErrors.length > 0) {
+    return failure('INVALID_BOM', `Duplicate tempIds found in generated ${label}`, {
+      errors: duplicateTempIdErrors,
+    });
+  }
+  return undefined;
+}
+
 /**
  * Load a BOM recursively, resolving include/idFile paths relative to each file.
  * Includes are depth-first and cycles are rejected with a descriptive path trace.
+ * Each file's `changes` are expanded (variables, include parameters, forEach) as they are flattened.
  */
 export function loadBom(filePath: string): LoadedBom {
   const root = resolve(filePath);
   const state = {
     changes: [] as unknown[],
+    origins: [] as ChangeOrigin[],
     idFilePaths: [] as string[],
     stack: [] as string[],
     inStack: new Set<string>(),
     includedFiles: [] as string[],
   };
 
-  const loadRecursive = (currentPath: string): void => {
+  const loadRecursive = (currentPath: string, parameters: TemplateScope = {}): void => {
     const abs = resolve(currentPath);
     if (state.inStack.has(abs)) {
       const cycleStart = state.stack.indexOf(abs);
@@ -157,22 +320,26 @@ export function loadBom(filePath: string): LoadedBom {
       throw new Error(`Include cycle detected: ${cycle.join(' -> ')}`);
     }
 
-    if (!existsSync(abs)) {
-      throw new Error(`BOM file not found: ${formatPath(abs)}`);
-    }
-
-    let bom: BomFile;
-    try {
-      bom = JSON.parse(readFileSync(abs, 'utf-8')) as BomFile;
-    } catch (err) {
-      throw new Error(`Invalid JSON in BOM file ${formatPath(abs)}: ${String(err)}`);
-    }
+    const source = readBomSource(abs);
+    const bom = (source.data ?? {}) as BomFile;
 
     state.stack.push(abs);
     state.inStack.add(abs);
     state.includedFiles.push(abs);
 
     const dir = dirname(abs);
+    const file = formatPath(abs);
+    const scope: TemplateScope = { ...(bom.variables ?? {}), ...parameters };
+    const expand = <T>(run: () => T): T => {
+      try {
+        return run();
+      } catch (err) {
+        if (!(err instanceof BomTemplateError)) throw err;
+        const line = source.lineOf(err.pointer);
+        const location = line === undefined ? err.pointer : `${err.pointer} (line ${line})`;
+        throw new Error(`Invalid template in BOM file ${file} at ${location}: ${err.message}`);
+      }
+    };
 
     if (Array.isArray(bom.idFiles)) {
       for (const idFile of bom.idFiles) {
@@ -184,16 +351,28 @@ export function loadBom(filePath: string): LoadedBom {
     }
 
     if (Array.isArray(bom.includes)) {
-      for (const includeFile of bom.includes) {
-        if (typeof includeFile !== 'string' || includeFile.trim().length === 0) {
-          throw new Error(`Invalid includes entry in ${formatPath(abs)}: expected a non-empty string`);
+      bom.includes.forEach((include, index) => {
+        const includePath = typeof include === 'string' ? include : include?.path;
+        if (typeof includePath !== 'string' || includePath.trim().length === 0) {
+          throw new Error(
+            `Invalid includes entry in ${formatPath(abs)}: expected a non-empty string or an object with a "path"`
+          );
         }
-        loadRecursive(resolve(dir, includeFile));
-      }
+        // Parameters are interpolated in the including file's scope before they reach the include.
+        const includeParameters =
+          typeof include === 'string' || include.variables === undefined
+            ? {}
+            : expand(() => interpolateValue(include.variables, scope, `/includes/${index}/variables`) as TemplateScope);
+        loadRecursive(resolve(dir, includePath), includeParameters);
+      });
     }
 
     if (Array.isArray(bom.changes)) {
-      state.changes.push(...bom.changes);
+      const changes = bom.changes;
+      for (const { change, pointer } of expand(() => expandChanges(changes, scope))) {
+        state.changes.push(change);
+        state.origins.push({ file, pointer, source });
+      }
     }
 
     state.inStack.delete(abs);
@@ -209,6 +388,7 @@ export function loadBom(filePath: string): LoadedBom {
     changes: state.changes,
     idFilePaths: state.idFilePaths,
     includedFiles: state.includedFiles,
+    origins: state.origins,
   };
 }
 
@@ -308,3 +488,160 @@ export function buildIdFileRemediation(
 
   return { missingPaths, malformedPaths, nextSteps };
 }
+
+// `$${` escapes a literal `${`; anything else inside `${...}` is a variable reference.
+const PLACEHOLDER_PATTERN = /\$\$\{|\$\{([^}]*)\}/g;
+const VARIABLE_REFERENCE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+const LIST_REFERENCE_PATTERN = /^\$\{([^}]*)\}$/;
+
+/**
+ * Variables visible while expanding one BOM file: its own `variables`, include parameters and loop items.
+ */
+export type TemplateScope = Record<string, unknown>;
+
+/**
+ * One operation produced by expansion, with the JSON Pointer of the template it came from.
+ */
+export interface ExpandedChange {
+  change: unknown;
+  pointer: string;
+}
+
+/**
+ * Template problem located by JSON Pointer; `loadBom` adds the file and line.
+ */
+export class BomTemplateError extends Error {
+  constructor(
+    readonly pointer: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BomTemplateError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function lookup(scope: TemplateScope, reference: string, pointer: string): unknown {
+  if (!VARIABLE_REFERENCE_PATTERN.test(reference)) {
+    throw new BomTemplateError(pointer, `invalid variable reference '\${${reference}}'`);
+  }
+  let value: unknown = scope;
+  for (const segment of reference.split('.')) {
+    value = isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, segment) ? value[segment] : undefined;
+  }
+  if (value === undefined || value === null) {
+    throw new BomTemplateError(pointer, `undefined variable '${reference}'`);
+  }
+  return value;
+}
+
+function interpolateString(text: string, scope: TemplateScope, pointer: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match: string, reference: string | undefined) => {
+    if (match === '$${') return '${';
+    const value = lookup(scope, (reference ?? '').trim(), pointer);
+    if (typeof value === 'object') {
+      throw new BomTemplateError(pointer, `variable '${reference}' is a list or object and cannot be inserted into text`);
+    }
+    return String(value);
+  });
+}
+
+/**
+ * Replace `${name}` references in every string value (not keys) of a JSON value.
+ */
+export function interpolateValue(value: unknown, scope: TemplateScope, pointer: string): unknown {
+  if (typeof value === 'string') return interpolateString(value, scope, pointer);
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateValue(item, scope, `${pointer}/${index}`));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = interpolateValue(entry, scope, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`);
+    }
+    return result;
+  }
+  return value;
+}
+
+function isForEachBlock(item: unknown): item is { forEach: unknown; as?: unknown; changes?: unknown } {
+  return isPlainObject(item) && 'forEach' in item;
+}
+
+function resolveList(forEach: unknown, scope: TemplateScope, pointer: string): unknown[] {
+  if (Array.isArray(forEach)) {
+    return interpolateValue(forEach, scope, pointer) as unknown[];
+  }
+  const match = typeof forEach === 'string' ? LIST_REFERENCE_PATTERN.exec(forEach) : null;
+  if (!match) {
+    throw new BomTemplateError(pointer, 'forEach must be a list or a single ${name} reference to a list variable');
+  }
+  const value = lookup(scope, match[1].trim(), pointer);
+  if (!Array.isArray(value)) {
+    throw new BomTemplateError(pointer, `variable '${match[1].trim()}' is not a list`);
+  }
+  return value;
+}
+
+// Suffix appended to loop-local tempIds: the item itself, an object's key/name, or the 1-based position.
+function itemSuffix(item: unknown, index: number): string {
+  let label: unknown = item;
+  if (isPlainObject(item)) label = item.key ?? item.name;
+  const slug =
+    typeof label === 'string' || typeof label === 'number' || typeof label === 'boolean'
+      ? String(label).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+      : '';
+  return slug.length > 0 ? slug : String(index + 1);
+}
+
+function renameDeclaredTempId(change: unknown, renames: Record<string, string>): unknown {
+  const tempId = getDeclaredTempId(change);
+  if (!tempId || !renames[tempId] || !isPlainObject(change)) return change;
+  if (change.tempId === tempId) return { ...change, tempId: renames[tempId] };
+  return { ...change, create: { ...(change.create as Record<string, unknown>), tempId: renames[tempId] } };
+}
+
+/**
+ * Expand `forEach` blocks and interpolate `${name}` references in a `changes` array.
+ *
+ * tempIds that a block's own operations declare without any `${...}` are local to each
+ * iteration: the item suffix is appended to them and to every reference inside the block,
+ * so one template yields distinct concepts per item ('api' -> 'api-orders').
+ */
+export function expandChanges(
+  items: unknown[],
+  scope: TemplateScope,
+  pointer = '/changes'
+): ExpandedChange[] {
+  const expanded: ExpandedChange[] = [];
+  items.forEach((item, index) => {
+    const itemPointer = `${pointer}/${index}`;
+    if (!isForEachBlock(item)) {
+      expanded.push({ change: interpolateValue(item, scope, itemPointer), pointer: itemPointer });
+      return;
+    }
+
+    const list = resolveList(item.forEach, scope, `${itemPointer}/forEach`);
+    const name = typeof item.as === 'string' ? item.as : 'item';
+    const body = Array.isArray(item.changes) ? item.changes : [];
+    const localTempIds = body
+      .filter((child) => !isForEachBlock(child))
+      .map((child) => getDeclaredTempId(child))
+      .filter((tempId): tempId is string => tempId !== undefined && !tempId.includes('${'));
+
+    list.forEach((entry, entryIndex) => {
+      const iteration = expandChanges(body, { ...scope, [name]: entry }, `${itemPointer}/changes`);
+      const suffix = itemSuffix(entry, entryIndex);
+      const renames: Record<string, string> = {};
+      for (const tempId of localTempIds) renames[tempId] = `${tempId}-${suffix}`;
+      for (const { change, pointer: changePointer } of iteration) {
+        const [renamed] = substituteIds([renameDeclaredTempId(change, renames)], renames);
+        expanded.push({ change: renamed, pointer: changePointer });
+      }
+    });
+  });
+  return expanded;
+}
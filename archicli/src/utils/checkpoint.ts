@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, resolve } from 'path';
+
+/**
+ * Bumped whenever the checkpoint layout changes incompatibly.
+ */
+export const APPLY_CHECKPOINT_VERSION = 1;
+
+/**
+ * Operation submitted for one completed chunk.
+ */
+export interface CheckpointOperation {
+  chunk: number;
+  operationId: string | null;
+  status: string;
+}
+
+/**
+ * Progress of a `batch apply` run, written after every completed chunk.
+ */
+export interface ApplyCheckpoint {
+  checkpointVersion: number;
+  bomFile: string;
+  /** SHA-256 of the flattened change list; a resume must apply the same operations. */
+  bomHash: string;
+  chunkSize: number;
+  totalChanges: number;
+  chunks: number;
+  /** 1-based chunk numbers that completed and must not be re-submitted. */
+  completedChunks: number[];
+  tempIdMap: Record<string, string>;
+  operations: CheckpointOperation[];
+  updatedAt: string;
+}
+
+/**
+ * Fingerprint the flattened change list so a checkpoint cannot be resumed against a different BOM.
+ */
+export function hashChanges(changes: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(changes)).digest('hex');
+}
+
+/**
+ * Resolve where the checkpoint for this run is written (default: <file>.checkpoint.json).
+ */
+export function resolveCheckpointPath(file: string, checkpointOption?: string | boolean): string {
+  if (typeof checkpointOption === 'string') {
+    return resolve(checkpointOption);
+  }
+  const sourceFile = resolve(file);
+  return resolve(dirname(sourceFile), basename(sourceFile, extname(sourceFile)) + '.checkpoint.json');
+}
+
+/**
+ * Write a checkpoint atomically (temp file + rename) so a crash mid-write never leaves a torn file.
+ */
+export function writeApplyCheckpoint(filePath: string, checkpoint: ApplyCheckpoint): void {
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(checkpoint, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, filePath);
+}
+
+/**
+ * Load a checkpoint written by `batch apply`, rejecting other JSON and newer layouts.
+ */
+export function loadApplyCheckpoint(filePath: string): ApplyCheckpoint {
+  if (!existsSync(filePath)) {
+    throw new Error(`Checkpoint file not found: ${filePath}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid JSON in checkpoint file ${filePath}: ${String(err)}`);
+  }
+  const checkpoint = parsed as Partial<ApplyCheckpoint> | null;
+  if (
+    typeof checkpoint !== 'object' ||
+    checkpoint === null ||
+    typeof checkpoint.checkpointVersion !== 'number' ||
+    typeof checkpoint.bomHash !== 'string' ||
+    typeof checkpoint.chunkSize !== 'number' ||
+    !Array.isArray(checkpoint.completedChunks) ||
+    typeof checkpoint.tempIdMap !== 'object' ||
+    checkpoint.tempIdMap === null
+  ) {
+    throw new Error(`${filePath} is not a batch apply checkpoint`);
+  }
+  if (checkpoint.checkpointVersion > APPLY_CHECKPOINT_VERSION) {
+    throw new Error(
+      `${filePath} uses checkpoint version ${checkpoint.checkpointVersion}; this archicli reads up to version ${APPLY_CHECKPOINT_VERSION}`
+    );
+  }
+  return { operations: [], ...checkpoint } as ApplyCheckpoint;
+}
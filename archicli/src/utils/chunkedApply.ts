@@ -0,0 +1,503 @@
+import { post, get, ApiError } from './api';
+import { getDeclaredTempId } from './bom';
+import { pollUntilDone, type OperationErrorDetails } from './poll';
+import { NESTED_REFERENCE_SPECS, REFERENCE_ID_FIELDS, substituteIds } from './tempIds';
+import {
+  autoResolveVisualIds,
+  buildElementToVisualMap,
+  buildVisualToElementMap,
+  clearElementCache,
+  clearRelationshipCache,
+  crossValidateConnections,
+  type AutoResolutionResult,
+  type CrossValidationSummary,
+} from './crossValidation';
+
+// Minimal `/model/apply` acknowledgment payload before polling.
+interface ApplyResponse {
+  operationId: string;
+  status: string;
+  message?: string;
+}
+
+// Operation plus original position tracking for duplicate-skip bookkeeping.
+interface ChunkOperation {
+  change: unknown;
+  originalIndexInChunk: number;
+}
+
+/**
+ * Diagnostics for operations skipped due to duplicate/create conflicts.
+ */
+export interface SkippedOperation {
+  chunk: number;
+  of: number;
+  opIndex: number;
+  originalChunkIndex: number;
+  globalIndex: number;
+  op: string;
+  reason: string;
+}
+
+/**
+ * Submission settings for one chunked apply run.
+ */
+export interface ChunkedApplyOptions {
+  chunkSize: number;
+  poll: boolean;
+  pollTimeoutMs?: number;
+  idempotencyKey?: string;
+  duplicateStrategy?: 'error' | 'reuse' | 'rename';
+  skipExisting?: boolean;
+  continueOnError?: boolean;
+  /** Submit no further chunks after the first failed one. */
+  stopOnError?: boolean;
+  validateConnections?: boolean;
+  throttleMs: number;
+  /** Known tempId -> real ID mappings; extended in place as chunks complete. */
+  tempIdMap: Record<string, string>;
+  /** Collects non-fatal warnings raised while applying. */
+  warnings: string[];
+  /** 1-based chunk numbers finished by an earlier run; they are reported but not re-submitted. */
+  completedChunks?: ReadonlySet<number>;
+  /** Called with the ID-substituted operations right before a chunk is submitted. */
+  beforeChunk?: (chunk: number, changes: unknown[]) => Promise<void>;
+  /**
+   * Called after each chunk completes (polled without error, or fully skipped as duplicates)
+   * with the operations that were submitted for it.
+   */
+  onChunkComplete?: (chunk: number, result: Record<string, unknown>, changes: unknown[]) => void;
+}
+
+/**
+ * Per-chunk results plus the bookkeeping callers report back to the user.
+ */
+export interface ChunkedApplyResult {
+  chunks: number;
+  results: Array<Record<string, unknown>>;
+  skippedOperations: SkippedOperation[];
+  hadOperationErrors: boolean;
+  connectionValidationSummaries: CrossValidationSummary[];
+  autoResolutionSummaries: AutoResolutionResult[];
+}
+
+/**
+ * Extract duplicate operation index from server validation error messages.
+ */
+export function parseDuplicateExistingChangeIndex(message: string): number | null {
+  if (!/already exists/i.test(message)) return null;
+  const match = message.match(/Change\s+(\d+)\s+\([^)]+\):/i);
+  if (!match) return null;
+  const value = Number(match[1]);
+  if (!Number.isSafeInteger(value) || value < 0) return null;
+  return value;
+}
+
+/**
+ * Extract existing real ID from duplicate-create validation errors.
+ */
+export function parseExistingIdFromError(message: string): string | null {
+  if (!/already exists/i.test(message)) return null;
+  const match = message.match(/\(id:\s*(\S+)\)\s*$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Whether an operation references one of `tempIds`, at top level or inside the nested
+ * `create`/`match` specs of createOrGet* operations.
+ */
+function referencesTempIds(change: unknown, tempIds: ReadonlySet<string>): boolean {
+  const source = change as Record<string, unknown>;
+  for (const field of REFERENCE_ID_FIELDS.filter((f) => f !== 'id')) {
+    const value = source[field];
+    if (typeof value === 'string' && tempIds.has(value)) {
+      return true;
+    }
+  }
+  return NESTED_REFERENCE_SPECS.some((specField) => {
+    const spec = source[specField];
+    return typeof spec === 'object' && spec !== null && referencesTempIds(spec, tempIds);
+  });
+}
+
+/**
+ * Split a flattened change list into submission-sized chunks.
+ */
+export function splitIntoChunks(changes: unknown[], chunkSize: number): unknown[][] {
+  const chunks: unknown[][] = [];
+  for (let i = 0; i < changes.length; i += chunkSize) {
+    chunks.push(changes.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Build a concise multi-line message for partial chunk failures.
+ */
+export function buildChunkFailureMessage(results: Array<Record<string, unknown>>): string {
+  const failed = results.filter((r) => r.status === 'error');
+  if (failed.length === 0) return 'One or more chunks failed';
+
+  return failed
+    .map((chunk) => {
+      const chunkNo = typeof chunk.chunk === 'number' ? chunk.chunk : '?';
+      const chunkOf = typeof chunk.of === 'number' ? chunk.of : '?';
+      const fallbackMessage =
+        typeof chunk.error === 'string' && chunk.error.length > 0
+          ? chunk.error
+          : 'operation failed';
+      const details = (chunk.errorDetails ?? null) as OperationErrorDetails | null;
+
+      if (!details || typeof details !== 'object') {
+        return `Chunk ${chunkNo}/${chunkOf}: ${fallbackMessage}`;
+      }
+
+      const message =
+        typeof details.message === 'string' && details.message.length > 0
+          ? details.message
+          : fallbackMessage;
+      const opNumber = typeof details.opNumber === 'number' ? details.opNumber : null;
+      const opName = typeof details.op === 'string' && details.op.length > 0 ? details.op : null;
+      const path = typeof details.path === 'string' && details.path.length > 0 ? details.path : null;
+      const refField = typeof details.field === 'string' && details.field.length > 0 ? details.field : null;
+      const refValue =
+        typeof details.reference === 'string' && details.reference.length > 0
+          ? details.reference
+          : null;
+      const hint = typeof details.hint === 'string' && details.hint.length > 0 ? details.hint : null;
+
+      const contextParts: string[] = [];
+      if (opNumber !== null) contextParts.push(`op ${opNumber}`);
+      if (opName) contextParts.push(opName);
+      if (!opNumber && !opName && path) contextParts.push(path);
+
+      const context = contextParts.length > 0 ? `${contextParts.join(' ')}: ` : '';
+      const ref = refField && refValue ? ` (${refField}=${refValue})` : '';
+      const hintText = hint ? ` Hint: ${hint}` : '';
+      return `Chunk ${chunkNo}/${chunkOf}: ${context}${message}${ref}${hintText}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Read back model state and diagnostics so a partially failed apply can be reconciled.
+ */
+export async function collectRecoverySnapshot(): Promise<Record<string, unknown>> {
+  const recovery: Record<string, unknown> = {
+    mode: 'targeted_recovery',
+    nextStep:
+      'Re-read current state, reconcile expected vs actual deltas, and retry only minimal missing operations.',
+  };
+
+  try {
+    recovery['model'] = await post<Record<string, unknown>>('/model/query', {});
+  } catch (error) {
+    recovery['modelReadError'] = error instanceof Error ? error.message : String(error);
+  }
+
+  try {
+    recovery['diagnostics'] = await get<Record<string, unknown>>('/model/diagnostics');
+  } catch (error) {
+    recovery['diagnosticsReadError'] = error instanceof Error ? error.message : String(error);
+  }
+
+  return recovery;
+}
+
+/**
+ * Submit changes to `/model/apply` in sequential chunks, substituting tempIds resolved
+ * by earlier chunks before each submission and polling every chunk to completion.
+ */
+export async function applyChunkedChanges(
+  changes: unknown[],
+  options: ChunkedApplyOptions
+): Promise<ChunkedApplyResult> {
+  const { chunkSize, tempIdMap, warnings } = options;
+  const chunks = splitIntoChunks(changes, chunkSize);
+  let validateConnections = options.validateConnections ?? false;
+
+  // Build visual-to-element map for connection cross-validation (R5)
+  const visualToElementMap = validateConnections ? buildVisualToElementMap(changes) : {};
+  // Build element-to-visual reverse index for auto-resolution
+  const elementToVisualMap = validateConnections ? buildElementToVisualMap(changes) : {};
+  const connectionValidationSummaries: CrossValidationSummary[] = [];
+  const autoResolutionSummaries: AutoResolutionResult[] = [];
+  if (validateConnections) {
+    clearRelationshipCache();
+    clearElementCache();
+    if (!options.poll) {
+      warnings.push('--validate-connections requires --poll to resolve tempIds. Validation was disabled.');
+      validateConnections = false;
+    }
+  }
+  if (!options.poll) {
+    warnings.push('Running without --poll: operation results and tempId mappings are not tracked.');
+  }
+
+  const results: Array<Record<string, unknown>> = [];
+  const skippedOperations: SkippedOperation[] = [];
+  let hadOperationErrors = false;
+  const failedChunkTempIds = new Set<string>();
+  for (let i = 0; i < chunks.length; i++) {
+    const chunkStartIndex = i * chunkSize;
+    if (options.completedChunks?.has(i + 1)) {
+      results.push({
+        chunk: i + 1,
+        of: chunks.length,
+        operationId: null,
+        status: 'skipped',
+        message: 'Completed in a previous run (checkpoint)',
+      });
+      continue;
+    }
+    const pendingOps: ChunkOperation[] = chunks[i].map((change, index) => ({
+      change,
+      originalIndexInChunk: index,
+    }));
+
+    // --continue-on-error: skip chunks with unresolved deps from failed prior chunks
+    if (options.continueOnError && failedChunkTempIds.size > 0) {
+      const hasUnresolvedDep = pendingOps.some((op) => referencesTempIds(op.change, failedChunkTempIds));
+      if (hasUnresolvedDep) {
+        results.push({
+          chunk: i + 1,
+          of: chunks.length,
+          operationId: null,
+          status: 'skipped',
+          message: 'Skipped due to unresolved dependencies from a failed chunk',
+        });
+        // Track tempIds from this skipped chunk as also failed
+        for (const op of pendingOps) {
+          const tempId = getDeclaredTempId(op.change);
+          if (tempId) failedChunkTempIds.add(tempId);
+        }
+        continue;
+      }
+    }
+
+    let resp: ApplyResponse | null = null;
+    let submittedChunk: unknown[] = [];
+    // Retry loop is used only for duplicate-create skipping in --skip-existing mode.
+    while (true) {
+      if (pendingOps.length === 0) {
+        const skippedChunk = {
+          chunk: i + 1,
+          of: chunks.length,
+          operationId: null,
+          status: 'skipped',
+          message: 'All operations in this chunk were skipped as duplicates',
+        };
+        results.push(skippedChunk);
+        options.onChunkComplete?.(i + 1, skippedChunk, []);
+        break;
+      }
+
+      const currentChunk = substituteIds(
+        pendingOps.map((op) => op.change),
+        tempIdMap
+      );
+
+      // Auto-resolve missing sourceVisualId/targetVisualId before validation
+      if (validateConnections) {
+        const autoResolution = await autoResolveVisualIds(
+          currentChunk,
+          tempIdMap,
+          elementToVisualMap,
+        );
+        if (autoResolution.attempted > 0) {
+          autoResolutionSummaries.push(autoResolution);
+        }
+      }
+
+      // R5: Cross-validate addConnectionToView operations before submission
+      if (validateConnections) {
+        const originalChunk = pendingOps.map((op) => op.change);
+        const validation = await crossValidateConnections(
+          currentChunk,
+          originalChunk,
+          tempIdMap,
+          visualToElementMap,
+        );
+        if (validation.checked > 0) {
+          connectionValidationSummaries.push(validation);
+
+          // Log swap warnings to stderr
+          for (const detail of validation.details) {
+            if (detail.swapped && detail.relationship) {
+              warnings.push(
+                `Chunk ${i + 1}: swapped connection direction for relationship "${detail.relationship.name}" ` +
+                `(${detail.relationship.sourceId} -> ${detail.relationship.targetId})`
+              );
+            }
+          }
+
+          // Fail on complete mismatches (unless --continue-on-error)
+          if (validation.failed > 0) {
+            const errors = validation.details
+              .filter((d) => !d.valid && !d.swapped)
+              .map((d) => d.error)
+              .join('\n');
+
+            if (!options.continueOnError) {
+              throw new Error(
+                `Connection cross-validation failed for ${validation.failed} operation(s) in chunk ${i + 1}:\n${errors}`
+              );
+            }
+
+            warnings.push(
+              `Chunk ${i + 1}: ${validation.failed} connection(s) failed validation and were skipped due to --continue-on-error.`
+            );
+          }
+        }
+      }
+
+      await options.beforeChunk?.(i + 1, currentChunk);
+      try {
+        const applyPayload: {
+          changes: unknown[];
+          idempotencyKey?: string;
+          duplicateStrategy?: 'error' | 'reuse' | 'rename';
+        } = {
+          changes: currentChunk,
+        };
+        if (options.duplicateStrategy) {
+          applyPayload.duplicateStrategy = options.duplicateStrategy;
+        }
+        if (options.idempotencyKey) {
+          applyPayload.idempotencyKey = `${options.idempotencyKey}:chunk:${i + 1}:of:${chunks.length}`;
+        }
+        resp = await post<ApplyResponse>('/model/apply', applyPayload);
+        submittedChunk = currentChunk;
+        break;
+      } catch (err) {
+        if (
+          options.skipExisting &&
+          err instanceof ApiError &&
+          err.status === 400 &&
+          err.code === 'ValidationError'
+        ) {
+          const duplicateIndex = parseDuplicateExistingChangeIndex(err.message);
+          if (duplicateIndex !== null && duplicateIndex < pendingOps.length) {
+            const skipped = pendingOps[duplicateIndex];
+            const opValue = (skipped.change as { op?: unknown }).op;
+            const op = typeof opValue === 'string' ? opValue : 'unknown';
+            if (!op.startsWith('create')) {
+              throw err;
+            }
+            // Propagate existing real ID into tempId map so downstream ops can reference it
+            const skippedTempId = getDeclaredTempId(skipped.change);
+            if (skippedTempId) {
+              const existingRealId = parseExistingIdFromError(err.message);
+              if (existingRealId) {
+                tempIdMap[skippedTempId] = existingRealId;
+              }
+            }
+            pendingOps.splice(duplicateIndex, 1);
+            skippedOperations.push({
+              chunk: i + 1,
+              of: chunks.length,
+              opIndex: duplicateIndex,
+              originalChunkIndex: skipped.originalIndexInChunk,
+              globalIndex: chunkStartIndex + skipped.originalIndexInChunk,
+              op,
+              reason: err.message,
+            });
+            continue;
+          }
+        }
+        // --continue-on-error: record failure and move to next chunk
+        if (options.continueOnError) {
+          hadOperationErrors = true;
+          for (const op of pendingOps) {
+            const tempId = getDeclaredTempId(op.change);
+            if (tempId) failedChunkTempIds.add(tempId);
+          }
+          results.push({
+            chunk: i + 1,
+            of: chunks.length,
+            operationId: null,
+            status: 'error',
+            error: String(err),
+          });
+          resp = null;
+          break;
+        }
+        throw err;
+      }
+    }
+
+    if (!resp) {
+      continue;
+    }
+
+    let chunkResult: Record<string, unknown> = {
+      chunk: i + 1,
+      of: chunks.length,
+      operationId: resp.operationId,
+      status: resp.status,
+    };
+
+    if (options.poll) {
+      const pollResult = await pollUntilDone(resp.operationId, {
+        timeoutMs: options.pollTimeoutMs,
+      });
+      chunkResult = { ...chunkResult, ...pollResult };
+
+      if ((pollResult as { status?: string }).status === 'error') {
+        hadOperationErrors = true;
+        // Track tempIds from this failed chunk for --continue-on-error
+        if (options.continueOnError) {
+          for (const op of pendingOps) {
+            const tempId = getDeclaredTempId(op.change);
+            if (tempId) failedChunkTempIds.add(tempId);
+          }
+        }
+      }
+
+      const opResults = (pollResult as {
+        result?: Array<{
+          tempId?: string;
+          realId?: string;
+          visualId?: string;
+          viewId?: string;
+          noteId?: string;
+          groupId?: string;
+        }>;
+      }).result ?? [];
+
+      for (const result of opResults) {
+        const id =
+          result.realId ??
+          result.visualId ??
+          result.noteId ??
+          result.groupId ??
+          result.viewId;
+        if (result.tempId && id) {
+          tempIdMap[result.tempId] = id;
+        }
+      }
+    }
+
+    results.push(chunkResult);
+    if (options.poll && chunkResult.status !== 'error') {
+      options.onChunkComplete?.(i + 1, chunkResult, submittedChunk);
+    }
+    if (options.stopOnError && chunkResult.status === 'error') {
+      break;
+    }
+
+    // Throttle between chunks to avoid rate-limit spikes
+    if (options.throttleMs > 0 && i < chunks.length - 1) {
+      await new Promise((r) => setTimeout(r, options.throttleMs));
+    }
+  }
+
+  return {
+    chunks: chunks.length,
+    results,
+    skippedOperations,
+    hadOperationErrors,
+    connectionValidationSummaries,
+    autoResolutionSummaries,
+  };
+}
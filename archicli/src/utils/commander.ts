@@ -1,3 +1,5 @@
+import type { Command } from 'commander';
+
 /**
  * Detect Commander-thrown usage/control-flow errors so command handlers can rethrow
  * them instead of wrapping them as runtime failures.
@@ -11,3 +13,24 @@ export function isCommanderError(err: unknown): boolean {
   }
   return false;
 }
+
+/**
+ * Strip Commander's "error:" prefix from usage messages.
+ */
+export function normalizeCommanderMessage(message: string): string {
+  return message.replace(/^error:\s*/i, '').trim();
+}
+
+// Recursively override Commander output handlers to keep error rendering centralized.
+export function configureCommander(command: Command): void {
+  command.configureOutput({
+    writeOut: (str) => process.stdout.write(str),
+    writeErr: () => {
+      // Suppress Commander default stderr. We emit structured output in the catch block.
+    },
+  });
+  command.exitOverride();
+  for (const subcommand of command.commands) {
+    configureCommander(subcommand);
+  }
+}
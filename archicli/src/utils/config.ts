@@ -9,6 +9,10 @@ export interface Config {
   output: 'json' | 'text' | 'yaml';
   quiet: boolean;
   wide: boolean;
+  /** Active profile from archicli.config.json / .archiclirc, if any. */
+  profile?: string;
+  /** API token for servers started with ARCHI_API_TOKEN (from --token or ARCHI_API_TOKEN). */
+  token?: string;
 }
 
 let _config: Config = {
@@ -17,6 +21,7 @@ let _config: Config = {
   output: 'json',
   quiet: false,
   wide: false,
+  token: process.env['ARCHI_API_TOKEN'] || undefined,
 };
 
 /**
@@ -0,0 +1,883 @@
+import type { FolderInfo, ViewDetailResponse, ViewElement } from '../client';
+import { fromArchiCsvType, toArchiCsvType } from './archiCsv';
+import { ARCHIMATE_TYPE_SET, RELATIONSHIP_TYPE_SET } from './archimateTypes';
+import type { ModelConcepts, ModelRelationship } from './modelData';
+import { childElements, firstChild, getAttribute, localName, parseXml, XmlParseError } from './xml';
+import type { XmlElement } from './xml';
+
+export const EXCHANGE_NAMESPACE = 'http://www.opengroup.org/xsd/archimate/3.0/';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const EXCHANGE_SCHEMA_LOCATION = 'http://www.opengroup.org/xsd/archimate/3.1/archimate3_Diagram.xsd';
+
+// Archi stores "default size" as -1; the exchange schema requires explicit positive bounds.
+const DEFAULT_NODE_WIDTH = 120;
+const DEFAULT_NODE_HEIGHT = 55;
+
+const ACCESS_TYPE_NAMES = ['Write', 'Read', 'Access', 'ReadWrite'] as const;
+
+// Archi viewpoint IDs whose exchange names are not a plain title-case conversion.
+const VIEWPOINT_NAME_OVERRIDES: Record<string, string> = {
+  capability: 'Capability Map',
+  resource: 'Resource Map',
+  implementation_deployment: 'Implementation and Deployment',
+  implementation_migration: 'Implementation and Migration',
+};
+
+/**
+ * Everything needed to serialize a model in the Open Group exchange format.
+ */
+export interface ExchangeModelData {
+  concepts: ModelConcepts;
+  folders: FolderInfo[];
+  views: ViewDetailResponse[];
+  documentation?: string;
+  lang?: string;
+}
+
+/**
+ * Escape text for use in XML element content or double-quoted attributes.
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // XML 1.0 cannot represent most C0 control characters, even as references.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Map a CLI element type to its exchange-format `xsi:type`.
+ * Junction kind (And/Or) is not exposed by the server, so junctions export as AndJunction.
+ */
+export function toExchangeElementType(type: string): string {
+  return type === 'junction' ? 'AndJunction' : toArchiCsvType(type);
+}
+
+/**
+ * Map a CLI relationship type (e.g. `serving-relationship`) to its exchange-format `xsi:type` (`Serving`).
+ */
+export function toExchangeRelationshipType(type: string): string {
+  return toArchiCsvType(type.replace(/-relationship$/, ''));
+}
+
+/**
+ * Map an Archi viewpoint ID (e.g. `application_cooperation`) to the exchange viewpoint name.
+ */
+export function toExchangeViewpoint(viewpoint: string): string {
+  return (
+    VIEWPOINT_NAME_OVERRIDES[viewpoint] ??
+    viewpoint
+      .split('_')
+      .filter((part) => part.length > 0)
+      .map((part) => (part === 'and' ? part : part[0].toUpperCase() + part.slice(1)))
+      .join(' ')
+  );
+}
+
+class XmlWriter {
+  private readonly lines: string[] = [];
+  private depth = 0;
+
+  open(tag: string, attrs: Record<string, string | undefined> = {}): void {
+    this.lines.push(`${this.indent()}<${tag}${formatAttrs(attrs)}>`);
+    this.depth++;
+  }
+
+  close(tag: string): void {
+    this.depth--;
+    this.lines.push(`${this.indent()}</${tag}>`);
+  }
+
+  empty(tag: string, attrs: Record<string, string | undefined> = {}): void {
+    this.lines.push(`${this.indent()}<${tag}${formatAttrs(attrs)}/>`);
+  }
+
+  text(tag: string, value: string, attrs: Record<string, string | undefined> = {}): void {
+    this.lines.push(`${this.indent()}<${tag}${formatAttrs(attrs)}>${escapeXml(value)}</${tag}>`);
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+
+  private indent(): string {
+    return '  '.repeat(this.depth);
+  }
+}
+
+function formatAttrs(attrs: Record<string, string | undefined>): string {
+  return Object.entries(attrs)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+}
+
+function relationshipAttrs(relationship: ModelRelationship): Record<string, string | undefined> {
+  const attrs: Record<string, string | undefined> = {
+    identifier: relationship.id,
+    source: relationship.sourceId,
+    target: relationship.targetId,
+    'xsi:type': toExchangeRelationshipType(relationship.type),
+  };
+  if (relationship.type === 'access-relationship' && relationship.accessType !== undefined) {
+    attrs.accessType = ACCESS_TYPE_NAMES[relationship.accessType];
+  }
+  if (relationship.type === 'influence-relationship' && relationship.strength) {
+    attrs.modifier = relationship.strength;
+  }
+  if (relationship.type === 'association-relationship' && relationship.directed !== undefined) {
+    attrs.isDirected = String(relationship.directed);
+  }
+  return attrs;
+}
+
+/**
+ * Serialize the model as an ArchiMate 3.1 Open Group Exchange Format document.
+ *
+ * View geometry from `/views/{id}` is parent-relative; the exchange format uses absolute
+ * diagram coordinates, so nested node positions are accumulated down the parent chain.
+ */
+export function buildExchangeXml(data: ExchangeModelData): string {
+  const lang = data.lang ?? 'en';
+  const langAttr = { 'xml:lang': lang };
+  const { concepts } = data;
+  const writer = new XmlWriter();
+
+  // Property keys become propertyDefinitions with stable, sorted identifiers.
+  const propertyKeys = new Set<string>();
+  for (const concept of [...concepts.elements, ...concepts.relationships]) {
+    for (const key of Object.keys(concept.properties)) propertyKeys.add(key);
+  }
+  const propertyDefinitionIds = new Map<string, string>();
+  [...propertyKeys].sort().forEach((key, index) => propertyDefinitionIds.set(key, `propid-${index + 1}`));
+
+  const writeNameAndDocs = (name: string | undefined, documentation: string | undefined, nameRequired: boolean): void => {
+    if (name || nameRequired) writer.text('name', name ?? '', langAttr);
+    if (documentation) writer.text('documentation', documentation, langAttr);
+  };
+  const writeProperties = (properties: Record<string, string>): void => {
+    const entries = Object.entries(properties);
+    if (entries.length === 0) return;
+    writer.open('properties');
+    for (const [key, value] of entries) {
+      writer.open('property', { propertyDefinitionRef: propertyDefinitionIds.get(key) });
+      writer.text('value', value, langAttr);
+      writer.close('property');
+    }
+    writer.close('properties');
+  };
+
+  writer.open('model', {
+    xmlns: EXCHANGE_NAMESPACE,
+    'xmlns:xsi': XSI_NAMESPACE,
+    'xsi:schemaLocation': `${EXCHANGE_NAMESPACE} ${EXCHANGE_SCHEMA_LOCATION}`,
+    identifier: concepts.model.id || 'id-model',
+  });
+  writeNameAndDocs(concepts.model.name, data.documentation, true);
+
+  if (concepts.elements.length > 0) {
+    writer.open('elements');
+    for (const element of concepts.elements) {
+      writer.open('element', { identifier: element.id, 'xsi:type': toExchangeElementType(element.type) });
+      writeNameAndDocs(element.name, element.documentation, true);
+      writeProperties(element.properties);
+      writer.close('element');
+    }
+    writer.close('elements');
+  }
+
+  if (concepts.relationships.length > 0) {
+    writer.open('relationships');
+    for (const relationship of concepts.relationships) {
+      const attrs = relationshipAttrs(relationship);
+      const hasContent =
+        relationship.name || relationship.documentation || Object.keys(relationship.properties).length > 0;
+      if (!hasContent) {
+        writer.empty('relationship', attrs);
+        continue;
+      }
+      writer.open('relationship', attrs);
+      writeNameAndDocs(relationship.name, relationship.documentation, false);
+      writeProperties(relationship.properties);
+      writer.close('relationship');
+    }
+    writer.close('relationships');
+  }
+
+  writeOrganizations(writer, data, langAttr);
+
+  if (propertyDefinitionIds.size > 0) {
+    writer.open('propertyDefinitions');
+    for (const [key, id] of propertyDefinitionIds) {
+      writer.open('propertyDefinition', { identifier: id, type: 'string' });
+      writer.text('name', key, langAttr);
+      writer.close('propertyDefinition');
+    }
+    writer.close('propertyDefinitions');
+  }
+
+  if (data.views.length > 0) {
+    writer.open('views');
+    writer.open('diagrams');
+    for (const view of data.views) {
+      writeView(writer, view, langAttr);
+    }
+    writer.close('diagrams');
+    writer.close('views');
+  }
+
+  writer.close('model');
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + writer.toString();
+}
+
+/**
+ * Write the folder tree as `organizations`, referencing only concepts/views that were exported.
+ */
+function writeOrganizations(writer: XmlWriter, data: ExchangeModelData, langAttr: Record<string, string>): void {
+  const exportedIds = new Set<string>([
+    ...data.concepts.elements.map((element) => element.id),
+    ...data.concepts.relationships.map((relationship) => relationship.id),
+    ...data.views.map((view) => view.id).filter((id): id is string => typeof id === 'string'),
+  ]);
+  const childrenByParent = new Map<string | null, FolderInfo[]>();
+  for (const folder of data.folders) {
+    const parentId = folder.parentId ?? null;
+    const siblings = childrenByParent.get(parentId) ?? [];
+    siblings.push(folder);
+    childrenByParent.set(parentId, siblings);
+  }
+  const roots = childrenByParent.get(null) ?? [];
+  if (roots.length === 0) return;
+
+  const writeFolder = (folder: FolderInfo): void => {
+    writer.open('item');
+    writer.text('label', folder.name ?? '', langAttr);
+    for (const child of childrenByParent.get(folder.id ?? '') ?? []) writeFolder(child);
+    for (const id of folder.childIds ?? []) {
+      if (exportedIds.has(id)) writer.empty('item', { identifierRef: id });
+    }
+    writer.close('item');
+  };
+
+  writer.open('organizations');
+  for (const root of roots) writeFolder(root);
+  writer.close('organizations');
+}
+
+function writeView(writer: XmlWriter, view: ViewDetailResponse, langAttr: Record<string, string>): void {
+  const elements = view.elements ?? [];
+  const byId = new Map<string, ViewElement>();
+  const childrenByParent = new Map<string, ViewElement[]>();
+  const roots: ViewElement[] = [];
+  for (const element of elements) {
+    if (typeof element.id === 'string') byId.set(element.id, element);
+  }
+  for (const element of elements) {
+    if (element.parentId && byId.has(element.parentId)) {
+      const siblings = childrenByParent.get(element.parentId) ?? [];
+      siblings.push(element);
+      childrenByParent.set(element.parentId, siblings);
+    } else {
+      roots.push(element);
+    }
+  }
+
+  writer.open('view', {
+    identifier: view.id,
+    'xsi:type': 'Diagram',
+    viewpoint: view.viewpoint ? toExchangeViewpoint(view.viewpoint) : undefined,
+  });
+  writer.text('name', view.name ?? '', langAttr);
+  if (view.documentation) writer.text('documentation', view.documentation, langAttr);
+
+  const writeNode = (node: ViewElement, offsetX: number, offsetY: number): void => {
+    const x = offsetX + (node.x ?? 0);
+    const y = offsetY + (node.y ?? 0);
+    let nodeType = 'Label';
+    let label: string | undefined = node.content || node.name || '';
+    if (node.conceptId) {
+      nodeType = 'Element';
+      label = undefined;
+    } else if (node.type === 'diagram-model-group') {
+      nodeType = 'Container';
+      label = node.name ?? '';
+    }
+    const attrs = {
+      identifier: node.id,
+      elementRef: node.conceptId,
+      'xsi:type': nodeType,
+      x: String(x),
+      y: String(y),
+      w: String(node.width !== undefined && node.width > 0 ? node.width : DEFAULT_NODE_WIDTH),
+      h: String(node.height !== undefined && node.height > 0 ? node.height : DEFAULT_NODE_HEIGHT),
+    };
+    const children = childrenByParent.get(node.id ?? '') ?? [];
+    if (label === undefined && children.length === 0) {
+      writer.empty('node', attrs);
+      return;
+    }
+    writer.open('node', attrs);
+    if (label !== undefined) writer.text('label', label, langAttr);
+    for (const child of children) writeNode(child, x, y);
+    writer.close('node');
+  };
+  for (const root of roots) writeNode(root, 0, 0);
+
+  for (const connection of view.connections ?? []) {
+    writer.empty('connection', {
+      identifier: connection.id,
+      relationshipRef: connection.conceptId,
+      'xsi:type': connection.conceptId ? 'Relationship' : 'Line',
+      source: connection.sourceId,
+      target: connection.targetId,
+    });
+  }
+  writer.close('view');
+}
+
+/**
+ * Problem found while converting an exchange document, located by source line.
+ */
+export interface ExchangeImportIssue {
+  line: number;
+  message: string;
+}
+
+/**
+ * Options controlling how an exchange document becomes BOM operations.
+ */
+export interface ExchangeImportOptions {
+  /** Prepended to every exchange identifier to form the BOM tempId. */
+  tempIdPrefix?: string;
+  /** Preferred `xml:lang` for names, documentation, labels and property values. */
+  lang?: string;
+}
+
+/**
+ * BOM changes generated from an exchange document.
+ */
+export interface ExchangeImportResult {
+  changes: Array<Record<string, unknown>>;
+  errors: ExchangeImportIssue[];
+  warnings: string[];
+  counts: {
+    elements: number;
+    relationships: number;
+    properties: number;
+    folders: number;
+    views: number;
+    nodes: number;
+    connections: number;
+  };
+}
+
+// Top-level Archi folder type for each element type; used as createFolder parentType.
+const ELEMENT_FOLDER_TYPES: Array<[string, ReadonlyArray<string>]> = [
+  ['strategy', ['resource', 'capability', 'value-stream', 'course-of-action']],
+  ['business', ['contract', 'representation', 'product']],
+  ['application', ['data-object']],
+  [
+    'technology',
+    ['node', 'device', 'system-software', 'path', 'communication-network', 'artifact', 'equipment', 'facility', 'distribution-network', 'material'],
+  ],
+  [
+    'motivation',
+    ['stakeholder', 'driver', 'assessment', 'goal', 'outcome', 'principle', 'requirement', 'constraint', 'meaning', 'value'],
+  ],
+  ['implementation_migration', ['work-package', 'deliverable', 'implementation-event', 'plateau', 'gap']],
+  ['other', ['location', 'grouping', 'junction']],
+];
+
+// Archi's default top-level folder names, for organizations that hold no concepts to infer from.
+const FOLDER_TYPES_BY_LABEL: Record<string, string> = {
+  strategy: 'strategy',
+  business: 'business',
+  application: 'application',
+  technology: 'technology',
+  'technology & physical': 'technology',
+  motivation: 'motivation',
+  'implementation & migration': 'implementation_migration',
+  other: 'other',
+  relations: 'relations',
+  views: 'diagrams',
+};
+
+const ACCESS_TYPE_VALUES: Record<string, number> = {
+  write: 0,
+  read: 1,
+  access: 2,
+  readwrite: 3,
+};
+
+function elementFolderType(type: string): string {
+  if (type.startsWith('business-')) return 'business';
+  if (type.startsWith('application-')) return 'application';
+  if (type.startsWith('technology-')) return 'technology';
+  return ELEMENT_FOLDER_TYPES.find(([, types]) => types.includes(type))?.[0] ?? 'other';
+}
+
+/**
+ * Map an exchange-format element `xsi:type` (e.g. `BusinessActor`) to the CLI element type.
+ * Both junction kinds map to `junction`.
+ */
+export function fromExchangeElementType(type: string): string {
+  const local = localName(type.trim());
+  return local === 'AndJunction' || local === 'OrJunction' ? 'junction' : fromArchiCsvType(local);
+}
+
+/**
+ * Map an exchange-format relationship `xsi:type` (`Serving`) to the CLI type (`serving-relationship`).
+ */
+export function fromExchangeRelationshipType(type: string): string {
+  return `${fromArchiCsvType(localName(type.trim()))}-relationship`;
+}
+
+/**
+ * Map an exchange viewpoint name (e.g. `Application Cooperation`, `Capability Map`) to a viewpoint token.
+ */
+export function fromExchangeViewpoint(name: string): string {
+  const token = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return token.endsWith('_map') ? token.slice(0, -'_map'.length) : token;
+}
+
+interface ExchangeConcept {
+  kind: 'element' | 'relationship' | 'view';
+  tempId: string;
+  /** Top-level folder type the concept lives in. */
+  folderType: string;
+}
+
+interface PlacedVisual {
+  tempId: string;
+  /** Absolute diagram coordinates. */
+  x: number;
+  y: number;
+  kind: 'element' | 'group' | 'note';
+}
+
+/**
+ * Convert an ArchiMate Open Group Exchange Format document into BOM changes.
+ *
+ * Elements and relationships become createOrGetElement/createOrGetRelationship with
+ * `onDuplicate: "reuse"` and exchange identifiers (optionally prefixed) as tempIds.
+ * Organizations become createFolder + moveToFolder, and views become createView followed
+ * by addToView/createGroup/createNote/nestInView/addConnectionToView. The exchange format
+ * uses absolute diagram coordinates; nested visuals are converted back to parent-relative
+ * positions so the BOM reproduces the original layout.
+ */
+export function buildBomChangesFromExchange(xml: string, options: ExchangeImportOptions = {}): ExchangeImportResult {
+  const tempIdPrefix = options.tempIdPrefix ?? '';
+  const errors: ExchangeImportIssue[] = [];
+  const warnings: string[] = [];
+  const result: ExchangeImportResult = {
+    changes: [],
+    errors,
+    warnings,
+    counts: { elements: 0, relationships: 0, properties: 0, folders: 0, views: 0, nodes: 0, connections: 0 },
+  };
+
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (err) {
+    if (!(err instanceof XmlParseError)) throw err;
+    errors.push({ line: err.line, message: `Malformed XML: ${err.message}` });
+    return result;
+  }
+  if (localName(root.name) !== 'model') {
+    errors.push({ line: root.line, message: `Expected a <model> root element, found <${root.name}>` });
+    return result;
+  }
+
+  const toTempId = (identifier: string): string => `${tempIdPrefix}${identifier}`;
+  const localizedText = (parent: XmlElement, tag: string): string => {
+    const candidates = childElements(parent, tag);
+    const preferred =
+      (options.lang ? candidates.find((child) => getAttribute(child, 'lang') === options.lang) : undefined) ??
+      candidates.find((child) => getAttribute(child, 'lang') === undefined) ??
+      candidates[0];
+    return preferred?.text ?? '';
+  };
+  const section = (parent: XmlElement | undefined, name: string, itemName: string): XmlElement[] => {
+    const container = parent ? firstChild(parent, name) : undefined;
+    return container ? childElements(container, itemName) : [];
+  };
+  const coordinate = (node: XmlElement, name: string): number | undefined => {
+    const raw = getAttribute(node, name);
+    const value = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(value) ? Math.round(value) : undefined;
+  };
+
+  const concepts = new Map<string, ExchangeConcept>();
+  const declaredAt = new Map<string, number>();
+  const claimId = (node: XmlElement, what: string): string | undefined => {
+    const identifier = getAttribute(node, 'identifier')?.trim();
+    if (!identifier) {
+      errors.push({ line: node.line, message: `${what} has no identifier` });
+      return undefined;
+    }
+    const previous = declaredAt.get(identifier);
+    if (previous !== undefined) {
+      errors.push({ line: node.line, message: `Duplicate identifier '${identifier}' (first defined on line ${previous})` });
+      return undefined;
+    }
+    declaredAt.set(identifier, node.line);
+    return identifier;
+  };
+
+  const propertyKeys = new Map<string, string>();
+  for (const definition of section(root, 'propertyDefinitions', 'propertyDefinition')) {
+    const identifier = getAttribute(definition, 'identifier');
+    const key = localizedText(definition, 'name');
+    if (identifier && key) propertyKeys.set(identifier, key);
+  }
+  const propertyChanges: Array<Record<string, unknown>> = [];
+  const collectProperties = (owner: XmlElement, id: string): void => {
+    for (const property of section(owner, 'properties', 'property')) {
+      const ref = getAttribute(property, 'propertyDefinitionRef') ?? '';
+      const key = propertyKeys.get(ref);
+      if (key === undefined) {
+        errors.push({ line: property.line, message: `Unknown property definition '${ref}'` });
+        continue;
+      }
+      propertyChanges.push({ op: 'setProperty', id, key, value: localizedText(property, 'value') });
+    }
+  };
+  const modelPropertyCount = section(root, 'properties', 'property').length;
+
+  // Elements
+  const elementChanges: Array<Record<string, unknown>> = [];
+  let unnamedJunctions = 0;
+  let orJunctions = 0;
+  for (const node of section(root, 'elements', 'element')) {
+    const rawType = getAttribute(node, 'type') ?? '';
+    const type = fromExchangeElementType(rawType);
+    if (!ARCHIMATE_TYPE_SET.has(type) || RELATIONSHIP_TYPE_SET.has(type)) {
+      errors.push({ line: node.line, message: `Unknown element type '${rawType}'` });
+      continue;
+    }
+    const identifier = claimId(node, 'Element');
+    if (identifier === undefined) continue;
+    const tempId = toTempId(identifier);
+    concepts.set(identifier, { kind: 'element', tempId, folderType: elementFolderType(type) });
+    if (localName(rawType) === 'OrJunction') orJunctions++;
+
+    const name = localizedText(node, 'name');
+    const documentation = localizedText(node, 'documentation');
+    if (name.trim().length === 0) {
+      if (type !== 'junction') {
+        errors.push({ line: node.line, message: `Element '${identifier}' has no name` });
+        continue;
+      }
+      // Junctions are anonymous, so they are always created rather than matched by name.
+      unnamedJunctions++;
+      elementChanges.push({ op: 'createElement', type, name: 'Junction', tempId, ...(documentation ? { documentation } : {}) });
+    } else {
+      const create: Record<string, unknown> = { type, name, tempId };
+      if (documentation) create.documentation = documentation;
+      elementChanges.push({ op: 'createOrGetElement', create, match: { type, name }, onDuplicate: 'reuse' });
+    }
+    collectProperties(node, tempId);
+  }
+
+  // Relationships
+  interface PendingRelationship {
+    node: XmlElement;
+    identifier: string;
+    type: string;
+    source: string;
+    target: string;
+  }
+  const pendingRelationships: PendingRelationship[] = [];
+  for (const node of section(root, 'relationships', 'relationship')) {
+    const rawType = getAttribute(node, 'type') ?? '';
+    const type = fromExchangeRelationshipType(rawType);
+    if (!RELATIONSHIP_TYPE_SET.has(type)) {
+      errors.push({ line: node.line, message: `Unknown relationship type '${rawType}'` });
+      continue;
+    }
+    const identifier = claimId(node, 'Relationship');
+    if (identifier === undefined) continue;
+    concepts.set(identifier, { kind: 'relationship', tempId: toTempId(identifier), folderType: 'relations' });
+    pendingRelationships.push({
+      node,
+      identifier,
+      type,
+      source: getAttribute(node, 'source') ?? '',
+      target: getAttribute(node, 'target') ?? '',
+    });
+  }
+
+  // Emit relationships after the ones they connect so tempIds are declared before use.
+  const relationshipChanges: Array<Record<string, unknown>> = [];
+  let directedAssociations = 0;
+  const emitted = new Set<string>();
+  let remaining = pendingRelationships.filter(({ node, identifier, source, target }) => {
+    for (const [end, ref] of [['source', source], ['target', target]] as const) {
+      if (!concepts.has(ref)) {
+        errors.push({ line: node.line, message: `Relationship '${identifier}' ${end} '${ref}' is not an element or relationship in this file` });
+        return false;
+      }
+    }
+    return true;
+  });
+  while (remaining.length > 0) {
+    const blocked: PendingRelationship[] = [];
+    for (const relationship of remaining) {
+      const ready = [relationship.source, relationship.target].every(
+        (ref) => concepts.get(ref)?.kind !== 'relationship' || emitted.has(ref) || ref === relationship.identifier
+      );
+      if (!ready) {
+        blocked.push(relationship);
+        continue;
+      }
+      const { node, identifier, type } = relationship;
+      const sourceId = toTempId(relationship.source);
+      const targetId = toTempId(relationship.target);
+      const create: Record<string, unknown> = { type, sourceId, targetId, tempId: toTempId(identifier) };
+      const name = localizedText(node, 'name');
+      const documentation = localizedText(node, 'documentation');
+      if (name) create.name = name;
+      if (documentation) create.documentation = documentation;
+      const accessType = getAttribute(node, 'accessType');
+      if (type === 'access-relationship' && accessType !== undefined) {
+        const value = ACCESS_TYPE_VALUES[accessType.toLowerCase()];
+        if (value === undefined) {
+          errors.push({ line: node.line, message: `Unknown accessType '${accessType}'` });
+        } else {
+          create.accessType = value;
+        }
+      }
+      const modifier = getAttribute(node, 'modifier');
+      if (type === 'influence-relationship' && modifier) create.strength = modifier;
+      if (type === 'association-relationship' && getAttribute(node, 'isDirected') === 'true') directedAssociations++;
+
+      relationshipChanges.push({
+        op: 'createOrGetRelationship',
+        create,
+        match: { type, sourceId, targetId },
+        onDuplicate: 'reuse',
+      });
+      emitted.add(identifier);
+      collectProperties(node, toTempId(identifier));
+    }
+    if (blocked.length === remaining.length) {
+      for (const relationship of blocked) {
+        errors.push({
+          line: relationship.node.line,
+          message: `Relationship '${relationship.identifier}' is part of a relationship reference cycle`,
+        });
+      }
+      break;
+    }
+    remaining = blocked;
+  }
+
+  // Views
+  const viewChanges: Array<Record<string, unknown>> = [];
+  let skippedViews = 0;
+  let skippedNodes = 0;
+  let skippedNotes = 0;
+  let skippedConnections = 0;
+  const diagrams = firstChild(root, 'views');
+  for (const view of section(diagrams, 'diagrams', 'view')) {
+    const viewType = localName(getAttribute(view, 'type') ?? 'Diagram');
+    if (viewType !== 'Diagram') {
+      skippedViews++;
+      continue;
+    }
+    const identifier = claimId(view, 'View');
+    if (identifier === undefined) continue;
+    const name = localizedText(view, 'name');
+    if (name.trim().length === 0) {
+      errors.push({ line: view.line, message: `View '${identifier}' has no name` });
+      continue;
+    }
+    const viewId = toTempId(identifier);
+    concepts.set(identifier, { kind: 'view', tempId: viewId, folderType: 'diagrams' });
+
+    const createView: Record<string, unknown> = { op: 'createView', name, tempId: viewId };
+    const documentation = localizedText(view, 'documentation');
+    if (documentation) createView.documentation = documentation;
+    const viewpoint = fromExchangeViewpoint(getAttribute(view, 'viewpoint') ?? '');
+    if (viewpoint) createView.viewpoint = viewpoint;
+    viewChanges.push(createView);
+    result.counts.views++;
+
+    const visuals = new Map<string, PlacedVisual>();
+    const placeNode = (node: XmlElement, parent: PlacedVisual | undefined): void => {
+      const nodeType = localName(getAttribute(node, 'type') ?? '');
+      const nodeId = claimId(node, 'Node');
+      const absX = coordinate(node, 'x') ?? 0;
+      const absY = coordinate(node, 'y') ?? 0;
+      const bounds: Record<string, number> = {};
+      const width = coordinate(node, 'w');
+      const height = coordinate(node, 'h');
+      if (width !== undefined) bounds.width = width;
+      if (height !== undefined) bounds.height = height;
+      const relative = parent ? { x: absX - parent.x, y: absY - parent.y } : { x: absX, y: absY };
+
+      let placed: PlacedVisual | undefined;
+      if (nodeId !== undefined && nodeType === 'Element') {
+        const ref = getAttribute(node, 'elementRef') ?? '';
+        const concept = concepts.get(ref);
+        if (concept?.kind !== 'element') {
+          errors.push({ line: node.line, message: `Node '${nodeId}' references '${ref}', which is not an element in this file` });
+        } else {
+          const tempId = toTempId(nodeId);
+          const op: Record<string, unknown> = { op: 'addToView', viewId, elementId: concept.tempId, tempId, ...relative, ...bounds };
+          if (parent) op.parentVisualId = parent.tempId;
+          viewChanges.push(op);
+          placed = { tempId, x: absX, y: absY, kind: 'element' };
+        }
+      } else if (nodeId !== undefined && (nodeType === 'Container' || nodeType === 'Label')) {
+        // Groups and notes are created at view level, then nested with parent-relative coordinates.
+        const label = localizedText(node, 'label');
+        const tempId = toTempId(nodeId);
+        if (nodeType === 'Container') {
+          viewChanges.push({ op: 'createGroup', viewId, name: label.trim() ? label : 'Group', tempId, x: absX, y: absY, ...bounds });
+          placed = { tempId, x: absX, y: absY, kind: 'group' };
+        } else if (label.trim()) {
+          viewChanges.push({ op: 'createNote', viewId, content: label, tempId, x: absX, y: absY, ...bounds });
+          placed = { tempId, x: absX, y: absY, kind: 'note' };
+        } else {
+          skippedNotes++;
+        }
+        if (placed && parent) {
+          viewChanges.push({ op: 'nestInView', viewId, visualId: tempId, parentVisualId: parent.tempId, ...relative });
+        }
+      } else if (nodeId !== undefined) {
+        skippedNodes++;
+      }
+
+      if (placed) {
+        visuals.set(nodeId as string, placed);
+        result.counts.nodes++;
+      }
+      // Notes cannot contain other objects; their children attach to the nearest container.
+      const childParent = placed && placed.kind !== 'note' ? placed : parent;
+      for (const child of childElements(node, 'node')) placeNode(child, childParent);
+    };
+    for (const node of childElements(view, 'node')) placeNode(node, undefined);
+
+    for (const connection of childElements(view, 'connection')) {
+      const connectionId = claimId(connection, 'Connection');
+      if (connectionId === undefined) continue;
+      const ref = getAttribute(connection, 'relationshipRef');
+      const source = visuals.get(getAttribute(connection, 'source') ?? '');
+      const target = visuals.get(getAttribute(connection, 'target') ?? '');
+      if (ref === undefined || source?.kind !== 'element' || target?.kind !== 'element') {
+        // Plain lines and connections to notes/groups/connections have no BOM operation.
+        skippedConnections++;
+        continue;
+      }
+      const concept = concepts.get(ref);
+      if (concept?.kind !== 'relationship') {
+        errors.push({
+          line: connection.line,
+          message: `Connection '${connectionId}' references '${ref}', which is not a relationship in this file`,
+        });
+        continue;
+      }
+      viewChanges.push({
+        op: 'addConnectionToView',
+        viewId,
+        relationshipId: concept.tempId,
+        sourceVisualId: source.tempId,
+        targetVisualId: target.tempId,
+        tempId: toTempId(connectionId),
+      });
+      result.counts.connections++;
+    }
+  }
+
+  // Organizations: top-level items are Archi's fixed folders; nested labelled items are subfolders.
+  const folderChanges: Array<Record<string, unknown>> = [];
+  const moveChanges: Array<Record<string, unknown>> = [];
+  let generatedFolderIds = 0;
+  let misplacedItems = 0;
+  const inferFolderType = (item: XmlElement): string | undefined => {
+    for (const child of childElements(item, 'item')) {
+      const ref = getAttribute(child, 'identifierRef');
+      const folderType = ref !== undefined ? concepts.get(ref)?.folderType : inferFolderType(child);
+      if (folderType !== undefined) return folderType;
+    }
+    return undefined;
+  };
+  const walkFolder = (item: XmlElement, folderType: string, folderTempId: string | undefined): void => {
+    for (const child of childElements(item, 'item')) {
+      const ref = getAttribute(child, 'identifierRef');
+      if (ref !== undefined) {
+        const concept = concepts.get(ref);
+        if (!concept) {
+          errors.push({ line: child.line, message: `Organization item references unknown identifier '${ref}'` });
+        } else if (concept.folderType !== folderType) {
+          misplacedItems++;
+        } else if (folderTempId !== undefined) {
+          moveChanges.push({ op: 'moveToFolder', id: concept.tempId, folderId: folderTempId });
+        }
+        continue;
+      }
+      const label = localizedText(child, 'label');
+      const identifier = getAttribute(child, 'identifier') ? claimId(child, 'Folder') : undefined;
+      const tempId = toTempId(identifier ?? `folder-${++generatedFolderIds}`);
+      const parent = folderTempId !== undefined ? { parentId: folderTempId } : { parentType: folderType };
+      folderChanges.push({ op: 'createFolder', name: label.trim() ? label : 'Folder', tempId, ...parent });
+      walkFolder(child, folderType, tempId);
+    }
+  };
+  for (const item of section(root, 'organizations', 'item')) {
+    if (getAttribute(item, 'identifierRef') !== undefined) continue;
+    const label = localizedText(item, 'label');
+    const folderType = inferFolderType(item) ?? FOLDER_TYPES_BY_LABEL[label.trim().toLowerCase()];
+    if (folderType === undefined) {
+      if (childElements(item, 'item').length > 0) {
+        warnings.push(`line ${item.line}: cannot tell which top-level folder '${label}' maps to; its subfolders were skipped`);
+      }
+      continue;
+    }
+    walkFolder(item, folderType, undefined);
+  }
+
+  if (orJunctions > 0) {
+    warnings.push(`${orJunctions} OR junction(s) will be created as AND junctions; junction kind cannot be set through a BOM`);
+  }
+  if (unnamedJunctions > 0) {
+    warnings.push(`${unnamedJunctions} unnamed junction(s) will be created with the name 'Junction'`);
+  }
+  if (directedAssociations > 0) {
+    warnings.push(`Ignored isDirected on ${directedAssociations} association(s); BOM operations cannot set association direction`);
+  }
+  if (modelPropertyCount > 0) {
+    warnings.push(`Skipped ${modelPropertyCount} model-level propert${modelPropertyCount === 1 ? 'y' : 'ies'}`);
+  }
+  if (misplacedItems > 0) {
+    warnings.push(`Kept ${misplacedItems} concept(s) in their default folder; their organization folder belongs to another layer`);
+  }
+  if (skippedViews > 0) warnings.push(`Skipped ${skippedViews} non-ArchiMate view(s) (sketch/canvas)`);
+  if (skippedNotes > 0) warnings.push(`Skipped ${skippedNotes} empty note(s)`);
+  if (skippedNodes > 0) warnings.push(`Skipped ${skippedNodes} view node(s) of unsupported type`);
+  if (skippedConnections > 0) {
+    warnings.push(`Skipped ${skippedConnections} connection(s) that are plain lines or not between element nodes`);
+  }
+
+  result.changes = [
+    ...elementChanges,
+    ...relationshipChanges,
+    ...propertyChanges,
+    ...folderChanges,
+    ...viewChanges,
+    ...moveChanges,
+  ];
+  result.counts.elements = elementChanges.length;
+  result.counts.relationships = relationshipChanges.length;
+  result.counts.properties = propertyChanges.length;
+  result.counts.folders = folderChanges.length;
+  return result;
+}
@@ -0,0 +1,371 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { RELATIONSHIP_TYPE_SET } from './archimateTypes';
+import type { ModelSnapshot } from './modelSnapshot';
+
+/**
+ * File name looked up from the working directory upwards when no --config is given.
+ */
+export const LINT_CONFIG_FILE = '.archilint.json';
+
+export const LINT_SEVERITIES = ['error', 'warning', 'info', 'off'] as const;
+
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/**
+ * Every rule the engine knows, with the severity it runs at when the config does not mention it.
+ */
+export const LINT_RULE_DEFAULTS: Record<string, LintSeverity> = {
+  'naming-convention': 'warning',
+  'required-properties': 'error',
+  'element-not-in-view': 'warning',
+  'empty-view': 'warning',
+  'invalid-relationship': 'error',
+  'duplicate-name': 'warning',
+};
+
+export const LINT_RULES = Object.keys(LINT_RULE_DEFAULTS);
+
+export const LINT_RULE_DESCRIPTIONS: Record<string, string> = {
+  'naming-convention': 'Names match the configured pattern for their type',
+  'required-properties': 'Configured properties are set for each type',
+  'element-not-in-view': 'Every element appears on at least one view',
+  'empty-view': 'Every view contains elements',
+  'invalid-relationship': 'Relationships are allowed between their source and target types',
+  'duplicate-name': 'Element names are unique per type',
+};
+
+/**
+ * A rule entry is either a severity or `[severity, options]`, as in ESLint configs.
+ */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, unknown>];
+
+/**
+ * Project-level lint configuration (`.archilint.json`).
+ */
+export interface LintConfig {
+  rules?: Record<string, LintRuleSetting>;
+  /** Concept or view IDs excluded from every rule. */
+  ignore?: string[];
+}
+
+/**
+ * One rule violation on an element, relationship, or view.
+ */
+export interface LintFinding {
+  rule: string;
+  severity: Exclude<LintSeverity, 'off'>;
+  id: string;
+  type: string;
+  name: string;
+  message: string;
+}
+
+export interface LintReport {
+  summary: { errors: number; warnings: number; info: number; rules: Record<string, LintSeverity> };
+  findings: LintFinding[];
+}
+
+interface ResolvedRule {
+  severity: Exclude<LintSeverity, 'off'>;
+  options: Record<string, unknown>;
+}
+
+interface RelationshipMatrix {
+  keys: Record<string, string>;
+  rules: Record<string, Record<string, string>>;
+}
+
+// Default for naming-convention: a name is required and carries no surrounding whitespace.
+const DEFAULT_NAME_PATTERN = '^\\S(.*\\S)?$';
+
+// Junctions are unnamed connectors, not modelled content.
+const UNNAMED_ELEMENT_TYPES = new Set(['junction']);
+
+const SEVERITY_ORDER: Record<Exclude<LintSeverity, 'off'>, number> = { error: 0, warning: 1, info: 2 };
+
+let relationshipMatrix: RelationshipMatrix | undefined;
+
+function loadRelationshipMatrix(): RelationshipMatrix {
+  if (!relationshipMatrix) {
+    const path = join(__dirname, '..', 'schemas', 'relationships.json');
+    relationshipMatrix = JSON.parse(readFileSync(path, 'utf-8')) as RelationshipMatrix;
+  }
+  return relationshipMatrix;
+}
+
+/**
+ * Whether ArchiMate allows `relationshipType` from `sourceType` to `targetType`,
+ * per the matrix generated from `context/relationships.xml`.
+ */
+export function isRelationshipAllowed(relationshipType: string, sourceType: string, targetType: string): boolean {
+  const matrix = loadRelationshipMatrix();
+  const source = RELATIONSHIP_TYPE_SET.has(sourceType) ? 'relationship' : sourceType;
+  const target = RELATIONSHIP_TYPE_SET.has(targetType) ? 'relationship' : targetType;
+  const letters = matrix.rules[source]?.[target] ?? '';
+  return [...letters].some((letter) => matrix.keys[letter] === relationshipType);
+}
+
+function isObjectRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is LintSeverity {
+  return typeof value === 'string' && (LINT_SEVERITIES as readonly string[]).includes(value);
+}
+
+function checkRuleOptions(rule: string, options: Record<string, unknown>): string | undefined {
+  const stringMap = (value: unknown, check: (entry: unknown) => boolean): boolean =>
+    isObjectRecord(value) && Object.values(value).every(check);
+  switch (rule) {
+    case 'naming-convention':
+      if (options.patterns === undefined) return undefined;
+      if (!stringMap(options.patterns, (entry) => typeof entry === 'string')) {
+        return "'patterns' must map concept types to regular expressions";
+      }
+      for (const [type, pattern] of Object.entries(options.patterns as Record<string, string>)) {
+        try {
+          new RegExp(pattern);
+        } catch (err) {
+          return `pattern for '${type}' is not a valid regular expression: ${(err as Error).message}`;
+        }
+      }
+      return undefined;
+    case 'required-properties':
+      if (options.properties === undefined) return undefined;
+      return stringMap(
+        options.properties,
+        (entry) => Array.isArray(entry) && entry.every((key) => typeof key === 'string')
+      )
+        ? undefined
+        : "'properties' must map concept types to arrays of property keys";
+    case 'element-not-in-view':
+      if (options.ignoreTypes === undefined) return undefined;
+      return Array.isArray(options.ignoreTypes) && options.ignoreTypes.every((type) => typeof type === 'string')
+        ? undefined
+        : "'ignoreTypes' must be an array of element types";
+    case 'duplicate-name':
+      for (const flag of ['ignoreCase', 'acrossTypes']) {
+        if (options[flag] !== undefined && typeof options[flag] !== 'boolean') return `'${flag}' must be a boolean`;
+      }
+      return undefined;
+    default:
+      return Object.keys(options).length > 0 ? 'this rule takes no options' : undefined;
+  }
+}
+
+/**
+ * Check a parsed config object; returns human-readable problems (empty when valid).
+ */
+export function validateLintConfig(config: unknown): string[] {
+  if (!isObjectRecord(config)) return ['config must be a JSON object'];
+  const errors: string[] = [];
+  for (const key of Object.keys(config)) {
+    if (key !== 'rules' && key !== 'ignore' && key !== '$schema') errors.push(`unknown top-level key '${key}'`);
+  }
+  if (config.ignore !== undefined) {
+    if (!Array.isArray(config.ignore) || !config.ignore.every((id) => typeof id === 'string')) {
+      errors.push("'ignore' must be an array of IDs");
+    }
+  }
+  if (config.rules === undefined) return errors;
+  if (!isObjectRecord(config.rules)) return [...errors, "'rules' must be an object"];
+  for (const [rule, setting] of Object.entries(config.rules)) {
+    if (!(rule in LINT_RULE_DEFAULTS)) {
+      errors.push(`unknown rule '${rule}' (known: ${LINT_RULES.join(', ')})`);
+      continue;
+    }
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+    if (!isSeverity(severity)) {
+      errors.push(`rule '${rule}': severity must be one of ${LINT_SEVERITIES.join(', ')}`);
+      continue;
+    }
+    if (Array.isArray(setting) && (setting.length !== 2 || !isObjectRecord(options))) {
+      errors.push(`rule '${rule}': expected [severity, options]`);
+      continue;
+    }
+    const problem = checkRuleOptions(rule, options as Record<string, unknown>);
+    if (problem) errors.push(`rule '${rule}': ${problem}`);
+  }
+  return errors;
+}
+
+/**
+ * Find `.archilint.json` in `startDir` or the nearest parent directory.
+ */
+export function findLintConfig(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+  for (;;) {
+    const candidate = join(dir, LINT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read and validate a lint config file.
+ */
+export function loadLintConfig(path: string): LintConfig {
+  if (!existsSync(path)) throw new Error(`Lint config not found: ${path}`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid JSON in lint config ${path}: ${(err as Error).message}`);
+  }
+  const errors = validateLintConfig(parsed);
+  if (errors.length > 0) throw new Error(`Invalid lint config ${path}: ${errors.join('; ')}`);
+  return parsed as LintConfig;
+}
+
+function resolveRules(config: LintConfig, only?: string[]): Map<string, ResolvedRule> {
+  const resolved = new Map<string, ResolvedRule>();
+  for (const rule of LINT_RULES) {
+    if (only && !only.includes(rule)) continue;
+    const setting = config.rules?.[rule] ?? LINT_RULE_DEFAULTS[rule];
+    const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+    if (severity === 'off') continue;
+    resolved.set(rule, { severity, options });
+  }
+  return resolved;
+}
+
+function patternFor(patterns: Record<string, string>, type: string, isElement: boolean): string | undefined {
+  if (patterns[type] !== undefined) return patterns[type];
+  return isElement && !UNNAMED_ELEMENT_TYPES.has(type) ? patterns['*'] : undefined;
+}
+
+/**
+ * Run the configured rules against a model snapshot (live or from `model snapshot`).
+ * Findings are sorted by severity, then rule, then ID.
+ */
+export function lintModel(snapshot: ModelSnapshot, config: LintConfig = {}, only?: string[]): LintReport {
+  const rules = resolveRules(config, only);
+  const ignored = new Set(config.ignore ?? []);
+  const findings: LintFinding[] = [];
+  const report = (
+    rule: string,
+    concept: { id: string; type: string; name: string },
+    message: string
+  ): void => {
+    if (ignored.has(concept.id)) return;
+    findings.push({
+      rule,
+      severity: rules.get(rule)!.severity,
+      id: concept.id,
+      type: concept.type,
+      name: concept.name,
+      message,
+    });
+  };
+
+  const naming = rules.get('naming-convention');
+  if (naming) {
+    const patterns: Record<string, string> = {
+      '*': DEFAULT_NAME_PATTERN,
+      ...((naming.options.patterns as Record<string, string>) ?? {}),
+    };
+    const check = (concept: { id: string; type: string; name: string }, pattern: string | undefined): void => {
+      if (pattern !== undefined && !new RegExp(pattern).test(concept.name)) {
+        report('naming-convention', concept, `Name '${concept.name}' does not match ${pattern}`);
+      }
+    };
+    for (const element of snapshot.elements) check(element, patternFor(patterns, element.type, true));
+    for (const relationship of snapshot.relationships) check(relationship, patterns[relationship.type]);
+    for (const view of snapshot.views) check(view, patterns['view']);
+  }
+
+  const required = rules.get('required-properties');
+  if (required) {
+    const byType = (required.options.properties as Record<string, string[]>) ?? {};
+    for (const concept of [...snapshot.elements, ...snapshot.relationships]) {
+      const keys = [...(byType['*'] ?? []), ...(byType[concept.type] ?? [])];
+      const missing = [...new Set(keys)].filter((key) => !concept.properties[key]?.trim());
+      if (missing.length > 0) {
+        report('required-properties', concept, `Missing required properties: ${missing.join(', ')}`);
+      }
+    }
+  }
+
+  const notInView = rules.get('element-not-in-view');
+  if (notInView) {
+    const ignoreTypes = new Set((notInView.options.ignoreTypes as string[]) ?? []);
+    const onViews = new Set<string>();
+    for (const view of snapshot.views) {
+      for (const node of view.nodes) if (node.conceptId) onViews.add(node.conceptId);
+    }
+    for (const element of snapshot.elements) {
+      if (!ignoreTypes.has(element.type) && !onViews.has(element.id)) {
+        report('element-not-in-view', element, 'Element does not appear on any view');
+      }
+    }
+  }
+
+  if (rules.has('empty-view')) {
+    for (const view of snapshot.views) {
+      if (view.nodes.length === 0) report('empty-view', view, 'View has no elements');
+    }
+  }
+
+  if (rules.has('invalid-relationship')) {
+    const typeOf = new Map<string, string>();
+    for (const concept of [...snapshot.elements, ...snapshot.relationships]) typeOf.set(concept.id, concept.type);
+    for (const relationship of snapshot.relationships) {
+      const sourceType = typeOf.get(relationship.sourceId);
+      const targetType = typeOf.get(relationship.targetId);
+      // Dangling ends are ghost objects, which /model/diagnostics reports.
+      if (!sourceType || !targetType) continue;
+      if (!isRelationshipAllowed(relationship.type, sourceType, targetType)) {
+        report(
+          'invalid-relationship',
+          relationship,
+          `ArchiMate does not allow ${relationship.type} from ${sourceType} to ${targetType}`
+        );
+      }
+    }
+  }
+
+  const duplicates = rules.get('duplicate-name');
+  if (duplicates) {
+    const ignoreCase = duplicates.options.ignoreCase !== false;
+    const acrossTypes = duplicates.options.acrossTypes === true;
+    const groups = new Map<string, Array<{ id: string; type: string; name: string }>>();
+    for (const element of snapshot.elements) {
+      const name = element.name.trim();
+      if (!name) continue;
+      const key = `${acrossTypes ? '' : element.type}\u0000${ignoreCase ? name.toLowerCase() : name}`;
+      groups.set(key, [...(groups.get(key) ?? []), element]);
+    }
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+      for (const element of group) {
+        const others = group.filter((other) => other !== element).map((other) => other.id);
+        report('duplicate-name', element, `Name '${element.name}' is also used by ${others.join(', ')}`);
+      }
+    }
+  }
+
+  findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      (a.rule < b.rule ? -1 : a.rule > b.rule ? 1 : 0) ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+
+  const ruleSeverities: Record<string, LintSeverity> = {};
+  for (const rule of LINT_RULES) {
+    if (only && !only.includes(rule)) continue;
+    ruleSeverities[rule] = rules.get(rule)?.severity ?? 'off';
+  }
+  return {
+    summary: {
+      errors: findings.filter((finding) => finding.severity === 'error').length,
+      warnings: findings.filter((finding) => finding.severity === 'warning').length,
+      info: findings.filter((finding) => finding.severity === 'info').length,
+      rules: ruleSeverities,
+    },
+    findings,
+  };
+}
@@ -0,0 +1,131 @@
+import type { FolderInfo, FolderListResponse, ViewDetailResponse, ViewListResponse } from '../client';
+import { get, post } from './api';
+import { RELATIONSHIP_TYPE_SET } from './archimateTypes';
+import { addWarning } from './warnings';
+
+// Search has no pagination, so full-model reads request one very large page.
+const FULL_MODEL_SEARCH_LIMIT = 1_000_000;
+
+/**
+ * Element as returned by `/model/search` with `includeProperties`.
+ */
+export interface ModelElement {
+  id: string;
+  name: string;
+  type: string;
+  documentation: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * Relationship as returned by `/model/search` with `includeProperties`.
+ */
+export interface ModelRelationship extends ModelElement {
+  sourceId: string;
+  targetId: string;
+  /** access-relationship only (0=write, 1=read, 2=access, 3=readwrite). */
+  accessType?: number;
+  /** influence-relationship only. */
+  strength?: string;
+  /** association-relationship only. */
+  directed?: boolean;
+}
+
+/**
+ * Every element and relationship in the model, plus the model identity from `/health`.
+ */
+export interface ModelConcepts {
+  model: { id: string; name: string };
+  elements: ModelElement[];
+  relationships: ModelRelationship[];
+}
+
+interface SearchResponse {
+  results?: Array<Record<string, unknown>>;
+  total?: number;
+}
+
+interface HealthResponse {
+  model?: { id?: string; name?: string };
+}
+
+function toPropertyMap(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const result: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (entry !== null && entry !== undefined) result[key] = String(entry);
+  }
+  return result;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Read all elements and relationships (with properties) from the running server.
+ */
+export async function fetchModelConcepts(): Promise<ModelConcepts> {
+  const health = await get<HealthResponse>('/health');
+  const resp = await post<SearchResponse>('/model/search', {
+    limit: FULL_MODEL_SEARCH_LIMIT,
+    includeProperties: true,
+  });
+  const results = Array.isArray(resp.results) ? resp.results : [];
+  if (results.length >= FULL_MODEL_SEARCH_LIMIT) {
+    addWarning(`Model read was capped at ${FULL_MODEL_SEARCH_LIMIT} concepts; output may be incomplete`);
+  }
+
+  const elements: ModelElement[] = [];
+  const relationships: ModelRelationship[] = [];
+  for (const item of results) {
+    if (typeof item.id !== 'string') continue;
+    const base: ModelElement = {
+      id: item.id,
+      name: asString(item.name),
+      type: asString(item.type),
+      documentation: asString(item.documentation),
+      properties: toPropertyMap(item.properties),
+    };
+    if (RELATIONSHIP_TYPE_SET.has(base.type)) {
+      const relationship: ModelRelationship = {
+        ...base,
+        sourceId: asString(item.sourceId),
+        targetId: asString(item.targetId),
+      };
+      if (typeof item.accessType === 'number') relationship.accessType = item.accessType;
+      if (typeof item.strength === 'string') relationship.strength = item.strength;
+      if (typeof item.directed === 'boolean') relationship.directed = item.directed;
+      relationships.push(relationship);
+    } else {
+      elements.push(base);
+    }
+  }
+
+  return {
+    model: { id: asString(health.model?.id), name: asString(health.model?.name) },
+    elements,
+    relationships,
+  };
+}
+
+/**
+ * Read the flat folder list, including the IDs of concepts and views stored directly in each folder.
+ */
+export async function fetchFolders(): Promise<FolderInfo[]> {
+  const resp = await get<FolderListResponse>('/folders?includeChildren=true');
+  return Array.isArray(resp.folders) ? resp.folders : [];
+}
+
+/**
+ * Read every view with its visual objects and connections (one request per view).
+ */
+export async function fetchViewDetails(): Promise<ViewDetailResponse[]> {
+  const list = await get<ViewListResponse>('/views');
+  const views: ViewDetailResponse[] = [];
+  for (const summary of Array.isArray(list.views) ? list.views : []) {
+    if (typeof summary.id !== 'string') continue;
+    views.push(await get<ViewDetailResponse>(`/views/${encodeURIComponent(summary.id)}`));
+  }
+  return views;
+}
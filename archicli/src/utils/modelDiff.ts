@@ -0,0 +1,515 @@
+import type {
+  ModelSnapshot,
+  SnapshotConnection,
+  SnapshotElement,
+  SnapshotFolder,
+  SnapshotNode,
+  SnapshotRelationship,
+  SnapshotView,
+} from './modelSnapshot';
+
+const ELEMENT_FIELDS = ['type', 'name', 'documentation', 'folderId'] as const;
+const RELATIONSHIP_FIELDS = [...ELEMENT_FIELDS, 'sourceId', 'targetId', 'accessType', 'strength', 'directed'] as const;
+const FOLDER_FIELDS = ['name', 'type', 'parentId'] as const;
+const VIEW_FIELDS = ['name', 'type', 'documentation', 'viewpoint', 'connectionRouter', 'folderId'] as const;
+const NODE_BOUNDS_FIELDS = ['x', 'y', 'width', 'height'] as const;
+const NODE_STYLE_FIELDS = ['fillColor', 'lineColor', 'lineWidth', 'fontColor'] as const;
+const NODE_FIELDS = [
+  'type',
+  'name',
+  'conceptId',
+  'content',
+  'parentId',
+  ...NODE_BOUNDS_FIELDS,
+  ...NODE_STYLE_FIELDS,
+] as const;
+const CONNECTION_STYLE_FIELDS = ['lineColor', 'lineWidth', 'fontColor'] as const;
+const CONNECTION_FIELDS = ['type', 'name', 'conceptId', 'sourceId', 'targetId', ...CONNECTION_STYLE_FIELDS] as const;
+
+const NOTE_TYPE = 'diagram-model-note';
+const GROUP_TYPE = 'diagram-model-group';
+
+/**
+ * One changed field. Properties use `properties.<key>`; a missing side means added/removed.
+ */
+export interface FieldChange {
+  field: string;
+  old?: unknown;
+  new?: unknown;
+}
+
+/**
+ * An item present in both snapshots whose fields differ.
+ */
+export interface ChangedItem {
+  id: string;
+  name: string;
+  changes: FieldChange[];
+}
+
+/**
+ * Added, removed and changed items of one collection, each sorted by ID.
+ */
+export interface CollectionDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: ChangedItem[];
+}
+
+/**
+ * Changed view: view-level field changes plus the diff of its visual content.
+ */
+export interface ViewChange extends ChangedItem {
+  nodes: CollectionDiff<SnapshotNode>;
+  connections: CollectionDiff<SnapshotConnection>;
+}
+
+/**
+ * Differences between two model snapshots.
+ */
+export interface ModelDiff {
+  elements: CollectionDiff<SnapshotElement>;
+  relationships: CollectionDiff<SnapshotRelationship>;
+  folders: CollectionDiff<SnapshotFolder>;
+  views: { added: SnapshotView[]; removed: SnapshotView[]; changed: ViewChange[] };
+}
+
+/**
+ * A difference the change BOM cannot express (no matching BOM operation).
+ */
+export interface UnsupportedChange {
+  kind: 'element' | 'relationship' | 'folder' | 'view' | 'node' | 'connection';
+  id: string;
+  reason: string;
+}
+
+/**
+ * BOM operations that turn the old model into the new one, plus what had to be left out.
+ */
+export interface ChangeBom {
+  changes: Array<Record<string, unknown>>;
+  unsupported: UnsupportedChange[];
+}
+
+function compareFields(oldItem: object, newItem: object, fields: ReadonlyArray<string>): FieldChange[] {
+  const before = oldItem as Record<string, unknown>;
+  const after = newItem as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (before[field] !== after[field]) changes.push({ field, old: before[field], new: after[field] });
+  }
+  return changes;
+}
+
+function compareProperties(before: Record<string, string>, after: Record<string, string>): FieldChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return keys
+    .filter((key) => before[key] !== after[key])
+    .map((key) => ({ field: `properties.${key}`, old: before[key], new: after[key] }));
+}
+
+function diffCollection<T extends { id: string }>(
+  oldItems: T[],
+  newItems: T[],
+  compare: (oldItem: T, newItem: T) => FieldChange[],
+  nameOf: (item: T) => string
+): CollectionDiff<T> {
+  const oldById = new Map(oldItems.map((item) => [item.id, item]));
+  const newIds = new Set(newItems.map((item) => item.id));
+  const diff: CollectionDiff<T> = { added: [], removed: [], changed: [] };
+  for (const item of newItems) {
+    const previous = oldById.get(item.id);
+    if (!previous) {
+      diff.added.push(item);
+      continue;
+    }
+    const changes = compare(previous, item);
+    if (changes.length > 0) diff.changed.push({ id: item.id, name: nameOf(item), changes });
+  }
+  diff.removed = oldItems.filter((item) => !newIds.has(item.id));
+  return diff;
+}
+
+function isEmptyDiff(diff: CollectionDiff<unknown>): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Compare two snapshots by ID. Items keep the order of their snapshot (sorted by ID).
+ */
+export function diffModelSnapshots(oldSnapshot: ModelSnapshot, newSnapshot: ModelSnapshot): ModelDiff {
+  const byName = (item: { name: string }): string => item.name;
+  const elements = diffCollection(
+    oldSnapshot.elements,
+    newSnapshot.elements,
+    (a, b) => [...compareFields(a, b, ELEMENT_FIELDS), ...compareProperties(a.properties, b.properties)],
+    byName
+  );
+  const relationships = diffCollection(
+    oldSnapshot.relationships,
+    newSnapshot.relationships,
+    (a, b) => [...compareFields(a, b, RELATIONSHIP_FIELDS), ...compareProperties(a.properties, b.properties)],
+    byName
+  );
+  const folders = diffCollection(
+    oldSnapshot.folders,
+    newSnapshot.folders,
+    (a, b) => compareFields(a, b, FOLDER_FIELDS),
+    byName
+  );
+
+  const oldViews = new Map(oldSnapshot.views.map((view) => [view.id, view]));
+  const newViewIds = new Set(newSnapshot.views.map((view) => view.id));
+  const views: ModelDiff['views'] = { added: [], removed: [], changed: [] };
+  for (const view of newSnapshot.views) {
+    const previous = oldViews.get(view.id);
+    if (!previous) {
+      views.added.push(view);
+      continue;
+    }
+    const changes = compareFields(previous, view, VIEW_FIELDS);
+    const nodes = diffCollection(previous.nodes, view.nodes, (a, b) => compareFields(a, b, NODE_FIELDS), (node) =>
+      node.name || node.content || ''
+    );
+    const connections = diffCollection(
+      previous.connections,
+      view.connections,
+      (a, b) => compareFields(a, b, CONNECTION_FIELDS),
+      byName
+    );
+    if (changes.length > 0 || !isEmptyDiff(nodes) || !isEmptyDiff(connections)) {
+      views.changed.push({ id: view.id, name: view.name, changes, nodes, connections });
+    }
+  }
+  views.removed = oldSnapshot.views.filter((view) => !newViewIds.has(view.id));
+
+  return { elements, relationships, folders, views };
+}
+
+/**
+ * Added/removed/changed counts per collection.
+ */
+export function summarizeModelDiff(
+  diff: ModelDiff
+): Record<string, { added: number; removed: number; changed: number }> {
+  const count = (collection: { added: unknown[]; removed: unknown[]; changed: unknown[] }) => ({
+    added: collection.added.length,
+    removed: collection.removed.length,
+    changed: collection.changed.length,
+  });
+  return {
+    elements: count(diff.elements),
+    relationships: count(diff.relationships),
+    folders: count(diff.folders),
+    views: count(diff.views),
+  };
+}
+
+/**
+ * Order items so that every item comes after the item its `parentId` points at (when both are in the list).
+ */
+function parentsFirst<T extends { id: string; parentId?: string | null }>(items: T[]): T[] {
+  const pending = new Map(items.map((item) => [item.id, item]));
+  const ordered: T[] = [];
+  const visit = (item: T): void => {
+    if (!pending.has(item.id)) return;
+    pending.delete(item.id);
+    const parent = item.parentId ? pending.get(item.parentId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(item);
+  };
+  for (const item of items) visit(item);
+  return ordered;
+}
+
+function pickDefined(source: object, fields: ReadonlyArray<string>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = (source as Record<string, unknown>)[field];
+    if (value !== undefined) picked[field] = value;
+  }
+  return picked;
+}
+
+/**
+ * Build the BOM operations that transform the old snapshot's model into the new one.
+ *
+ * IDs that exist in the old model are used as-is; items that only exist in the new
+ * snapshot are re-created with their new-snapshot ID as tempId, so references between
+ * added items resolve within the batch. Creates run first, then updates and layout
+ * changes, then deletions (relationships before elements, whose delete cascades).
+ */
+export function buildChangeBom(diff: ModelDiff, newSnapshot: ModelSnapshot): ChangeBom {
+  const unsupported: UnsupportedChange[] = [];
+  const skip = (kind: UnsupportedChange['kind'], id: string, reason: string): void => {
+    unsupported.push({ kind, id, reason });
+  };
+  const creates: Array<Record<string, unknown>> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const viewOps: Array<Record<string, unknown>> = [];
+  const deletes: Array<Record<string, unknown>> = [];
+
+  const subfolderIds = new Set(
+    newSnapshot.folders.filter((folder) => folder.parentId !== null).map((folder) => folder.id)
+  );
+  const removedElementIds = new Set(diff.elements.removed.map((element) => element.id));
+  const removedRelationshipIds = new Set(diff.relationships.removed.map((relationship) => relationship.id));
+
+  // Folders: only subfolders can be created; Archi's top-level folders are fixed.
+  for (const folder of parentsFirst(diff.folders.added)) {
+    if (folder.parentId === null) {
+      skip('folder', folder.id, 'top-level folders cannot be created');
+      continue;
+    }
+    creates.push({ op: 'createFolder', name: folder.name || 'Folder', tempId: folder.id, parentId: folder.parentId });
+  }
+  for (const folder of diff.folders.changed) {
+    skip('folder', folder.id, 'folders cannot be renamed or moved by a BOM');
+  }
+  for (const folder of diff.folders.removed) {
+    skip('folder', folder.id, 'folders cannot be deleted by a BOM');
+  }
+
+  const setProperties = (id: string, changes: FieldChange[], kind: UnsupportedChange['kind']): void => {
+    for (const change of changes) {
+      if (!change.field.startsWith('properties.')) continue;
+      const key = change.field.slice('properties.'.length);
+      if (change.new === undefined) {
+        skip(kind, id, `property '${key}' was removed; no BOM operation removes properties`);
+        continue;
+      }
+      updates.push({ op: 'setProperty', id, key, value: change.new });
+    }
+  };
+  const propertyChanges = (properties: Record<string, string>): FieldChange[] =>
+    Object.entries(properties).map(([key, value]) => ({ field: `properties.${key}`, new: value }));
+
+  // Elements
+  for (const element of diff.elements.added) {
+    if (!element.name) {
+      skip('element', element.id, 'element has no name');
+      continue;
+    }
+    const op: Record<string, unknown> = {
+      op: 'createElement',
+      type: element.type,
+      name: element.name,
+      tempId: element.id,
+    };
+    if (element.documentation) op.documentation = element.documentation;
+    if (element.folderId && subfolderIds.has(element.folderId)) op.folder = element.folderId;
+    creates.push(op);
+    setProperties(element.id, propertyChanges(element.properties), 'element');
+  }
+  const updateConcept = (
+    item: ChangedItem,
+    kind: 'element' | 'relationship',
+    updateOp: string,
+    immutableFields: ReadonlyArray<string>
+  ): void => {
+    const update: Record<string, unknown> = { op: updateOp, id: item.id };
+    for (const change of item.changes) {
+      if (change.field === 'name' || change.field === 'documentation') {
+        update[change.field] = change.new ?? '';
+      } else if (change.field === 'folderId') {
+        if (typeof change.new === 'string') updates.push({ op: 'moveToFolder', id: item.id, folderId: change.new });
+      } else if (immutableFields.includes(change.field)) {
+        skip(kind, item.id, `${change.field} changed; a BOM cannot change it in place`);
+      }
+    }
+    if (Object.keys(update).length > 2) updates.push(update);
+    setProperties(item.id, item.changes, kind);
+  };
+  for (const element of diff.elements.changed) updateConcept(element, 'element', 'updateElement', ['type']);
+
+  // Relationships (endpoints may be added elements, referenced by their tempId)
+  for (const relationship of diff.relationships.added) {
+    const op: Record<string, unknown> = {
+      op: 'createRelationship',
+      type: relationship.type,
+      sourceId: relationship.sourceId,
+      targetId: relationship.targetId,
+      tempId: relationship.id,
+    };
+    if (relationship.name) op.name = relationship.name;
+    if (relationship.documentation) op.documentation = relationship.documentation;
+    if (relationship.accessType !== undefined) op.accessType = relationship.accessType;
+    if (relationship.strength) op.strength = relationship.strength;
+    creates.push(op);
+    if (relationship.folderId && subfolderIds.has(relationship.folderId)) {
+      updates.push({ op: 'moveToFolder', id: relationship.id, folderId: relationship.folderId });
+    }
+    setProperties(relationship.id, propertyChanges(relationship.properties), 'relationship');
+  }
+  for (const relationship of diff.relationships.changed) {
+    updateConcept(relationship, 'relationship', 'updateRelationship', [
+      'type',
+      'sourceId',
+      'targetId',
+      'accessType',
+      'strength',
+      'directed',
+    ]);
+  }
+
+  // View content
+  const addNodes = (viewId: string, nodes: SnapshotNode[]): void => {
+    for (const node of parentsFirst(nodes)) {
+      const bounds: Record<string, number> = { x: node.x, y: node.y };
+      if (node.width > 0) bounds.width = node.width;
+      if (node.height > 0) bounds.height = node.height;
+      if (node.conceptId) {
+        const op: Record<string, unknown> = {
+          op: 'addToView',
+          viewId,
+          elementId: node.conceptId,
+          tempId: node.id,
+          ...bounds,
+        };
+        if (node.parentId) op.parentVisualId = node.parentId;
+        viewOps.push(op);
+      } else if (node.type === NOTE_TYPE || node.type === GROUP_TYPE) {
+        if (node.type === NOTE_TYPE) {
+          const content = node.content || node.name;
+          if (!content) {
+            skip('node', node.id, 'empty notes cannot be created');
+            continue;
+          }
+          viewOps.push({ op: 'createNote', viewId, content, tempId: node.id, ...bounds });
+        } else {
+          viewOps.push({ op: 'createGroup', viewId, name: node.name || 'Group', tempId: node.id, ...bounds });
+        }
+        if (node.parentId) {
+          const nest = { viewId, visualId: node.id, parentVisualId: node.parentId, x: node.x, y: node.y };
+          viewOps.push({ op: 'nestInView', ...nest });
+        }
+      } else {
+        skip('node', node.id, `visual objects of type '${node.type}' cannot be created`);
+        continue;
+      }
+      const style = pickDefined(node, NODE_STYLE_FIELDS);
+      if (Object.keys(style).length > 0) viewOps.push({ op: 'styleViewObject', viewObjectId: node.id, ...style });
+    }
+  };
+  const addConnections = (viewId: string, connections: SnapshotConnection[]): void => {
+    for (const connection of connections) {
+      if (!connection.conceptId) {
+        skip('connection', connection.id, 'plain (non-ArchiMate) connections cannot be created');
+        continue;
+      }
+      viewOps.push({
+        op: 'addConnectionToView',
+        viewId,
+        relationshipId: connection.conceptId,
+        sourceVisualId: connection.sourceId,
+        targetVisualId: connection.targetId,
+        tempId: connection.id,
+      });
+      const style = pickDefined(connection, CONNECTION_STYLE_FIELDS);
+      if (Object.keys(style).length > 0) viewOps.push({ op: 'styleConnection', connectionId: connection.id, ...style });
+    }
+  };
+
+  // Views
+  for (const view of diff.views.added) {
+    const op: Record<string, unknown> = { op: 'createView', name: view.name || 'View', tempId: view.id };
+    if (view.documentation) op.documentation = view.documentation;
+    if (view.viewpoint) op.viewpoint = view.viewpoint;
+    viewOps.push(op);
+    if (view.folderId && subfolderIds.has(view.folderId)) {
+      viewOps.push({ op: 'moveToFolder', id: view.id, folderId: view.folderId });
+    }
+    if (view.connectionRouter && view.connectionRouter !== 'bendpoint') {
+      skip('view', view.id, `connection router '${view.connectionRouter}' is not set by a BOM`);
+    }
+    addNodes(view.id, view.nodes);
+    addConnections(view.id, view.connections);
+  }
+  for (const view of diff.views.changed) {
+    for (const change of view.changes) {
+      if (change.field === 'folderId' && typeof change.new === 'string') {
+        updates.push({ op: 'moveToFolder', id: view.id, folderId: change.new });
+      } else if (change.field !== 'folderId') {
+        skip('view', view.id, `view ${change.field} changed; views cannot be updated by a BOM`);
+      }
+    }
+    addNodes(view.id, view.nodes.added);
+    for (const node of view.nodes.changed) {
+      const fields = new Set(node.changes.map((change) => change.field));
+      const current = findNode(newSnapshot, view.id, node.id);
+      if (!current) continue;
+      if (fields.has('parentId')) {
+        if (current.parentId) {
+          const nest = { visualId: node.id, parentVisualId: current.parentId, x: current.x, y: current.y };
+          viewOps.push({ op: 'nestInView', viewId: view.id, ...nest });
+        } else {
+          skip('node', node.id, 'moving a nested object back to the view root is not supported');
+        }
+      }
+      if (NODE_BOUNDS_FIELDS.some((field) => fields.has(field))) {
+        viewOps.push({
+          op: 'moveViewObject',
+          viewObjectId: node.id,
+          x: current.x,
+          y: current.y,
+          ...(current.width > 0 ? { width: current.width } : {}),
+          ...(current.height > 0 ? { height: current.height } : {}),
+        });
+      }
+      const style = pickDefined(current, NODE_STYLE_FIELDS);
+      if (NODE_STYLE_FIELDS.some((field) => fields.has(field)) && Object.keys(style).length > 0) {
+        viewOps.push({ op: 'styleViewObject', viewObjectId: node.id, ...style });
+      }
+      for (const field of ['type', 'conceptId', 'name', 'content']) {
+        if (fields.has(field)) {
+          skip('node', node.id, `${field} of a visual object changed; it cannot be updated by a BOM`);
+        }
+      }
+    }
+    for (const node of view.nodes.removed) {
+      if (node.conceptId && removedElementIds.has(node.conceptId)) continue;
+      skip('node', node.id, 'visual objects cannot be removed from a view by a BOM');
+    }
+
+    addConnections(view.id, view.connections.added);
+    for (const connection of view.connections.changed) {
+      const current = findConnection(newSnapshot, view.id, connection.id);
+      if (!current) continue;
+      for (const change of connection.changes) {
+        if (!(CONNECTION_STYLE_FIELDS as ReadonlyArray<string>).includes(change.field)) {
+          skip('connection', connection.id, `${change.field} of a connection changed; it cannot be updated by a BOM`);
+        }
+      }
+      const style = pickDefined(current, CONNECTION_STYLE_FIELDS);
+      if (connection.changes.some((change) => change.field in style)) {
+        viewOps.push({ op: 'styleConnection', connectionId: connection.id, ...style });
+      }
+    }
+    for (const connection of view.connections.removed) {
+      // Deleting the relationship removes its connections.
+      if (connection.conceptId && removedRelationshipIds.has(connection.conceptId)) continue;
+      deletes.push({ op: 'deleteConnectionFromView', viewId: view.id, connectionId: connection.id });
+    }
+  }
+
+  for (const view of diff.views.removed) deletes.push({ op: 'deleteView', viewId: view.id });
+  for (const relationship of diff.relationships.removed) {
+    deletes.push({ op: 'deleteRelationship', id: relationship.id });
+  }
+  for (const element of diff.elements.removed) deletes.push({ op: 'deleteElement', id: element.id });
+
+  return { changes: [...creates, ...updates, ...viewOps, ...deletes], unsupported };
+}
+
+function findNode(snapshot: ModelSnapshot, viewId: string, nodeId: string): SnapshotNode | undefined {
+  return snapshot.views.find((view) => view.id === viewId)?.nodes.find((node) => node.id === nodeId);
+}
+
+function findConnection(
+  snapshot: ModelSnapshot,
+  viewId: string,
+  connectionId: string
+): SnapshotConnection | undefined {
+  const view = snapshot.views.find((candidate) => candidate.id === viewId);
+  return view?.connections.find((connection) => connection.id === connectionId);
+}
@@ -0,0 +1,207 @@
+import { ArgumentValidationError } from './args';
+import { RELATIONSHIP_TYPE_SET } from './archimateTypes';
+import { layerColor } from './viewRender';
+import { createAliasFactory, dotEdgeStyle, dotString, mermaidLink, mermaidText } from './viewText';
+
+export const GRAPH_DIRECTIONS = ['out', 'in', 'both'] as const;
+
+export type GraphDirection = (typeof GRAPH_DIRECTIONS)[number];
+
+export const GRAPH_FORMATS = ['json', 'dot', 'mermaid'] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+/**
+ * The concept fields traversal needs; satisfied by both the live model read and a model snapshot.
+ */
+export interface GraphConcepts {
+  elements: Array<{ id: string; type: string; name: string }>;
+  relationships: Array<{ id: string; type: string; name: string; sourceId: string; targetId: string }>;
+}
+
+export interface GraphOptions {
+  /** Element IDs to start from. */
+  startIds: string[];
+  /** Number of relationship hops to follow (0 = start elements only). */
+  depth: number;
+  /** Follow relationships from source to target (`out`), target to source (`in`), or both. */
+  direction: GraphDirection;
+  /** Only follow these relationship types (all when omitted). */
+  relationshipTypes?: string[];
+}
+
+export interface GraphNode {
+  id: string;
+  type: string;
+  name: string;
+  /** Hops from the nearest start element. */
+  distance: number;
+}
+
+export interface GraphEdge {
+  id: string;
+  type: string;
+  name: string;
+  sourceId: string;
+  targetId: string;
+}
+
+export interface GraphResult {
+  start: string[];
+  depth: number;
+  direction: GraphDirection;
+  relationshipTypes: string[] | null;
+  summary: { nodes: number; edges: number };
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Parse a --direction value.
+ */
+export function isGraphDirection(value: string): value is GraphDirection {
+  return (GRAPH_DIRECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a --format value.
+ */
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a comma-separated relationship type list; the `-relationship` suffix is optional.
+ */
+export function parseRelationshipTypes(raw: string, optionName: string): string[] {
+  const types = raw
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value.length > 0)
+    .map((value) => (value.endsWith('-relationship') ? value : `${value}-relationship`));
+  const unknown = types.filter((type) => !RELATIONSHIP_TYPE_SET.has(type));
+  if (types.length === 0 || unknown.length > 0) {
+    throw new ArgumentValidationError(
+      `${optionName} must list relationship types (e.g. serving,realization), got '${raw}'`
+    );
+  }
+  return [...new Set(types)];
+}
+
+/**
+ * Breadth-first walk from the start elements. Elements closer than `depth` are expanded,
+ * and every matching relationship of an expanded element is part of the result (including
+ * ones between two elements that were already reached). Relationships attached to other
+ * relationships are not followed.
+ *
+ * @throws Error when a start ID is not an element of the model.
+ */
+export function traverseGraph(concepts: GraphConcepts, options: GraphOptions): GraphResult {
+  const elementsById = new Map(concepts.elements.map((element) => [element.id, element]));
+  const missing = options.startIds.filter((id) => !elementsById.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Element(s) not found in the model: ${missing.join(', ')}`);
+  }
+
+  const allowedTypes = options.relationshipTypes ? new Set(options.relationshipTypes) : undefined;
+  const adjacency = new Map<string, Array<{ relationship: GraphEdge; otherId: string }>>();
+  const link = (fromId: string, relationship: GraphEdge, otherId: string): void => {
+    const list = adjacency.get(fromId) ?? [];
+    list.push({ relationship, otherId });
+    adjacency.set(fromId, list);
+  };
+  for (const relationship of concepts.relationships) {
+    if (allowedTypes && !allowedTypes.has(relationship.type)) continue;
+    if (!elementsById.has(relationship.sourceId) || !elementsById.has(relationship.targetId)) continue;
+    const edge: GraphEdge = {
+      id: relationship.id,
+      type: relationship.type,
+      name: relationship.name,
+      sourceId: relationship.sourceId,
+      targetId: relationship.targetId,
+    };
+    if (options.direction !== 'in') link(relationship.sourceId, edge, relationship.targetId);
+    if (options.direction !== 'out') link(relationship.targetId, edge, relationship.sourceId);
+  }
+
+  const distances = new Map<string, number>();
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [...new Set(options.startIds)];
+  for (const id of frontier) distances.set(id, 0);
+  for (let hop = 1; hop <= options.depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const { relationship, otherId } of adjacency.get(id) ?? []) {
+        if (!distances.has(otherId)) {
+          distances.set(otherId, hop);
+          next.push(otherId);
+        }
+        edges.set(relationship.id, relationship);
+      }
+    }
+    frontier = next;
+  }
+
+  const nodes = [...distances.entries()]
+    .map(([id, distance]) => {
+      const element = elementsById.get(id) as { id: string; type: string; name: string };
+      return { id, type: element.type, name: element.name, distance };
+    })
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+  const edgeList = [...edges.values()].sort((a, b) => a.id.localeCompare(b.id));
+  return {
+    start: options.startIds,
+    depth: options.depth,
+    direction: options.direction,
+    relationshipTypes: options.relationshipTypes ?? null,
+    summary: { nodes: nodes.length, edges: edgeList.length },
+    nodes,
+    edges: edgeList,
+  };
+}
+
+/**
+ * Render a traversal as a Mermaid flowchart; start elements get a heavier border.
+ */
+export function graphToMermaid(graph: GraphResult): string {
+  const toAlias = createAliasFactory();
+  const aliases = new Map(graph.nodes.map((node) => [node.id, toAlias(node.id)]));
+  const lines = ['flowchart LR'];
+  const styles: string[] = [];
+  for (const node of graph.nodes) {
+    const alias = aliases.get(node.id) as string;
+    lines.push(`  ${alias}["${mermaidText(node.name || node.id)}<br>${mermaidText(`«${node.type}»`)}"]`);
+    const border = node.distance === 0 ? ',stroke-width:3px' : '';
+    styles.push(`  style ${alias} fill:${layerColor(node.type)},stroke:#5c5c5c${border}`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.name ? `|"${mermaidText(edge.name).replace(/\|/g, '#124;')}"|` : '';
+    lines.push(`  ${aliases.get(edge.sourceId)} ${mermaidLink(edge.type)}${label} ${aliases.get(edge.targetId)}`);
+  }
+  return [...lines, ...styles].join('\n') + '\n';
+}
+
+/**
+ * Render a traversal as a Graphviz digraph; start elements get a heavier border.
+ */
+export function graphToDot(graph: GraphResult): string {
+  const toAlias = createAliasFactory();
+  const aliases = new Map(graph.nodes.map((node) => [node.id, toAlias(node.id)]));
+  const lines = [
+    'digraph "model graph" {',
+    '  graph [rankdir=LR, fontname="Helvetica"];',
+    '  node [shape=box, style=filled, fontname="Helvetica", fontsize=11, color="#5c5c5c"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  for (const node of graph.nodes) {
+    const label = dotString(`${node.name || node.id}\n«${node.type}»`);
+    const border = node.distance === 0 ? ', penwidth=2' : '';
+    lines.push(`  ${aliases.get(node.id)} [label=${label}, fillcolor=${dotString(layerColor(node.type))}${border}];`);
+  }
+  for (const edge of graph.edges) {
+    const label = edge.name ? `, label=${dotString(edge.name)}` : '';
+    lines.push(`  ${aliases.get(edge.sourceId)} -> ${aliases.get(edge.targetId)} [${dotEdgeStyle(edge.type)}${label}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
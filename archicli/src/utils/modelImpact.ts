@@ -0,0 +1,144 @@
+import type { GraphConcepts } from './modelGraph';
+
+/**
+ * Which way change propagates along a relationship: `forward` means a change to the
+ * source affects the target, `reverse` the opposite.
+ */
+export type ImpactDirection = 'forward' | 'reverse' | 'both';
+
+/**
+ * Relationships that carry impact, with their default propagation direction:
+ * whatever serves, realizes, is assigned to, or flows into something is a dependency of it,
+ * and behaviour depends on the passive objects it accesses.
+ */
+export const IMPACT_RULES: Record<string, ImpactDirection> = {
+  'serving-relationship': 'forward',
+  'realization-relationship': 'forward',
+  'assignment-relationship': 'forward',
+  'access-relationship': 'reverse',
+  'flow-relationship': 'forward',
+};
+
+export const IMPACT_RELATIONSHIP_TYPES = Object.keys(IMPACT_RULES);
+
+// Access relationships refine the default by access type (0=write, 1=read, 2=access, 3=readwrite):
+// a writer changes the object it writes, and a read/write pair depends on each other.
+const ACCESS_TYPE_DIRECTIONS: Record<number, ImpactDirection> = {
+  0: 'forward',
+  1: 'reverse',
+  2: 'reverse',
+  3: 'both',
+};
+
+export interface ImpactConcepts extends GraphConcepts {
+  relationships: Array<GraphConcepts['relationships'][number] & { accessType?: number }>;
+}
+
+export interface ImpactOptions {
+  /** Stop after this many hops (unlimited when omitted). */
+  maxDepth?: number;
+  /** Only propagate along these relationship types (a subset of {@link IMPACT_RELATIONSHIP_TYPES}). */
+  relationshipTypes?: string[];
+}
+
+/**
+ * One hop on an impact path.
+ */
+export interface ImpactStep {
+  relationshipId: string;
+  relationshipType: string;
+  fromId: string;
+  toId: string;
+}
+
+export interface ImpactedElement {
+  id: string;
+  type: string;
+  name: string;
+  /** Length of the shortest impact path. */
+  depth: number;
+  /** Shortest impact path in readable form, e.g. `Host -[assignment]-> Portal`. */
+  path: string;
+  steps: ImpactStep[];
+}
+
+export interface ImpactReport {
+  element: { id: string; type: string; name: string };
+  rules: Array<{ type: string; direction: ImpactDirection }>;
+  maxDepth: number | null;
+  summary: { affected: number; depth: number };
+  affected: ImpactedElement[];
+}
+
+function impactDirection(relationship: ImpactConcepts['relationships'][number]): ImpactDirection {
+  if (relationship.type === 'access-relationship' && relationship.accessType !== undefined) {
+    return ACCESS_TYPE_DIRECTIONS[relationship.accessType] ?? IMPACT_RULES[relationship.type];
+  }
+  return IMPACT_RULES[relationship.type];
+}
+
+/**
+ * Find every element affected by a change to (or removal of) `elementId`, following
+ * {@link IMPACT_RULES} breadth-first so each element is reported with its shortest path.
+ *
+ * @throws Error when `elementId` is not an element of the model.
+ */
+export function analyzeImpact(concepts: ImpactConcepts, elementId: string, options: ImpactOptions = {}): ImpactReport {
+  const elementsById = new Map(concepts.elements.map((element) => [element.id, element]));
+  const origin = elementsById.get(elementId);
+  if (!origin) {
+    throw new Error(`Element not found in the model: ${elementId}`);
+  }
+  const types = new Set(options.relationshipTypes ?? IMPACT_RELATIONSHIP_TYPES);
+
+  const dependents = new Map<string, ImpactStep[]>();
+  const addStep = (step: ImpactStep): void => {
+    const list = dependents.get(step.fromId) ?? [];
+    list.push(step);
+    dependents.set(step.fromId, list);
+  };
+  const relationships = [...concepts.relationships].sort((a, b) => a.id.localeCompare(b.id));
+  for (const relationship of relationships) {
+    if (!types.has(relationship.type) || !IMPACT_RULES[relationship.type]) continue;
+    if (!elementsById.has(relationship.sourceId) || !elementsById.has(relationship.targetId)) continue;
+    const direction = impactDirection(relationship);
+    const step = { relationshipId: relationship.id, relationshipType: relationship.type };
+    if (direction !== 'reverse') addStep({ ...step, fromId: relationship.sourceId, toId: relationship.targetId });
+    if (direction !== 'forward') addStep({ ...step, fromId: relationship.targetId, toId: relationship.sourceId });
+  }
+
+  const paths = new Map<string, ImpactStep[]>([[elementId, []]]);
+  let frontier = [elementId];
+  for (let depth = 1; frontier.length > 0 && (options.maxDepth === undefined || depth <= options.maxDepth); depth++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const step of dependents.get(id) ?? []) {
+        if (paths.has(step.toId)) continue;
+        paths.set(step.toId, [...(paths.get(id) as ImpactStep[]), step]);
+        next.push(step.toId);
+      }
+    }
+    frontier = next;
+  }
+
+  const label = (id: string): string => elementsById.get(id)?.name || id;
+  const affected = [...paths.entries()]
+    .filter(([id]) => id !== elementId)
+    .map(([id, steps]) => {
+      const element = elementsById.get(id) as { id: string; type: string; name: string };
+      const path = steps.reduce(
+        (text, step) => `${text} -[${step.relationshipType.replace(/-relationship$/, '')}]-> ${label(step.toId)}`,
+        label(elementId)
+      );
+      return { id, type: element.type, name: element.name, depth: steps.length, path, steps };
+    })
+    .sort((a, b) => a.depth - b.depth || a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+  return {
+    element: { id: origin.id, type: origin.type, name: origin.name },
+    rules: [...types].filter((type) => IMPACT_RULES[type]).map((type) => ({ type, direction: IMPACT_RULES[type] })),
+    maxDepth: options.maxDepth ?? null,
+    summary: { affected: affected.length, depth: affected.reduce((max, entry) => Math.max(max, entry.depth), 0) },
+    affected,
+  };
+}
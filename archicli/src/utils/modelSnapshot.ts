@@ -0,0 +1,291 @@
+import { existsSync, readFileSync } from 'fs';
+import type { FolderInfo, ViewDetailResponse } from '../client';
+import { fetchFolders, fetchModelConcepts, fetchViewDetails } from './modelData';
+import type { ModelConcepts } from './modelData';
+
+/**
+ * Bumped whenever the snapshot layout changes incompatibly.
+ */
+export const MODEL_SNAPSHOT_VERSION = 1;
+
+// Style attributes `/views/{id}` reports for nodes and connections (only when set).
+const VISUAL_STYLE_FIELDS = ['fillColor', 'lineColor', 'lineWidth', 'fontColor'] as const;
+
+/**
+ * Element with its folder placement.
+ */
+export interface SnapshotElement {
+  id: string;
+  type: string;
+  name: string;
+  documentation: string;
+  folderId?: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * Relationship with type-specific attributes (only when the server reports them).
+ */
+export interface SnapshotRelationship extends SnapshotElement {
+  sourceId: string;
+  targetId: string;
+  accessType?: number;
+  strength?: string;
+  directed?: boolean;
+}
+
+/**
+ * Folder in the flat folder list; the tree is rebuilt from parentId.
+ */
+export interface SnapshotFolder {
+  id: string;
+  name: string;
+  type?: string;
+  parentId: string | null;
+}
+
+/**
+ * Visual object on a view.
+ */
+export interface SnapshotNode {
+  id: string;
+  type: string;
+  name: string;
+  conceptId?: string;
+  content?: string;
+  parentId?: string;
+  /** Parent-relative bounds, as stored by Archi (-1 = default size). */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fillColor?: string;
+  lineColor?: string;
+  lineWidth?: number;
+  fontColor?: string;
+}
+
+/**
+ * Visual connection on a view.
+ */
+export interface SnapshotConnection {
+  id: string;
+  type: string;
+  name: string;
+  conceptId?: string;
+  sourceId: string;
+  targetId: string;
+  lineColor?: string;
+  lineWidth?: number;
+  fontColor?: string;
+}
+
+/**
+ * View with its complete visual content.
+ */
+export interface SnapshotView {
+  id: string;
+  name: string;
+  type: string;
+  documentation: string;
+  viewpoint?: string;
+  connectionRouter?: string;
+  folderId?: string;
+  nodes: SnapshotNode[];
+  connections: SnapshotConnection[];
+}
+
+/**
+ * Canonical full-model representation written by `model snapshot`.
+ */
+export interface ModelSnapshot {
+  snapshotVersion: number;
+  model: { id: string; name: string };
+  elements: SnapshotElement[];
+  relationships: SnapshotRelationship[];
+  folders: SnapshotFolder[];
+  views: SnapshotView[];
+}
+
+function compareIds(a: { id: string }, b: { id: string }): number {
+  // Code-unit order, not localeCompare: the output must not depend on the machine's locale.
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function sortedProperties(properties: Record<string, string>): Record<string, string> {
+  const sorted: Record<string, string> = {};
+  for (const key of Object.keys(properties).sort()) sorted[key] = properties[key];
+  return sorted;
+}
+
+function copyStyle<T extends object>(target: T, source: Record<string, unknown>, fields: ReadonlyArray<string>): T {
+  for (const field of fields) {
+    const value = source[field];
+    if (typeof value === 'string' || typeof value === 'number') {
+      (target as Record<string, unknown>)[field] = value;
+    }
+  }
+  return target;
+}
+
+/**
+ * Normalize a `/views/{id}` payload into its snapshot form (defaults filled, sorted by ID).
+ */
+export function toSnapshotView(view: ViewDetailResponse, folderId: string | undefined): SnapshotView {
+  const nodes = (view.elements ?? [])
+    .filter((node) => typeof node.id === 'string')
+    .map((node) => {
+      const snapshotNode: SnapshotNode = {
+        id: node.id as string,
+        type: node.type ?? '',
+        name: node.name ?? '',
+        conceptId: node.conceptId,
+        content: node.content,
+        parentId: node.parentId,
+        x: node.x ?? 0,
+        y: node.y ?? 0,
+        width: node.width ?? -1,
+        height: node.height ?? -1,
+      };
+      return copyStyle(snapshotNode, node as Record<string, unknown>, VISUAL_STYLE_FIELDS);
+    })
+    .sort(compareIds);
+  const connections = (view.connections ?? [])
+    .filter((connection) => typeof connection.id === 'string')
+    .map((connection) => {
+      const snapshotConnection: SnapshotConnection = {
+        id: connection.id as string,
+        type: connection.type ?? '',
+        name: connection.name ?? '',
+        conceptId: connection.conceptId,
+        sourceId: connection.sourceId ?? '',
+        targetId: connection.targetId ?? '',
+      };
+      return copyStyle(snapshotConnection, connection as Record<string, unknown>, VISUAL_STYLE_FIELDS);
+    })
+    .sort(compareIds);
+
+  return {
+    id: view.id ?? '',
+    name: view.name ?? '',
+    type: view.type ?? 'archimate-diagram-model',
+    documentation: view.documentation ?? '',
+    viewpoint: view.viewpoint || undefined,
+    connectionRouter: view.connectionRouter || undefined,
+    folderId,
+    nodes,
+    connections,
+  };
+}
+
+/**
+ * Build a deterministic snapshot: every collection sorted by ID, property keys sorted,
+ * and no timestamps, so unchanged models always serialize to identical bytes.
+ */
+export function buildModelSnapshot(data: {
+  concepts: ModelConcepts;
+  folders: FolderInfo[];
+  views: ViewDetailResponse[];
+}): ModelSnapshot {
+  const folderOf = new Map<string, string>();
+  const folders: SnapshotFolder[] = [];
+  for (const folder of data.folders) {
+    if (typeof folder.id !== 'string') continue;
+    for (const childId of folder.childIds ?? []) folderOf.set(childId, folder.id);
+    folders.push({ id: folder.id, name: folder.name ?? '', type: folder.type, parentId: folder.parentId ?? null });
+  }
+
+  const elements = data.concepts.elements
+    .map(
+      (element): SnapshotElement => ({
+        id: element.id,
+        type: element.type,
+        name: element.name,
+        documentation: element.documentation,
+        folderId: folderOf.get(element.id),
+        properties: sortedProperties(element.properties),
+      })
+    )
+    .sort(compareIds);
+  const relationships = data.concepts.relationships
+    .map(
+      (relationship): SnapshotRelationship => ({
+        id: relationship.id,
+        type: relationship.type,
+        name: relationship.name,
+        documentation: relationship.documentation,
+        folderId: folderOf.get(relationship.id),
+        sourceId: relationship.sourceId,
+        targetId: relationship.targetId,
+        accessType: relationship.accessType,
+        strength: relationship.strength,
+        directed: relationship.directed,
+        properties: sortedProperties(relationship.properties),
+      })
+    )
+    .sort(compareIds);
+  const views = data.views
+    .filter((view) => typeof view.id === 'string')
+    .map((view) => toSnapshotView(view, folderOf.get(view.id as string)))
+    .sort(compareIds);
+
+  return {
+    snapshotVersion: MODEL_SNAPSHOT_VERSION,
+    model: { id: data.concepts.model.id, name: data.concepts.model.name },
+    elements,
+    relationships,
+    folders: folders.sort(compareIds),
+    views,
+  };
+}
+
+/**
+ * Serialize a snapshot as stable, git-friendly JSON (2-space indent, trailing newline).
+ * Field order is fixed by construction; undefined optional fields are omitted.
+ */
+export function serializeModelSnapshot(snapshot: ModelSnapshot): string {
+  return JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+/**
+ * Read the live model from the server and build its snapshot.
+ */
+export async function fetchModelSnapshot(): Promise<ModelSnapshot> {
+  const concepts = await fetchModelConcepts();
+  const folders = await fetchFolders();
+  const views = await fetchViewDetails();
+  return buildModelSnapshot({ concepts, folders, views });
+}
+
+/**
+ * Load a snapshot file written by `model snapshot`, rejecting other JSON and newer layouts.
+ */
+export function loadModelSnapshot(filePath: string): ModelSnapshot {
+  if (!existsSync(filePath)) {
+    throw new Error(`Snapshot file not found: ${filePath}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid JSON in snapshot file ${filePath}: ${String(err)}`);
+  }
+  const snapshot = parsed as Partial<ModelSnapshot> | null;
+  if (
+    typeof snapshot !== 'object' ||
+    snapshot === null ||
+    typeof snapshot.snapshotVersion !== 'number' ||
+    !Array.isArray(snapshot.elements) ||
+    !Array.isArray(snapshot.relationships) ||
+    !Array.isArray(snapshot.folders) ||
+    !Array.isArray(snapshot.views)
+  ) {
+    throw new Error(`${filePath} is not a model snapshot (expected the output of "archicli model snapshot")`);
+  }
+  if (snapshot.snapshotVersion > MODEL_SNAPSHOT_VERSION) {
+    throw new Error(
+      `${filePath} uses snapshot version ${snapshot.snapshotVersion}; this archicli reads up to version ${MODEL_SNAPSHOT_VERSION}`
+    );
+  }
+  return snapshot as ModelSnapshot;
+}
@@ -0,0 +1,519 @@
+import type { FolderInfo } from '../client';
+import type { ModelConcepts, ModelElement, ModelRelationship } from './modelData';
+import type { FieldChange, UnsupportedChange } from './modelDiff';
+
+/**
+ * Property that records which desired concept (by BOM tempId) a live concept implements.
+ */
+export const DEFAULT_SYNC_KEY_PROPERTY = 'sync-key';
+
+/**
+ * The part of the model a desired-state BOM owns: a folder subtree or every concept with a tag.
+ */
+export type SyncScope = { kind: 'folder'; folderId: string } | { kind: 'tag'; key: string; value: string };
+
+/**
+ * Problem with the desired-state BOM, located by JSON pointer into the flattened changes.
+ */
+export interface SyncIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Element as the desired state declares it. `ref` is the BOM tempId, or a generated one.
+ */
+export interface DesiredElement {
+  ref: string;
+  key?: string;
+  path: string;
+  type: string;
+  name: string;
+  documentation: string;
+  folder?: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * Relationship as the desired state declares it; endpoints are tempIds or model IDs.
+ */
+export interface DesiredRelationship extends DesiredElement {
+  sourceId: string;
+  targetId: string;
+  accessType?: number;
+  strength?: string;
+}
+
+/**
+ * Concepts parsed from a desired-state BOM.
+ */
+export interface DesiredState {
+  elements: DesiredElement[];
+  relationships: DesiredRelationship[];
+  errors: SyncIssue[];
+}
+
+/**
+ * One line of the plan: a concept that will be created, updated or deleted.
+ */
+export interface SyncPlanItem {
+  action: 'create' | 'update' | 'delete';
+  kind: 'element' | 'relationship';
+  /** Live model ID (updates and deletes). */
+  id?: string;
+  /** Desired tempId (creates and updates). */
+  key?: string;
+  type: string;
+  name: string;
+  /** Relationship endpoints (tempIds for endpoints the plan creates). */
+  sourceId?: string;
+  targetId?: string;
+  changes?: FieldChange[];
+}
+
+/**
+ * Everything `model sync` would do, and the BOM operations that do it.
+ */
+export interface SyncPlan {
+  items: SyncPlanItem[];
+  unchanged: number;
+  changes: Array<Record<string, unknown>>;
+  unsupported: UnsupportedChange[];
+  errors: SyncIssue[];
+  warnings: string[];
+}
+
+/**
+ * Inputs for planning: the desired state, the live model, and how managed concepts are found.
+ */
+export interface SyncPlanInput {
+  desired: DesiredState;
+  concepts: ModelConcepts;
+  folders: FolderInfo[];
+  scope: SyncScope;
+  keyProperty: string;
+  /** tempId -> real ID mappings from the BOM's idFiles, for references outside the desired state. */
+  idMap?: Record<string, string>;
+}
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function compareIds(a: { id: string }, b: { id: string }): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Read the concepts a flattened BOM declares. Only creates (and setProperty on their tempIds)
+ * describe state; any other operation is reported, since it has no meaning as desired state.
+ */
+export function readDesiredState(changes: unknown[]): DesiredState {
+  const elements: DesiredElement[] = [];
+  const relationships: DesiredRelationship[] = [];
+  const errors: SyncIssue[] = [];
+  const byRef = new Map<string, DesiredElement>();
+  const declared = new Set(
+    changes
+      .map((change) => {
+        const source = change as Record<string, unknown>;
+        const create = (source.create ?? {}) as Record<string, unknown>;
+        return asOptionalString(source.tempId) ?? asOptionalString(create.tempId);
+      })
+      .filter((tempId): tempId is string => tempId !== undefined)
+  );
+  let generated = 0;
+  const nextRef = (): string => {
+    let ref: string;
+    do {
+      ref = `sync-${++generated}`;
+    } while (declared.has(ref));
+    return ref;
+  };
+
+  changes.forEach((change, index) => {
+    const source = change as Record<string, unknown>;
+    const op = source.op;
+    const path = `/changes/${index}`;
+    const spec = op === 'createOrGetElement' || op === 'createOrGetRelationship'
+      ? ((source.create ?? {}) as Record<string, unknown>)
+      : source;
+    const key = asOptionalString(spec.tempId);
+    const readBase = (): DesiredElement => ({
+      ref: key ?? nextRef(),
+      key,
+      path,
+      type: String(spec.type ?? ''),
+      name: asOptionalString(spec.name) ?? '',
+      documentation: asOptionalString(spec.documentation) ?? '',
+      folder: asOptionalString(spec.folder),
+      properties: { ...((spec.properties ?? {}) as Record<string, string>) },
+    });
+
+    if (op === 'createElement' || op === 'createOrGetElement') {
+      const base = readBase();
+      elements.push(base);
+      byRef.set(base.ref, base);
+    } else if (op === 'createRelationship' || op === 'createOrGetRelationship') {
+      const relationship: DesiredRelationship = {
+        ...readBase(),
+        sourceId: String(spec.sourceId ?? ''),
+        targetId: String(spec.targetId ?? ''),
+      };
+      if (typeof spec.accessType === 'number') relationship.accessType = spec.accessType;
+      if (typeof spec.strength === 'string') relationship.strength = spec.strength;
+      relationships.push(relationship);
+      byRef.set(relationship.ref, relationship);
+    } else if (op === 'setProperty') {
+      const target = byRef.get(String(source.id));
+      if (!target) {
+        errors.push({
+          path: `${path}/id`,
+          message: `setProperty must target a tempId declared earlier in the desired state (got '${String(source.id)}')`,
+        });
+        return;
+      }
+      target.properties[String(source.key)] = String(source.value);
+    } else {
+      errors.push({
+        path: `${path}/op`,
+        message: `'${String(op)}' cannot describe desired state; use create*/createOrGet* operations and setProperty`,
+      });
+    }
+  });
+
+  return { elements, relationships, errors };
+}
+
+/**
+ * Compute the operations that make the managed scope of the live model match the desired state.
+ *
+ * Desired concepts are matched to live ones inside the scope first by the key property (which
+ * holds the desired tempId, so renames are tracked), then by type+name for elements and by
+ * type+endpoints for relationships. Matched concepts get name/documentation/property updates,
+ * unmatched desired concepts are created (stamped with the key, and the tag for tag scopes),
+ * and managed live concepts nothing matched are deleted.
+ */
+export function buildSyncPlan(input: SyncPlanInput): SyncPlan {
+  const { desired, concepts, scope, keyProperty } = input;
+  const idMap = input.idMap ?? {};
+  const errors: SyncIssue[] = [];
+  const warnings: string[] = [];
+  const unsupported: UnsupportedChange[] = [];
+
+  // Scope membership.
+  const folderOf = new Map<string, string>();
+  for (const folder of input.folders) {
+    if (typeof folder.id !== 'string') continue;
+    for (const childId of folder.childIds ?? []) folderOf.set(childId, folder.id);
+  }
+  const scopeFolders = new Set<string>();
+  if (scope.kind === 'folder') {
+    scopeFolders.add(scope.folderId);
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const folder of input.folders) {
+        if (folder.id && folder.parentId && scopeFolders.has(folder.parentId) && !scopeFolders.has(folder.id)) {
+          scopeFolders.add(folder.id);
+          grew = true;
+        }
+      }
+    }
+  }
+  const inScope = (concept: ModelElement): boolean =>
+    scope.kind === 'folder'
+      ? scopeFolders.has(folderOf.get(concept.id) ?? '')
+      : concept.properties[scope.key] === scope.value;
+
+  const managedElements = concepts.elements.filter(inScope).sort(compareIds);
+  const managedElementIds = new Set(managedElements.map((element) => element.id));
+  // Relationships between two managed elements belong to the scope even when stored in the Relations folder.
+  const managedRelationships = concepts.relationships
+    .filter(
+      (relationship) =>
+        inScope(relationship) ||
+        (scope.kind === 'folder' &&
+          managedElementIds.has(relationship.sourceId) &&
+          managedElementIds.has(relationship.targetId))
+    )
+    .sort(compareIds);
+  const liveIds = new Set([...concepts.elements, ...concepts.relationships].map((concept) => concept.id));
+
+  // The properties a desired concept must end up with, including the scope bookkeeping ones.
+  const desiredProperties = (item: DesiredElement): Record<string, string> => {
+    const properties = { ...item.properties };
+    if (item.key !== undefined) {
+      if (properties[keyProperty] !== undefined && properties[keyProperty] !== item.key) {
+        errors.push({ path: item.path, message: `Property '${keyProperty}' is reserved for the sync key (the tempId)` });
+      }
+      properties[keyProperty] = item.key;
+    }
+    if (scope.kind === 'tag') {
+      if (properties[scope.key] !== undefined && properties[scope.key] !== scope.value) {
+        errors.push({ path: item.path, message: `Property '${scope.key}' must be '${scope.value}' for concepts in the tag scope` });
+      }
+      properties[scope.key] = scope.value;
+    }
+    return properties;
+  };
+
+  // Two passes so a name match never steals a live concept another desired concept owns by key.
+  const match = <D extends DesiredElement, L extends ModelElement>(
+    wanted: D[],
+    live: L[],
+    fitsKey: (d: D, l: L) => boolean,
+    fitsFallback: (d: D, l: L) => boolean
+  ): Map<D, L> => {
+    const matches = new Map<D, L>();
+    const claimed = new Set<string>();
+    const desiredKeys = new Set(wanted.map((d) => d.key).filter((key) => key !== undefined));
+    for (const d of wanted) {
+      if (d.key === undefined) continue;
+      const found = live.find((l) => !claimed.has(l.id) && l.properties[keyProperty] === d.key && fitsKey(d, l));
+      if (found) {
+        matches.set(d, found);
+        claimed.add(found.id);
+      }
+    }
+    for (const d of wanted) {
+      if (matches.has(d)) continue;
+      const found = live.find(
+        (l) =>
+          !claimed.has(l.id) &&
+          !desiredKeys.has(l.properties[keyProperty]) &&
+          fitsFallback(d, l)
+      );
+      if (found) {
+        matches.set(d, found);
+        claimed.add(found.id);
+      }
+    }
+    return matches;
+  };
+
+  const elementMatches = match(
+    desired.elements,
+    managedElements,
+    (d, l) => l.type === d.type,
+    (d, l) => l.type === d.type && l.name === d.name
+  );
+
+  const matchedElementIds = new Set([...elementMatches.values()].map((element) => element.id));
+
+  // Endpoint refs resolve to live IDs; `null` means the endpoint is created by this plan.
+  const resolvedRefs = new Map<string, string | null>();
+  for (const element of desired.elements) {
+    resolvedRefs.set(element.ref, elementMatches.get(element)?.id ?? null);
+  }
+  const resolveEndpoint = (relationship: DesiredRelationship, field: 'sourceId' | 'targetId'): string | null => {
+    const ref = relationship[field];
+    if (resolvedRefs.has(ref)) return resolvedRefs.get(ref) ?? null;
+    const realId = idMap[ref] ?? ref;
+    if (!liveIds.has(realId)) {
+      errors.push({
+        path: `${relationship.path}/${field}`,
+        message: `'${ref}' is neither a desired concept declared earlier nor an existing model concept`,
+      });
+    } else if (managedElementIds.has(realId) && !matchedElementIds.has(realId)) {
+      errors.push({
+        path: `${relationship.path}/${field}`,
+        message: `'${ref}' is a managed element missing from the desired state, so this sync would delete it`,
+      });
+    }
+    return realId;
+  };
+  const endpoints = new Map<DesiredRelationship, { sourceId: string | null; targetId: string | null }>();
+  const sameEndpoints = (d: DesiredRelationship, l: ModelRelationship): boolean => {
+    const resolved = endpoints.get(d);
+    return (
+      l.type === d.type &&
+      resolved !== undefined &&
+      resolved.sourceId === l.sourceId &&
+      resolved.targetId === l.targetId &&
+      (d.accessType === undefined || d.accessType === l.accessType) &&
+      (d.strength === undefined || d.strength === l.strength)
+    );
+  };
+
+  // Key candidates are reserved up front; endpoints are only known once earlier
+  // relationships (possible endpoints themselves) are matched, so the rest runs in BOM order.
+  const relationshipMatches = new Map<DesiredRelationship, ModelRelationship>();
+  const claimedRelationships = new Set<string>();
+  const keyCandidates = new Map<DesiredRelationship, ModelRelationship>();
+  for (const relationship of desired.relationships) {
+    if (relationship.key === undefined) continue;
+    const found = managedRelationships.find(
+      (l) => !claimedRelationships.has(l.id) && l.properties[keyProperty] === relationship.key && l.type === relationship.type
+    );
+    if (found) {
+      keyCandidates.set(relationship, found);
+      claimedRelationships.add(found.id);
+    }
+  }
+  const desiredRelationshipKeys = new Set(desired.relationships.map((d) => d.key).filter((key) => key !== undefined));
+  for (const relationship of desired.relationships) {
+    endpoints.set(relationship, {
+      sourceId: resolveEndpoint(relationship, 'sourceId'),
+      targetId: resolveEndpoint(relationship, 'targetId'),
+    });
+    const candidate = keyCandidates.get(relationship);
+    let found: ModelRelationship | undefined;
+    if (candidate && sameEndpoints(relationship, candidate)) {
+      found = candidate;
+    } else if (!candidate) {
+      found = managedRelationships.find(
+        (l) =>
+          !claimedRelationships.has(l.id) &&
+          !desiredRelationshipKeys.has(l.properties[keyProperty]) &&
+          sameEndpoints(relationship, l)
+      );
+    }
+    if (found) {
+      relationshipMatches.set(relationship, found);
+      claimedRelationships.add(found.id);
+    } else if (candidate) {
+      // Rewired or retyped: the old relationship is deleted and a new one created.
+      claimedRelationships.delete(candidate.id);
+    }
+    resolvedRefs.set(relationship.ref, found?.id ?? null);
+  }
+
+  const propertiesOf = new Map<DesiredElement, Record<string, string>>();
+  for (const item of [...desired.elements, ...desired.relationships]) propertiesOf.set(item, desiredProperties(item));
+
+  const items: SyncPlanItem[] = [];
+  const creates: Array<Record<string, unknown>> = [];
+  const updates: Array<Record<string, unknown>> = [];
+  const deletes: Array<Record<string, unknown>> = [];
+  let unchanged = 0;
+
+  const setProperties = (id: string, properties: Record<string, string>, target: Array<Record<string, unknown>>): void => {
+    for (const key of Object.keys(properties).sort()) {
+      target.push({ op: 'setProperty', id, key, value: properties[key] });
+    }
+  };
+
+  for (const element of desired.elements) {
+    if (elementMatches.has(element)) continue;
+    const op: Record<string, unknown> = { op: 'createElement', type: element.type, name: element.name, tempId: element.ref };
+    if (element.documentation) op.documentation = element.documentation;
+    if (scope.kind === 'folder') {
+      if (element.folder !== undefined) {
+        warnings.push(`${element.path}: "folder" is ignored; new concepts are created in the scope folder`);
+      }
+      op.folder = scope.folderId;
+    } else if (element.folder !== undefined) {
+      op.folder = element.folder;
+    }
+    creates.push(op);
+    setProperties(element.ref, propertiesOf.get(element) ?? {}, creates);
+    items.push({ action: 'create', kind: 'element', key: element.key, type: element.type, name: element.name });
+  }
+
+  for (const relationship of desired.relationships) {
+    if (relationshipMatches.has(relationship)) continue;
+    const resolved = endpoints.get(relationship) ?? { sourceId: null, targetId: null };
+    const op: Record<string, unknown> = {
+      op: 'createRelationship',
+      type: relationship.type,
+      sourceId: resolved.sourceId ?? relationship.sourceId,
+      targetId: resolved.targetId ?? relationship.targetId,
+      tempId: relationship.ref,
+    };
+    if (relationship.name) op.name = relationship.name;
+    if (relationship.documentation) op.documentation = relationship.documentation;
+    if (relationship.accessType !== undefined) op.accessType = relationship.accessType;
+    if (relationship.strength !== undefined) op.strength = relationship.strength;
+    creates.push(op);
+    setProperties(relationship.ref, propertiesOf.get(relationship) ?? {}, creates);
+    // Keep relationships to concepts outside the folder findable on the next sync.
+    const bothManaged = [relationship.sourceId, relationship.targetId].every((ref) =>
+      desired.elements.some((element) => element.ref === ref) || managedElementIds.has(idMap[ref] ?? ref)
+    );
+    if (scope.kind === 'folder' && !bothManaged) {
+      creates.push({ op: 'moveToFolder', id: relationship.ref, folderId: scope.folderId });
+    }
+    items.push({
+      action: 'create',
+      kind: 'relationship',
+      key: relationship.key,
+      type: relationship.type,
+      name: relationship.name,
+      sourceId: op.sourceId as string,
+      targetId: op.targetId as string,
+    });
+  }
+
+  const planUpdate = (
+    kind: 'element' | 'relationship',
+    wanted: DesiredElement,
+    live: ModelElement
+  ): void => {
+    const properties = propertiesOf.get(wanted) ?? {};
+    const changes: FieldChange[] = [];
+    const op: Record<string, unknown> = { op: kind === 'element' ? 'updateElement' : 'updateRelationship', id: live.id };
+    if (live.name !== wanted.name) {
+      changes.push({ field: 'name', old: live.name, new: wanted.name });
+      op.name = wanted.name;
+    }
+    if (live.documentation !== wanted.documentation) {
+      changes.push({ field: 'documentation', old: live.documentation, new: wanted.documentation });
+      op.documentation = wanted.documentation;
+    }
+    if (op.name !== undefined || op.documentation !== undefined) updates.push(op);
+    const changedProperties: Record<string, string> = {};
+    for (const key of Object.keys(properties).sort()) {
+      if (live.properties[key] === properties[key]) continue;
+      changes.push({ field: `properties.${key}`, old: live.properties[key], new: properties[key] });
+      changedProperties[key] = properties[key];
+    }
+    setProperties(live.id, changedProperties, updates);
+    for (const key of Object.keys(live.properties).sort()) {
+      if (properties[key] === undefined) {
+        unsupported.push({ kind, id: live.id, reason: `property '${key}' is not in the desired state and cannot be removed by a BOM` });
+      }
+    }
+    if (changes.length === 0) {
+      unchanged++;
+      return;
+    }
+    items.push({ action: 'update', kind, id: live.id, key: wanted.key, type: live.type, name: wanted.name, changes });
+  };
+  for (const [element, live] of elementMatches) planUpdate('element', element, live);
+  for (const [relationship, live] of relationshipMatches) planUpdate('relationship', relationship, live);
+
+  // Deleting relationships first keeps element cascades from removing them out from under the BOM.
+  const deletedRelationshipIds = new Set<string>();
+  for (const live of managedRelationships) {
+    if (claimedRelationships.has(live.id)) continue;
+    deletedRelationshipIds.add(live.id);
+    deletes.push({ op: 'deleteRelationship', id: live.id });
+    items.push({
+      action: 'delete',
+      kind: 'relationship',
+      id: live.id,
+      type: live.type,
+      name: live.name,
+      sourceId: live.sourceId,
+      targetId: live.targetId,
+    });
+  }
+  for (const live of managedElements) {
+    if (matchedElementIds.has(live.id)) continue;
+    deletes.push({ op: 'deleteElement', id: live.id });
+    items.push({ action: 'delete', kind: 'element', id: live.id, type: live.type, name: live.name });
+    const cascaded = concepts.relationships.filter(
+      (relationship) =>
+        (relationship.sourceId === live.id || relationship.targetId === live.id) &&
+        !deletedRelationshipIds.has(relationship.id)
+    );
+    if (cascaded.length > 0) {
+      warnings.push(
+        `Deleting ${live.type} '${live.name}' (${live.id}) also removes ${cascaded.length} relationship(s) outside the managed scope`
+      );
+    }
+  }
+
+  return { items, unchanged, changes: [...creates, ...updates, ...deletes], unsupported, errors, warnings };
+}
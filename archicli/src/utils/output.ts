@@ -1,3 +1,4 @@
+import { ApiError, UNAUTHORIZED_CODE } from './api';
 import { getConfig } from './config';
 import { consumeWarnings } from './warnings';
 
@@ -38,6 +39,17 @@ export function failure(code: string, message: string, details?: unknown): CLIRe
   };
 }
 
+/**
+ * Failure envelope for an error caught by a command. HTTP 401 reports UNAUTHORIZED with the
+ * token hint; anything else reports `fallbackCode`. Both keep the command's `details`.
+ */
+export function failureFromError(err: unknown, fallbackCode: string, details?: unknown): CLIResponse {
+  if (err instanceof ApiError && err.status === 401) {
+    return failure(UNAUTHORIZED_CODE, err.message, details);
+  }
+  return failure(fallbackCode, String(err), details);
+}
+
 function withCapturedWarnings(response: CLIResponse): CLIResponse {
   const warnings = consumeWarnings();
   if (warnings.length === 0) return response;
@@ -52,11 +64,22 @@ function withCapturedWarnings(response: CLIResponse): CLIResponse {
   };
 }
 
+let responseListener: ((response: CLIResponse) => void) | undefined;
+
+/**
+ * Observe every envelope passed to print() (the interactive shell keeps them as variables).
+ * Pass undefined to stop observing.
+ */
+export function setResponseListener(listener: ((response: CLIResponse) => void) | undefined): void {
+  responseListener = listener;
+}
+
 /**
  * Emit CLI output according to global formatting/quiet preferences.
  */
 export function print(response: CLIResponse): void {
   const normalized = withCapturedWarnings(response);
+  responseListener?.(normalized);
   const config = getConfig();
   if (normalized.success && config.quiet) {
     const quietData = pickQuietData(normalized.data);
@@ -1,4 +1,6 @@
+import { authHeaders, unauthorizedError } from './api';
 import { getConfig } from './config';
+import { openEventStream } from './sse';
 import { addWarning } from './warnings';
 
 /**
@@ -8,6 +10,8 @@ export interface PollOptions {
   intervalMs?: number;
   timeoutMs?: number;
   onProgress?: (status: string, attempt: number) => void;
+  /** Wait on the server's `/events` stream instead of polling when it is available (default true). */
+  useEvents?: boolean;
 }
 
 export interface OperationErrorDetails {
@@ -50,39 +54,57 @@ function parseRetryAfter(header: string | null): number {
 }
 
 /**
- * Poll `/ops/status` until an operation reaches a terminal state or times out.
+ * Wait until an operation reaches a terminal state or times out.
+ *
+ * Listens on `/events` for the operation's completion and reads `/ops/status` once it
+ * arrives; falls back to polling `/ops/status` when the server has no event stream.
  */
 export async function pollUntilDone(
   operationId: string,
   options: PollOptions = {}
 ): Promise<OperationStatus> {
-  const { intervalMs = 500, timeoutMs = 60_000, onProgress } = options;
-  const config = getConfig();
+  const { intervalMs = 500, timeoutMs = 60_000, onProgress, useEvents = true } = options;
   const deadline = Date.now() + timeoutMs;
   let attempt = 0;
 
-  while (Date.now() < deadline) {
-    attempt++;
-    const url = `${config.baseUrl}/ops/status?opId=${encodeURIComponent(operationId)}`;
-
-    let res: Response;
-    for (let r429 = 0; r429 < MAX_POLL_429_RETRIES; r429++) {
-      res = await fetch(url);
-      if (res.status === 429 && r429 < MAX_POLL_429_RETRIES - 1) {
-        const retryMs = parseRetryAfter(res.headers.get('Retry-After'));
-        addWarning(
-          `[429] Rate limited during poll, retrying in ${Math.ceil(retryMs / 1000)}s`
-        );
-        await sleep(retryMs);
-        continue;
+  if (useEvents) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const events = await openEventStream({ types: ['operation'], signal: controller.signal });
+      // Subscribed first, so a completion between this read and the next event is not missed
+      let body = await fetchStatus(operationId);
+      onProgress?.(body.status, ++attempt);
+      if (body.status === 'complete' || body.status === 'error') {
+        return body;
+      }
+      for await (const event of events) {
+        if (event.data.opId !== operationId) continue;
+        const status = event.type.replace(/^operation\./, '');
+        if (status !== 'complete' && status !== 'error') {
+          onProgress?.(status, ++attempt);
+          continue;
+        }
+        body = await fetchStatus(operationId);
+        onProgress?.(body.status, ++attempt);
+        return body;
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new Error(`Timeout: operation ${operationId} did not complete within ${timeoutMs}ms`);
       }
-      break;
+      if (getConfig().verbose) {
+        addWarning(`Event stream unavailable, polling /ops/status instead (${err})`);
+      }
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
     }
+  }
 
-    if (!res!.ok) {
-      throw new Error(`Poll request failed: HTTP ${res!.status}`);
-    }
-    const body = (await res!.json()) as OperationStatus;
+  while (Date.now() < deadline) {
+    attempt++;
+    const body = await fetchStatus(operationId);
     onProgress?.(body.status, attempt);
 
     if (body.status === 'complete' || body.status === 'error') {
@@ -95,6 +117,36 @@ export async function pollUntilDone(
   throw new Error(`Timeout: operation ${operationId} did not complete within ${timeoutMs}ms`);
 }
 
+/**
+ * Read `/ops/status` once, retrying on HTTP 429.
+ */
+async function fetchStatus(operationId: string): Promise<OperationStatus> {
+  const url = `${getConfig().baseUrl}/ops/status?opId=${encodeURIComponent(operationId)}`;
+
+  let res: Response;
+  for (let r429 = 0; r429 < MAX_POLL_429_RETRIES; r429++) {
+    res = await fetch(url, { headers: authHeaders() });
+    if (res.status === 429 && r429 < MAX_POLL_429_RETRIES - 1) {
+      const retryMs = parseRetryAfter(res.headers.get('Retry-After'));
+      addWarning(
+        `[429] Rate limited during poll, retrying in ${Math.ceil(retryMs / 1000)}s`
+      );
+      await sleep(retryMs);
+      continue;
+    }
+    break;
+  }
+
+  if (res!.status === 401) {
+    const data = (await res!.json().catch(() => ({}))) as { error?: { message?: string } };
+    throw unauthorizedError(data.error?.message);
+  }
+  if (!res!.ok) {
+    throw new Error(`Poll request failed: HTTP ${res!.status}`);
+  }
+  return (await res!.json()) as OperationStatus;
+}
+
 /**
  * Local delay helper used for polling interval/backoff.
  */
@@ -0,0 +1,325 @@
+import type { Command } from 'commander';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+
+/**
+ * File names looked up from the working directory upwards, then in the home directory.
+ * `ARCHICLI_CONFIG` names a file explicitly.
+ */
+export const CLI_CONFIG_FILES = ['archicli.config.json', '.archiclirc'] as const;
+
+export const LAYOUT_ALGORITHMS = ['dagre', 'sugiyama'] as const;
+export const LAYOUT_DIRECTIONS = ['TB', 'LR', 'BT', 'RL'] as const;
+export const OUTPUT_FORMATS = ['json', 'text', 'yaml'] as const;
+
+/**
+ * Settings of one named profile. Every setting is optional; command-line flags win over them.
+ */
+export interface ProfileSettings {
+  baseUrl?: string;
+  output?: (typeof OUTPUT_FORMATS)[number];
+  /** Default `batch apply` / `batch split` chunk size. */
+  chunkSize?: number;
+  /** Extra .ids.json files for `batch apply` and `ids lookup`, relative to the config file. */
+  idFiles?: string[];
+  /** Defaults for `view layout` and `batch apply --layout`. */
+  layout?: {
+    algorithm?: (typeof LAYOUT_ALGORITHMS)[number];
+    rankdir?: (typeof LAYOUT_DIRECTIONS)[number];
+    ranksep?: number;
+    nodesep?: number;
+  };
+}
+
+/**
+ * Contents of `archicli.config.json` / `.archiclirc`.
+ */
+export interface CliConfigFile {
+  defaultProfile?: string;
+  profiles?: Record<string, ProfileSettings>;
+}
+
+/**
+ * The profile in effect for this invocation.
+ */
+export interface ActiveProfile {
+  name: string;
+  settings: ProfileSettings;
+  /** Config file the profile was read from. */
+  file: string;
+}
+
+/**
+ * Keys accepted by `config get` / `config set`, in display order.
+ */
+export const PROFILE_SETTING_KEYS = [
+  'baseUrl',
+  'output',
+  'chunkSize',
+  'idFiles',
+  'layout.algorithm',
+  'layout.rankdir',
+  'layout.ranksep',
+  'layout.nodesep',
+] as const;
+
+export type ProfileSettingKey = (typeof PROFILE_SETTING_KEYS)[number];
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function checkProfile(name: string, profile: unknown): string[] {
+  const at = `profiles.${name}`;
+  if (!PROFILE_NAME_PATTERN.test(name)) return [`${at}: profile names use letters, digits, '.', '_' and '-'`];
+  if (!isRecord(profile)) return [`${at} must be an object`];
+  const errors: string[] = [];
+  for (const key of Object.keys(profile)) {
+    if (!['baseUrl', 'output', 'chunkSize', 'idFiles', 'layout'].includes(key)) {
+      errors.push(`${at}: unknown setting '${key}'`);
+    }
+  }
+  if (profile.baseUrl !== undefined && (typeof profile.baseUrl !== 'string' || !/^https?:\/\/\S+$/.test(profile.baseUrl))) {
+    errors.push(`${at}.baseUrl must be an http(s) URL`);
+  }
+  if (profile.output !== undefined && !OUTPUT_FORMATS.includes(profile.output as never)) {
+    errors.push(`${at}.output must be one of ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  if (profile.chunkSize !== undefined && (!isPositiveInteger(profile.chunkSize) || (profile.chunkSize as number) > 1000)) {
+    errors.push(`${at}.chunkSize must be an integer from 1 to 1000`);
+  }
+  if (
+    profile.idFiles !== undefined &&
+    (!Array.isArray(profile.idFiles) || !profile.idFiles.every((file) => typeof file === 'string' && file.length > 0))
+  ) {
+    errors.push(`${at}.idFiles must be an array of file paths`);
+  }
+  if (profile.layout !== undefined) {
+    if (!isRecord(profile.layout)) {
+      errors.push(`${at}.layout must be an object`);
+    } else {
+      const layout = profile.layout;
+      for (const key of Object.keys(layout)) {
+        if (!['algorithm', 'rankdir', 'ranksep', 'nodesep'].includes(key)) {
+          errors.push(`${at}.layout: unknown setting '${key}'`);
+        }
+      }
+      if (layout.algorithm !== undefined && !LAYOUT_ALGORITHMS.includes(layout.algorithm as never)) {
+        errors.push(`${at}.layout.algorithm must be one of ${LAYOUT_ALGORITHMS.join(', ')}`);
+      }
+      if (layout.rankdir !== undefined && !LAYOUT_DIRECTIONS.includes(layout.rankdir as never)) {
+        errors.push(`${at}.layout.rankdir must be one of ${LAYOUT_DIRECTIONS.join(', ')}`);
+      }
+      for (const key of ['ranksep', 'nodesep'] as const) {
+        if (layout[key] !== undefined && !isNonNegativeInteger(layout[key])) {
+          errors.push(`${at}.layout.${key} must be a non-negative integer`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate parsed config file contents; returns one message per problem.
+ */
+export function validateCliConfig(config: unknown): string[] {
+  if (!isRecord(config)) return ['config must be a JSON object'];
+  const errors: string[] = [];
+  for (const key of Object.keys(config)) {
+    if (key !== 'defaultProfile' && key !== 'profiles' && key !== '$schema') {
+      errors.push(`unknown key '${key}'`);
+    }
+  }
+  if (config.profiles !== undefined) {
+    if (!isRecord(config.profiles)) {
+      errors.push('profiles must be an object of named profiles');
+    } else {
+      for (const [name, profile] of Object.entries(config.profiles)) {
+        errors.push(...checkProfile(name, profile));
+      }
+    }
+  }
+  if (config.defaultProfile !== undefined) {
+    if (typeof config.defaultProfile !== 'string') {
+      errors.push('defaultProfile must be a profile name');
+    } else if (!isRecord(config.profiles) || !(config.defaultProfile in config.profiles)) {
+      errors.push(`defaultProfile '${config.defaultProfile}' is not defined in profiles`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Locate the config file: `ARCHICLI_CONFIG`, else the nearest `archicli.config.json` or
+ * `.archiclirc` from `startDir` upwards, else `~/.archiclirc`.
+ */
+export function findCliConfig(startDir: string = process.cwd()): string | undefined {
+  const explicit = process.env['ARCHICLI_CONFIG'];
+  if (explicit) return resolve(explicit);
+  let dir = resolve(startDir);
+  for (;;) {
+    for (const name of CLI_CONFIG_FILES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  const home = join(homedir(), '.archiclirc');
+  return existsSync(home) ? home : undefined;
+}
+
+/**
+ * Read and validate a config file.
+ */
+export function loadCliConfig(path: string): CliConfigFile {
+  if (!existsSync(path)) throw new Error(`Config file not found: ${path}`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Invalid JSON in config file ${path}: ${(err as Error).message}`);
+  }
+  const errors = validateCliConfig(parsed);
+  if (errors.length > 0) throw new Error(`Invalid config file ${path}: ${errors.join('; ')}`);
+  return parsed as CliConfigFile;
+}
+
+/**
+ * Write a config file after validating it, keeping two-space JSON formatting.
+ */
+export function saveCliConfig(path: string, config: CliConfigFile): void {
+  const errors = validateCliConfig(config);
+  if (errors.length > 0) throw new Error(`Invalid config: ${errors.join('; ')}`);
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Profile requested with `--profile`, else `ARCHICLI_PROFILE`.
+ */
+export function requestedProfileName(flag?: string): string | undefined {
+  return flag ?? (process.env['ARCHICLI_PROFILE'] || undefined);
+}
+
+/**
+ * Pick the profile named by `--profile` / `ARCHICLI_PROFILE`, else the file's `defaultProfile`.
+ * Returns undefined when neither names a profile.
+ *
+ * @throws Error when the requested profile is not defined.
+ */
+export function selectProfile(config: CliConfigFile, file: string, requested?: string): ActiveProfile | undefined {
+  const name = requested ?? config.defaultProfile;
+  if (name === undefined) return undefined;
+  const settings = config.profiles?.[name];
+  if (!settings) {
+    const known = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Profile '${name}' is not defined in ${file}` + (known.length > 0 ? ` (profiles: ${known.join(', ')})` : '')
+    );
+  }
+  return { name, settings, file };
+}
+
+/**
+ * Read one setting; `layout.*` keys address the nested layout object.
+ */
+export function getProfileSetting(settings: ProfileSettings, key: ProfileSettingKey): unknown {
+  if (key.startsWith('layout.')) {
+    return settings.layout?.[key.slice('layout.'.length) as keyof NonNullable<ProfileSettings['layout']>];
+  }
+  return settings[key as Exclude<ProfileSettingKey, `layout.${string}`>];
+}
+
+/**
+ * Parse a `config set` value into the type the setting stores.
+ *
+ * @throws Error when the value is not valid for the key.
+ */
+export function parseProfileSetting(key: ProfileSettingKey, raw: string): unknown {
+  let value: unknown = raw;
+  if (key === 'chunkSize' || key === 'layout.ranksep' || key === 'layout.nodesep') {
+    value = /^\d+$/.test(raw.trim()) ? Number(raw.trim()) : NaN;
+  } else if (key === 'idFiles') {
+    value = raw
+      .split(',')
+      .map((file) => file.trim())
+      .filter((file) => file.length > 0);
+  } else if (key === 'layout.rankdir') {
+    value = raw.toUpperCase();
+  } else if (key === 'layout.algorithm') {
+    value = raw.toLowerCase();
+  } else if (key === 'baseUrl') {
+    value = raw.replace(/\/+$/, '');
+  }
+  const errors = checkProfile('profile', setProfileSetting({}, key, value));
+  if (errors.length > 0) throw new Error(errors[0].replace(/^profiles\.profile\./, ''));
+  return value;
+}
+
+/**
+ * Return a copy of `settings` with one setting replaced.
+ */
+export function setProfileSetting(settings: ProfileSettings, key: ProfileSettingKey, value: unknown): ProfileSettings {
+  if (key.startsWith('layout.')) {
+    return { ...settings, layout: { ...settings.layout, [key.slice('layout.'.length)]: value } };
+  }
+  return { ...settings, [key]: value };
+}
+
+/**
+ * Profile settings that fill command options the user did not pass.
+ * Option values use the same string form as the command line.
+ */
+const COMMAND_OPTION_DEFAULTS: Array<{
+  command: string;
+  option: string;
+  value: (settings: ProfileSettings, baseDir: string) => string | string[] | undefined;
+}> = [
+  { command: 'batch apply', option: 'chunkSize', value: (settings) => settings.chunkSize?.toString() },
+  { command: 'batch apply', option: 'idFile', value: (settings, dir) => settings.idFiles?.map((file) => resolve(dir, file)) },
+  { command: 'batch apply', option: 'layoutAlgorithm', value: (settings) => settings.layout?.algorithm },
+  { command: 'batch apply', option: 'rankdir', value: (settings) => settings.layout?.rankdir },
+  { command: 'batch split', option: 'chunkSize', value: (settings) => settings.chunkSize?.toString() },
+  { command: 'ids lookup', option: 'idFile', value: (settings, dir) => settings.idFiles?.map((file) => resolve(dir, file)) },
+  { command: 'view layout', option: 'algorithm', value: (settings) => settings.layout?.algorithm },
+  { command: 'view layout', option: 'rankdir', value: (settings) => settings.layout?.rankdir },
+  { command: 'view layout', option: 'ranksep', value: (settings) => settings.layout?.ranksep?.toString() },
+  { command: 'view layout', option: 'nodesep', value: (settings) => settings.layout?.nodesep?.toString() },
+];
+
+function commandPath(command: Command): string {
+  const names: string[] = [];
+  for (let cursor: Command | null = command; cursor?.parent; cursor = cursor.parent) {
+    names.unshift(cursor.name());
+  }
+  return names.join(' ');
+}
+
+/**
+ * Fill options of the command about to run from the active profile. Only options left at
+ * their built-in default are touched; their value source becomes `config`.
+ */
+export function applyProfileDefaults(command: Command, profile: ActiveProfile): void {
+  const path = commandPath(command);
+  const baseDir = dirname(profile.file);
+  for (const entry of COMMAND_OPTION_DEFAULTS) {
+    if (entry.command !== path) continue;
+    const source = command.getOptionValueSource(entry.option);
+    if (source !== undefined && source !== 'default') continue;
+    const value = entry.value(profile.settings, baseDir);
+    if (value !== undefined) command.setOptionValueWithSource(entry.option, value, 'config');
+  }
+}
@@ -0,0 +1,167 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import { escapeXml } from './exchangeFormat';
+
+// Read version from package.json so reports name the archicli release that produced them
+const pkg = require('../../package.json') as { version: string };
+
+export const REPORT_FORMATS = ['sarif', 'junit'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/**
+ * One diagnostic in a machine-readable report. BOM findings carry a file, JSON Pointer and
+ * line; model findings carry the concept they are about.
+ */
+export interface ReportFinding {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: string;
+  hint?: string;
+  file?: string;
+  line?: number;
+  pointer?: string;
+  concept?: { id: string; type: string; name: string };
+}
+
+/**
+ * The checks a run performed. Checks without findings become passing JUnit test cases.
+ */
+export interface ReportRun {
+  /** Command that produced the findings, e.g. `verify`. */
+  command: string;
+  rules: Array<{ id: string; description: string }>;
+  findings: ReportFinding[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Parse a --report value.
+ */
+export function isReportFormat(value: string): value is ReportFormat {
+  return (REPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Code-scanning tools resolve artifact URIs against the repository root, so prefer cwd-relative paths.
+function artifactUri(file: string): string {
+  const rel = relative(process.cwd(), resolve(file)).replace(/\\/g, '/');
+  return rel && !rel.startsWith('..') ? rel : resolve(file).replace(/\\/g, '/');
+}
+
+function findingText(finding: ReportFinding): string {
+  return finding.hint ? `${finding.message}\n${finding.hint}` : finding.message;
+}
+
+function sarifLocations(finding: ReportFinding): Record<string, unknown> {
+  const location: Record<string, unknown> = {};
+  if (finding.file) {
+    location.physicalLocation = {
+      artifactLocation: { uri: artifactUri(finding.file) },
+      ...(finding.line !== undefined ? { region: { startLine: finding.line } } : {}),
+    };
+  }
+  if (finding.pointer !== undefined) {
+    location.logicalLocations = [{ fullyQualifiedName: finding.pointer, kind: 'member' }];
+  } else if (finding.concept) {
+    location.logicalLocations = [
+      { name: finding.concept.name, fullyQualifiedName: finding.concept.id, kind: finding.concept.type },
+    ];
+  }
+  return location;
+}
+
+/**
+ * Render a run as a SARIF 2.1.0 log.
+ */
+export function toSarif(run: ReportRun): string {
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'archicli',
+            version: pkg.version,
+            rules: run.rules.map((rule) => ({ id: rule.id, shortDescription: { text: rule.description } })),
+          },
+        },
+        automationDetails: { id: `archicli/${run.command}/` },
+        results: run.findings.map((finding) => {
+          const location = sarifLocations(finding);
+          return {
+            ruleId: finding.ruleId,
+            level: finding.level,
+            message: { text: findingText(finding) },
+            ...(Object.keys(location).length > 0 ? { locations: [location] } : {}),
+          };
+        }),
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+function testCaseName(finding: ReportFinding): string {
+  if (finding.concept) {
+    const { id, type, name } = finding.concept;
+    return name ? `${type} ${id} (${name})` : `${type} ${id}`;
+  }
+  const place = [finding.file, finding.line !== undefined ? `line ${finding.line}` : undefined, finding.pointer]
+    .filter((part) => part !== undefined)
+    .join(' ');
+  return place || finding.message;
+}
+
+/**
+ * Render a run as JUnit XML: one test case per finding (errors fail, warnings and notes pass
+ * with the message in system-out) plus one passing test case per rule without findings.
+ */
+export function toJUnit(run: ReportRun): string {
+  const failures = run.findings.filter((finding) => finding.level === 'error').length;
+  const quiet = run.rules.filter((rule) => !run.findings.some((finding) => finding.ruleId === rule.id));
+  const tests = run.findings.length + quiet.length;
+  const suite = escapeXml(`archicli ${run.command}`);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${suite}" tests="${tests}" failures="${failures}">`,
+    `  <testsuite name="${suite}" tests="${tests}" failures="${failures}" errors="0" skipped="0">`,
+  ];
+  for (const finding of run.findings) {
+    lines.push(`    <testcase classname="${escapeXml(finding.ruleId)}" name="${escapeXml(testCaseName(finding))}">`);
+    if (finding.level === 'error') {
+      lines.push(
+        `      <failure message="${escapeXml(finding.message)}" type="${escapeXml(finding.ruleId)}">${escapeXml(findingText(finding))}</failure>`
+      );
+    } else {
+      lines.push(`      <system-out>${escapeXml(`${finding.level}: ${findingText(finding)}`)}</system-out>`);
+    }
+    lines.push('    </testcase>');
+  }
+  for (const rule of quiet) {
+    lines.push(`    <testcase classname="${escapeXml(rule.id)}" name="${escapeXml(rule.description)}"/>`);
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a run in the requested report format.
+ */
+export function renderReport(format: ReportFormat, run: ReportRun): string {
+  return format === 'sarif' ? toSarif(run) : toJUnit(run);
+}
+
+/**
+ * Write a report to `filePath`, or to stdout in place of the JSON envelope when no file is given.
+ */
+export function writeReport(format: ReportFormat, run: ReportRun, filePath?: string): void {
+  const content = renderReport(format, run);
+  if (!filePath) {
+    process.stdout.write(content);
+    return;
+  }
+  mkdirSync(dirname(resolve(filePath)), { recursive: true });
+  writeFileSync(resolve(filePath), content, 'utf-8');
+}
@@ -0,0 +1,334 @@
+import { get } from './api';
+import { getDeclaredTempId } from './bom';
+import { applyChunkedChanges } from './chunkedApply';
+import { fetchFolders } from './modelData';
+
+// Ops that change name, documentation or properties of an existing concept.
+const CONCEPT_MUTATION_OPS = new Set(['updateElement', 'updateRelationship', 'setProperty']);
+
+// Ops that change a view; they need no undo when the view (or the added element) was created by this run.
+const VIEW_MUTATION_OPS = new Set([
+  'addToView',
+  'createNote',
+  'createGroup',
+  'nestInView',
+  'moveViewObject',
+  'styleViewObject',
+  'styleConnection',
+  'deleteConnectionFromView',
+]);
+
+/**
+ * Name, documentation and properties of an existing concept before a chunk changed it.
+ */
+export interface PriorConceptState {
+  name: string;
+  documentation: string;
+  properties: Record<string, string>;
+}
+
+/**
+ * State captured right before a chunk is submitted; `null` marks state that could not be read.
+ */
+export interface ChunkPriorState {
+  concepts: Record<string, PriorConceptState | null>;
+  /** Concept, view or folder ID -> folder that contained it. */
+  folders: Record<string, string | null>;
+}
+
+/**
+ * A change that rollback cannot undo with BOM operations.
+ */
+export interface RollbackGap {
+  chunk: number;
+  op: string;
+  id?: string;
+  reason: string;
+}
+
+/**
+ * Inverse operations recorded for every completed chunk of one apply run.
+ */
+export interface RollbackJournal {
+  chunks: Array<{ chunk: number; changes: Array<Record<string, unknown>> }>;
+  notReversible: RollbackGap[];
+  /** Real IDs of concepts and views created by this run; deleting them undoes everything attached. */
+  createdIds: Set<string>;
+}
+
+/**
+ * Outcome of submitting the inverse operations.
+ */
+export interface RollbackReport {
+  status: 'complete' | 'incomplete' | 'failed';
+  operations: number;
+  results: Array<Record<string, unknown>>;
+  notReversible: RollbackGap[];
+  error?: string;
+}
+
+interface ConceptDetail {
+  name?: unknown;
+  documentation?: unknown;
+  properties?: unknown;
+}
+
+interface OperationResult {
+  op?: string;
+  action?: string;
+  skipped?: boolean;
+  tempId?: string;
+  realId?: string;
+  viewId?: string;
+  connectionId?: string;
+  relationshipId?: string;
+}
+
+export function createRollbackJournal(): RollbackJournal {
+  return { chunks: [], notReversible: [], createdIds: new Set() };
+}
+
+function asRecord(change: unknown): Record<string, unknown> {
+  return typeof change === 'object' && change !== null ? (change as Record<string, unknown>) : {};
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function toPropertyMap(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  const result: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (entry !== null && entry !== undefined) result[key] = String(entry);
+  }
+  return result;
+}
+
+// IDs that refer to something this run created: tempIds declared in the chunk, or real IDs from earlier chunks.
+function isCreatedByRun(id: string, declared: Set<string>, journal: RollbackJournal): boolean {
+  return declared.has(id) || journal.createdIds.has(id);
+}
+
+function declaredTempIds(changes: unknown[]): Set<string> {
+  const declared = new Set<string>();
+  for (const change of changes) {
+    const tempId = getDeclaredTempId(change);
+    if (tempId) declared.add(tempId);
+  }
+  return declared;
+}
+
+/**
+ * Read the current state of every existing concept a chunk is about to update, re-property or move.
+ */
+export async function captureChunkState(changes: unknown[], journal: RollbackJournal): Promise<ChunkPriorState> {
+  const declared = declaredTempIds(changes);
+  const conceptIds = new Set<string>();
+  const movedIds = new Set<string>();
+  for (const change of changes) {
+    const source = asRecord(change);
+    const op = asString(source.op);
+    const id = asString(source.id);
+    if (!op || !id || isCreatedByRun(id, declared, journal)) continue;
+    if (CONCEPT_MUTATION_OPS.has(op)) conceptIds.add(id);
+    if (op === 'moveToFolder') movedIds.add(id);
+  }
+
+  const prior: ChunkPriorState = { concepts: {}, folders: {} };
+  for (const id of conceptIds) {
+    try {
+      const detail = await get<ConceptDetail>(`/model/element/${encodeURIComponent(id)}`);
+      prior.concepts[id] = {
+        name: typeof detail.name === 'string' ? detail.name : '',
+        documentation: typeof detail.documentation === 'string' ? detail.documentation : '',
+        properties: toPropertyMap(detail.properties),
+      };
+    } catch {
+      prior.concepts[id] = null;
+    }
+  }
+  if (movedIds.size > 0) {
+    const folders = await fetchFolders();
+    for (const id of movedIds) {
+      const asFolder = folders.find((folder) => folder.id === id);
+      const container = asFolder
+        ? asFolder.parentId
+        : folders.find((folder) => Array.isArray(folder.childIds) && folder.childIds.includes(id))?.id;
+      prior.folders[id] = typeof container === 'string' ? container : null;
+    }
+  }
+  return prior;
+}
+
+/**
+ * Record the inverse of a completed chunk from the operations it submitted, the server's
+ * per-operation results and the state captured before submission.
+ */
+export function recordChunk(
+  journal: RollbackJournal,
+  chunk: number,
+  changes: unknown[],
+  chunkResult: Record<string, unknown>,
+  prior: ChunkPriorState
+): void {
+  const declared = declaredTempIds(changes);
+  const opResults = (Array.isArray(chunkResult.result) ? chunkResult.result : []) as OperationResult[];
+  const gap = (op: string, id: string | undefined, reason: string): void => {
+    journal.notReversible.push({ chunk, op, ...(id ? { id } : {}), reason });
+  };
+
+  // Deletes of created concepts, ordered so dependants go before what they attach to.
+  const connectionDeletes: Array<Record<string, unknown>> = [];
+  const viewDeletes: Array<Record<string, unknown>> = [];
+  const relationshipDeletes: Array<Record<string, unknown>> = [];
+  const elementDeletes: Array<Record<string, unknown>> = [];
+  const createdByTempId = new Map<string, string>();
+  for (const result of opResults) {
+    const createdId = result.realId ?? result.viewId;
+    if (result.tempId && createdId) createdByTempId.set(result.tempId, createdId);
+    if (result.skipped || result.action === 'reused') continue;
+    if ((result.op === 'createElement' || result.op === 'createOrGetElement') && result.realId) {
+      elementDeletes.push({ op: 'deleteElement', id: result.realId });
+      journal.createdIds.add(result.realId);
+    } else if ((result.op === 'createRelationship' || result.op === 'createOrGetRelationship') && result.realId) {
+      relationshipDeletes.push({ op: 'deleteRelationship', id: result.realId });
+      journal.createdIds.add(result.realId);
+    } else if (result.op === 'createView' && result.viewId) {
+      viewDeletes.push({ op: 'deleteView', viewId: result.viewId });
+      journal.createdIds.add(result.viewId);
+    }
+  }
+  for (const result of opResults) {
+    if (result.op !== 'addConnectionToView' || result.skipped || !result.connectionId || !result.viewId) continue;
+    if (journal.createdIds.has(result.viewId)) continue;
+    if (result.relationshipId && journal.createdIds.has(result.relationshipId)) continue;
+    connectionDeletes.push({ op: 'deleteConnectionFromView', viewId: result.viewId, connectionId: result.connectionId });
+  }
+
+  // Restores of existing concepts, merged per ID so each one returns to its pre-chunk state.
+  const updates = new Map<string, { op: string; name?: true; documentation?: true }>();
+  const propertyKeys = new Map<string, Set<string>>();
+  const moved = new Set<string>();
+  const deletedCreations = new Set<string>();
+  for (const change of changes) {
+    const source = asRecord(change);
+    const op = asString(source.op) ?? 'unknown';
+    const id = asString(source.id);
+    const viewId = asString(source.viewId);
+
+    if (CONCEPT_MUTATION_OPS.has(op) && id && !isCreatedByRun(id, declared, journal)) {
+      if (op !== 'setProperty') {
+        const update = updates.get(id) ?? { op };
+        if (typeof source.name === 'string') update.name = true;
+        if (typeof source.documentation === 'string') update.documentation = true;
+        updates.set(id, update);
+      }
+      const keys = propertyKeys.get(id) ?? new Set<string>();
+      if (op === 'setProperty' && typeof source.key === 'string') keys.add(source.key);
+      for (const key of Object.keys(asRecord(source.properties))) keys.add(key);
+      propertyKeys.set(id, keys);
+    } else if (op === 'moveToFolder' && id && !isCreatedByRun(id, declared, journal)) {
+      moved.add(id);
+    } else if (op === 'deleteElement' || op === 'deleteRelationship' || op === 'deleteView') {
+      const target = op === 'deleteView' ? viewId : id;
+      if (target && isCreatedByRun(target, declared, journal)) {
+        deletedCreations.add(createdByTempId.get(target) ?? target);
+      } else {
+        gap(op, target, 'deleted concepts cannot be restored');
+      }
+    } else if (op === 'createFolder') {
+      gap(op, asString(source.tempId), 'folders cannot be deleted by a BOM');
+    } else if (VIEW_MUTATION_OPS.has(op) && viewId && !isCreatedByRun(viewId, declared, journal)) {
+      const elementId = asString(source.elementId);
+      if (op === 'addToView' && elementId && isCreatedByRun(elementId, declared, journal)) continue;
+      gap(op, viewId, 'changes to existing views cannot be reverted');
+    }
+  }
+
+  // Concepts created and deleted within the run are already gone: drop their recorded deletes.
+  const stillPresent = (inverse: Record<string, unknown>): boolean =>
+    !deletedCreations.has(String(inverse.id ?? inverse.viewId));
+  for (const entry of journal.chunks) {
+    entry.changes = entry.changes.filter(stillPresent);
+  }
+
+  const restores: Array<Record<string, unknown>> = [];
+  for (const id of propertyKeys.keys()) {
+    if (!prior.concepts[id]) gap(updates.get(id)?.op ?? 'setProperty', id, 'previous state could not be read');
+  }
+  for (const [id, update] of updates) {
+    const state = prior.concepts[id];
+    if (!state) continue;
+    const restore: Record<string, unknown> = { op: update.op, id };
+    if (update.name) restore.name = state.name;
+    if (update.documentation) restore.documentation = state.documentation;
+    if (update.name || update.documentation) restores.push(restore);
+  }
+  for (const [id, keys] of propertyKeys) {
+    const state = prior.concepts[id];
+    if (!state) continue;
+    for (const key of keys) {
+      if (Object.prototype.hasOwnProperty.call(state.properties, key)) {
+        restores.push({ op: 'setProperty', id, key, value: state.properties[key] });
+      } else {
+        gap('setProperty', id, `property '${key}' did not exist before and cannot be removed by a BOM`);
+      }
+    }
+  }
+  for (const id of moved) {
+    const folderId = prior.folders[id];
+    if (folderId) {
+      restores.push({ op: 'moveToFolder', id, folderId });
+    } else {
+      gap('moveToFolder', id, 'previous folder could not be read');
+    }
+  }
+
+  journal.chunks.push({
+    chunk,
+    changes: [...connectionDeletes, ...viewDeletes, ...relationshipDeletes, ...elementDeletes]
+      .filter(stillPresent)
+      .concat(restores),
+  });
+}
+
+/**
+ * Flatten the journal into the operations that undo the run, latest chunk first.
+ */
+export function buildRollbackChanges(journal: RollbackJournal): Array<Record<string, unknown>> {
+  return [...journal.chunks].reverse().flatMap((entry) => entry.changes);
+}
+
+/**
+ * Submit the inverse operations, continuing past failed chunks so as much as possible is undone.
+ */
+export async function applyRollback(
+  journal: RollbackJournal,
+  options: { chunkSize: number; pollTimeoutMs?: number; throttleMs: number; warnings: string[] }
+): Promise<RollbackReport> {
+  const changes = buildRollbackChanges(journal);
+  const notReversible = journal.notReversible;
+  if (changes.length === 0) {
+    return { status: notReversible.length > 0 ? 'incomplete' : 'complete', operations: 0, results: [], notReversible };
+  }
+  try {
+    const applied = await applyChunkedChanges(changes, {
+      chunkSize: options.chunkSize,
+      poll: true,
+      pollTimeoutMs: options.pollTimeoutMs,
+      continueOnError: true,
+      throttleMs: options.throttleMs,
+      tempIdMap: {},
+      warnings: options.warnings,
+    });
+    return {
+      status: applied.hadOperationErrors || notReversible.length > 0 ? 'incomplete' : 'complete',
+      operations: changes.length,
+      results: applied.results,
+      notReversible,
+    };
+  } catch (err) {
+    return { status: 'failed', operations: changes.length, results: [], notReversible, error: String(err) };
+  }
+}
@@ -0,0 +1,272 @@
+import type { Command } from 'commander';
+import { ArgumentValidationError } from './args';
+
+/**
+ * One word of a shell line. `start` is its offset in the raw line.
+ */
+export interface ShellWord {
+  value: string;
+  start: number;
+  /** First character came from an escape or single quotes, so `@name` lookup does not apply. */
+  literalStart: boolean;
+}
+
+export interface ScanResult {
+  words: ShellWord[];
+  /** The line ends inside an unterminated quote. */
+  openQuote: boolean;
+}
+
+/**
+ * Element or view name known to the shell, used for `@name` references and completion.
+ */
+export interface NamedConcept {
+  id: string;
+  name: string;
+  kind: 'element' | 'view';
+}
+
+const VARIABLE_PATTERN = /^\$([A-Za-z_]\w*|\d+)((?:\.[A-Za-z_$][\w$-]*|\[\d+\])*)/;
+
+/**
+ * Split a shell line into words. Single quotes are literal; double quotes and bare words
+ * honour backslash escapes and, when `expand` is given, `$variable.path` references.
+ */
+export function scanLine(line: string, expand?: (reference: string) => string): ScanResult {
+  const words: ShellWord[] = [];
+  let current: ShellWord | null = null;
+  let quote: '"' | "'" | null = null;
+
+  const append = (text: string, start: number, literal: boolean): void => {
+    if (!current) {
+      current = { value: '', start, literalStart: literal };
+      words.push(current);
+    }
+    current.value += text;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else append(ch, i, true);
+      continue;
+    }
+    if (ch === '\\' && i + 1 < line.length && (quote === null || /["\\$]/.test(line[i + 1]))) {
+      append(line[i + 1], i, true);
+      i++;
+      continue;
+    }
+    if (ch === '$' && expand) {
+      const match = VARIABLE_PATTERN.exec(line.slice(i));
+      if (match) {
+        append(expand(match[0]), i, true);
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    if (quote === '"') {
+      if (ch === '"') quote = null;
+      else append(ch, i, false);
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      append('', i, true);
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      current = null;
+      continue;
+    }
+    append(ch, i, false);
+  }
+  return { words, openQuote: quote !== null };
+}
+
+/**
+ * Read a `$name.path[0].field` reference from the shell variables.
+ *
+ * @throws ArgumentValidationError for unknown variables or paths that do not exist.
+ */
+export function resolveVariable(reference: string, variables: ReadonlyMap<string, unknown>): unknown {
+  const match = VARIABLE_PATTERN.exec(reference);
+  if (!match || match[0] !== reference) {
+    throw new ArgumentValidationError(`Invalid variable reference '${reference}'`);
+  }
+  const name = match[1];
+  if (!variables.has(name)) {
+    throw new ArgumentValidationError(`Unknown variable '$${name}' (type "vars" to list variables)`);
+  }
+  let value = variables.get(name);
+  for (const segment of match[2].match(/\.[^.[]+|\[\d+\]/g) ?? []) {
+    const key = segment.startsWith('[') ? Number(segment.slice(1, -1)) : segment.slice(1);
+    if (typeof value !== 'object' || value === null || !(key in value)) {
+      throw new ArgumentValidationError(`'${reference}' does not exist (no '${segment}')`);
+    }
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Render a variable value as a command argument: scalars as-is, objects as JSON.
+ */
+export function toArgument(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Resolve `@name` to the ID of the element or view with exactly that name.
+ *
+ * @throws ArgumentValidationError when no concept or more than one has the name.
+ */
+export function resolveNamedConcept(name: string, concepts: readonly NamedConcept[]): string {
+  const matches = concepts.filter((concept) => concept.name === name);
+  if (matches.length === 0) {
+    throw new ArgumentValidationError(`No element or view named '${name}' (type "refresh" if it was just created)`);
+  }
+  if (matches.length > 1) {
+    const ids = matches.map((concept) => `${concept.id} (${concept.kind})`).join(', ');
+    throw new ArgumentValidationError(`'${name}' is ambiguous: ${ids}; use the ID instead`);
+  }
+  return matches[0].id;
+}
+
+/**
+ * Quote a name for `@name` completion when it contains shell syntax.
+ */
+export function formatNameReference(name: string): string {
+  if (/^[^\s'"\\$]+$/.test(name)) return `@${name}`;
+  return `@"${name.replace(/(["\\$])/g, '\\$1')}"`;
+}
+
+/**
+ * Inputs for {@link completeShellLine}.
+ */
+export interface CompletionContext {
+  program: Command;
+  builtins: readonly string[];
+  variables: ReadonlyMap<string, unknown>;
+  /** Known elements and views, or undefined when they have not been fetched. */
+  concepts?: readonly NamedConcept[];
+}
+
+/**
+ * What the word under the cursor completes to, before concept data is needed.
+ */
+export type CompletionTarget = 'keywords' | 'concepts';
+
+function findSubcommand(command: Command, name: string): Command | undefined {
+  return command.commands.find((sub) => sub.name() === name || sub.aliases().includes(name));
+}
+
+/**
+ * The deepest command named by the words typed so far.
+ */
+function commandAt(program: Command, words: readonly string[]): Command {
+  let command = program;
+  for (const value of words) {
+    const sub = value.startsWith('-') ? undefined : findSubcommand(command, value);
+    if (sub) command = sub;
+  }
+  return command;
+}
+
+function optionNames(command: Command): string[] {
+  const names: string[] = [];
+  for (let cursor: Command | null = command; cursor; cursor = cursor.parent) {
+    for (const option of cursor.options) {
+      if (option.long) names.push(option.long);
+    }
+  }
+  return names;
+}
+
+function variableCandidates(word: string, variables: ReadonlyMap<string, unknown>): string[] {
+  const lastSeparator = Math.max(word.lastIndexOf('.'), word.lastIndexOf('['));
+  if (lastSeparator <= 0) {
+    return [...variables.keys()].map((name) => `$${name}`);
+  }
+  const base = word.slice(0, lastSeparator);
+  let value: unknown;
+  try {
+    value = resolveVariable(base, variables);
+  } catch {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((_item, index) => `${base}[${index}]`);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value)
+      .filter((key) => /^[A-Za-z_$][\w$-]*$/.test(key))
+      .map((key) => `${base}.${key}`);
+  }
+  return [];
+}
+
+/**
+ * Split a line into the words before the cursor and the raw word being completed.
+ */
+function splitForCompletion(line: string): { previous: string[]; word: string } {
+  const { words, openQuote } = scanLine(line);
+  const endsWord = openQuote || (line.length > 0 && !/\s$/.test(line));
+  if (!endsWord || words.length === 0) {
+    return { previous: words.map((word) => word.value), word: '' };
+  }
+  const last = words[words.length - 1];
+  return { previous: words.slice(0, -1).map((word) => word.value), word: line.slice(last.start) };
+}
+
+/**
+ * Whether completing this line needs element and view names from the server.
+ */
+export function completionTarget(line: string, program: Command): CompletionTarget {
+  const { previous, word } = splitForCompletion(line);
+  if (word.startsWith('@')) return 'concepts';
+  if (word.startsWith('-') || word.startsWith('$') || previous.length === 0) return 'keywords';
+  const command = commandAt(program, previous);
+  return command.commands.length === 0 && command !== program && command.registeredArguments.length > 0
+    ? 'concepts'
+    : 'keywords';
+}
+
+/**
+ * Readline completer logic: returns candidate words and the raw text they replace.
+ * Commands and subcommands come from the Commander tree, `--options` from the command
+ * being typed, `$variables` from previous results, and argument positions offer element
+ * and view IDs plus `@name` references.
+ */
+export function completeShellLine(line: string, context: CompletionContext): [string[], string] {
+  const { previous, word } = splitForCompletion(line);
+  let candidates: string[];
+
+  if (word.startsWith('$')) {
+    candidates = variableCandidates(word, context.variables);
+  } else if (word.startsWith('@')) {
+    candidates = (context.concepts ?? []).map((concept) => formatNameReference(concept.name));
+  } else if (previous.length === 0) {
+    candidates = [
+      ...context.builtins,
+      ...context.program.commands.map((command) => command.name()).filter((name) => name !== 'help'),
+    ];
+  } else {
+    const command = commandAt(context.program, previous);
+    if (word.startsWith('-')) {
+      candidates = optionNames(command);
+    } else if (command.commands.length > 0) {
+      candidates = command.commands.map((sub) => sub.name()).filter((name) => name !== 'help');
+    } else if (command !== context.program && command.registeredArguments.length > 0) {
+      candidates = (context.concepts ?? []).map((concept) => concept.id);
+    } else {
+      candidates = [];
+    }
+  }
+
+  const hits = [...new Set(candidates)].filter((candidate) => candidate.startsWith(word)).sort();
+  return [hits, word];
+}
@@ -0,0 +1,169 @@
+import { ApiError, authHeaders, unauthorizedError } from './api';
+import { getConfig } from './config';
+import { addWarning } from './warnings';
+
+/**
+ * One message from a `text/event-stream` body.
+ */
+export interface SseMessage {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+export const SERVER_EVENT_TYPES = [
+  'operation.queued',
+  'operation.processing',
+  'operation.complete',
+  'operation.error',
+  'model.changed',
+] as const;
+
+export type ServerEventType = (typeof SERVER_EVENT_TYPES)[number];
+
+/**
+ * A decoded `/events` message: the `data:` JSON plus the stream event ID.
+ */
+export interface ServerEvent {
+  id: number | null;
+  type: ServerEventType | string;
+  timestamp: string;
+  data: {
+    opId?: string;
+    status?: 'queued' | 'processing' | 'complete' | 'error';
+    source?: 'api' | 'archi';
+    error?: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface EventStreamOptions {
+  /** Event types or prefixes to receive (all when omitted). */
+  types?: string[];
+  /** Replay buffered events with a greater ID. */
+  since?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Incremental `text/event-stream` parser: feed it decoded chunks, get complete messages back.
+ * Comment lines (`: keepalive`) and `retry:` fields are ignored.
+ */
+export class SseParser {
+  private buffer = '';
+  private id: string | undefined;
+  private event = '';
+  private data: string[] = [];
+
+  push(chunk: string): SseMessage[] {
+    this.buffer += chunk;
+    const messages: SseMessage[] = [];
+    let newline: number;
+    while ((newline = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      const width = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+      // A trailing \r may be the first half of \r\n split across chunks
+      if (width === 1 && this.buffer[newline] === '\r' && newline === this.buffer.length - 1) break;
+      this.buffer = this.buffer.slice(newline + width);
+
+      if (line === '') {
+        if (this.data.length > 0) {
+          messages.push({
+            ...(this.id !== undefined ? { id: this.id } : {}),
+            event: this.event || 'message',
+            data: this.data.join('\n'),
+          });
+        }
+        this.event = '';
+        this.data = [];
+        continue;
+      }
+      if (line.startsWith(':')) continue;
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? '' : line.slice(colon + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+      if (field === 'data') this.data.push(value);
+      else if (field === 'event') this.event = value;
+      else if (field === 'id') this.id = value;
+    }
+    return messages;
+  }
+}
+
+/**
+ * Decode an `/events` message; returns undefined for payloads that are not server events.
+ */
+export function toServerEvent(message: SseMessage): ServerEvent | undefined {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(message.data);
+  } catch {
+    return undefined;
+  }
+  if (typeof payload !== 'object' || payload === null) return undefined;
+  const record = payload as Record<string, unknown>;
+  const id = message.id !== undefined && /^\d+$/.test(message.id) ? Number(message.id) : null;
+  return {
+    id,
+    type: typeof record.type === 'string' ? record.type : message.event,
+    timestamp: typeof record.timestamp === 'string' ? record.timestamp : '',
+    data: (typeof record.data === 'object' && record.data !== null ? record.data : {}) as ServerEvent['data'],
+  };
+}
+
+/**
+ * Connect to `GET /events`. Resolves once the server accepts the stream, so callers know
+ * they are subscribed before acting; iterate the result to receive events.
+ *
+ * @throws ApiError when the server rejects the request (404 on servers without /events).
+ */
+export async function openEventStream(options: EventStreamOptions = {}): Promise<AsyncGenerator<ServerEvent>> {
+  const config = getConfig();
+  const params = new URLSearchParams();
+  if (options.types && options.types.length > 0) params.set('types', options.types.join(','));
+  if (options.since !== undefined) params.set('since', String(options.since));
+  const query = params.toString();
+  const url = `${config.baseUrl}/events${query ? `?${query}` : ''}`;
+  if (config.verbose) {
+    addWarning(`[GET] ${url}`);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: { Accept: 'text/event-stream', ...authHeaders() },
+      signal: options.signal,
+    });
+  } catch (err) {
+    if (options.signal?.aborted) throw err;
+    throw new Error(
+      `Could not connect to server at ${config.baseUrl}. Is the Archi Model API Server running? (${err})`
+    );
+  }
+  if (!res.ok || !res.body) {
+    const data = (await res.json().catch(() => ({}))) as { error?: { code?: string; message?: string } };
+    if (res.status === 401) throw unauthorizedError(data.error?.message);
+    throw new ApiError(res.status, data.error?.code ?? 'UNKNOWN', data.error?.message ?? `HTTP ${res.status}`);
+  }
+  return readEvents(res.body);
+}
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      for (const message of parser.push(decoder.decode(value, { stream: true }))) {
+        const event = toServerEvent(message);
+        if (event) yield event;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
@@ -18,6 +18,9 @@ export const REFERENCE_ID_FIELDS = [
   'visualId',
 ] as const;
 
+// createOrGet* operations carry their references inside nested create/match specs.
+export const NESTED_REFERENCE_SPECS = ['create', 'match'] as const;
+
 interface SearchResponse {
   results: Array<{ id: string; name: string; type: string }>;
 }
@@ -40,6 +43,12 @@ export function substituteIds(chunk: unknown[], map: Record<string, string>): un
         patched[field] = map[value];
       }
     }
+    for (const specField of NESTED_REFERENCE_SPECS) {
+      const spec = source[specField];
+      if (typeof spec === 'object' && spec !== null) {
+        patched[specField] = substituteIds([spec], map)[0];
+      }
+    }
     return patched;
   });
 }
@@ -57,6 +66,12 @@ export function collectTempIdRefs(changes: unknown[]): string[] {
         refs.add(value);
       }
     }
+    for (const specField of NESTED_REFERENCE_SPECS) {
+      const spec = source[specField];
+      if (typeof spec === 'object' && spec !== null) {
+        for (const ref of collectTempIdRefs([spec])) refs.add(ref);
+      }
+    }
   }
   return [...refs].filter((value) => !value.startsWith('id-'));
 }
@@ -0,0 +1,385 @@
+import { escapeXml } from './exchangeFormat';
+import type { SnapshotConnection, SnapshotNode, SnapshotView } from './modelSnapshot';
+
+/**
+ * Options for {@link renderViewSvg}.
+ */
+export interface RenderOptions {
+  /** Blank space around the diagram in pixels (default 10). */
+  margin?: number;
+}
+
+/**
+ * SVG document plus what ended up in it.
+ */
+export interface RenderedView {
+  svg: string;
+  width: number;
+  height: number;
+  nodes: number;
+  connections: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FONT_SIZE = 12;
+// Rough average glyph width for the sans-serif stack at FONT_SIZE; only used for wrapping.
+const CHAR_WIDTH = 6.5;
+const LINE_HEIGHT = 15;
+const DEFAULT_LINE_COLOR = '#5c5c5c';
+
+// Default sizes Archi uses when a diagram object's bounds are -1.
+const DEFAULT_SIZES: Record<string, [number, number]> = {
+  'diagram-model-group': [400, 140],
+  'diagram-model-note': [185, 80],
+  junction: [15, 15],
+};
+const DEFAULT_SIZE: [number, number] = [120, 55];
+
+const LAYER_COLORS: Array<[RegExp, string]> = [
+  [/^(business-|contract$|representation$|product$)/, '#ffffb5'],
+  [/^(application-|data-object$)/, '#b5ffff'],
+  [
+    /^(technology-|node$|device$|system-software$|path$|communication-network$|artifact$|equipment$|facility$|distribution-network$|material$)/,
+    '#c9e7b7',
+  ],
+  [/^(stakeholder|driver|assessment|goal|outcome|principle|requirement|constraint|meaning|value)$/, '#ccccff'],
+  [/^(resource|capability|value-stream|course-of-action)$/, '#f5deaa'],
+  [/^(work-package|deliverable|implementation-event)$/, '#ffe0e0'],
+  [/^(plateau|gap)$/, '#e0ffe0'],
+  [/^location$/, '#fbb875'],
+];
+const NON_ARCHIMATE_FILLS: Record<string, string> = {
+  'diagram-model-group': '#d2d7d7',
+  'diagram-model-note': '#ffffff',
+};
+
+const BEHAVIOUR_TYPE = /(-process|-function|-interaction|-event|^work-package|^value-stream|^capability|^course-of-action)$/;
+const MOTIVATION_TYPE = /^(stakeholder|driver|assessment|goal|outcome|principle|requirement|constraint|meaning)$/;
+
+// Line dash pattern and start/end markers per relationship type (see <defs> below).
+const RELATIONSHIP_STYLES: Record<string, { dash?: string; start?: string; end?: string }> = {
+  'composition-relationship': { start: 'diamond-filled' },
+  'aggregation-relationship': { start: 'diamond-hollow' },
+  'assignment-relationship': { start: 'dot', end: 'arrow-filled' },
+  'realization-relationship': { dash: '6,3', end: 'triangle-hollow' },
+  'serving-relationship': { end: 'arrow-open' },
+  'access-relationship': { dash: '2,2', end: 'arrow-small' },
+  'influence-relationship': { dash: '6,3', end: 'arrow-open' },
+  'triggering-relationship': { end: 'arrow-filled' },
+  'flow-relationship': { dash: '6,3', end: 'arrow-filled' },
+  'specialization-relationship': { end: 'triangle-hollow' },
+  'association-relationship': {},
+};
+
+const MARKER_DEFS = [
+  '<marker id="diamond-filled" viewBox="0 0 16 8" refX="0" refY="4" markerWidth="16" markerHeight="8" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,4 L8,0 L16,4 L8,8 Z" fill="#000"/></marker>',
+  '<marker id="diamond-hollow" viewBox="0 0 16 8" refX="0" refY="4" markerWidth="16" markerHeight="8" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,4 L8,0 L16,4 L8,8 Z" fill="#fff" stroke="#000"/></marker>',
+  '<marker id="dot" viewBox="0 0 8 8" refX="4" refY="4" markerWidth="8" markerHeight="8" markerUnits="userSpaceOnUse"><circle cx="4" cy="4" r="3" fill="#000"/></marker>',
+  '<marker id="arrow-filled" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="10" markerHeight="10" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,1 L10,5 L0,9 Z" fill="#000"/></marker>',
+  '<marker id="arrow-open" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="10" markerHeight="10" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,1 L10,5 L0,9" fill="none" stroke="#000"/></marker>',
+  '<marker id="arrow-small" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,0 L6,3 L0,6" fill="none" stroke="#000"/></marker>',
+  '<marker id="triangle-hollow" viewBox="0 0 12 12" refX="12" refY="6" markerWidth="12" markerHeight="12" markerUnits="userSpaceOnUse" orient="auto"><path d="M0,0 L12,6 L0,12 Z" fill="#fff" stroke="#000"/></marker>',
+];
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Fill color Archi would use for an element type when the view sets none.
+ */
+export function layerColor(type: string): string {
+  for (const [pattern, color] of LAYER_COLORS) {
+    if (pattern.test(type)) return color;
+  }
+  return '#ffffff';
+}
+
+function shapeKey(node: SnapshotNode, conceptTypes: Map<string, string>): string {
+  return node.conceptId ? conceptTypes.get(node.conceptId) ?? '' : node.type;
+}
+
+/**
+ * Notation family of a diagram object, shared by the SVG and text-diagram renderers.
+ */
+export type NodeShape = 'note' | 'group' | 'junction' | 'grouping' | 'service' | 'value' | 'motivation' | 'behaviour' | 'box';
+
+/**
+ * Pick the notation for a diagram object from its concept type (or its own type when it has no concept).
+ */
+export function nodeShape(node: SnapshotNode, conceptTypes: Map<string, string>): NodeShape {
+  if (node.type === 'diagram-model-note') return 'note';
+  if (node.type === 'diagram-model-group') return 'group';
+  const kind = shapeKey(node, conceptTypes);
+  if (kind === 'junction' || kind === 'grouping' || kind === 'value') return kind;
+  if (kind.endsWith('-service')) return 'service';
+  if (MOTIVATION_TYPE.test(kind)) return 'motivation';
+  if (BEHAVIOUR_TYPE.test(kind)) return 'behaviour';
+  return 'box';
+}
+
+/**
+ * Fill for a diagram object: its own fill color, else the group/note default, else its layer color.
+ */
+export function nodeFill(node: SnapshotNode, conceptTypes: Map<string, string>): string {
+  return node.fillColor ?? NON_ARCHIMATE_FILLS[node.type] ?? layerColor(shapeKey(node, conceptTypes));
+}
+
+function nodeSize(node: SnapshotNode, kind: string): [number, number] {
+  const [defaultWidth, defaultHeight] = DEFAULT_SIZES[kind] ?? DEFAULT_SIZE;
+  return [node.width > 0 ? node.width : defaultWidth, node.height > 0 ? node.height : defaultHeight];
+}
+
+// Archi stores bounds relative to the parent object, so walk the parentId chain.
+function absoluteBoxes(view: SnapshotView, conceptTypes: Map<string, string>): Map<string, Box> {
+  const byId = new Map(view.nodes.map((node) => [node.id, node]));
+  const boxes = new Map<string, Box>();
+  const resolveBox = (node: SnapshotNode, seen: Set<string>): Box => {
+    const cached = boxes.get(node.id);
+    if (cached) return cached;
+    const [width, height] = nodeSize(node, shapeKey(node, conceptTypes));
+    let x = node.x;
+    let y = node.y;
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    if (parent && !seen.has(parent.id)) {
+      seen.add(node.id);
+      const parentBox = resolveBox(parent, seen);
+      x += parentBox.x;
+      y += parentBox.y;
+    }
+    const box = { x, y, width, height };
+    boxes.set(node.id, box);
+    return box;
+  };
+  for (const node of view.nodes) resolveBox(node, new Set());
+  return boxes;
+}
+
+function depthOf(node: SnapshotNode, byId: Map<string, SnapshotNode>): number {
+  let depth = 0;
+  const seen = new Set<string>([node.id]);
+  let parentId = node.parentId;
+  while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+    seen.add(parentId);
+    depth++;
+    parentId = byId.get(parentId)?.parentId;
+  }
+  return depth;
+}
+
+/**
+ * Break text into lines of at most `maxWidth` pixels, honouring explicit newlines.
+ */
+function wrapText(text: string, maxWidth: number): string[] {
+  const maxChars = Math.max(1, Math.floor(maxWidth / CHAR_WIDTH));
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter((part) => part.length > 0)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function textBlock(
+  text: string,
+  box: Box,
+  options: { align: 'middle' | 'start'; valign: 'middle' | 'top'; color: string; padding?: number }
+): string {
+  if (!text.trim()) return '';
+  const padding = options.padding ?? 5;
+  const maxLines = Math.max(1, Math.floor((box.height - padding) / LINE_HEIGHT));
+  const lines = wrapText(text, box.width - 2 * padding).slice(0, maxLines);
+  const x = options.align === 'middle' ? box.x + box.width / 2 : box.x + padding;
+  const top =
+    options.valign === 'top'
+      ? box.y + padding + FONT_SIZE
+      : box.y + box.height / 2 - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+  const spans = lines
+    .map((line, index) => `<tspan x="${fmt(x)}" y="${fmt(top + index * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return `<text text-anchor="${options.align}" fill="${escapeXml(options.color)}">${spans}</text>`;
+}
+
+function octagon(box: Box, cut: number): string {
+  const { x, y, width: w, height: h } = box;
+  const points = [
+    [x + cut, y],
+    [x + w - cut, y],
+    [x + w, y + cut],
+    [x + w, y + h - cut],
+    [x + w - cut, y + h],
+    [x + cut, y + h],
+    [x, y + h - cut],
+    [x, y + cut],
+  ];
+  return points.map(([px, py]) => `${fmt(px)},${fmt(py)}`).join(' ');
+}
+
+function renderNode(node: SnapshotNode, box: Box, conceptTypes: Map<string, string>, hasChildren: boolean): string {
+  const kind = shapeKey(node, conceptTypes);
+  const fill = nodeFill(node, conceptTypes);
+  const stroke = node.lineColor ?? DEFAULT_LINE_COLOR;
+  const paint = `fill="${escapeXml(fill)}" stroke="${escapeXml(stroke)}" stroke-width="${node.lineWidth ?? 1}"`;
+  const fontColor = node.fontColor ?? '#000000';
+  const { x, y, width: w, height: h } = box;
+  const rect = (extra = ''): string =>
+    `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(w)}" height="${fmt(h)}"${extra} ${paint}/>`;
+  const label = (valign: 'middle' | 'top'): string =>
+    textBlock(node.name, box, { align: 'middle', valign, color: fontColor });
+  const valign = hasChildren ? 'top' : 'middle';
+
+  const notation = nodeShape(node, conceptTypes);
+  let shape: string;
+  let text: string;
+  if (notation === 'note') {
+    const fold = Math.min(12, w / 4, h / 4);
+    shape = `<path d="M${fmt(x)},${fmt(y)} H${fmt(x + w - fold)} L${fmt(x + w)},${fmt(y + fold)} V${fmt(y + h)} H${fmt(x)} Z" ${paint}/>`;
+    text = textBlock(node.content ?? node.name, box, { align: 'start', valign: 'top', color: fontColor });
+  } else if (notation === 'group') {
+    shape = rect();
+    text = textBlock(node.name, { ...box, height: LINE_HEIGHT + 5 }, { align: 'start', valign: 'top', color: fontColor });
+  } else if (notation === 'junction') {
+    const r = Math.min(w, h) / 2;
+    shape = `<circle cx="${fmt(x + w / 2)}" cy="${fmt(y + h / 2)}" r="${fmt(r)}" fill="${escapeXml(node.fillColor ?? '#000000')}" stroke="${escapeXml(stroke)}"/>`;
+    text = '';
+  } else if (notation === 'grouping') {
+    shape = rect(' stroke-dasharray="6,3" fill-opacity="0.4"');
+    text = textBlock(node.name, { ...box, height: LINE_HEIGHT + 5 }, { align: 'start', valign: 'top', color: fontColor });
+  } else if (notation === 'service') {
+    const radius = fmt(Math.min(h, w) / 2);
+    shape = rect(` rx="${radius}" ry="${radius}"`);
+    text = label(valign);
+  } else if (notation === 'value') {
+    shape = `<ellipse cx="${fmt(x + w / 2)}" cy="${fmt(y + h / 2)}" rx="${fmt(w / 2)}" ry="${fmt(h / 2)}" ${paint}/>`;
+    text = label(valign);
+  } else if (notation === 'motivation') {
+    shape = `<polygon points="${octagon(box, Math.min(10, w / 4, h / 4))}" ${paint}/>`;
+    text = label(valign);
+  } else if (notation === 'behaviour') {
+    shape = rect(' rx="10" ry="10"');
+    text = label(valign);
+  } else {
+    shape = rect();
+    text = label(valign);
+  }
+  const title = `<title>${escapeXml(kind || node.type)}${node.name ? `: ${escapeXml(node.name)}` : ''}</title>`;
+  return `<g id="${escapeXml(node.id)}">${title}${shape}${text}</g>`;
+}
+
+// Point where the segment from the box centre towards (tx, ty) leaves the box.
+function clipToBox(box: Box, tx: number, ty: number): [number, number] {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const dx = tx - cx;
+  const dy = ty - cy;
+  if (dx === 0 && dy === 0) return [cx, cy];
+  const scale = Math.min(
+    dx !== 0 ? box.width / 2 / Math.abs(dx) : Infinity,
+    dy !== 0 ? box.height / 2 / Math.abs(dy) : Infinity
+  );
+  return [cx + dx * Math.min(scale, 1), cy + dy * Math.min(scale, 1)];
+}
+
+function renderConnection(
+  connection: SnapshotConnection,
+  source: Box,
+  target: Box,
+  conceptTypes: Map<string, string>
+): string {
+  const relationshipType = connection.conceptId ? conceptTypes.get(connection.conceptId) ?? '' : '';
+  const style =
+    connection.type === 'diagram-model-archimate-connection'
+      ? RELATIONSHIP_STYLES[relationshipType] ?? {}
+      : { dash: '4,4' };
+  const [x1, y1] = clipToBox(source, target.x + target.width / 2, target.y + target.height / 2);
+  const [x2, y2] = clipToBox(target, source.x + source.width / 2, source.y + source.height / 2);
+  const attrs = [
+    `x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}"`,
+    `stroke="${escapeXml(connection.lineColor ?? '#000000')}" stroke-width="${connection.lineWidth ?? 1}"`,
+    style.dash ? `stroke-dasharray="${style.dash}"` : '',
+    style.start ? `marker-start="url(#${style.start})"` : '',
+    style.end ? `marker-end="url(#${style.end})"` : '',
+  ].filter((attr) => attr.length > 0);
+  const title = `<title>${escapeXml(relationshipType || connection.type)}${connection.name ? `: ${escapeXml(connection.name)}` : ''}</title>`;
+  const label = connection.name
+    ? `<text x="${fmt((x1 + x2) / 2)}" y="${fmt((y1 + y2) / 2 - 4)}" text-anchor="middle" fill="${escapeXml(connection.fontColor ?? '#000000')}">${escapeXml(connection.name)}</text>`
+    : '';
+  return `<g id="${escapeXml(connection.id)}">${title}<line ${attrs.join(' ')}/>${label}</g>`;
+}
+
+/**
+ * Render a view as a standalone SVG document. Output depends only on the input, so
+ * re-rendering an unchanged view yields identical bytes.
+ *
+ * `conceptTypes` maps concept IDs to element/relationship types and decides shapes,
+ * layer colors and arrowheads; unknown concepts fall back to plain boxes and lines.
+ * Connections whose ends are not diagram objects (e.g. connection-to-connection) are skipped.
+ */
+export function renderViewSvg(
+  view: SnapshotView,
+  conceptTypes: Map<string, string>,
+  options: RenderOptions = {}
+): RenderedView {
+  const margin = options.margin ?? 10;
+  const boxes = absoluteBoxes(view, conceptTypes);
+  const byId = new Map(view.nodes.map((node) => [node.id, node]));
+  const parents = new Set(view.nodes.map((node) => node.parentId).filter((id): id is string => !!id && byId.has(id)));
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const box of boxes.values()) {
+    minX = Math.min(minX, box.x);
+    minY = Math.min(minY, box.y);
+    maxX = Math.max(maxX, box.x + box.width);
+    maxY = Math.max(maxY, box.y + box.height);
+  }
+  if (boxes.size === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+  const width = Math.ceil(maxX - minX + 2 * margin);
+  const height = Math.ceil(maxY - minY + 2 * margin);
+
+  // Parents first so nested objects paint over their containers.
+  const ordered = view.nodes
+    .map((node, index) => ({ node, index, depth: depthOf(node, byId) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index);
+  const nodeMarkup = ordered.map(({ node }) =>
+    renderNode(node, boxes.get(node.id) as Box, conceptTypes, parents.has(node.id))
+  );
+  const connectionMarkup: string[] = [];
+  for (const connection of view.connections) {
+    const source = boxes.get(connection.sourceId);
+    const target = boxes.get(connection.targetId);
+    if (!source || !target) continue;
+    connectionMarkup.push(renderConnection(connection, source, target, conceptTypes));
+  }
+
+  const svg = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Segoe UI, Helvetica, Arial, sans-serif" font-size="${FONT_SIZE}">`,
+    `<title>${escapeXml(view.name)}</title>`,
+    `<defs>${MARKER_DEFS.join('')}</defs>`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<g transform="translate(${fmt(margin - minX)},${fmt(margin - minY)})">`,
+    ...nodeMarkup,
+    ...connectionMarkup,
+    '</g>',
+    '</svg>',
+  ].join('\n');
+  return { svg: svg + '\n', width, height, nodes: nodeMarkup.length, connections: connectionMarkup.length };
+}
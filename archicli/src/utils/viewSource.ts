@@ -0,0 +1,39 @@
+import type { ViewDetailResponse } from '../client';
+import { get } from './api';
+import { toSnapshotView } from './modelSnapshot';
+import type { ModelSnapshot, SnapshotView } from './modelSnapshot';
+
+/**
+ * A view's visual content plus the ArchiMate type of every concept it shows,
+ * which is what client-side renderers need to pick shapes, colors and arrowheads.
+ */
+export interface ResolvedView {
+  view: SnapshotView;
+  /** Concept ID -> element or relationship type (e.g. `application-component`). */
+  conceptTypes: Map<string, string>;
+}
+
+/**
+ * Read a view from the running server.
+ */
+export async function fetchResolvedView(id: string): Promise<ResolvedView> {
+  const detail = await get<ViewDetailResponse>(`/views/${encodeURIComponent(id)}`);
+  const conceptTypes = new Map<string, string>();
+  for (const item of [...(detail.elements ?? []), ...(detail.connections ?? [])]) {
+    if (item.conceptId && item.conceptType) conceptTypes.set(item.conceptId, item.conceptType);
+  }
+  return { view: toSnapshotView(detail, undefined), conceptTypes };
+}
+
+/**
+ * Pick a view out of a model snapshot; concept types come from the snapshot's elements and relationships.
+ */
+export function resolveSnapshotView(snapshot: ModelSnapshot, id: string): ResolvedView {
+  const view = snapshot.views.find((candidate) => candidate.id === id);
+  if (!view) {
+    throw new Error(`View '${id}' is not in the snapshot (it has ${snapshot.views.length} view(s))`);
+  }
+  const conceptTypes = new Map<string, string>();
+  for (const concept of [...snapshot.elements, ...snapshot.relationships]) conceptTypes.set(concept.id, concept.type);
+  return { view, conceptTypes };
+}
@@ -0,0 +1,344 @@
+import type { SnapshotConnection, SnapshotNode, SnapshotView } from './modelSnapshot';
+import { nodeFill, nodeShape } from './viewRender';
+import type { NodeShape } from './viewRender';
+
+export const TEXT_VIEW_FORMATS = ['mermaid', 'plantuml', 'dot'] as const;
+
+export type TextViewFormat = (typeof TEXT_VIEW_FORMATS)[number];
+
+/**
+ * File extension written for each text diagram format.
+ */
+export const TEXT_VIEW_EXTENSIONS: Record<TextViewFormat, string> = {
+  mermaid: 'mmd',
+  plantuml: 'puml',
+  dot: 'dot',
+};
+
+/**
+ * Text diagram source plus what ended up in it.
+ */
+export interface TextView {
+  text: string;
+  nodes: number;
+  connections: number;
+}
+
+interface TreeNode {
+  node: SnapshotNode;
+  alias: string;
+  label: string;
+  shape: NodeShape;
+  fill: string;
+  children: TreeNode[];
+}
+
+interface Edge {
+  connection: SnapshotConnection;
+  source: TreeNode;
+  target: TreeNode;
+  /** Relationship type, or '' for plain (non-ArchiMate) connections. */
+  relationship: string;
+}
+
+interface DiagramModel {
+  roots: TreeNode[];
+  edges: Edge[];
+  nodeCount: number;
+}
+
+/**
+ * Parse a --format value.
+ */
+export function isTextViewFormat(value: string): value is TextViewFormat {
+  return (TEXT_VIEW_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Map Archi IDs (`id-<hex>`) to unique plain identifiers, as the text formats require.
+ */
+export function createAliasFactory(): (id: string) => string {
+  const used = new Set<string>();
+  return (id) => {
+    const base = id.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)/, 'n');
+    let alias = base;
+    for (let suffix = 2; used.has(alias); suffix++) alias = `${base}_${suffix}`;
+    used.add(alias);
+    return alias;
+  };
+}
+
+// Reading order (top-to-bottom, then left-to-right) keeps generated layouts close to the original.
+function compareByPosition(a: TreeNode, b: TreeNode): number {
+  return a.node.y - b.node.y || a.node.x - b.node.x || a.node.id.localeCompare(b.node.id);
+}
+
+function buildDiagramModel(view: SnapshotView, conceptTypes: Map<string, string>): DiagramModel {
+  const toAlias = createAliasFactory();
+  const byId = new Map<string, TreeNode>();
+  for (const node of view.nodes) {
+    byId.set(node.id, {
+      node,
+      alias: toAlias(node.id),
+      label: (node.type === 'diagram-model-note' ? node.content ?? node.name : node.name).trim(),
+      shape: nodeShape(node, conceptTypes),
+      fill: nodeFill(node, conceptTypes),
+      children: [],
+    });
+  }
+
+  const roots: TreeNode[] = [];
+  for (const entry of byId.values()) {
+    const parent = entry.node.parentId ? byId.get(entry.node.parentId) : undefined;
+    // Guard against parent cycles in hand-edited snapshots by treating such nodes as roots.
+    let ancestor = parent;
+    const seen = new Set([entry.node.id]);
+    while (ancestor && !seen.has(ancestor.node.id)) {
+      seen.add(ancestor.node.id);
+      ancestor = ancestor.node.parentId ? byId.get(ancestor.node.parentId) : undefined;
+    }
+    if (parent && !ancestor) parent.children.push(entry);
+    else roots.push(entry);
+  }
+  const sortTree = (nodes: TreeNode[]): void => {
+    nodes.sort(compareByPosition);
+    for (const entry of nodes) sortTree(entry.children);
+  };
+  sortTree(roots);
+
+  const edges: Edge[] = [];
+  for (const connection of view.connections) {
+    const source = byId.get(connection.sourceId);
+    const target = byId.get(connection.targetId);
+    if (!source || !target) continue;
+    const relationship =
+      connection.type === 'diagram-model-archimate-connection' && connection.conceptId
+        ? conceptTypes.get(connection.conceptId) ?? ''
+        : '';
+    edges.push({ connection, source, target, relationship });
+  }
+  return { roots, edges, nodeCount: byId.size };
+}
+
+// --- Mermaid ---------------------------------------------------------------
+
+const MERMAID_LINKS: Record<string, string> = {
+  'composition-relationship': '===',
+  'aggregation-relationship': '---',
+  'assignment-relationship': '==>',
+  'realization-relationship': '-.->',
+  'serving-relationship': '-->',
+  'access-relationship': '-.->',
+  'influence-relationship': '-.->',
+  'triggering-relationship': '-->',
+  'flow-relationship': '-.->',
+  'specialization-relationship': '-->',
+  'association-relationship': '---',
+};
+
+const MERMAID_SHAPES: Record<NodeShape, [string, string]> = {
+  note: ['["', '"]'],
+  group: ['["', '"]'],
+  junction: ['(("', '"))'],
+  grouping: ['["', '"]'],
+  service: ['(["', '"])'],
+  value: ['(["', '"])'],
+  motivation: ['{{"', '"}}'],
+  behaviour: ['("', '")'],
+  box: ['["', '"]'],
+};
+
+/**
+ * Escape a Mermaid label; entity codes keep quotes and markup characters out of its HTML labels.
+ */
+export function mermaidText(text: string): string {
+  return text
+    .replace(/&/g, '#38;')
+    .replace(/</g, '#60;')
+    .replace(/>/g, '#62;')
+    .replace(/"/g, '#quot;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Mermaid link operator for a relationship type ('' = plain diagram connection).
+ */
+export function mermaidLink(relationship: string): string {
+  return relationship ? MERMAID_LINKS[relationship] ?? '---' : '-.-';
+}
+
+function toMermaid(view: SnapshotView, model: DiagramModel): string {
+  const lines = ['---', `title: ${JSON.stringify(view.name)}`, '---', 'flowchart TB'];
+  const styles: string[] = [];
+  const emit = (entry: TreeNode, indent: string): void => {
+    const dashed = entry.shape === 'grouping' ? ',stroke-dasharray:6 3' : '';
+    styles.push(`  style ${entry.alias} fill:${entry.fill},stroke:${entry.node.lineColor ?? '#5c5c5c'}${dashed}`);
+    if (entry.children.length > 0) {
+      lines.push(`${indent}subgraph ${entry.alias}["${mermaidText(entry.label) || ' '}"]`);
+      for (const child of entry.children) emit(child, `${indent}  `);
+      lines.push(`${indent}end`);
+      return;
+    }
+    const [open, close] = MERMAID_SHAPES[entry.shape];
+    lines.push(`${indent}${entry.alias}${open}${mermaidText(entry.label) || ' '}${close}`);
+  };
+  for (const root of model.roots) emit(root, '  ');
+  for (const edge of model.edges) {
+    const link = mermaidLink(edge.relationship);
+    const label = edge.connection.name ? `|"${mermaidText(edge.connection.name).replace(/\|/g, '#124;')}"|` : '';
+    lines.push(`  ${edge.source.alias} ${link}${label} ${edge.target.alias}`);
+  }
+  return [...lines, ...styles].join('\n') + '\n';
+}
+
+// --- PlantUML --------------------------------------------------------------
+
+const PLANTUML_ARROWS: Record<string, string> = {
+  'composition-relationship': '*--',
+  'aggregation-relationship': 'o--',
+  'assignment-relationship': '-->',
+  'realization-relationship': '..|>',
+  'serving-relationship': '-->',
+  'access-relationship': '..>',
+  'influence-relationship': '..>',
+  'triggering-relationship': '-->',
+  'flow-relationship': '..>',
+  'specialization-relationship': '--|>',
+  'association-relationship': '--',
+};
+
+// PlantUML strings cannot escape double quotes.
+function plantumlText(text: string): string {
+  return text.replace(/"/g, "'").replace(/\r?\n/g, '\\n');
+}
+
+function toPlantUml(view: SnapshotView, model: DiagramModel, conceptTypes: Map<string, string>): string {
+  const lines = ['@startuml', `title ${plantumlText(view.name)}`, 'skinparam shadowing false'];
+  const emit = (entry: TreeNode, indent: string): void => {
+    const label = plantumlText(entry.label);
+    const conceptType = entry.node.conceptId ? conceptTypes.get(entry.node.conceptId) : undefined;
+    const stereotype = conceptType ? ` <<${conceptType}>>` : '';
+    if (entry.children.length > 0) {
+      lines.push(`${indent}rectangle "${label}" as ${entry.alias}${stereotype} ${entry.fill} {`);
+      for (const child of entry.children) emit(child, `${indent}  `);
+      lines.push(`${indent}}`);
+    } else if (entry.shape === 'note') {
+      lines.push(`${indent}note "${label}" as ${entry.alias}`);
+    } else if (entry.shape === 'junction') {
+      lines.push(`${indent}circle " " as ${entry.alias}`);
+    } else if (entry.shape === 'group' || entry.shape === 'grouping' || !conceptType) {
+      lines.push(`${indent}rectangle "${label}" as ${entry.alias}${stereotype} ${entry.fill}`);
+    } else {
+      // Native ArchiMate elements: the stereotype selects PlantUML's ArchiMate icon.
+      lines.push(`${indent}archimate ${entry.fill} "${label}" as ${entry.alias}${stereotype}`);
+    }
+  };
+  for (const root of model.roots) emit(root, '');
+  for (const edge of model.edges) {
+    const arrow = edge.relationship ? PLANTUML_ARROWS[edge.relationship] ?? '--' : '..';
+    const label = edge.connection.name ? ` : ${plantumlText(edge.connection.name)}` : '';
+    lines.push(`${edge.source.alias} ${arrow} ${edge.target.alias}${label}`);
+  }
+  lines.push('@enduml');
+  return lines.join('\n') + '\n';
+}
+
+// --- Graphviz DOT ----------------------------------------------------------
+
+const DOT_EDGE_ATTRS: Record<string, string> = {
+  'composition-relationship': 'dir=both, arrowtail=diamond, arrowhead=none',
+  'aggregation-relationship': 'dir=both, arrowtail=odiamond, arrowhead=none',
+  'assignment-relationship': 'dir=both, arrowtail=dot, arrowhead=normal',
+  'realization-relationship': 'style=dashed, arrowhead=empty',
+  'serving-relationship': 'arrowhead=vee',
+  'access-relationship': 'style=dotted, arrowhead=vee, arrowsize=0.6',
+  'influence-relationship': 'style=dashed, arrowhead=vee',
+  'triggering-relationship': 'arrowhead=normal',
+  'flow-relationship': 'style=dashed, arrowhead=normal',
+  'specialization-relationship': 'arrowhead=empty',
+  'association-relationship': 'arrowhead=none',
+};
+
+const DOT_NODE_ATTRS: Record<NodeShape, string> = {
+  note: 'shape=note',
+  group: 'shape=box',
+  junction: 'shape=circle, width=0.15, fixedsize=true, label=""',
+  grouping: 'shape=box, style="dashed,filled"',
+  service: 'shape=box, style="rounded,filled"',
+  value: 'shape=ellipse',
+  motivation: 'shape=octagon',
+  behaviour: 'shape=box, style="rounded,filled"',
+  box: 'shape=box',
+};
+
+/**
+ * Quote a Graphviz DOT string.
+ */
+export function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+/**
+ * Graphviz edge attributes for a relationship type ('' = plain diagram connection).
+ */
+export function dotEdgeStyle(relationship: string): string {
+  return relationship ? DOT_EDGE_ATTRS[relationship] ?? 'arrowhead=none' : 'style=dashed, arrowhead=none';
+}
+
+function toDot(view: SnapshotView, model: DiagramModel): string {
+  const lines = [
+    `digraph ${dotString(view.name)} {`,
+    `  graph [label=${dotString(view.name)}, labelloc=t, compound=true, rankdir=TB, fontname="Helvetica"];`,
+    '  node [shape=box, style=filled, fontname="Helvetica", fontsize=11, color="#5c5c5c"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  const clusters = new Set<string>();
+  const emit = (entry: TreeNode, indent: string): void => {
+    if (entry.children.length > 0) {
+      // Edges cannot end on a cluster, so each one gets an invisible anchor node named after the object.
+      clusters.add(entry.alias);
+      lines.push(`${indent}subgraph cluster_${entry.alias} {`);
+      lines.push(
+        `${indent}  label=${dotString(entry.label)}; labeljust=l; style=${entry.shape === 'grouping' ? '"dashed,filled"' : 'filled'}; fillcolor=${dotString(entry.fill)};`
+      );
+      lines.push(`${indent}  ${entry.alias} [shape=point, style=invis, label=""];`);
+      for (const child of entry.children) emit(child, `${indent}  `);
+      lines.push(`${indent}}`);
+      return;
+    }
+    const fill = entry.shape === 'junction' ? (entry.node.fillColor ?? '#000000') : entry.fill;
+    const label = entry.shape === 'junction' ? '' : `label=${dotString(entry.label)}, `;
+    lines.push(`${indent}${entry.alias} [${label}${DOT_NODE_ATTRS[entry.shape]}, fillcolor=${dotString(fill)}];`);
+  };
+  for (const root of model.roots) emit(root, '  ');
+  for (const edge of model.edges) {
+    const attrs = [dotEdgeStyle(edge.relationship)];
+    if (edge.connection.name) attrs.push(`label=${dotString(edge.connection.name)}`);
+    if (clusters.has(edge.source.alias)) attrs.push(`ltail=cluster_${edge.source.alias}`);
+    if (clusters.has(edge.target.alias)) attrs.push(`lhead=cluster_${edge.target.alias}`);
+    lines.push(`  ${edge.source.alias} -> ${edge.target.alias} [${attrs.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Translate a view into Mermaid, PlantUML or Graphviz DOT source. Nesting becomes
+ * subgraphs/containers, relationship types pick line and arrow styles, and fills follow
+ * the view's colors (or the ArchiMate layer colors). Layout is left to the target tool;
+ * siblings are emitted in reading order so the result stays close to the original.
+ */
+export function renderViewText(
+  format: TextViewFormat,
+  view: SnapshotView,
+  conceptTypes: Map<string, string>
+): TextView {
+  const model = buildDiagramModel(view, conceptTypes);
+  const text =
+    format === 'mermaid'
+      ? toMermaid(view, model)
+      : format === 'plantuml'
+        ? toPlantUml(view, model, conceptTypes)
+        : toDot(view, model);
+  return { text, nodes: model.nodeCount, connections: model.edges.length };
+}
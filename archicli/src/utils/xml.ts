@@ -0,0 +1,214 @@
+/**
+ * Parsed XML element. Tag names keep any namespace prefix as written in the document.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Character data (text and CDATA) directly inside this element. */
+  text: string;
+  /** 1-based line of the start tag. */
+  line: number;
+}
+
+/**
+ * Raised for malformed documents; `line` points at the offending markup.
+ */
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number
+  ) {
+    super(message);
+    this.name = 'XmlParseError';
+  }
+}
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const NAME_PATTERN = /[A-Za-z_:][-A-Za-z0-9_:.]*/y;
+
+/**
+ * Strip the namespace prefix from a tag or attribute name (`xsi:type` -> `type`).
+ */
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Read an attribute by local name, so `xsi:type` is found regardless of the prefix a tool chose.
+ * Unprefixed attributes win over prefixed ones.
+ */
+export function getAttribute(element: XmlElement, name: string): string | undefined {
+  if (element.attributes[name] !== undefined) return element.attributes[name];
+  for (const [key, value] of Object.entries(element.attributes)) {
+    if (key.includes(':') && localName(key) === name) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Direct children with the given local name.
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => localName(child.name) === name);
+}
+
+/**
+ * First direct child with the given local name.
+ */
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => localName(child.name) === name);
+}
+
+/**
+ * Parse a well-formed XML document into an element tree.
+ *
+ * Supports the subset model interchange files use: elements, attributes, text, CDATA,
+ * character/predefined entity references, comments, processing instructions and a
+ * DOCTYPE without custom entities. Namespaces are not resolved; names keep their prefixes.
+ */
+export function parseXml(source: string): XmlElement {
+  // XML normalizes line ends before parsing; doing it up front keeps line numbers simple.
+  const text = source.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  let pos = 0;
+  let line = 1;
+  let root: XmlElement | undefined;
+  const stack: XmlElement[] = [];
+
+  const advanceTo = (next: number): void => {
+    for (let i = pos; i < next; i++) {
+      if (text.charCodeAt(i) === 10) line++;
+    }
+    pos = next;
+  };
+  const skipPast = (terminator: string, what: string): string => {
+    const end = text.indexOf(terminator, pos);
+    if (end === -1) throw new XmlParseError(`Unterminated ${what}`, line);
+    const content = text.slice(pos, end);
+    advanceTo(end + terminator.length);
+    return content;
+  };
+  const decode = (raw: string): string =>
+    raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_][-A-Za-z0-9_.]*);?/g, (match, ref: string) => {
+      if (!match.endsWith(';')) throw new XmlParseError(`Unterminated entity reference '${match}'`, line);
+      if (ref.startsWith('#x')) return String.fromCodePoint(parseInt(ref.slice(2), 16));
+      if (ref.startsWith('#')) return String.fromCodePoint(parseInt(ref.slice(1), 10));
+      const value = PREDEFINED_ENTITIES[ref];
+      if (value === undefined) throw new XmlParseError(`Unknown entity '&${ref};'`, line);
+      return value;
+    });
+  const readName = (): string => {
+    NAME_PATTERN.lastIndex = pos;
+    const match = NAME_PATTERN.exec(text);
+    if (!match) throw new XmlParseError('Expected a name', line);
+    advanceTo(pos + match[0].length);
+    return match[0];
+  };
+  const skipWhitespace = (): void => {
+    let next = pos;
+    while (next < text.length && /\s/.test(text[next])) next++;
+    advanceTo(next);
+  };
+  const appendText = (value: string): void => {
+    const current = stack[stack.length - 1];
+    if (current) {
+      current.text += value;
+    } else if (value.trim().length > 0) {
+      throw new XmlParseError('Text outside the root element', line);
+    }
+  };
+
+  while (pos < text.length) {
+    if (text[pos] !== '<') {
+      const end = text.indexOf('<', pos);
+      const next = end === -1 ? text.length : end;
+      appendText(decode(text.slice(pos, next)));
+      advanceTo(next);
+      continue;
+    }
+
+    if (text.startsWith('<?', pos)) {
+      advanceTo(pos + 2);
+      skipPast('?>', 'processing instruction');
+    } else if (text.startsWith('<!--', pos)) {
+      advanceTo(pos + 4);
+      skipPast('-->', 'comment');
+    } else if (text.startsWith('<![CDATA[', pos)) {
+      advanceTo(pos + 9);
+      appendText(skipPast(']]>', 'CDATA section'));
+    } else if (text.startsWith('<!DOCTYPE', pos)) {
+      const bracket = text.indexOf('[', pos);
+      const close = text.indexOf('>', pos);
+      if (bracket !== -1 && (close === -1 || bracket < close)) {
+        skipPast(']', 'DOCTYPE');
+      }
+      skipPast('>', 'DOCTYPE');
+    } else if (text.startsWith('</', pos)) {
+      const startLine = line;
+      advanceTo(pos + 2);
+      const name = readName();
+      skipWhitespace();
+      if (text[pos] !== '>') throw new XmlParseError(`Malformed end tag '</${name}'`, startLine);
+      advanceTo(pos + 1);
+      const open = stack.pop();
+      if (!open) throw new XmlParseError(`Unexpected end tag '</${name}>'`, startLine);
+      if (open.name !== name) {
+        throw new XmlParseError(`End tag '</${name}>' does not match '<${open.name}>' from line ${open.line}`, startLine);
+      }
+    } else {
+      const startLine = line;
+      advanceTo(pos + 1);
+      const element: XmlElement = { name: readName(), attributes: {}, children: [], text: '', line: startLine };
+      for (;;) {
+        skipWhitespace();
+        if (pos >= text.length) throw new XmlParseError(`Unterminated start tag '<${element.name}'`, startLine);
+        if (text[pos] === '>' || text.startsWith('/>', pos)) break;
+        const attrName = readName();
+        skipWhitespace();
+        if (text[pos] !== '=') throw new XmlParseError(`Attribute '${attrName}' has no value`, line);
+        advanceTo(pos + 1);
+        skipWhitespace();
+        const quote = text[pos];
+        if (quote !== '"' && quote !== "'") throw new XmlParseError(`Attribute '${attrName}' value must be quoted`, line);
+        advanceTo(pos + 1);
+        const raw = skipPast(quote, `attribute '${attrName}'`);
+        if (raw.includes('<')) throw new XmlParseError(`Attribute '${attrName}' contains '<'`, line);
+        if (element.attributes[attrName] !== undefined) {
+          throw new XmlParseError(`Duplicate attribute '${attrName}'`, line);
+        }
+        // Attribute-value normalization: literal whitespace becomes spaces, references are kept.
+        element.attributes[attrName] = decode(raw.replace(/[\t\n]/g, ' '));
+      }
+
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new XmlParseError(`Second root element '<${element.name}>'`, startLine);
+      } else {
+        root = element;
+      }
+      if (text.startsWith('/>', pos)) {
+        advanceTo(pos + 2);
+      } else {
+        advanceTo(pos + 1);
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new XmlParseError(`Element '<${open.name}>' is never closed`, open.line);
+  }
+  if (!root) throw new XmlParseError('Document has no root element', line);
+  return root;
+}
@@ -9,6 +9,7 @@
  *   - Per-IP rate limiting with sliding window
  *   - Request ID correlation for debugging
  *   - Configurable CORS with security headers
+ *   - Server-sent event streams (handlers set response.stream instead of response.body)
  *
  * Usage:
  *   load(__DIR__ + "lib/core/serverCore.js");
@@ -44,6 +45,71 @@
     var StandardCharsets = Java.type("java.nio.charset.StandardCharsets");
     var UUID = Java.type("java.util.UUID");
     var ConcurrentHashMap = Java.type("java.util.concurrent.ConcurrentHashMap");
+    var PipedInputStream = Java.type("java.io.PipedInputStream");
+    var PipedOutputStream = Java.type("java.io.PipedOutputStream");
+    var PrintStream = Java.type("java.io.PrintStream");
+    var Thread = Java.type("java.lang.Thread");
+    var MethodHandles = Java.type("java.lang.invoke.MethodHandles");
+    var MethodHandleProxies = Java.type("java.lang.invoke.MethodHandleProxies");
+    var MethodType = Java.type("java.lang.invoke.MethodType");
+
+    // InputStream.transferTo(OutputStream), used as the body of event stream writer threads
+    var TRANSFER_TO = MethodHandles.publicLookup().findVirtual(
+        Java.type("java.io.InputStream").class,
+        "transferTo",
+        MethodType.methodType(Java.type("java.lang.Long").TYPE, Java.type("java.io.OutputStream").class)
+    );
+
+    /**
+     * Start a daemon thread that copies queued bytes to a client socket.
+     *
+     * enqueue() never blocks: bytes go into a bounded pipe and the thread writes them to the
+     * socket, flushing after each chunk. The thread body is a MethodHandle proxy (pure Java)
+     * because GraalJS code must only ever run on one thread.
+     *
+     * @param {java.io.OutputStream} outputStream - Client response body
+     * @param {number} capacityBytes - Maximum bytes waiting for the client
+     * @param {string} name - Thread name
+     * @returns {{ enqueue: Function, close: Function }}
+     */
+    function startStreamWriter(outputStream, capacityBytes, name) {
+        var pipeIn = new PipedInputStream(capacityBytes);
+        var pipeOut = new PipedOutputStream(pipeIn);
+        // Autoflush: PrintStream flushes after every write(byte[], int, int) from transferTo
+        var socketOut = new PrintStream(outputStream, true);
+        var pump = MethodHandles.insertArguments(TRANSFER_TO, 0, pipeIn, socketOut);
+        var thread = new Thread(MethodHandleProxies.asInterfaceInstance(Java.type("java.lang.Runnable").class, pump), name);
+        thread.setDaemon(true);
+        thread.start();
+
+        return {
+            /**
+             * Queue bytes for the client.
+             * @param {byte[]} bytes
+             * @throws {Error} when the client is gone or too far behind
+             */
+            enqueue: function(bytes) {
+                if (socketOut.checkError() || !thread.isAlive()) {
+                    throw new Error("Client disconnected");
+                }
+                if (pipeIn.available() + bytes.length > capacityBytes) {
+                    throw new Error("Client too slow: more than " + capacityBytes + " bytes queued");
+                }
+                pipeOut.write(bytes);
+                // Wakes the writer thread instead of leaving it in its one-second poll
+                pipeOut.flush();
+            },
+
+            /**
+             * End the stream; the thread exits once the pipe is drained or the socket closes.
+             */
+            close: function() {
+                try {
+                    pipeOut.close();
+                } catch (e) { /* already closed */ }
+            }
+        };
+    }
 
     /**
      * Create a server instance
@@ -228,56 +294,7 @@
             try {
                 headers = headers || {};
                 headers["Content-Type"] = "application/json";
-
-                // Add request ID header for correlation
-                if (requestId) {
-                    headers["X-Request-ID"] = requestId;
-                }
-
-                // Get security config
-                var securityConfig = (typeof serverConfig !== "undefined") ? serverConfig.security : {
-                    corsEnabled: true,
-                    corsAllowAll: true,
-                    corsOrigins: [],
-                    headers: {}
-                };
-
-                // Handle CORS
-                if (securityConfig.corsEnabled) {
-                    var requestHeaders = exchange.getRequestHeaders();
-                    var originHeader = requestHeaders.getFirst("Origin");
-                    var allowedOrigin = null;
-
-                    if (securityConfig.corsAllowAll) {
-                        allowedOrigin = "*";
-                    } else if (originHeader && securityConfig.corsOrigins.indexOf(String(originHeader)) !== -1) {
-                        allowedOrigin = String(originHeader);
-                    }
-
-                    if (allowedOrigin) {
-                        headers["Access-Control-Allow-Origin"] = allowedOrigin;
-                        headers["Access-Control-Allow-Methods"] = "GET, POST, PUT, DELETE, OPTIONS";
-                        headers["Access-Control-Allow-Headers"] = "Content-Type, X-Request-ID";
-                        headers["Access-Control-Max-Age"] = "86400";
-                    }
-                }
-
-                // Add security headers
-                if (securityConfig.headers) {
-                    for (var secHeader in securityConfig.headers) {
-                        if (securityConfig.headers.hasOwnProperty(secHeader)) {
-                            headers[secHeader] = securityConfig.headers[secHeader];
-                        }
-                    }
-                }
-
-                // Set headers
-                var responseHeaders = exchange.getResponseHeaders();
-                for (var key in headers) {
-                    if (headers.hasOwnProperty(key)) {
-                        responseHeaders.set(key, headers[key]);
-                    }
-                }
+                setResponseHeaders(exchange, headers, requestId);
 
                 // Include requestId in body if not already present
                 if (requestId && body && typeof body === "object" && !body.requestId) {
@@ -298,6 +315,129 @@
             }
         }
 
+        /**
+         * Start a text/event-stream response and hand the open stream to the handler.
+         * The exchange stays open until the stream is closed or a write fails.
+         * @param {com.sun.net.httpserver.HttpExchange} exchange
+         * @param {Function} streamFn - Receives { write(text), close() }
+         * @param {Object} headers - Additional headers
+         * @param {string} requestId - Request ID to include in response
+         */
+        function sendEventStream(exchange, streamFn, headers, requestId) {
+            headers = headers || {};
+            headers["Content-Type"] = "text/event-stream; charset=utf-8";
+            headers["Cache-Control"] = "no-cache";
+            setResponseHeaders(exchange, headers, requestId);
+
+            var eventsConfig = (typeof serverConfig !== "undefined" && serverConfig.events) ? serverConfig.events : {};
+            var queueBytes = eventsConfig.subscriberQueueBytes || 524288;
+
+            // Length 0 = chunked transfer encoding, body of unknown length
+            exchange.sendResponseHeaders(200, 0);
+            // Socket writes happen on the writer thread, so a stalled client cannot block the display thread
+            var writer = startStreamWriter(exchange.getResponseBody(), queueBytes, "archi-events-" + requestId);
+            var closed = false;
+            var stream = {
+                write: function(text) {
+                    if (closed) {
+                        throw new Error("Stream closed");
+                    }
+                    writer.enqueue(new JavaString(text).getBytes(StandardCharsets.UTF_8));
+                },
+                close: function() {
+                    if (closed) return;
+                    closed = true;
+                    writer.close();
+                    exchange.close();
+                }
+            };
+
+            try {
+                streamFn(stream);
+            } catch (e) {
+                log("ERROR: Event stream handler exception: " + e, requestId);
+                stream.close();
+            }
+        }
+
+        /**
+         * Apply request ID, CORS, security and additional headers to a response
+         * @param {com.sun.net.httpserver.HttpExchange} exchange
+         * @param {Object} headers - Headers to send (modified in place)
+         * @param {string} requestId - Request ID to include in response
+         */
+        function setResponseHeaders(exchange, headers, requestId) {
+            // Add request ID header for correlation
+            if (requestId) {
+                headers["X-Request-ID"] = requestId;
+            }
+
+            // Get security config
+            var securityConfig = (typeof serverConfig !== "undefined") ? serverConfig.security : {
+                corsEnabled: true,
+                corsAllowAll: true,
+                corsOrigins: [],
+                headers: {}
+            };
+
+            // Handle CORS
+            if (securityConfig.corsEnabled) {
+                var requestHeaders = exchange.getRequestHeaders();
+                var originHeader = requestHeaders.getFirst("Origin");
+                var allowedOrigin = null;
+
+                if (securityConfig.corsAllowAll) {
+                    allowedOrigin = "*";
+                } else if (originHeader && securityConfig.corsOrigins.indexOf(String(originHeader)) !== -1) {
+                    allowedOrigin = String(originHeader);
+                }
+
+                if (allowedOrigin) {
+                    headers["Access-Control-Allow-Origin"] = allowedOrigin;
+                    headers["Access-Control-Allow-Methods"] = "GET, POST, PUT, DELETE, OPTIONS";
+                    headers["Access-Control-Allow-Headers"] = "Content-Type, X-Request-ID, Last-Event-ID, Authorization, X-API-Key";
+                    headers["Access-Control-Max-Age"] = "86400";
+                }
+            }
+
+            // Add security headers
+            if (securityConfig.headers) {
+                for (var secHeader in securityConfig.headers) {
+                    if (securityConfig.headers.hasOwnProperty(secHeader)) {
+                        headers[secHeader] = securityConfig.headers[secHeader];
+                    }
+                }
+            }
+
+            // Set headers
+            var responseHeaders = exchange.getResponseHeaders();
+            for (var key in headers) {
+                if (headers.hasOwnProperty(key)) {
+                    responseHeaders.set(key, headers[key]);
+                }
+            }
+        }
+
+        /**
+         * Read request headers into a plain object with lower-case names
+         * @param {com.sun.net.httpserver.HttpExchange} exchange
+         * @returns {Object} Header name -> first value
+         */
+        function parseHeaders(exchange) {
+            var result = {};
+            var requestHeaders = exchange.getRequestHeaders();
+            var names = requestHeaders.keySet().iterator();
+            while (names.hasNext()) {
+                var name = names.next();
+                if (name === null) continue;
+                var value = requestHeaders.getFirst(name);
+                if (value !== null) {
+                    result[String(name).toLowerCase()] = String(value);
+                }
+            }
+            return result;
+        }
+
         /**
          * Create HTTP handler for a specific path and method
          */
@@ -335,6 +475,15 @@
                         // Log request
                         log(requestMethod + " " + requestPath + " from " + clientIP, requestId);
 
+                        // Check API token (no-op unless a token is configured)
+                        var requestHeaders = parseHeaders(exchange);
+                        var authFailure = (typeof apiAuth !== "undefined") ? apiAuth.check(requestPath, requestHeaders) : null;
+                        if (authFailure) {
+                            log("Unauthorized request from " + clientIP, requestId);
+                            sendResponse(exchange, authFailure.statusCode, authFailure.body, authFailure.headers, requestId);
+                            return;
+                        }
+
                         // Method check (skip if wildcard "*")
                         if (method !== "*" && requestMethod !== method) {
                             sendResponse(exchange, 405, {
@@ -366,7 +515,7 @@
                             path: requestPath,
                             query: parseQuery(exchange.getRequestURI()),
                             body: bodyResult.body,
-                            headers: {},
+                            headers: requestHeaders,
                             requestId: requestId,
                             clientIP: clientIP
                         };
@@ -381,6 +530,12 @@
                         // Call handler (runs on HTTP thread pool)
                         handlerFn(request, response);
 
+                        // Streaming handlers set response.stream instead of a body
+                        if (typeof response.stream === "function") {
+                            sendEventStream(exchange, response.stream, response.headers, requestId);
+                            return;
+                        }
+
                         // Send response
                         sendResponse(exchange, response.statusCode, response.body, response.headers, requestId);
 
@@ -0,0 +1,139 @@
+/**
+ * apiAuth.js - Optional API token authentication
+ *
+ * When a token is configured (serverConfig.security.apiToken or the ARCHI_API_TOKEN
+ * environment variable of the Archi process), every request must present it either as
+ * "Authorization: Bearer <token>" or as an "X-API-Key" header. Without a token the
+ * server keeps its historical behaviour and accepts all requests.
+ *
+ * Paths listed in serverConfig.security.publicPaths are exempt from the check.
+ *
+ * @module server/apiAuth
+ * @requires server/serverConfig (optional)
+ */
+
+(function() {
+    "use strict";
+
+    // Guard against double-loading
+    if (typeof globalThis !== "undefined" && typeof globalThis.apiAuth !== "undefined") {
+        return;
+    }
+
+    var TOKEN_ENV_VAR = "ARCHI_API_TOKEN";
+
+    function getConfig() {
+        var cfg = (typeof serverConfig !== "undefined" && serverConfig.security) ? serverConfig.security : {};
+        return {
+            apiToken: cfg.apiToken || "",
+            publicPaths: cfg.publicPaths || []
+        };
+    }
+
+    /**
+     * Read an environment variable from the JVM (JArchi) or Node.js (tests).
+     * @param {string} name - Variable name
+     * @returns {string} Value, or "" when unset
+     */
+    function readEnv(name) {
+        if (typeof Java !== "undefined") {
+            var value = Java.type("java.lang.System").getenv(name);
+            return value ? String(value) : "";
+        }
+        if (typeof process !== "undefined" && process.env) {
+            return process.env[name] || "";
+        }
+        return "";
+    }
+
+    /**
+     * Compare two strings in time that depends only on their lengths.
+     * @param {string} expected - Configured token
+     * @param {string} actual - Token presented by the client
+     * @returns {boolean}
+     */
+    function tokensMatch(expected, actual) {
+        var diff = expected.length ^ actual.length;
+        for (var i = 0; i < expected.length; i++) {
+            diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i % Math.max(actual.length, 1));
+        }
+        return diff === 0;
+    }
+
+    var apiAuth = {
+        /**
+         * The token clients must present, or "" when authentication is disabled.
+         * serverConfig.security.apiToken wins over ARCHI_API_TOKEN.
+         * @returns {string}
+         */
+        getToken: function() {
+            return getConfig().apiToken || readEnv(TOKEN_ENV_VAR);
+        },
+
+        /**
+         * @returns {boolean} True when requests must carry a token
+         */
+        isEnabled: function() {
+            return this.getToken() !== "";
+        },
+
+        /**
+         * Extract the presented token from lower-cased request headers.
+         * @param {Object} headers - Headers as returned by serverCore.parseHeaders
+         * @returns {string} Token, or "" when none was sent
+         */
+        extractToken: function(headers) {
+            headers = headers || {};
+            var authorization = headers["authorization"] || "";
+            var match = /^Bearer\s+(.+)$/i.exec(authorization);
+            if (match) {
+                return match[1].trim();
+            }
+            return (headers["x-api-key"] || "").trim();
+        },
+
+        /**
+         * Check a request against the configured token.
+         * @param {string} path - Request path
+         * @param {Object} headers - Lower-cased request headers
+         * @returns {Object|null} null when allowed, otherwise { statusCode, body, headers } for a 401
+         */
+        check: function(path, headers) {
+            var expected = this.getToken();
+            if (!expected || getConfig().publicPaths.indexOf(path) !== -1) {
+                return null;
+            }
+
+            var presented = this.extractToken(headers);
+            if (presented && tokensMatch(expected, presented)) {
+                return null;
+            }
+
+            return {
+                statusCode: 401,
+                body: {
+                    error: {
+                        code: "Unauthorized",
+                        message: presented
+                            ? "Invalid API token"
+                            : "API token required (send Authorization: Bearer <token> or X-API-Key)"
+                    }
+                },
+                headers: { "WWW-Authenticate": "Bearer realm=\"archi-model-api\"" }
+            };
+        }
+    };
+
+    // Export globally for JArchi
+    if (typeof globalThis !== "undefined") {
+        globalThis.apiAuth = apiAuth;
+    } else if (typeof global !== "undefined") {
+        global.apiAuth = apiAuth;
+    }
+
+    // CommonJS for Node.js build tools
+    if (typeof module !== "undefined" && module.exports) {
+        module.exports = apiAuth;
+    }
+
+})();
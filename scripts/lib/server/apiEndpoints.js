@@ -8,7 +8,7 @@
  * Endpoint modules:
  *   - healthEndpoints: /health, /test, /shutdown
  *   - modelEndpoints: /model/query, /model/plan, /model/apply
- *   - operationEndpoints: /ops/status, /ops/list
+ *   - operationEndpoints: /ops/status, /ops/list, /events
  *   - scriptEndpoints: /scripts/run
  *
  * @module server/apiEndpoints
@@ -83,6 +83,9 @@
         handleOpList: function(request, response, serverState) {
             return operationEndpoints.handleOpList(request, response, serverState);
         },
+        handleEvents: function(request, response, serverState) {
+            return operationEndpoints.handleEvents(request, response, serverState);
+        },
 
         // Script execution endpoint
         handleScriptRun: function(request, response, serverState, scriptsDir) {
@@ -100,6 +100,7 @@
         var propertyKey = criteria.propertyKey || null;
         var propertyValue = criteria.propertyValue || null;
         var includeRelationships = criteria.includeRelationships !== false;
+        var includeProperties = criteria.includeProperties === true;
         var limit = criteria.limit || 1000;
 
         function processFolder(folder) {
@@ -157,12 +158,26 @@
                 if (element instanceof IArchimateRelationship) {
                     result.sourceId = element.getSource() ? element.getSource().getId() : null;
                     result.targetId = element.getTarget() ? element.getTarget().getId() : null;
+                    if (typeof element.getAccessType === 'function') {
+                        result.accessType = element.getAccessType();
+                    }
+                    if (typeof element.getStrength === 'function') {
+                        result.strength = element.getStrength() || '';
+                    }
+                    if (typeof element.isDirected === 'function') {
+                        result.directed = element.isDirected();
+                    }
                 }
 
                 if (propertyKey) {
                     result.matchedPropertyKey = propertyKey;
                     result.matchedPropertyValue = matchedPropertyValue;
                 }
+
+                // Full property maps are opt-in to keep default search payloads small
+                if (includeProperties) {
+                    result.properties = getPropertiesMap(element);
+                }
                 
                 results.push(result);
             }
@@ -327,34 +342,45 @@
     /**
      * Collect folder structure from model
      * @param {Object} model - IArchimateModel
+     * @param {boolean} [includeChildren] - Include IDs of concepts/views directly in each folder
      * @returns {Array} Folder hierarchy
      */
-    function collectFolders(model) {
+    function collectFolders(model, includeChildren) {
         var result = [];
         
-        function processFolder(folder, path) {
+        function processFolder(folder, path, parentId) {
             var folderData = {
                 id: folder.getId(),
                 name: folder.getName() || '',
                 path: path,
+                parentId: parentId,
                 type: folder.getType() ? folder.getType().getName() : null,
                 elementCount: folder.getElements().size(),
                 subfolderCount: folder.getFolders().size()
             };
+            // Direct membership is opt-in: it grows the payload by one ID per concept
+            if (includeChildren) {
+                var childIds = [];
+                var children = folder.getElements();
+                for (var c = 0; c < children.size(); c++) {
+                    childIds.push(children.get(c).getId());
+                }
+                folderData.childIds = childIds;
+            }
             result.push(folderData);
             
             var subfolders = folder.getFolders();
             for (var i = 0; i < subfolders.size(); i++) {
                 var sub = subfolders.get(i);
                 var subPath = path ? path + '/' + (sub.getName() || '') : (sub.getName() || '');
-                processFolder(sub, subPath);
+                processFolder(sub, subPath, folder.getId());
             }
         }
         
         var folders = model.getFolders();
         for (var i = 0; i < folders.size(); i++) {
             var folder = folders.get(i);
-            processFolder(folder, folder.getName() || '');
+            processFolder(folder, folder.getName() || '', null);
         }
         
         return result;
@@ -769,6 +795,7 @@
                     propertyKey: body.propertyKey || null,
                     propertyValue: body.propertyValue || null,
                     includeRelationships: body.includeRelationships !== false,
+                    includeProperties: body.includeProperties === true,
                     limit: body.limit || 1000
                 };
 
@@ -787,6 +814,7 @@
                         propertyKey: criteria.propertyKey,
                         propertyValue: criteria.propertyValue,
                         includeRelationships: criteria.includeRelationships,
+                        includeProperties: criteria.includeProperties,
                         limit: criteria.limit
                     }
                 };
@@ -908,7 +936,7 @@
 
         /**
          * Handle GET /folders - List all folders in model
-         * @param {Object} request - HTTP request object
+         * @param {Object} request - HTTP request object (query.includeChildren=true adds childIds)
          * @param {Object} response - HTTP response object
          * @param {Object} serverState - Server state with modelRef
          */
@@ -922,7 +950,9 @@
                     throw new Error("No model reference available");
                 }
 
-                var folders = collectFolders(serverState.modelRef);
+                var query = request.query || {};
+                var includeChildren = String(query.includeChildren || "").toLowerCase() === "true";
+                var folders = collectFolders(serverState.modelRef, includeChildren);
 
                 response.body = {
                     folders: folders,
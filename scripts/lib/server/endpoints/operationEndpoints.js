@@ -1,10 +1,12 @@
 /**
  * operationEndpoints.js - Async operation status tracking endpoints
  *
- * Handles polling and listing for queued asynchronous operations.
+ * Handles polling and listing for queued asynchronous operations, and the
+ * server-sent event stream that announces their lifecycle changes.
  *
  * @module server/endpoints/operationEndpoints
  * @requires server/operationQueue
+ * @requires server/eventStream
  */
 
 (function() {
@@ -280,6 +282,67 @@
                 nextCursor: listResult.nextCursor,
                 summaryOnly: listResult.summaryOnly
             };
+        },
+
+        /**
+         * Handle GET /events - Server-sent event stream of operation and model changes
+         * @param {Object} request - HTTP request object with optional query.types, query.since
+         *                           and Last-Event-ID header
+         * @param {Object} response - HTTP response object
+         * @param {Object} serverState - Server state object (unused)
+         */
+        handleEvents: function(request, response, serverState) {
+            if (typeof eventStream === "undefined" || !eventStream.isEnabled()) {
+                response.statusCode = 404;
+                response.body = {
+                    error: {
+                        code: "NotFound",
+                        message: "Event stream is disabled (serverConfig.events.enabled)"
+                    }
+                };
+                return;
+            }
+
+            var types = [];
+            if (request.query.types) {
+                types = String(request.query.types).split(",").map(function(type) {
+                    return type.trim();
+                }).filter(function(type) {
+                    return type.length > 0;
+                });
+            }
+
+            var rawSince = request.headers["last-event-id"] !== undefined
+                ? request.headers["last-event-id"]
+                : request.query.since;
+            var lastEventId = this._parseIntegerQuery(rawSince, undefined, 0, Number.MAX_SAFE_INTEGER);
+            if (lastEventId === null) {
+                response.statusCode = 400;
+                response.body = {
+                    error: {
+                        code: "BadRequest",
+                        message: "Invalid 'since' query parameter or Last-Event-ID header. Must be an integer >= 0"
+                    }
+                };
+                return;
+            }
+
+            if (!eventStream.canSubscribe()) {
+                response.statusCode = 503;
+                response.body = {
+                    error: {
+                        code: "TooManySubscribers",
+                        message: "Event stream subscriber limit reached (" + eventStream.getStats().subscribers + ")"
+                    }
+                };
+                return;
+            }
+
+            response.stream = function(stream) {
+                if (!eventStream.subscribe(stream, { types: types, lastEventId: lastEventId })) {
+                    stream.close();
+                }
+            };
         }
     };
 
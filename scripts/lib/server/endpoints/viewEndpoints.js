@@ -406,6 +406,10 @@
                         elemData.type = child.eClass().getName().replace(/([A-Z])/g, function(m, p, o) {
                             return (o > 0 ? '-' : '') + p.toLowerCase();
                         });
+                        // Notes carry their text in content rather than name
+                        if (typeof child.getContent === "function") {
+                            elemData.content = child.getContent() || "";
+                        }
                     }
 
                     elements.push(elemData);
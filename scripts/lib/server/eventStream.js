@@ -0,0 +1,258 @@
+/**
+ * eventStream.js - Server-sent event hub for GET /events
+ *
+ * Keeps the list of open /events connections and broadcasts server events to them
+ * in text/event-stream format. Recent events are kept in a ring buffer so clients
+ * can resume after a reconnect with Last-Event-ID.
+ *
+ * Event types:
+ *   - operation.queued / operation.processing / operation.complete / operation.error
+ *   - model.changed (source "api" after an applied operation, "archi" for edits made in Archi)
+ *
+ * Streams are plain objects with write(text) (throws when the client is gone or too
+ * far behind) and close(); serverCore creates them for handlers that set response.stream.
+ * write() only queues the text for the connection's writer thread, so publishing from
+ * the display thread never waits on a client socket.
+ *
+ * The subscriber list is copy-on-write: it is replaced, never mutated, so a broadcast
+ * iterates a stable snapshot while subscribers are added or dropped.
+ *
+ * @module server/eventStream
+ * @requires server/serverConfig (optional)
+ */
+
+(function() {
+    "use strict";
+
+    // Guard against double-loading
+    if (typeof globalThis !== "undefined" && typeof globalThis.eventStream !== "undefined") {
+        return;
+    }
+
+    function getConfig() {
+        var cfg = (typeof serverConfig !== "undefined" && serverConfig.events) ? serverConfig.events : {};
+        return {
+            enabled: cfg.enabled !== false,
+            bufferSize: cfg.bufferSize || 500,
+            heartbeatMs: cfg.heartbeatMs || 15000,
+            maxSubscribers: cfg.maxSubscribers || 20
+        };
+    }
+
+    /**
+     * Check an event type against a subscriber's type filter.
+     * "operation" matches every "operation.*" event; an empty filter matches everything.
+     * @param {string} type - Event type
+     * @param {string[]} filters - Requested types or type prefixes
+     * @returns {boolean}
+     */
+    function matchesTypes(type, filters) {
+        if (!filters || filters.length === 0) return true;
+        for (var i = 0; i < filters.length; i++) {
+            if (type === filters[i] || type.indexOf(filters[i] + ".") === 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Serialize an event in text/event-stream format.
+     * @param {Object} event - Event with id, type, timestamp and data
+     * @returns {string}
+     */
+    function formatEvent(event) {
+        var payload = { type: event.type, timestamp: event.timestamp, data: event.data };
+        return "id: " + event.id + "\nevent: " + event.type + "\ndata: " + JSON.stringify(payload) + "\n\n";
+    }
+
+    var eventStream = {
+        _subscribers: [],
+        _buffer: [],
+        _nextId: 1,
+        _displayRef: null,
+        _heartbeatRunning: false,
+
+        matchesTypes: matchesTypes,
+        formatEvent: formatEvent,
+
+        /**
+         * Whether GET /events is enabled in serverConfig.
+         * @returns {boolean}
+         */
+        isEnabled: function() {
+            return getConfig().enabled;
+        },
+
+        /**
+         * Whether another subscriber fits under serverConfig.events.maxSubscribers.
+         * @returns {boolean}
+         */
+        canSubscribe: function() {
+            return this._subscribers.length < getConfig().maxSubscribers;
+        },
+
+        /**
+         * Attach a stream. Buffered events newer than lastEventId are replayed first.
+         * @param {Object} stream - { write(text), close() }
+         * @param {Object} [options]
+         * @param {string[]} [options.types] - Event types or prefixes to receive
+         * @param {number} [options.lastEventId] - Last event ID the client has seen
+         * @returns {boolean} false when the subscriber limit is reached
+         */
+        subscribe: function(stream, options) {
+            options = options || {};
+            if (!this.canSubscribe()) {
+                return false;
+            }
+            var subscriber = { stream: stream, types: options.types || [] };
+            try {
+                stream.write("retry: 3000\n: connected\n\n");
+                if (typeof options.lastEventId === "number") {
+                    for (var i = 0; i < this._buffer.length; i++) {
+                        var event = this._buffer[i];
+                        if (event.id > options.lastEventId && matchesTypes(event.type, subscriber.types)) {
+                            stream.write(formatEvent(event));
+                        }
+                    }
+                }
+            } catch (e) {
+                this._close(subscriber);
+                return true;
+            }
+            this._subscribers = this._subscribers.concat([subscriber]);
+            return true;
+        },
+
+        /**
+         * Broadcast an event to every matching subscriber.
+         * @param {string} type - Event type, e.g. "operation.complete"
+         * @param {Object} data - Event payload
+         * @returns {Object} The recorded event
+         */
+        publish: function(type, data) {
+            var event = {
+                id: this._nextId++,
+                type: type,
+                timestamp: new Date().toISOString(),
+                data: data || {}
+            };
+            this._buffer.push(event);
+            var bufferSize = getConfig().bufferSize;
+            if (this._buffer.length > bufferSize) {
+                this._buffer.splice(0, this._buffer.length - bufferSize);
+            }
+
+            var text = formatEvent(event);
+            this._broadcast(function(subscriber) {
+                return matchesTypes(type, subscriber.types) ? text : null;
+            });
+            return event;
+        },
+
+        /**
+         * Send a keep-alive comment so proxies and clients notice dropped connections.
+         */
+        heartbeat: function() {
+            var text = ": keepalive " + new Date().toISOString() + "\n\n";
+            this._broadcast(function() { return text; });
+        },
+
+        /**
+         * Start periodic heartbeats on the SWT display thread.
+         * @param {org.eclipse.swt.widgets.Display} display - SWT Display reference
+         */
+        start: function(display) {
+            if (this._heartbeatRunning) return;
+            this._displayRef = display;
+            this._heartbeatRunning = true;
+            this._scheduleHeartbeat();
+        },
+
+        /**
+         * Stop heartbeats and close every open stream.
+         */
+        stop: function() {
+            this._heartbeatRunning = false;
+            var subscribers = this._subscribers;
+            this._subscribers = [];
+            for (var i = 0; i < subscribers.length; i++) {
+                this._close(subscribers[i]);
+            }
+        },
+
+        /**
+         * Stream statistics for monitoring
+         * @returns {{ subscribers: number, buffered: number, lastEventId: number }}
+         */
+        getStats: function() {
+            return {
+                subscribers: this._subscribers.length,
+                buffered: this._buffer.length,
+                lastEventId: this._nextId - 1
+            };
+        },
+
+        /**
+         * Queue text for subscribers, dropping the ones whose connection has gone away
+         * or whose queue is full.
+         * @param {Function} textFor - subscriber -> text to send, or null to skip
+         * @private
+         */
+        _broadcast: function(textFor) {
+            var subscribers = this._subscribers;
+            var dropped = [];
+            for (var i = 0; i < subscribers.length; i++) {
+                var subscriber = subscribers[i];
+                var text = textFor(subscriber);
+                if (text === null) continue;
+                try {
+                    subscriber.stream.write(text);
+                } catch (e) {
+                    dropped.push(subscriber);
+                    this._close(subscriber);
+                }
+            }
+            if (dropped.length > 0) {
+                this._subscribers = this._subscribers.filter(function(subscriber) {
+                    return dropped.indexOf(subscriber) === -1;
+                });
+            }
+        },
+
+        /**
+         * @private
+         */
+        _close: function(subscriber) {
+            try {
+                subscriber.stream.close();
+            } catch (e) { /* already closed */ }
+        },
+
+        /**
+         * @private
+         */
+        _scheduleHeartbeat: function() {
+            var self = this;
+            if (!this._displayRef) return;
+            this._displayRef.timerExec(getConfig().heartbeatMs, function() {
+                if (!self._heartbeatRunning) return;
+                self.heartbeat();
+                self._scheduleHeartbeat();
+            });
+        }
+    };
+
+    // Export globally for JArchi
+    if (typeof globalThis !== "undefined") {
+        globalThis.eventStream = eventStream;
+    } else if (typeof global !== "undefined") {
+        global.eventStream = eventStream;
+    }
+
+    // CommonJS for Node.js build tools
+    if (typeof module !== "undefined" && module.exports) {
+        module.exports = eventStream;
+    }
+
+})();
@@ -15,6 +15,7 @@
  * @requires server/modelSnapshot
  * @requires server/loggingQueue
  * @requires server/serverConfig (optional)
+ * @requires server/eventStream (optional)
  */
 
 (function() {
@@ -606,6 +607,7 @@
         queueOperation: function(operation) {
             this.pendingOperations[operation.id] = operation;
             this.queue.offer(operation);
+            this._publishOperationEvent("operation.queued", operation);
             return operation.id;
         },
 
@@ -793,6 +795,7 @@
                                     if (loggingQueue) {
                                         loggingQueue.log("Snapshot refreshed due to external command stack change");
                                     }
+                                    self._publishEvent("model.changed", { source: "archi", commandStackEvent: String(eventType) });
                                 } catch (refreshErr) {
                                     if (loggingQueue) {
                                         loggingQueue.error("Snapshot refresh on command stack change failed: " + refreshErr);
@@ -862,6 +865,7 @@
                     self._appendTimelineEvent(operation, "processing", {
                         queuedAt: operation.createdAt
                     });
+                    self._publishOperationEvent("operation.processing", operation);
 
                     try {
                         if (loggingQueue) {
@@ -912,6 +916,15 @@
                             resultCount: results.length
                         });
                         self._finalizeOperationMetadata(operation);
+                        self._publishOperationEvent("operation.complete", operation);
+                        if (operation.digest.totals.executed > 0) {
+                            self._publishEvent("model.changed", {
+                                source: "api",
+                                opId: operation.id,
+                                executed: operation.digest.totals.executed,
+                                executedByType: operation.digest.executedByType
+                            });
+                        }
 
                         var duration = new Date(operation.completedAt).getTime() - new Date(operation.startedAt).getTime();
                         if (loggingQueue) {
@@ -955,6 +968,7 @@
                             op: errorDetails.op
                         });
                         self._finalizeOperationMetadata(operation);
+                        self._publishOperationEvent("operation.error", operation);
                     }
 
                     processed++;
@@ -1017,6 +1031,54 @@
                             timeoutMs: config.timeoutMs
                         });
                         this._finalizeOperationMetadata(op);
+                        this._publishOperationEvent("operation.error", op);
+                    }
+                }
+            }
+        },
+
+        /**
+         * Publish an operation lifecycle event to GET /events subscribers
+         * @param {string} type - operation.queued, operation.processing, operation.complete or operation.error
+         * @param {Object} operation - Operation descriptor
+         * @private
+         */
+        _publishOperationEvent: function(type, operation) {
+            var data = {
+                opId: operation.id,
+                status: operation.status,
+                changes: operation.changes && operation.changes.length ? operation.changes.length : 0,
+                createdAt: operation.createdAt,
+                startedAt: operation.startedAt,
+                completedAt: operation.completedAt
+            };
+            if (operation.status === "complete" || operation.status === "error") {
+                data.durationMs = operation.startedAt && operation.completedAt
+                    ? new Date(operation.completedAt).getTime() - new Date(operation.startedAt).getTime()
+                    : null;
+                data.totals = operation.digest ? operation.digest.totals : null;
+            }
+            if (operation.status === "error") {
+                data.error = operation.error;
+            }
+            this._publishEvent(type, data);
+        },
+
+        /**
+         * Publish to the event stream when it is loaded; failures never affect processing
+         * @param {string} type - Event type
+         * @param {Object} data - Event payload
+         * @private
+         */
+        _publishEvent: function(type, data) {
+            if (typeof eventStream !== "undefined" &&
+                eventStream &&
+                typeof eventStream.publish === "function") {
+                try {
+                    eventStream.publish(type, data);
+                } catch (publishErr) {
+                    if (loggingQueue) {
+                        loggingQueue.warn("Event publish failed: " + publishErr);
                     }
                 }
             }
@@ -73,6 +73,17 @@
             cleanupIntervalMs: 300000   // Cleanup cadence (5 minutes)
         },
 
+        /**
+         * Server-sent event stream (GET /events)
+         */
+        events: {
+            enabled: true,
+            bufferSize: 500,            // Recent events kept for Last-Event-ID replay
+            heartbeatMs: 15000,         // Keep-alive comment interval for idle streams
+            maxSubscribers: 20,         // Concurrent /events connections
+            subscriberQueueBytes: 524288 // Unsent bytes per connection before a slow client is dropped
+        },
+
         /**
          * Graceful shutdown configuration
          */
@@ -88,6 +99,8 @@
             corsEnabled: true,
             corsOrigins: ["http://localhost:3000", "http://127.0.0.1:3000"],  // Allowed origins (empty = block all CORS)
             corsAllowAll: false,        // Set true for wildcard (not recommended for production)
+            apiToken: "",               // Require this token on every request (empty = use ARCHI_API_TOKEN env, unset = no auth)
+            publicPaths: [],            // Paths served without a token when auth is enabled (e.g. ["/health"])
             headers: {
                 "X-Content-Type-Options": "nosniff",
                 "X-Frame-Options": "DENY",
@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for apiAuth.js
+ *
+ * Covers token resolution, header extraction and the 401 envelope without
+ * requiring a running server.
+ *
+ * Note: like serverConfig.js, the source module is a GraalVM IIFE that sets
+ * globalThis.apiAuth, so we require() it and read from globalThis.
+ */
+
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+let apiAuth;
+let savedToken;
+
+beforeAll(() => {
+  require('../../../scripts/lib/server/apiAuth.js');
+  apiAuth = globalThis.apiAuth;
+  if (!apiAuth) {
+    throw new Error('Failed to load apiAuth from globalThis after require()');
+  }
+  savedToken = process.env.ARCHI_API_TOKEN;
+});
+
+afterEach(() => {
+  delete globalThis.serverConfig;
+  if (savedToken === undefined) delete process.env.ARCHI_API_TOKEN;
+  else process.env.ARCHI_API_TOKEN = savedToken;
+});
+
+describe('apiAuth', () => {
+  it('allows every request when no token is configured', () => {
+    delete process.env.ARCHI_API_TOKEN;
+    expect(apiAuth.isEnabled()).toBe(false);
+    expect(apiAuth.check('/model/query', {})).toBeNull();
+  });
+
+  it('reads the token from ARCHI_API_TOKEN, with serverConfig taking precedence', () => {
+    process.env.ARCHI_API_TOKEN = 'from-env';
+    expect(apiAuth.getToken()).toBe('from-env');
+    globalThis.serverConfig = { security: { apiToken: 'from-config' } };
+    expect(apiAuth.getToken()).toBe('from-config');
+  });
+
+  it('accepts Bearer and X-API-Key headers', () => {
+    process.env.ARCHI_API_TOKEN = 's3cret';
+    expect(apiAuth.check('/model/query', { authorization: 'Bearer s3cret' })).toBeNull();
+    expect(apiAuth.check('/model/query', { authorization: 'bearer  s3cret ' })).toBeNull();
+    expect(apiAuth.check('/model/query', { 'x-api-key': 's3cret' })).toBeNull();
+  });
+
+  it('rejects missing and wrong tokens with a 401 Unauthorized envelope', () => {
+    process.env.ARCHI_API_TOKEN = 's3cret';
+
+    const missing = apiAuth.check('/model/query', {});
+    expect(missing.statusCode).toBe(401);
+    expect(missing.body.error.code).toBe('Unauthorized');
+    expect(missing.body.error.message).toMatch(/API token required/);
+    expect(missing.headers['WWW-Authenticate']).toMatch(/^Bearer/);
+
+    const wrong = apiAuth.check('/model/query', { authorization: 'Bearer s3cre' });
+    expect(wrong.body.error.message).toBe('Invalid API token');
+    expect(apiAuth.check('/model/query', { 'x-api-key': 's3cret-plus' })).not.toBeNull();
+  });
+
+  it('skips the check for configured public paths', () => {
+    globalThis.serverConfig = { security: { apiToken: 's3cret', publicPaths: ['/health'] } };
+    expect(apiAuth.check('/health', {})).toBeNull();
+    expect(apiAuth.check('/model/stats', {})).not.toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for eventStream.js
+ *
+ * Exercises publish/subscribe, type filtering and Last-Event-ID replay with
+ * in-memory streams, without requiring a running server.
+ *
+ * Note: like serverConfig.js, the source module is a GraalVM IIFE that sets
+ * globalThis.eventStream, so we require() it and read from globalThis.
+ */
+
+import { createRequire } from 'module';
+
+const require = createRequire(import.meta.url);
+
+let eventStream;
+
+function memoryStream() {
+  const stream = {
+    chunks: [],
+    closed: false,
+    write(text) {
+      if (stream.closed) throw new Error('closed');
+      stream.chunks.push(text);
+    },
+    close() {
+      stream.closed = true;
+    },
+    events() {
+      return stream.chunks
+        .filter((chunk) => chunk.startsWith('id: '))
+        .map((chunk) => {
+          const lines = chunk.trim().split('\n');
+          return {
+            id: Number(lines[0].slice(4)),
+            event: lines[1].slice(7),
+            data: JSON.parse(lines[2].slice(6)),
+          };
+        });
+    },
+  };
+  return stream;
+}
+
+beforeAll(() => {
+  require('../../../scripts/lib/server/eventStream.js');
+  eventStream = globalThis.eventStream;
+  if (!eventStream) {
+    throw new Error('Failed to load eventStream from globalThis after require()');
+  }
+});
+
+afterEach(() => {
+  eventStream.stop();
+  eventStream._buffer = [];
+});
+
+describe('eventStream', () => {
+  it('broadcasts events in text/event-stream format', () => {
+    const stream = memoryStream();
+    expect(eventStream.subscribe(stream)).toBe(true);
+    const event = eventStream.publish('operation.queued', { opId: 'op_1' });
+
+    expect(stream.chunks[0]).toContain('retry: 3000');
+    expect(stream.chunks[1]).toBe(
+      `id: ${event.id}\nevent: operation.queued\ndata: ${JSON.stringify({
+        type: 'operation.queued',
+        timestamp: event.timestamp,
+        data: { opId: 'op_1' },
+      })}\n\n`
+    );
+  });
+
+  it('filters by exact type or type prefix', () => {
+    const operations = memoryStream();
+    const completions = memoryStream();
+    eventStream.subscribe(operations, { types: ['operation'] });
+    eventStream.subscribe(completions, { types: ['operation.complete', 'model.changed'] });
+
+    eventStream.publish('operation.queued', { opId: 'op_1' });
+    eventStream.publish('operation.complete', { opId: 'op_1' });
+    eventStream.publish('model.changed', { source: 'api' });
+    eventStream.publish('operations.other', {});
+
+    expect(operations.events().map((e) => e.event)).toEqual(['operation.queued', 'operation.complete']);
+    expect(completions.events().map((e) => e.event)).toEqual(['operation.complete', 'model.changed']);
+  });
+
+  it('replays buffered events newer than lastEventId', () => {
+    const first = eventStream.publish('operation.queued', { opId: 'op_1' });
+    eventStream.publish('operation.processing', { opId: 'op_1' });
+    eventStream.publish('operation.complete', { opId: 'op_1' });
+
+    const stream = memoryStream();
+    eventStream.subscribe(stream, { lastEventId: first.id, types: ['operation.complete'] });
+    expect(stream.events().map((e) => e.event)).toEqual(['operation.complete']);
+
+    const fresh = memoryStream();
+    eventStream.subscribe(fresh);
+    expect(fresh.events()).toEqual([]);
+  });
+
+  it('drops subscribers whose connection has gone away', () => {
+    const stream = memoryStream();
+    eventStream.subscribe(stream);
+    stream.closed = true;
+    eventStream.heartbeat();
+    expect(eventStream.getStats().subscribers).toBe(0);
+  });
+
+  it('drops a subscriber whose queue overflows without affecting the others', () => {
+    const slow = memoryStream();
+    const healthy = memoryStream();
+    eventStream.subscribe(slow);
+    eventStream.subscribe(healthy);
+    slow.write = () => {
+      throw new Error('Client too slow');
+    };
+
+    eventStream.publish('model.changed', { source: 'api' });
+    expect(slow.closed).toBe(true);
+    expect(healthy.events().map((e) => e.event)).toEqual(['model.changed']);
+    expect(eventStream.getStats().subscribers).toBe(1);
+  });
+
+  it('keeps subscribers that attach while a broadcast is running', () => {
+    const late = memoryStream();
+    const first = memoryStream();
+    const write = first.write;
+    first.write = (text) => {
+      write(text);
+      if (!late.chunks.length) eventStream.subscribe(late);
+    };
+    eventStream.subscribe(first);
+    const failing = memoryStream();
+    eventStream.subscribe(failing);
+    failing.closed = true;
+
+    eventStream.heartbeat();
+    expect(eventStream.getStats().subscribers).toBe(2);
+    eventStream.publish('model.changed', {});
+    expect(late.events().map((e) => e.event)).toEqual(['model.changed']);
+  });
+
+  it('enforces the subscriber limit and closes streams on stop', () => {
+    const streams = [];
+    for (let i = 0; i < 20; i++) {
+      const stream = memoryStream();
+      streams.push(stream);
+      expect(eventStream.subscribe(stream)).toBe(true);
+    }
+    expect(eventStream.canSubscribe()).toBe(false);
+    expect(eventStream.subscribe(memoryStream())).toBe(false);
+
+    eventStream.stop();
+    expect(streams.every((stream) => stream.closed)).toBe(true);
+    expect(eventStream.getStats().subscribers).toBe(0);
+  });
+
+  it('trims the replay buffer to the configured size', () => {
+    for (let i = 0; i < 510; i++) {
+      eventStream.publish('model.changed', { i });
+    }
+    expect(eventStream.getStats().buffered).toBe(500);
+  });
+});